@@ -20,3 +20,10 @@ if (!rootElement) {
     rootElement.innerHTML = `<div style="padding:20px;text-align:center"><h2>Erro ao iniciar App</h2><p>${String(error)}</p></div>`;
   }
 }
+
+// Service worker: permite abrir o app sem internet nos dias de distribuição
+if ('serviceWorker' in navigator && import.meta.env.PROD) {
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('./sw.js').catch((error) => console.error('Erro ao registrar service worker:', error));
+  });
+}
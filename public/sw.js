@@ -0,0 +1,82 @@
+// Service worker do ASA: guarda a "casca" do app (HTML, JS, CSS, fontes) para
+// abrir sem internet. Os dados ficam no IndexedDB (ver App.tsx, seção Offline);
+// chamadas ao Supabase nunca passam por este cache.
+
+const CACHE = "asa-app-v2";
+const CDN = ["cdn.tailwindcss.com", "fonts.googleapis.com", "fonts.gstatic.com"];
+
+// Arquivos que o index.html carrega (JS/CSS com hash do Vite, ícones, CDN).
+// Na primeira visita eles já foram baixados antes do service worker existir,
+// então entram no cache aqui; senão o app não abriria offline até a 2ª visita.
+async function precachear(cache) {
+  const res = await fetch("./index.html", { cache: "no-cache" });
+  const html = await res.clone().text();
+  await cache.put("./index.html", res);
+
+  const urls = [...html.matchAll(/(?:src|href)="([^"#]+)"/g)]
+    .map((m) => new URL(m[1], self.registration.scope))
+    .filter((url) => url.origin === self.location.origin || CDN.includes(url.hostname));
+  await Promise.all(
+    urls.map((url) =>
+      fetch(url.href, { mode: url.origin === self.location.origin ? "same-origin" : "no-cors" })
+        .then((r) => (r.ok || r.type === "opaque" ? cache.put(url.href, r) : undefined))
+        .catch(() => undefined)
+    )
+  );
+}
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    caches
+      .open(CACHE)
+      .then((cache) => Promise.all([cache.add("./"), precachear(cache)]))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) => Promise.all(keys.filter((k) => k !== CACHE).map((k) => caches.delete(k))))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener("fetch", (event) => {
+  const req = event.request;
+  if (req.method !== "GET") return;
+
+  const url = new URL(req.url);
+  const mesmoSite = url.origin === self.location.origin;
+  if (!mesmoSite && !CDN.includes(url.hostname)) return;
+
+  // Páginas: rede primeiro (pega a versão nova), cache se estiver offline
+  if (req.mode === "navigate") {
+    event.respondWith(
+      fetch(req)
+        .then((res) => {
+          const copia = res.clone();
+          caches.open(CACHE).then((cache) => cache.put("./index.html", copia));
+          return res;
+        })
+        .catch(() => caches.match("./index.html"))
+    );
+    return;
+  }
+
+  // Arquivos estáticos (nomes com hash do Vite) e CDN: cache primeiro
+  event.respondWith(
+    caches.match(req).then(
+      (hit) =>
+        hit ||
+        fetch(req).then((res) => {
+          if (res.ok || res.type === "opaque") {
+            const copia = res.clone();
+            caches.open(CACHE).then((cache) => cache.put(req, copia));
+          }
+          return res;
+        })
+    )
+  );
+});
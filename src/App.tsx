@@ -1,4 +1,4 @@
-import { useEffect, useMemo, useState, type FormEvent, type ReactNode } from "react";
+import { Fragment, useEffect, useMemo, useRef, useState, type FormEvent, type ReactNode } from "react";
 import { createClient, type Session } from "@supabase/supabase-js";
 import {
   LayoutDashboard,
@@ -15,6 +15,14 @@ import {
   Trash2,
   Pencil,
   AlertTriangle,
+  Copy,
+  History,
+  ArrowLeftRight,
+  ScrollText,
+  ScanBarcode,
+  Gift,
+  Target,
+  Upload,
 } from "lucide-react";
 
 /**
@@ -28,7 +36,8 @@ import {
  * ENV no Netlify:
  * - VITE_SUPABASE_URL
  * - VITE_SUPABASE_ANON_KEY
- * - VITE_ADMIN_EMAILS (opcional: emails separados por vírgula para forçar admin no front)
+ *
+ * Permissões são aplicadas no banco (RLS por profiles.role); canEdit/isAdmin aqui só escondem botões.
  */
 
 type Role = "viewer" | "editor" | "admin";
@@ -38,7 +47,10 @@ type ViewKey =
   | "eventos"
   | "beneficiarios"
   | "cestas"
+  | "doacoes"
   | "relatorios"
+  | "duplicados"
+  | "auditoria"
   | "usuarios";
 
 type Profile = {
@@ -47,6 +59,27 @@ type Profile = {
   role: Role;
 };
 
+// Unidade (filial/congregação) da ASA; estoque, beneficiários e eventos pertencem a uma
+type Unidade = {
+  id: string;
+  nome: string;
+};
+
+// Linha do painel de usuários (RPC admin_listar_usuarios)
+type AdminUsuario = {
+  id: string;
+  email: string | null;
+  role: Role;
+  disabled: boolean;
+  unidades: string[];
+  last_sign_in_at: string | null;
+  created_at: string | null;
+};
+
+type AdminAcao =
+  | { tipo: "papel"; userId: string; role: Role }
+  | { tipo: "bloqueio"; userId: string; disabled: boolean };
+
 type Beneficiario = {
   id: string; // TEXT (conforme seu SQL)
   name: string;
@@ -55,10 +88,38 @@ type Beneficiario = {
   phone: string;
   lastBasketDate: string | null;
   notes: string | null;
-  history: any[];
+  history: EntregaRegistro[];
+  status: BenefStatus;
+  archived_at: string | null; // arquivado em vez de excluído
+  unidade_id?: string | null;
   created_at: string;
 };
 
+type BenefStatus = "ativo" | "inativo" | "suspenso";
+
+// Registro de entrega gravado em beneficiarios.history (jsonb)
+type EntregaRegistro = {
+  date: string; // YYYY-MM-DD
+  basket_name: string;
+  items: Array<{ estoque_id: string; nome: string; quantidade: number; unidade: string }>;
+  operator_email: string | null;
+  note: string | null;
+  override_reason?: string | null; // entrega fora das regras de elegibilidade, autorizada por admin
+};
+
+// Regras de elegibilidade (configuracoes.key = 'eligibility_rules')
+type RegrasElegibilidade = {
+  intervalo_min_dias: number; // 0 = sem intervalo mínimo
+  max_por_mes: number; // 0 = sem limite
+  exigir_ativo: boolean;
+};
+
+type Elegibilidade = {
+  elegivel: boolean;
+  motivos: string[];
+  proxima_data: string | null; // YYYY-MM-DD quando voltará a ser elegível (se previsível)
+};
+
 type EstoqueItem = {
   id: string; // UUID
   nome: string | null;
@@ -72,22 +133,242 @@ type EstoqueItem = {
   data_entrada: string | null;
   status: string;
   observacoes: string | null;
+  unidade_id?: string | null;
+  // pacote/fardo: quanto vem em 1 (ex.: fardo de 10 kg) para converter nas cestas
+  conteudo_qtd?: number | null;
+  conteudo_unidade?: string | null;
   created_at: string | null;
 };
 
+// Livro de movimentações (public.estoque_movimentos): toda mudança de quantidade passa por aqui
+type MovimentoTipo = "entrada" | "doacao" | "saida_cesta" | "perda" | "ajuste" | "transferencia";
+
+type EstoqueMovimento = {
+  id: string;
+  estoque_id: string;
+  tipo: MovimentoTipo;
+  delta: number; // positivo = entrada, negativo = saída
+  saldo_apos: number;
+  motivo: string | null;
+  user_email: string | null;
+  created_at: string;
+};
+
+// Lote de um item: cada entrada com validade própria; saídas consomem primeiro o que vence antes (FEFO)
+type EstoqueLote = {
+  id: string;
+  estoque_id: string;
+  quantidade: number;
+  validade: string | null; // YYYY-MM-DD
+  data_entrada: string; // YYYY-MM-DD
+};
+
+// Locais de armazenamento (depósito, igreja X...) e saldo de cada item por local
+type LocalEstoque = {
+  id: string;
+  nome: string;
+  unidade_id: string | null;
+};
+
+type EstoqueSaldo = {
+  estoque_id: string;
+  local_id: string;
+  quantidade: number;
+};
+
+type TransferenciaStatus = "pendente" | "recebida" | "cancelada";
+
+// Sai da origem ao enviar; só entra no destino quando o lado que recebe confirma
+type Transferencia = {
+  id: string;
+  estoque_id: string;
+  item_nome: string;
+  item_unidade: string;
+  origem_local: string | null; // null = quantidade ainda sem local definido
+  destino_local: string;
+  quantidade: number;
+  status: TransferenciaStatus;
+  motivo: string | null;
+  enviado_por: string | null;
+  recebido_por: string | null;
+  created_at: string;
+  recebido_at: string | null;
+};
+
+// Escrita que pode esperar na fila (IndexedDB) quando não há internet
+type OperacaoDados =
+  | { tipo: "insert"; tabela: string; payload: Record<string, unknown>; descricao: string }
+  // "antes" = valores que a tela mostrava; se o servidor mudou nesse meio tempo, vira conflito
+  | {
+      tipo: "update";
+      tabela: string;
+      registroId: string;
+      payload: Record<string, unknown>;
+      antes: Record<string, unknown>;
+      descricao: string;
+    }
+  | { tipo: "rpc"; fn: string; args: Record<string, unknown>; descricao: string };
+
+type OperacaoOffline = OperacaoDados & { id: string; criado_em: string };
+
+type ConflitoOffline = {
+  op: OperacaoOffline;
+  erro: string;
+  em: string;
+};
+
+// Última cópia dos dados carregados, para abrir o app sem rede
+type CacheOffline = {
+  salvo_em: string;
+  beneficiarios: Beneficiario[];
+  estoque: EstoqueItem[];
+  eventos: Evento[];
+  templates: BasketTemplate[];
+  regras: RegrasElegibilidade;
+  assembledBaskets: number;
+};
+
+type DoadorTipo = "pessoa" | "igreja" | "empresa" | "campanha";
+
+type Doador = {
+  id: string;
+  nome: string;
+  tipo: DoadorTipo;
+  documento: string | null; // CPF/CNPJ, opcional
+  telefone: string | null;
+  email: string | null;
+  observacoes: string | null;
+  created_at: string;
+};
+
+// Linha de uma doação; estoque_id vazio = item novo, criado ao registrar
+type DoacaoItem = {
+  estoque_id: string | null;
+  nome: string;
+  categoria: string;
+  unidade: string;
+  quantidade: number;
+  validade: string | null;
+};
+
+type Doacao = {
+  id: string;
+  numero: number; // nº do recibo
+  doador_id: string;
+  campanha_id: string | null;
+  data: string; // YYYY-MM-DD
+  itens: DoacaoItem[];
+  observacoes: string | null;
+  registrado_por: string | null;
+  created_at: string;
+};
+
+// Meta de uma campanha: item do estoque + unidade de medida da meta. O banco
+// soma também o item de mesmo nome nas outras unidades (congregações).
+// Metas antigas não têm estoque_id e comparam só pelo nome.
+type CampanhaMeta = {
+  estoque_id?: string | null;
+  nome: string;
+  unidade: string;
+  meta: number;
+};
+
+type Campanha = {
+  id: string;
+  nome: string;
+  inicio: string; // YYYY-MM-DD
+  fim: string; // YYYY-MM-DD
+  metas: CampanhaMeta[];
+  created_at: string;
+};
+
+type CampanhaProgresso = {
+  doacoes: number;
+  // semConversao: linhas de doação do item em unidade que não converte para a da meta
+  linhas: { meta: CampanhaMeta; recebido: number; semConversao: number; pct: number }[];
+  geral: number; // média dos percentuais por item, cada um limitado a 100
+};
+
+// Planejamento de compras: um evento futuro com o modelo e a previsão de cestas
+type PlanoEvento = {
+  evento: Evento;
+  modeloId: string;
+  cestas: number;
+};
+
+type LinhaCompra = {
+  estoque_id: string;
+  nome: string;
+  categoria: string | null;
+  unidade: string;
+  necessario: number;
+  emEstoque: number;
+  vencendo: number; // lotes que vencem antes do primeiro evento que usa o item
+  comprar: number;
+  primeiroEvento: string; // YYYY-MM-DD
+  semConversao: string[]; // unidades do modelo que não convertem (fora de necessario/comprar)
+};
+
+type AuditoriaAcao = "insert" | "update" | "delete";
+
+// Linha de public.auditoria (preenchida por trigger em cada escrita)
+type AuditoriaRegistro = {
+  id: number;
+  created_at: string;
+  actor_id: string | null;
+  actor_email: string | null;
+  tabela: string;
+  registro_id: string | null;
+  acao: AuditoriaAcao;
+  antes: Record<string, any> | null;
+  depois: Record<string, any> | null;
+};
+
+type AuditoriaFiltro = {
+  email: string;
+  tabela: string;
+  de: string; // YYYY-MM-DD
+  ate: string; // YYYY-MM-DD (inclusive)
+};
+
 type Evento = {
   id: string; // TEXT
   title: string;
   date: string; // YYYY-MM-DD
   description: string | null;
+  modelo_id: string | null; // modelo de cesta usado no dia
+  unidade_id?: string | null;
+  cestas_consumidas: number;
+  cestas_previstas: number | null; // quantas cestas se espera entregar (planejamento de compras)
+  status: EventoStatus;
+  cancel_reason: string | null;
+  reagendado_de: string | null; // data original, se foi reagendado
+  revisao: number; // SEQUENCE do .ics: sobe a cada mudança de data, título, descrição ou status
+  updated_at: string | null;
   created_at: string;
 };
 
+type EventoStatus = "planejado" | "realizado" | "cancelado";
+
+// Lista de presença do evento (public.eventos_participantes)
+type ParticipanteStatus = "convidado" | "presente" | "ausente" | "entregue";
+
+type EventoParticipante = {
+  id: string;
+  evento_id: string;
+  beneficiario_id: string;
+  status: ParticipanteStatus;
+  updated_at: string | null;
+};
+
+// Uma linha por lote (view alertas_validade): id é o item, lote_id o lote que vence
 type AlertValidade = {
   id: string;
+  lote_id: string | null;
   nome: string;
   categoria: string;
   validade: string;
+  quantidade: number | null;
   dias_para_vencer: number;
 };
 
@@ -105,6 +386,7 @@ type BasketConfigItem = {
   nome: string;
   quantidade: number; // por cesta
   unidade: string;
+  extra_por_membro?: number; // acréscimo por membro acima de base_familia
 };
 
 type BasketConfig = {
@@ -112,6 +394,16 @@ type BasketConfig = {
   items: BasketConfigItem[];
 };
 
+// Modelos de cesta (public.cestas_modelos): padrão, família grande, kit higiene, etc.
+type BasketTemplate = BasketConfig & {
+  id: string;
+  assembled_count: number; // cestas montadas com este modelo
+  base_familia: number; // tamanho de família coberto pela quantidade base
+  familia_min: number | null; // faixa de família atendida (ex.: "família grande" 6+)
+  familia_max: number | null;
+  legado?: boolean; // basket_config antigo (sem a tabela cestas_modelos): só leitura
+};
+
 
 const supabaseUrl = (import.meta as any).env?.VITE_SUPABASE_URL as string | undefined;
 const supabaseAnon = (import.meta as any).env?.VITE_SUPABASE_ANON_KEY as string | undefined;
@@ -184,25 +476,36 @@ function SidebarButton({
   );
 }
 
+const PROFILE_STORAGE_KEY = "asa.profile"; // último perfil lido, para trabalhar offline
+
 async function fetchMyProfile(): Promise<Profile | null> {
   if (!supabase) return null;
 
+  // sem rede, getUser falha; a sessão guardada no navegador basta para identificar
   const { data: userData } = await supabase.auth.getUser();
-  const user = userData?.user;
+  const user = userData?.user ?? (await supabase.auth.getSession()).data.session?.user;
   if (!user) return null;
 
   const { data, error } = await supabase
     .from("profiles")
-    .select("id,email,role")
+    .select("*")
     .eq("id", user.id)
     .maybeSingle();
 
   if (!error && data) {
-    return {
+    const p: Profile = {
       id: String(data.id),
       email: (data.email as string | null) ?? user.email ?? null,
-      role: (data.role as Role) ?? "viewer",
+      // conta desativada pelo admin: no máximo leitura, mesmo que o papel seja maior
+      role: data.disabled ? "viewer" : ((data.role as Role) ?? "viewer"),
     };
+    localStorage.setItem(PROFILE_STORAGE_KEY, JSON.stringify(p));
+    return p;
+  }
+
+  if (error && ehErroDeRede(error)) {
+    const salvo = JSON.parse(localStorage.getItem(PROFILE_STORAGE_KEY) ?? "null") as Profile | null;
+    if (salvo?.id === user.id) return salvo;
   }
 
   // fallback: cria perfil se não existir (se RLS bloquear, segue como viewer)
@@ -212,1715 +515,8508 @@ async function fetchMyProfile(): Promise<Profile | null> {
   return { id: user.id, email, role: "viewer" };
 }
 
-function prettyCat(c?: string | null) {
-  const m: Record<string, string> = {
-    alimento_perecivel: "Alimento (Perecível)",
-    alimento_nao_perecivel: "Alimento (Não perecível)",
-    higiene: "Higiene",
-    roupa_masculina: "Vestimenta (Masculino)",
-    roupa_feminina: "Vestimenta (Feminino)",
-    roupa_infantil: "Vestimenta (Infantil)",
-    movel: "Móveis",
-    outros: "Outros",
-  };
-  if (!c) return "-";
-  return m[c] ?? c;
+function normalizeHistory(raw: any): EntregaRegistro[] {
+  // history antigo pode vir vazio, null ou com o formato { date, note }
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .filter((r) => r && typeof r === "object" && r.date)
+    .map((r) => ({
+      date: String(r.date),
+      basket_name: String(r.basket_name ?? r.basketName ?? "Cesta"),
+      items: Array.isArray(r.items)
+        ? r.items.map((it: any) => ({
+            estoque_id: String(it.estoque_id ?? it.id ?? ""),
+            nome: String(it.nome ?? it.name ?? ""),
+            quantidade: Number(it.quantidade ?? it.quantity ?? 0),
+            unidade: String(it.unidade ?? it.unit ?? "unidade"),
+          }))
+        : [],
+      operator_email: r.operator_email == null ? null : String(r.operator_email),
+      note: r.note == null || r.note === "" ? null : String(r.note),
+      override_reason: r.override_reason == null ? null : String(r.override_reason),
+    }));
 }
 
-export default function App() {
-  const [session, setSession] = useState<Session | null>(null);
-  const [booting, setBooting] = useState(true);
+// Mesmas regras de public.motivos_inelegibilidade: aqui só para avisar antes; quem barra é o banco
+const REGRAS_PADRAO: RegrasElegibilidade = { intervalo_min_dias: 30, max_por_mes: 1, exigir_ativo: true };
 
-  const [authTab, setAuthTab] = useState<"login" | "signup">("login");
-  const [email, setEmail] = useState("");
-  const [password, setPassword] = useState("");
-  const [confirmPassword, setConfirmPassword] = useState("");
+function parseRegras(v: any): RegrasElegibilidade {
+  if (!v || typeof v !== "object") return REGRAS_PADRAO;
+  return {
+    intervalo_min_dias: Math.max(0, Number(v.intervalo_min_dias ?? REGRAS_PADRAO.intervalo_min_dias)),
+    max_por_mes: Math.max(0, Number(v.max_por_mes ?? REGRAS_PADRAO.max_por_mes)),
+    exigir_ativo: v.exigir_ativo == null ? REGRAS_PADRAO.exigir_ativo : Boolean(v.exigir_ativo),
+  };
+}
 
-  const [authBusy, setAuthBusy] = useState(false);
-  const [authError, setAuthError] = useState<string | null>(null);
+function addDaysISO(iso: string, days: number) {
+  const d = parseLocalDate(iso);
+  d.setDate(d.getDate() + days);
+  return toISODateLocal(d);
+}
 
-  const [profile, setProfile] = useState<Profile | null>(null);
+function avaliarElegibilidade(b: Beneficiario, regras: RegrasElegibilidade, hoje: string): Elegibilidade {
+  const motivos: string[] = [];
+  let proxima: string | null = null;
 
-  const adminEmails = useMemo(
-    () =>
-      String((import.meta as any).env?.VITE_ADMIN_EMAILS || "")
-        .split(",")
-        .map((s: string) => s.trim().toLowerCase())
-        .filter(Boolean),
-    []
-  );
+  if (b.archived_at) motivos.push("cadastro arquivado");
+  if (regras.exigir_ativo && b.status !== "ativo") motivos.push(`status ${BENEF_STATUS_LABEL[b.status] ?? b.status}`);
+  // bloqueios por cadastro não têm data prevista de liberação
+  const bloqueioCadastro = motivos.length > 0;
 
-  const canEdit = useMemo(() => {
-    if (!session) return false;
-    const role = profile?.role ?? "viewer";
-    const emailLower = String(session.user?.email || "").toLowerCase();
-    const forceAdmin = adminEmails.includes(emailLower);
-    return forceAdmin || role === "editor" || role === "admin";
-  }, [adminEmails, profile, session]);
+  const datas = b.history.map((h) => h.date);
+  if (b.lastBasketDate) datas.push(b.lastBasketDate);
+  const ultima = datas.length > 0 ? datas.sort().slice(-1)[0] : null;
 
-  const isAdmin = useMemo(() => {
-    if (!session) return false;
-    const role = profile?.role ?? "viewer";
-    const emailLower = String(session.user?.email || "").toLowerCase();
-    const forceAdmin = adminEmails.includes(emailLower);
-    return forceAdmin || role === "admin";
-  }, [adminEmails, profile, session]);
+  if (ultima && regras.intervalo_min_dias > 0) {
+    const libera = addDaysISO(ultima, regras.intervalo_min_dias);
+    if (libera > hoje) {
+      motivos.push(`última cesta em ${fmtDateBR(ultima)} (intervalo de ${regras.intervalo_min_dias} dias)`);
+      proxima = libera;
+    }
+  }
 
-  const [view, setView] = useState<ViewKey>("dashboard");
+  if (regras.max_por_mes > 0) {
+    const mes = hoje.slice(0, 7);
+    const noMes = b.history.filter((h) => h.date.slice(0, 7) === mes).length;
+    if (noMes >= regras.max_por_mes) {
+      motivos.push(`${noMes} cesta(s) neste mês (máx. ${regras.max_por_mes})`);
+      const [y, m] = mes.split("-").map(Number);
+      const proxMes = `${m === 12 ? y + 1 : y}-${String(m === 12 ? 1 : m + 1).padStart(2, "0")}-01`;
+      if (!proxima || proxMes > proxima) proxima = proxMes;
+    }
+  }
 
-  // ---------- Data ----------
-  const [beneficiarios, setBeneficiarios] = useState<Beneficiario[]>([]);
-  const [estoque, setEstoque] = useState<EstoqueItem[]>([]);
-  const [eventos, setEventos] = useState<Evento[]>([]);
-  const [alertValidade, setAlertValidade] = useState<AlertValidade[]>([]);
-  const [alertMinimo, setAlertMinimo] = useState<AlertMinimo[]>([]);
-const [basketConfig, setBasketConfig] = useState<BasketConfig>({ name: "Cesta Básica Padrão", items: [] });
-  const [assembledBaskets, setAssembledBaskets] = useState<number>(0);
+  return { elegivel: motivos.length === 0, motivos, proxima_data: bloqueioCadastro ? null : proxima };
+}
 
-  const [dataErr, setDataErr] = useState<string | null>(null);
-  const [dataLoading, setDataLoading] = useState(false);
+function parseBasketItems(raw: any): BasketConfigItem[] {
+  if (!Array.isArray(raw)) return [];
+  return raw.map((it: any) => ({
+    estoque_id: String(it.estoque_id ?? it.id ?? ""),
+    nome: String(it.nome ?? it.name ?? ""),
+    quantidade: Number(it.quantidade ?? it.quantity ?? 0),
+    unidade: String(it.unidade ?? it.unit ?? "unidade"),
+    extra_por_membro: Number(it.extra_por_membro ?? 0),
+  }));
+}
 
-  // ---------- Estoque modal ----------
-  const [itemModalOpen, setItemModalOpen] = useState(false);
-  const [editingItem, setEditingItem] = useState<EstoqueItem | null>(null);
+function newTemplate(): BasketTemplate {
+  return {
+    id: genTextId(),
+    name: "Nova cesta",
+    items: [],
+    assembled_count: 0,
+    base_familia: 4,
+    familia_min: null,
+    familia_max: null,
+  };
+}
 
-  // ---------- Beneficiário modal (criar) ----------
-  const [benefModalOpen, setBenefModalOpen] = useState(false);
-  const [formBenef, setFormBenef] = useState<{ name: string; familySize: number; phone: string; address: string; notes: string }>(
-    { name: "", familySize: 1, phone: "", address: "", notes: "" }
-  );
+function familiaNaFaixa(t: BasketTemplate, familySize: number) {
+  if (t.familia_min != null && familySize < t.familia_min) return false;
+  if (t.familia_max != null && familySize > t.familia_max) return false;
+  return true;
+}
 
-  // ---------- Evento modal (criar) ----------
-  const [eventModalOpen, setEventModalOpen] = useState(false);
-  const [formEvento, setFormEvento] = useState<{ title: string; date: string; description: string }>(
-    { title: "", date: new Date().toISOString().slice(0, 10), description: "" }
-  );
+// Modelo indicado para a família: prefere os que têm faixa definida
+function modeloParaFamilia(templates: BasketTemplate[], familySize: number) {
+  const ranged = templates.filter((t) => (t.familia_min != null || t.familia_max != null) && familiaNaFaixa(t, familySize));
+  return ranged[0] ?? templates.find((t) => t.familia_min == null && t.familia_max == null) ?? null;
+}
 
-  const emptyItem = useMemo(
-    () => ({
-      nome: "",
-      categoria: "alimento_nao_perecivel",
-      quantidade: 0,
-      unidade: "unidade",
-      validade: "",
-      status_conservacao: "",
-      codigo_barras: "",
-      minimo_alerta: 0,
-      data_entrada: "",
-      status: "disponivel",
-      observacoes: "",
-    }),
-    []
-  );
+// Quantidades de uma cesta para uma família: base + extra por membro acima de base_familia
+function itensParaFamilia(t: BasketTemplate, familySize: number): BasketConfigItem[] {
+  const extras = Math.max(0, Math.floor(familySize) - t.base_familia);
+  return t.items.map((it) => ({
+    ...it,
+    quantidade: Number(it.quantidade ?? 0) + Number(it.extra_por_membro ?? 0) * extras,
+  }));
+}
 
-  const [formItem, setFormItem] = useState<any>(emptyItem);
+// Registros de entrega + totais a baixar para um grupo de beneficiários
+function prepararEntregas(
+  t: BasketTemplate,
+  targets: Beneficiario[],
+  opts: { date: string; operatorEmail: string | null; note: string | null; overrideReason?: (b: Beneficiario) => string | null }
+) {
+  const entregas = targets.map((b) => ({
+    beneficiario_id: b.id,
+    entrega: {
+      date: opts.date,
+      basket_name: t.name,
+      items: itensParaFamilia(t, b.familySize).map((it) => ({
+        estoque_id: it.estoque_id,
+        nome: it.nome,
+        quantidade: Number(it.quantidade ?? 0),
+        unidade: it.unidade,
+      })),
+      operator_email: opts.operatorEmail,
+      note: opts.note,
+      override_reason: opts.overrideReason ? opts.overrideReason(b) : null,
+    } as EntregaRegistro,
+  }));
+  return { entregas, totais: somarItens(entregas.map((e) => e.entrega.items)) };
+}
 
-  // ---------- boot/auth ----------
-  useEffect(() => {
-    if (!supabase) {
-      setBooting(false);
-      return;
+function somarItens(lists: BasketConfigItem[][]): BasketConfigItem[] {
+  const by = new Map<string, BasketConfigItem>();
+  for (const list of lists) {
+    for (const it of list) {
+      const cur = by.get(it.estoque_id);
+      if (cur) cur.quantidade += Number(it.quantidade ?? 0);
+      else by.set(it.estoque_id, { ...it, quantidade: Number(it.quantidade ?? 0) });
     }
+  }
+  return [...by.values()];
+}
 
-    supabase.auth.getSession().then(({ data }) => {
-      setSession(data.session ?? null);
-      setBooting(false);
-    });
-
-    const { data: listener } = supabase.auth.onAuthStateChange((_evt, s) => {
-      setSession(s);
-    });
+// YYYY-MM-DD da data LOCAL (toISOString usa UTC e pode "pular" o dia à noite no Brasil)
+function toISODateLocal(d: Date) {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+}
 
-    return () => listener.subscription.unsubscribe();
-  }, []);
+function todayISO() {
+  return toISODateLocal(new Date());
+}
 
-  useEffect(() => {
-    let cancelled = false;
-    (async () => {
-      if (!supabase || !session) {
-        setProfile(null);
-        return;
-      }
-      const p = await fetchMyProfile();
-      if (!cancelled) setProfile(p);
-    })();
-    return () => {
-      cancelled = true;
-    };
-  }, [session]);
+const MOVIMENTO_LABEL: Record<MovimentoTipo, string> = {
+  entrada: "Entrada",
+  doacao: "Doação",
+  saida_cesta: "Saída (cesta)",
+  perda: "Perda / vencimento",
+  ajuste: "Ajuste manual",
+  transferencia: "Transferência",
+};
 
-  const doLogin = async (e: FormEvent) => {
-    e.preventDefault();
-    setAuthError(null);
+// Tipos que só aceitam entrada (+) ou só saída (-); "ajuste" aceita os dois
+const MOVIMENTO_SINAL: Record<MovimentoTipo, 1 | -1 | 0> = {
+  entrada: 1,
+  doacao: 1,
+  saida_cesta: -1,
+  perda: -1,
+  ajuste: 0,
+  transferencia: 0,
+};
 
-    if (!supabase) {
-      setAuthError("Supabase não configurado. Defina VITE_SUPABASE_URL e VITE_SUPABASE_ANON_KEY no Netlify.");
-      return;
+async function movimentarEstoque(
+  estoqueId: string,
+  tipo: MovimentoTipo,
+  delta: number,
+  motivo: string | null,
+  validade: string | null = null // validade do lote criado por uma entrada
+) {
+  if (!supabase) throw new Error("Supabase não configurado.");
+  const { data, error } = await supabase.rpc("movimentar_estoque", {
+    p_estoque_id: estoqueId,
+    p_tipo: tipo,
+    p_delta: delta,
+    p_motivo: motivo,
+    p_validade: validade || null,
+  });
+  if (error) {
+    if (error.code === "PGRST202") {
+      throw new Error("Função movimentar_estoque não existe no banco. Rode o supabase_schema.sql atualizado.");
     }
+    throw new Error(error.message);
+  }
+  return Number((data as any)?.quantidade ?? 0);
+}
 
-    setAuthBusy(true);
-    const { error } = await supabase.auth.signInWithPassword({ email, password });
-    setAuthBusy(false);
+async function fetchMovimentos(estoqueId: string): Promise<EstoqueMovimento[]> {
+  if (!supabase) return [];
+  const { data, error } = await supabase
+    .from("estoque_movimentos")
+    .select("id,estoque_id,tipo,delta,saldo_apos,motivo,user_email,created_at")
+    .eq("estoque_id", estoqueId)
+    .order("created_at", { ascending: true });
+  if (error) throw new Error(error.message);
+  return ((data as any[]) ?? []).map((r) => ({
+    id: String(r.id),
+    estoque_id: String(r.estoque_id),
+    tipo: r.tipo as MovimentoTipo,
+    delta: Number(r.delta ?? 0),
+    saldo_apos: Number(r.saldo_apos ?? 0),
+    motivo: r.motivo == null ? null : String(r.motivo),
+    user_email: r.user_email == null ? null : String(r.user_email),
+    created_at: String(r.created_at),
+  }));
+}
 
-    if (error) setAuthError(error.message);
-  };
+// Reconstrói o saldo a partir do livro (auditoria): soma dos deltas em ordem cronológica
+function saldoPorMovimentos(movs: EstoqueMovimento[]) {
+  return movs.reduce((acc, m) => acc + Number(m.delta || 0), 0);
+}
 
-  const doSignup = async (e: FormEvent) => {
-    e.preventDefault();
-    setAuthError(null);
+// Lotes com saldo de vários itens de uma vez (planejamento de compras)
+async function fetchLotesDosItens(estoqueIds: string[]): Promise<EstoqueLote[]> {
+  if (!supabase || estoqueIds.length === 0) return [];
+  const { data, error } = await supabase
+    .from("estoque_lotes")
+    .select("id,estoque_id,quantidade,validade,data_entrada")
+    .in("estoque_id", estoqueIds)
+    .gt("quantidade", 0);
+  if (error) throw new Error(error.message);
+  return ((data as any[]) ?? []).map((r) => ({
+    id: String(r.id),
+    estoque_id: String(r.estoque_id),
+    quantidade: Number(r.quantidade ?? 0),
+    validade: r.validade ?? null,
+    data_entrada: String(r.data_entrada ?? ""),
+  }));
+}
 
-    // validações básicas no front
-    if ((password || "").length < 8) {
-      setAuthError("A senha precisa ter pelo menos 8 caracteres.");
-      return;
-    }
-    if (password !== confirmPassword) {
-      setAuthError("As senhas não conferem.");
-      return;
+/**
+ * Quanto falta comprar (ou pedir em doação) para atender os eventos planejados.
+ * Usa a quantidade base de cada item do modelo (sem o acréscimo por membro),
+ * convertida para a unidade do estoque, e desconta do estoque os lotes que vencem antes do primeiro evento que usa o item.
+ */
+function planejarCompras(
+  planos: PlanoEvento[],
+  templates: BasketTemplate[],
+  estoque: EstoqueItem[],
+  lotes: EstoqueLote[],
+  manterMinimo: boolean
+): LinhaCompra[] {
+  const tplById = new Map(templates.map((t) => [t.id, t] as const));
+  const itemById = new Map(estoque.map((i) => [i.id, i] as const));
+  const linhas = new Map<string, LinhaCompra>();
+
+  for (const p of [...planos].sort((a, b) => a.evento.date.localeCompare(b.evento.date))) {
+    const tpl = tplById.get(p.modeloId);
+    if (!tpl || p.cestas <= 0) continue;
+    for (const it of tpl.items) {
+      const item = itemById.get(it.estoque_id);
+      const cur = linhas.get(it.estoque_id) ?? {
+        estoque_id: it.estoque_id,
+        nome: item?.nome ?? it.nome,
+        categoria: item?.categoria ?? null,
+        unidade: item?.unidade ?? it.unidade,
+        necessario: 0,
+        emEstoque: Number(item?.quantidade ?? 0),
+        vencendo: 0,
+        comprar: 0,
+        primeiroEvento: p.evento.date,
+        semConversao: [],
+      };
+      const fator = item ? fatorConversao(item, it.unidade) : 1;
+      if (fator == null) {
+        if (!cur.semConversao.includes(it.unidade)) cur.semConversao.push(it.unidade);
+      } else {
+        cur.necessario = arredondarQtd(cur.necessario + Number(it.quantidade || 0) * fator * p.cestas);
+      }
+      linhas.set(it.estoque_id, cur);
     }
+  }
 
-    if (!supabase) {
-      setAuthError("Supabase não configurado. Defina VITE_SUPABASE_URL e VITE_SUPABASE_ANON_KEY no Netlify.");
-      return;
-    }
+  for (const l of linhas.values()) {
+    l.vencendo = lotes
+      .filter((lt) => lt.estoque_id === l.estoque_id && lt.validade && lt.validade < l.primeiroEvento)
+      .reduce((acc, lt) => acc + lt.quantidade, 0);
+    const reserva = manterMinimo ? Number(itemById.get(l.estoque_id)?.minimo_alerta ?? 0) : 0;
+    const disponivel = Math.max(0, l.emEstoque - Math.min(l.vencendo, l.emEstoque));
+    l.comprar = arredondarQtd(Math.max(0, l.necessario + reserva - disponivel));
+  }
 
-    setAuthBusy(true);
-    const { data, error } = await supabase.auth.signUp({ email, password });
-    setAuthBusy(false);
+  return [...linhas.values()].sort((a, b) => b.comprar - a.comprar || a.nome.localeCompare(b.nome));
+}
 
-    if (error) {
-      setAuthError(error.message);
-      return;
-    }
+async function fetchLotes(estoqueId: string): Promise<EstoqueLote[]> {
+  if (!supabase) return [];
+  const { data, error } = await supabase
+    .from("estoque_lotes")
+    .select("id,estoque_id,quantidade,validade,data_entrada")
+    .eq("estoque_id", estoqueId)
+    .gt("quantidade", 0);
+  if (error) throw new Error(error.message);
+  return ordenarFEFO(
+    ((data as any[]) ?? []).map((r) => ({
+      id: String(r.id),
+      estoque_id: String(r.estoque_id),
+      quantidade: Number(r.quantidade ?? 0),
+      validade: r.validade ?? null,
+      data_entrada: String(r.data_entrada ?? ""),
+    }))
+  );
+}
 
-    // (opcional, mas ajuda bastante) tenta garantir o profile para novos usuários
-    // Se você já tem trigger no banco (handle_new_user), isso só reforça.
-    const u = data?.user;
-    if (u?.id) {
-      await supabase
-        .from("profiles")
-        .upsert([{ id: u.id, email: u.email ?? null, role: "viewer" }], { onConflict: "id" });
-    }
+/** Mesma ordem de consumo de consumir_lotes (supabase_schema.sql): vence antes, sem validade por último. */
+function ordenarFEFO(lotes: EstoqueLote[]) {
+  return [...lotes].sort(
+    (a, b) =>
+      (a.validade ?? "9999-12-31").localeCompare(b.validade ?? "9999-12-31") ||
+      a.data_entrada.localeCompare(b.data_entrada)
+  );
+}
 
-    setPassword("");
-    setConfirmPassword("");
-    setAuthTab("login");
-    setAuthError(
-      "Conta criada! Se o Supabase exigir confirmação por e-mail, confirme e depois faça login."
-    );
-  };
+/** Quanto sai de cada lote para uma saída de `qtd`; `semLote` é o que excede os lotes registrados. */
+function planoFEFO(lotes: EstoqueLote[], qtd: number) {
+  let resta = qtd;
+  const uso: Array<{ lote: EstoqueLote; quantidade: number }> = [];
+  for (const lote of ordenarFEFO(lotes)) {
+    if (resta <= 0) break;
+    const q = Math.min(lote.quantidade, resta);
+    if (q > 0) uso.push({ lote, quantidade: q });
+    resta -= q;
+  }
+  return { uso, semLote: Math.max(0, resta) };
+}
 
-  const logout = async () => {
-    if (supabase) await supabase.auth.signOut();
-  };
+// ---------- Locais e transferências ----------
+const TRANSFERENCIA_STATUS_LABEL: Record<TransferenciaStatus, string> = {
+  pendente: "Pendente",
+  recebida: "Recebida",
+  cancelada: "Cancelada",
+};
 
-  // ---------- Load all data ----------
-  const loadAll = async () => {
-    if (!supabase) return;
-    setDataErr(null);
-    setDataLoading(true);
+async function fetchLocais(): Promise<LocalEstoque[]> {
+  if (!supabase) return [];
+  const { data, error } = await supabase.from("locais_estoque").select("id,nome,unidade_id").order("nome");
+  if (error) throw new Error(error.message);
+  return ((data as any[]) ?? []).map((r) => ({
+    id: String(r.id),
+    nome: String(r.nome ?? r.id),
+    unidade_id: r.unidade_id == null ? null : String(r.unidade_id),
+  }));
+}
 
-    try {
-      // Beneficiários
-      const b = await supabase.from("beneficiarios").select("*").order("created_at", { ascending: false });
-      if (b.error) throw b.error;
+async function fetchSaldos(estoqueIds: string[]): Promise<EstoqueSaldo[]> {
+  if (!supabase || estoqueIds.length === 0) return [];
+  const { data, error } = await supabase
+    .from("estoque_saldos")
+    .select("estoque_id,local_id,quantidade")
+    .in("estoque_id", estoqueIds);
+  if (error) throw new Error(error.message);
+  return ((data as any[]) ?? []).map((r) => ({
+    estoque_id: String(r.estoque_id),
+    local_id: String(r.local_id),
+    quantidade: Number(r.quantidade ?? 0),
+  }));
+}
 
-      // Eventos
-      const e = await supabase.from("eventos_entrega").select("*").order("date", { ascending: true });
-      if (e.error) throw e.error;
+async function fetchTransferencias(): Promise<Transferencia[]> {
+  if (!supabase) return [];
+  const { data, error } = await supabase
+    .from("transferencias")
+    .select("*")
+    .order("created_at", { ascending: false })
+    .limit(200);
+  if (error) throw new Error(error.message);
+  return ((data as any[]) ?? []).map((r) => ({
+    ...r,
+    id: String(r.id),
+    estoque_id: String(r.estoque_id),
+    quantidade: Number(r.quantidade ?? 0),
+    status: (r.status as TransferenciaStatus) ?? "pendente",
+  })) as Transferencia[];
+}
 
-      // Estoque
-      const s = await supabase
-        .from("estoque")
-        .select("id,nome,categoria,quantidade,unidade,validade,status_conservacao,codigo_barras,minimo_alerta,data_entrada,status,observacoes,created_at")
-        .order("created_at", { ascending: false });
-      if (s.error) throw s.error;
+/** Parte do saldo que ainda não foi atribuída a nenhum local. */
+function saldoSemLocal(item: EstoqueItem, saldos: EstoqueSaldo[]) {
+  const alocado = saldos.filter((s) => s.estoque_id === item.id).reduce((acc, s) => acc + s.quantidade, 0);
+  return Number(item.quantidade ?? 0) - alocado;
+}
 
-      // Alertas (views)
-      const av = await supabase.from("alertas_validade").select("*").order("dias_para_vencer", { ascending: true });
-      const am = await supabase.from("alertas_minimo").select("*").order("falta_para_minimo", { ascending: false });
+/** Espelho local das checagens de transferir_estoque (supabase_schema.sql). Retorna a mensagem de erro ou null. */
+function validarTransferencia(
+  item: EstoqueItem,
+  saldos: EstoqueSaldo[],
+  origem: string | null,
+  destino: string,
+  quantidade: number
+): string | null {
+  if (!(quantidade > 0)) return "Informe uma quantidade maior que zero.";
+  if (!destino) return "Escolha o local de destino.";
+  if (origem === destino) return "Origem e destino são o mesmo local.";
+  const disponivel =
+    origem == null
+      ? saldoSemLocal(item, saldos)
+      : saldos.find((s) => s.estoque_id === item.id && s.local_id === origem)?.quantidade ?? 0;
+  if (quantidade > disponivel) return `Saldo insuficiente na origem (tem ${Math.max(0, disponivel)}).`;
+  return null;
+}
 
-      // views podem falhar se não existirem ainda
-      setAlertValidade((av.data as any[])?.map((r) => ({
-        id: String(r.id),
-        nome: String(r.nome),
-        categoria: String(r.categoria),
-        validade: String(r.validade),
-        dias_para_vencer: Number(r.dias_para_vencer),
-      })) ?? []);
-      setAlertMinimo((am.data as any[])?.map((r) => ({
-        id: String(r.id),
-        nome: String(r.nome),
-        categoria: String(r.categoria),
-        quantidade: Number(r.quantidade ?? 0),
-        minimo: Number(r.minimo ?? 0),
-        falta_para_minimo: Number(r.falta_para_minimo ?? 0),
-      })) ?? []);
+async function rpcTransferencia(fn: string, args: Record<string, unknown>) {
+  if (!supabase) throw new Error("Supabase não configurado.");
+  const { error } = await supabase.rpc(fn, args);
+  if (error) {
+    if (error.code === "PGRST202") {
+      throw new Error(`Função ${fn} não existe no banco. Rode o supabase_schema.sql atualizado.`);
+    }
+    throw new Error(error.message);
+  }
+}
 
+// ---------- Leitura de código de barras (EAN-13 / EAN-8) ----------
+// Larguras (em módulos) de cada dígito: espaço-barra-espaço-barra no conjunto L;
+// o conjunto G é o L espelhado e o R tem as mesmas larguras do L (cores invertidas).
+const EAN_L = ["3211", "2221", "2122", "1411", "1132", "1231", "1114", "1312", "1213", "3112"].map((p) =>
+  p.split("").map(Number)
+);
+const EAN_G = EAN_L.map((p) => [...p].reverse());
+// Paridade dos 6 dígitos da esquerda define o 1º dígito do EAN-13
+const EAN13_PARIDADE = ["LLLLLL", "LLGLGG", "LLGGLG", "LLGGGL", "LGLLGG", "LGGLLG", "LGGGLL", "LGLGLG", "LGLGGL", "LGGLGL"];
+
+function eanValido(codigo: string) {
+  if (!/^(\d{8}|\d{13})$/.test(codigo)) return false;
+  const digs = codigo.split("").map(Number);
+  const check = digs.pop()!;
+  // da direita para a esquerda, pesos 3,1,3,1...
+  const soma = digs.reverse().reduce((acc, d, i) => acc + d * (i % 2 === 0 ? 3 : 1), 0);
+  return (10 - (soma % 10)) % 10 === check;
+}
 
-// Configurações (cestas + contador)
-const cfg = await supabase
-  .from("configuracoes")
-  .select("key,value")
-  .in("key", ["basket_config", "assembled_baskets"]);
+function melhorDigitoEAN(larguras: number[], padroes: number[][]) {
+  const total = larguras.reduce((a, b) => a + b, 0);
+  let melhor = { digito: -1, erro: Infinity };
+  padroes.forEach((p, digito) => {
+    const erro = larguras.reduce((acc, w, k) => acc + (w * 7 / total - p[k]) ** 2, 0);
+    if (erro < melhor.erro) melhor = { digito, erro };
+  });
+  return melhor;
+}
 
-if (!cfg.error && cfg.data) {
-  const basketRow = (cfg.data as any[]).find((r) => r.key === "basket_config");
-  if (basketRow?.value) {
-    const v = basketRow.value as any;
-    if (v && typeof v === "object") {
-      setBasketConfig({
-        name: String(v.name ?? "Cesta Básica Padrão"),
-        items: Array.isArray(v.items)
-          ? v.items.map((it: any) => ({
-              estoque_id: String(it.estoque_id ?? it.id ?? ""),
-              nome: String(it.nome ?? it.name ?? ""),
-              quantidade: Number(it.quantidade ?? it.quantity ?? 0),
-              unidade: String(it.unidade ?? it.unit ?? "unidade"),
-            }))
-          : [],
-      });
-    }
+/** Tenta ler um EAN começando na barra `inicio` da lista de larguras (barra, espaço, barra, ...). */
+function decodificarEAN(runs: number[], inicio: number, tipo: 13 | 8): string | null {
+  const metade = tipo === 13 ? 6 : 4;
+  if (inicio + 3 + metade * 8 + 5 + 3 > runs.length) return null;
+
+  const guarda = runs.slice(inicio, inicio + 3);
+  const modulo = guarda.reduce((a, b) => a + b, 0) / 3;
+  if (guarda.some((w) => w < modulo * 0.5 || w > modulo * 1.5)) return null;
+
+  const LIMITE = 1.5;
+  let pos = inicio + 3;
+  let digitos = "";
+  let paridade = "";
+
+  for (let k = 0; k < metade; k++, pos += 4) {
+    const w = runs.slice(pos, pos + 4);
+    const l = melhorDigitoEAN(w, EAN_L);
+    const g = tipo === 13 ? melhorDigitoEAN(w, EAN_G) : { digito: -1, erro: Infinity };
+    const usa = g.erro < l.erro ? g : l;
+    if (usa.erro > LIMITE) return null;
+    digitos += usa.digito;
+    paridade += usa === g ? "G" : "L";
   }
 
-  const assembledRow = (cfg.data as any[]).find((r) => r.key === "assembled_baskets");
-  if (assembledRow) {
-    const raw = (assembledRow as any).value;
-    const num = typeof raw === "number" ? raw : Number(raw ?? 0);
-    setAssembledBaskets(Number.isFinite(num) ? num : 0);
+  pos += 5; // guarda central
+  for (let k = 0; k < metade; k++, pos += 4) {
+    const r = melhorDigitoEAN(runs.slice(pos, pos + 4), EAN_L);
+    if (r.erro > LIMITE) return null;
+    digitos += r.digito;
   }
+
+  let codigo = digitos;
+  if (tipo === 13) {
+    const primeiro = EAN13_PARIDADE.indexOf(paridade);
+    if (primeiro < 0) return null;
+    codigo = primeiro + digitos;
+  }
+  return eanValido(codigo) ? codigo : null;
 }
 
-      setBeneficiarios((b.data as any[]) as Beneficiario[]);
-      setEventos((e.data as any[]) as Evento[]);
-      setEstoque((s.data as any[])?.map((r) => ({
-        ...r,
-        quantidade: Number(r.quantidade ?? 0),
-        minimo_alerta: r.minimo_alerta == null ? null : Number(r.minimo_alerta),
-      })) as EstoqueItem[]);
-    } catch (err: any) {
-      setDataErr(err?.message ?? String(err));
-    } finally {
-      setDataLoading(false);
+/** Decodificador em JS para quando o navegador não tem BarcodeDetector: varre algumas linhas da imagem. */
+function lerEANDaImagem(img: ImageData): string | null {
+  const { data, width, height } = img;
+  const lum = new Float32Array(width);
+
+  for (let frac = 0.3; frac <= 0.7; frac += 0.05) {
+    const y = Math.floor(height * frac);
+    let min = 255;
+    let max = 0;
+    for (let x = 0; x < width; x++) {
+      const o = (y * width + x) * 4;
+      const v = (data[o] * 299 + data[o + 1] * 587 + data[o + 2] * 114) / 1000;
+      lum[x] = v;
+      if (v < min) min = v;
+      if (v > max) max = v;
     }
-  };
+    if (max - min < 40) continue;
+    const limiar = (min + max) / 2;
+
+    // larguras alternadas; runs[0] é sempre barra (escuro)
+    const runs: number[] = [];
+    let x = 0;
+    while (x < width && lum[x] >= limiar) x++;
+    let escuro = true;
+    let largura = 0;
+    for (; x < width; x++) {
+      if (lum[x] < limiar === escuro) {
+        largura++;
+      } else {
+        runs.push(largura);
+        escuro = !escuro;
+        largura = 1;
+      }
+    }
+    if (largura) runs.push(largura);
+
+    // lê nos dois sentidos. Com o código de cabeça para baixo a linha traz as
+    // larguras de trás para frente; invertendo a lista (a partir de uma barra)
+    // volta a ordem original, então a metade esquerda continua L/G e a direita R.
+    const invertido = (runs.length % 2 === 1 ? runs : runs.slice(0, -1)).slice().reverse();
+    for (const seq of [runs, invertido]) {
+      for (let i = 0; i < seq.length; i += 2) {
+        const codigo = decodificarEAN(seq, i, 13) ?? decodificarEAN(seq, i, 8);
+        if (codigo) return codigo;
+      }
+    }
+  }
+  return null;
+}
 
-  useEffect(() => {
-    if (!supabase || !session) return;
-    loadAll();
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [session]);
+// ---------- Offline: cache local, fila de escrita e sincronização ----------
+const OFFLINE_DB = "asa-offline";
+const FILA_KEY = "fila";
+const CONFLITOS_KEY = "conflitos";
+const FILA_EVENTO = "asa-fila"; // avisa a tela que a fila mudou
 
-  // ---------- Estoque CRUD ----------
-  const openNewItem = () => {
-    setEditingItem(null);
-    setFormItem({ ...emptyItem });
-    setItemModalOpen(true);
-  };
+// Tudo no IndexedDB fica sob o id do usuário logado: outra pessoa que entre no
+// mesmo aparelho não vê a cópia nem envia a fila de quem saiu.
+let offlineUsuario: string | null = null;
 
-  const openEditItem = (it: EstoqueItem) => {
-    setEditingItem(it);
-    setFormItem({
-      nome: it.nome ?? "",
-      categoria: it.categoria ?? "outros",
-      quantidade: it.quantidade ?? 0,
-      unidade: it.unidade ?? "unidade",
-      validade: it.validade ?? "",
-      status_conservacao: it.status_conservacao ?? "",
-      codigo_barras: it.codigo_barras ?? "",
-      minimo_alerta: it.minimo_alerta ?? 0,
-      data_entrada: it.data_entrada ?? "",
-      status: it.status ?? "disponivel",
-      observacoes: it.observacoes ?? "",
-    });
-    setItemModalOpen(true);
-  };
+function definirUsuarioOffline(userId: string | null) {
+  offlineUsuario = userId;
+}
 
-  const saveItem = async () => {
-    if (!supabase) return;
-    setDataErr(null);
+function idbChave(key: string) {
+  if (!offlineUsuario) throw new Error("Sem usuário logado.");
+  return `${offlineUsuario}:${key}`;
+}
 
-    if (!canEdit) {
-      setDataErr("Você não tem permissão para editar.");
-      return;
-    }
+function idbAbrir(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const req = indexedDB.open(OFFLINE_DB, 2);
+    req.onupgradeneeded = (e) => {
+      if (e.oldVersion < 1) req.result.createObjectStore("kv");
+      // versão 1 gravava sem dono: não dá para saber de quem é a fila, então descarta
+      else req.transaction!.objectStore("kv").clear();
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
 
-    const payload: any = {
-      nome: String(formItem.nome || "").trim(),
-      categoria: String(formItem.categoria || "outros"),
-      quantidade: Number(formItem.quantidade || 0),
-      unidade: String(formItem.unidade || "unidade"),
-      validade: formItem.validade ? String(formItem.validade) : null,
-      status_conservacao: formItem.status_conservacao ? String(formItem.status_conservacao) : null,
-      codigo_barras: formItem.codigo_barras ? String(formItem.codigo_barras) : null,
-      minimo_alerta: formItem.minimo_alerta === "" ? 0 : Number(formItem.minimo_alerta || 0),
-      data_entrada: formItem.data_entrada ? String(formItem.data_entrada) : null,
-      status: String(formItem.status || "disponivel"),
-      observacoes: formItem.observacoes ? String(formItem.observacoes) : null,
+async function idbLer<T>(key: string): Promise<T | null> {
+  const chave = idbChave(key);
+  const db = await idbAbrir();
+  return new Promise((resolve, reject) => {
+    const req = db.transaction("kv", "readonly").objectStore("kv").get(chave);
+    req.onsuccess = () => resolve((req.result as T) ?? null);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+async function idbGravar(key: string, value: unknown): Promise<void> {
+  const chave = idbChave(key);
+  const db = await idbAbrir();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction("kv", "readwrite");
+    tx.objectStore("kv").put(value, chave);
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
+/** Ao sair: apaga as cópias de dados do usuário. A fila e os conflitos ficam para o próximo login dele. */
+async function idbLimparCopias(): Promise<void> {
+  const manter = new Set([idbChave(FILA_KEY), idbChave(CONFLITOS_KEY)]);
+  const prefixo = idbChave("");
+  const db = await idbAbrir();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction("kv", "readwrite");
+    const req = tx.objectStore("kv").openCursor();
+    req.onsuccess = () => {
+      const cursor = req.result;
+      if (!cursor) return;
+      const chave = String(cursor.key);
+      if (chave.startsWith(prefixo) && !manter.has(chave)) cursor.delete();
+      cursor.continue();
     };
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+}
 
-    if (!payload.nome) {
-      setDataErr("Informe o nome do item.");
-      return;
-    }
+/** Falha de conexão (vale enfileirar) x erro do servidor (vale mostrar). */
+function ehErroDeRede(e: any) {
+  if (typeof navigator !== "undefined" && !navigator.onLine) return true;
+  const msg = String(e?.message ?? e ?? "");
+  return e instanceof TypeError || /failed to fetch|networkerror|load failed|network request failed/i.test(msg);
+}
 
-    setDataLoading(true);
-    try {
-      if (editingItem?.id) {
-        const { error } = await supabase.from("estoque").update(payload).eq("id", editingItem.id);
-        if (error) throw error;
-      } else {
-        const { error } = await supabase.from("estoque").insert(payload);
-        if (error) throw error;
+class ConflitoErro extends Error {}
+
+async function executarOperacao(op: OperacaoOffline) {
+  if (!supabase) throw new Error("Supabase não configurado.");
+
+  if (op.tipo === "insert") {
+    const { error } = await supabase.from(op.tabela).insert(op.payload);
+    if (error) throw new Error(error.message);
+    return;
+  }
+
+  if (op.tipo === "update") {
+    const campos = Object.keys(op.antes);
+    if (campos.length > 0) {
+      const { data, error } = await supabase.from(op.tabela).select(campos.join(",")).eq("id", op.registroId).maybeSingle();
+      if (error) throw new Error(error.message);
+      if (!data) throw new ConflitoErro("O registro foi excluído por outra pessoa.");
+      const mudou = campos.filter(
+        (c) =>
+          JSON.stringify((data as any)[c]) !== JSON.stringify(op.antes[c]) &&
+          JSON.stringify((data as any)[c]) !== JSON.stringify(op.payload[c])
+      );
+      if (mudou.length > 0) {
+        throw new ConflitoErro(
+          `Alterado por outra pessoa enquanto você estava offline: ${mudou
+            .map((c) => `${c} = ${JSON.stringify((data as any)[c])}`)
+            .join(", ")}.`
+        );
       }
-      setItemModalOpen(false);
-      await loadAll();
-    } catch (err: any) {
-      setDataErr(err?.message ?? String(err));
-    } finally {
-      setDataLoading(false);
     }
-  };
+    const { error } = await supabase.from(op.tabela).update(op.payload).eq("id", op.registroId);
+    if (error) throw new Error(error.message);
+    return;
+  }
 
-  const deleteItem = async (id: string) => {
-    if (!supabase) return;
-    setDataErr(null);
+  const { error } = await supabase.rpc(op.fn, op.args);
+  if (error) throw new Error(error.message);
+}
 
-    if (!canEdit) {
-      setDataErr("Você não tem permissão para editar.");
-      return;
-    }
+async function lerFila() {
+  return (await idbLer<OperacaoOffline[]>(FILA_KEY)) ?? [];
+}
 
-    if (!confirm("Excluir este item do estoque?")) return;
+async function lerConflitos() {
+  return (await idbLer<ConflitoOffline[]>(CONFLITOS_KEY)) ?? [];
+}
 
-    setDataLoading(true);
+async function gravarConflitos(conflitos: ConflitoOffline[]) {
+  await idbGravar(CONFLITOS_KEY, conflitos);
+  window.dispatchEvent(new Event(FILA_EVENTO));
+}
+
+/**
+ * Tenta gravar no Supabase; sem conexão, guarda na fila e devolve "fila".
+ * Erros do servidor (permissão, saldo...) continuam subindo para a tela.
+ */
+async function enviarOuEnfileirar(op: OperacaoDados): Promise<"enviado" | "fila"> {
+  const completa: OperacaoOffline = { ...op, id: genTextId(), criado_em: new Date().toISOString() };
+  const fila = await lerFila().catch(() => [] as OperacaoOffline[]);
+
+  // com itens na fila, envia depois deles para manter a ordem
+  if (fila.length === 0 && navigator.onLine) {
     try {
-      const { error } = await supabase.from("estoque").delete().eq("id", id);
-      if (error) throw error;
-      await loadAll();
-    } catch (err: any) {
-      setDataErr(err?.message ?? String(err));
-    } finally {
-      setDataLoading(false);
+      await executarOperacao(completa);
+      return "enviado";
+    } catch (e: any) {
+      if (!ehErroDeRede(e)) throw e;
     }
-  };
+  }
 
-  // ---------- Beneficiários (criar) ----------
-  const openNewBenef = () => {
-    setFormBenef({ name: "", familySize: 1, phone: "", address: "", notes: "" });
-    setBenefModalOpen(true);
-  };
+  await idbGravar(FILA_KEY, [...fila, completa]);
+  window.dispatchEvent(new Event(FILA_EVENTO));
+  return "fila";
+}
 
-  const saveBenef = async () => {
-    if (!supabase) return;
-    setDataErr(null);
+/** Envia a fila em ordem. Para na primeira falha de rede; rejeições do servidor viram conflitos. */
+async function sincronizarFila() {
+  const fila = await lerFila();
+  const conflitos = await lerConflitos();
+  let enviados = 0;
+  let i = 0;
 
-    if (!canEdit) {
-      setDataErr("Você não tem permissão para editar.");
-      return;
+  for (; i < fila.length; i++) {
+    try {
+      await executarOperacao(fila[i]);
+      enviados++;
+    } catch (e: any) {
+      if (ehErroDeRede(e) && !(e instanceof ConflitoErro)) break;
+      conflitos.push({ op: fila[i], erro: e?.message ?? String(e), em: new Date().toISOString() });
     }
+  }
 
-    const name = String(formBenef.name || "").trim();
-    if (!name) {
-      setDataErr("Informe o nome do beneficiário.");
-      return;
-    }
+  const restantes = fila.slice(i);
+  await idbGravar(FILA_KEY, restantes);
+  await gravarConflitos(conflitos);
+  return { enviados, restantes: restantes.length, conflitos: conflitos.length };
+}
 
-    const payload: any = {
-      id: genTextId(),
-      name,
-      familySize: Math.max(1, Number(formBenef.familySize || 1)),
-      address: String(formBenef.address || ""),
-      phone: String(formBenef.phone || ""),
-      lastBasketDate: null,
-      notes: formBenef.notes ? String(formBenef.notes) : null,
-      history: [],
-    };
+// ---------- Auditoria ----------
+const AUDITORIA_TABELAS: Record<string, string> = {
+  estoque: "Estoque",
+  beneficiarios: "Beneficiários",
+  eventos_entrega: "Eventos",
+  eventos_participantes: "Presença em eventos",
+  configuracoes: "Configurações",
+  cestas_modelos: "Modelos de cesta",
+  profiles: "Usuários",
+  unidades: "Unidades",
+  profiles_unidades: "Unidades dos usuários",
+  locais_estoque: "Locais de estoque",
+  estoque_saldos: "Saldos por local",
+  transferencias: "Transferências",
+  estoque_lotes: "Lotes",
+  doadores: "Doadores",
+  doacoes: "Doações",
+  campanhas: "Campanhas",
+};
 
-    setDataLoading(true);
-    try {
-      const { error } = await supabase.from("beneficiarios").insert(payload);
-      if (error) throw error;
-      setBenefModalOpen(false);
-      await loadAll();
-    } catch (err: any) {
-      setDataErr(err?.message ?? String(err));
-    } finally {
-      setDataLoading(false);
-    }
-  };
+const AUDITORIA_ACAO_LABEL: Record<AuditoriaAcao, string> = {
+  insert: "criou",
+  update: "alterou",
+  delete: "excluiu",
+};
 
-  // ---------- Eventos (criar) ----------
-  const openNewEvento = () => {
-    setFormEvento({ title: "", date: new Date().toISOString().slice(0, 10), description: "" });
-    setEventModalOpen(true);
-  };
+async function fetchAuditoria(f: AuditoriaFiltro, limite = 500): Promise<AuditoriaRegistro[]> {
+  if (!supabase) return [];
+  let q = supabase.from("auditoria").select("*").order("created_at", { ascending: false }).limit(limite);
+  if (f.email.trim()) q = q.ilike("actor_email", `%${f.email.trim()}%`);
+  if (f.tabela) q = q.eq("tabela", f.tabela);
+  // datas do filtro são dias locais; converte para o intervalo UTC correspondente
+  if (f.de) q = q.gte("created_at", parseLocalDate(f.de).toISOString());
+  if (f.ate) q = q.lt("created_at", parseLocalDate(addDaysISO(f.ate, 1)).toISOString());
+
+  const { data, error } = await q;
+  if (error) throw new Error(error.message);
+  return (data as AuditoriaRegistro[]) ?? [];
+}
 
-  const saveEvento = async () => {
-    if (!supabase) return;
-    setDataErr(null);
+/** Campos que mudaram entre antes/depois (ignora created_at/updated_at). */
+function diffAuditoria(antes: Record<string, any> | null, depois: Record<string, any> | null) {
+  const ignorar = new Set(["created_at", "updated_at"]);
+  const keys = new Set([...Object.keys(antes ?? {}), ...Object.keys(depois ?? {})]);
+  const out: { campo: string; antes: any; depois: any }[] = [];
+  for (const k of keys) {
+    if (ignorar.has(k)) continue;
+    const a = antes?.[k];
+    const d = depois?.[k];
+    if (JSON.stringify(a) !== JSON.stringify(d)) out.push({ campo: k, antes: a, depois: d });
+  }
+  return out.sort((x, y) => x.campo.localeCompare(y.campo));
+}
 
-    if (!canEdit) {
-      setDataErr("Você não tem permissão para editar.");
-      return;
-    }
+function auditoriaValor(v: any) {
+  if (v === undefined || v === null || v === "") return "—";
+  if (typeof v === "object") {
+    const txt = JSON.stringify(v);
+    return txt.length > 120 ? txt.slice(0, 117) + "…" : txt;
+  }
+  return String(v);
+}
 
-    const title = String(formEvento.title || "").trim();
-    const date = String(formEvento.date || "").trim();
-    if (!title) {
-      setDataErr("Informe o título do evento.");
-      return;
-    }
-    if (!date) {
-      setDataErr("Informe a data do evento.");
-      return;
-    }
+// ---------- Detecção de duplicados ----------
+function normalizeText(v?: string | null) {
+  return String(v ?? "")
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9 ]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
 
-    const payload: any = {
-      id: genTextId(),
-      title,
-      date,
-      description: formEvento.description ? String(formEvento.description) : null,
-    };
+// Telefones: compara só os últimos 8 dígitos (ignora DDD, 9º dígito e formatação)
+function normalizePhone(v?: string | null) {
+  const digits = String(v ?? "").replace(/\D/g, "");
+  return digits.length >= 8 ? digits.slice(-8) : "";
+}
 
-    setDataLoading(true);
-    try {
-      const { error } = await supabase.from("eventos_entrega").insert(payload);
-      if (error) throw error;
-      setEventModalOpen(false);
-      await loadAll();
-    } catch (err: any) {
-      setDataErr(err?.message ?? String(err));
-    } finally {
-      setDataLoading(false);
+function levenshtein(a: string, b: string) {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+  let prev = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const cur = [i];
+    for (let j = 1; j <= b.length; j++) {
+      cur[j] = Math.min(prev[j] + 1, cur[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
     }
-  };
+    prev = cur;
+  }
+  return prev[b.length];
+}
 
-  // ---------- UI ----------
-  if (booting) {
-    return (
-      <div className="h-screen flex items-center justify-center">
-        <Loader2 className="animate-spin" size={48} />
-      </div>
-    );
+// 0..1 — 1 = idênticos após normalização
+function similaridade(a: string, b: string) {
+  const x = normalizeText(a);
+  const y = normalizeText(b);
+  if (!x || !y) return 0;
+  // ordem das palavras não importa ("Silva Maria" = "Maria Silva")
+  const sx = x.split(" ").sort().join(" ");
+  const sy = y.split(" ").sort().join(" ");
+  const max = Math.max(sx.length, sy.length);
+  return 1 - levenshtein(sx, sy) / max;
+}
+
+type DuplicadoMatch = { beneficiario: Beneficiario; score: number; motivos: string[] };
+
+type DadosContato = { name: string; phone?: string | null; address?: string | null };
+
+function motivosDuplicado(a: DadosContato, b: DadosContato) {
+  const motivos: string[] = [];
+  let score = 0;
+
+  const sim = similaridade(a.name, b.name);
+  if (sim >= 0.85) {
+    motivos.push(sim === 1 ? "mesmo nome" : "nome parecido");
+    score += sim;
+  }
+  const pa = normalizePhone(a.phone);
+  if (pa && pa === normalizePhone(b.phone)) {
+    motivos.push("mesmo telefone");
+    score += 1;
+  }
+  const ea = normalizeText(a.address);
+  if (ea.length >= 6 && ea === normalizeText(b.address)) {
+    motivos.push("mesmo endereço");
+    score += 0.8;
   }
+  return { score, motivos };
+}
 
-  if (!supabase) {
-    return (
-      <div className="min-h-screen bg-slate-100 flex items-center justify-center p-6">
-        <div className="w-full max-w-lg bg-white rounded-2xl shadow p-6 border border-slate-200">
-          <div className="text-xl font-bold text-slate-900">Sistema ASA</div>
-          <div className="mt-2 text-slate-700">Falta configurar as variáveis do Supabase no Netlify:</div>
-          <div className="mt-3 text-sm bg-slate-50 border border-slate-200 rounded-xl p-3">
-            <div>
-              <b>VITE_SUPABASE_URL</b>
-            </div>
-            <div>
-              <b>VITE_SUPABASE_ANON_KEY</b>
-            </div>
-            <div className="mt-2 text-slate-600">Depois disso, faça um novo deploy.</div>
-          </div>
-        </div>
-      </div>
-    );
+function compararBeneficiarios(a: DadosContato, b: Beneficiario): DuplicadoMatch | null {
+  const { score, motivos } = motivosDuplicado(a, b);
+  return motivos.length > 0 ? { beneficiario: b, score, motivos } : null;
+}
+
+function encontrarDuplicados(
+  candidato: DadosContato,
+  lista: Beneficiario[],
+  ignorarId?: string
+): DuplicadoMatch[] {
+  return lista
+    .filter((b) => b.id !== ignorarId && !b.archived_at)
+    .map((b) => compararBeneficiarios(candidato, b))
+    .filter((m): m is DuplicadoMatch => m != null)
+    .sort((x, y) => y.score - x.score);
+}
+
+function paresDuplicados(lista: Beneficiario[]) {
+  const ativos = lista.filter((b) => !b.archived_at);
+  const pares: Array<{ a: Beneficiario; b: Beneficiario; score: number; motivos: string[] }> = [];
+  for (let i = 0; i < ativos.length; i++) {
+    for (let j = i + 1; j < ativos.length; j++) {
+      const m = compararBeneficiarios(ativos[i], ativos[j]);
+      if (m) pares.push({ a: ativos[i], b: ativos[j], score: m.score, motivos: m.motivos });
+    }
   }
+  return pares.sort((x, y) => y.score - x.score);
+}
 
-  if (!session) {
-    return (
-      <div className="min-h-screen bg-slate-100 flex items-center justify-center p-6">
-        <div className="w-full max-w-md bg-white rounded-2xl shadow p-6 border border-slate-200">
-          <div className="flex items-center gap-3">
-            <img
-              src="/asa-logo.jpg"
-              alt="ASA"
-              className="h-10 w-10 rounded-lg object-contain"
-              onError={(e) => (((e.currentTarget as HTMLImageElement).style.display = "none"))}
-            />
-            <div>
-              <div className="text-xl font-bold text-slate-900">Sistema ASA</div>
-              <div className="text-sm text-slate-600">Acesso ao painel</div>
-            </div>
-          </div>
+// ---------- Importação de beneficiários (CSV) ----------
+// CSV simples com aspas; o separador (; ou ,) é detectado pela linha de cabeçalho
+function lerCSV(texto: string): string[][] {
+  const t = texto.replace(/^\ufeff/, "");
+  const primeira = t.split(/\r?\n/, 1)[0] ?? "";
+  const sep = (primeira.match(/;/g)?.length ?? 0) >= (primeira.match(/,/g)?.length ?? 0) ? ";" : ",";
+  const linhas: string[][] = [];
+  let linha: string[] = [];
+  let campo = "";
+  let aspas = false;
+  for (let i = 0; i < t.length; i++) {
+    const c = t[i];
+    if (aspas) {
+      if (c === '"' && t[i + 1] === '"') {
+        campo += '"';
+        i++;
+      } else if (c === '"') aspas = false;
+      else campo += c;
+    } else if (c === '"') aspas = true;
+    else if (c === sep) {
+      linha.push(campo);
+      campo = "";
+    } else if (c === "\n" || c === "\r") {
+      if (c === "\r" && t[i + 1] === "\n") i++;
+      linha.push(campo);
+      linhas.push(linha);
+      linha = [];
+      campo = "";
+    } else campo += c;
+  }
+  if (campo || linha.length) {
+    linha.push(campo);
+    linhas.push(linha);
+  }
+  return linhas;
+}
 
-          <div className="mt-5 flex gap-2">
-            <button
-              type="button"
-              onClick={() => {
-                setAuthTab("login");
-                setAuthError(null);
-                setConfirmPassword("");
-              }}
-              className={cn(
-                "flex-1 rounded-lg border px-3 py-2 font-semibold",
-                authTab === "login" ? "bg-slate-900 text-white border-slate-900" : "bg-white border-slate-200"
-              )}
-            >
-              Login
-            </button>
-            <button
-              type="button"
-              onClick={() => {
-                setAuthTab("signup");
-                setAuthError(null);
-              }}
-              className={cn(
-                "flex-1 rounded-lg border px-3 py-2 font-semibold",
-                authTab === "signup" ? "bg-slate-900 text-white border-slate-900" : "bg-white border-slate-200"
-              )}
-            >
-              Criar conta
-            </button>
-          </div>
+// Cabeçalhos aceitos (comparados sem acento/maiúsculas)
+const IMPORT_COLUNAS: Record<"name" | "familySize" | "phone" | "address" | "notes", string[]> = {
+  name: ["nome", "name", "beneficiario"],
+  familySize: ["familia", "tamanho da familia", "pessoas", "familysize"],
+  phone: ["telefone", "phone", "celular", "whatsapp"],
+  address: ["endereco", "address"],
+  notes: ["observacoes", "observacao", "obs", "notes"],
+};
 
-          <form onSubmit={authTab === "login" ? doLogin : doSignup} className="mt-5 space-y-4">
-            <div>
-              <label className="block text-sm font-medium text-slate-700">E-mail</label>
-              <input
-                type="email"
-                className="mt-1 w-full rounded-lg border border-slate-300 px-3 py-2"
-                value={email}
-                onChange={(ev) => setEmail(ev.target.value)}
-                required
-              />
-            </div>
+type ImportLinha = {
+  linha: number; // número da linha no arquivo (cabeçalho = 1)
+  name: string;
+  familySize: number;
+  phone: string;
+  address: string;
+  notes: string | null;
+  duplicados: DuplicadoMatch[]; // cadastros já existentes
+  repeteLinha: number | null; // provável repetição de uma linha anterior do próprio arquivo
+};
 
-            <div>
-              <label className="block text-sm font-medium text-slate-700">Senha</label>
-              <input
-                type="password"
-                className="mt-1 w-full rounded-lg border border-slate-300 px-3 py-2"
-                value={password}
-                onChange={(ev) => setPassword(ev.target.value)}
-                required
-              />
-              <div className="text-xs text-slate-500 mt-1">Use uma senha forte (mín. 8 caracteres).</div>
-            </div>
+function prepararImportacao(texto: string, existentes: Beneficiario[]): ImportLinha[] {
+  const [cab, ...dados] = lerCSV(texto);
+  if (!cab) throw new Error("Arquivo vazio.");
+  const cols = cab.map((h) => normalizeText(h));
+  const idx = (k: keyof typeof IMPORT_COLUNAS) => cols.findIndex((h) => IMPORT_COLUNAS[k].includes(h));
+  const iNome = idx("name");
+  if (iNome < 0) throw new Error('O arquivo precisa de uma coluna "Nome".');
+  const iFam = idx("familySize");
+  const iTel = idx("phone");
+  const iEnd = idx("address");
+  const iObs = idx("notes");
+  const col = (l: string[], i: number) => (i >= 0 ? String(l[i] ?? "").trim() : "");
+
+  const linhas: ImportLinha[] = [];
+  dados.forEach((l, n) => {
+    const name = col(l, iNome);
+    if (!name) return;
+    const cand = {
+      name,
+      familySize: Math.max(1, Math.floor(Number(col(l, iFam).replace(",", ".")) || 1)),
+      phone: col(l, iTel),
+      address: col(l, iEnd),
+    };
+    // compara também com as linhas anteriores do arquivo (mesma família duas vezes na planilha)
+    const anterior = linhas.find((x) => motivosDuplicado(cand, x).motivos.length > 0);
+    linhas.push({
+      ...cand,
+      linha: n + 2,
+      notes: col(l, iObs) || null,
+      duplicados: encontrarDuplicados(cand, existentes),
+      repeteLinha: anterior ? anterior.linha : null,
+    });
+  });
+  return linhas;
+}
 
-            {authTab === "signup" ? (
-              <div>
-                <label className="block text-sm font-medium text-slate-700">Confirmar senha</label>
-                <input
-                  type="password"
-                  className="mt-1 w-full rounded-lg border border-slate-300 px-3 py-2"
-                  value={confirmPassword}
-                  onChange={(ev) => setConfirmPassword(ev.target.value)}
-                  required
-                />
-              </div>
-            ) : null}
+const BENEF_STATUS_LABEL: Record<BenefStatus, string> = {
+  ativo: "Ativo",
+  inativo: "Inativo",
+  suspenso: "Suspenso",
+};
 
-            {authError && (
-              <div className="rounded-lg bg-amber-50 border border-amber-200 text-amber-900 px-3 py-2 text-sm">
-                {authError}
-              </div>
-            )}
+const ROLE_LABEL: Record<Role, string> = {
+  viewer: "Somente visualizar",
+  editor: "Editor",
+  admin: "Admin",
+};
 
-            <button
-              disabled={authBusy}
-              className="w-full rounded-lg bg-slate-900 text-white font-semibold py-2 disabled:opacity-60"
-            >
-              {authBusy ? "Aguarde..." : authTab === "login" ? "Entrar" : "Criar conta"}
-            </button>
+/**
+ * Pré-validação no front das checagens de admin_definir_papel / admin_definir_bloqueio
+ * (supabase_schema.sql); lança com a mesma mensagem do banco.
+ */
+function validarAcaoAdminLocal(usuarios: AdminUsuario[], actorId: string, acao: AdminAcao): void {
+  const actor = usuarios.find((u) => u.id === actorId);
+  if (!actor || actor.role !== "admin" || actor.disabled) throw new Error("Apenas admin pode gerenciar usuários.");
+  const alvo = usuarios.find((u) => u.id === acao.userId);
+  if (!alvo) throw new Error("Usuário não encontrado.");
+  if (alvo.id === actorId) throw new Error("Você não pode alterar o próprio acesso.");
+
+  const next = usuarios.map((u) =>
+    u.id !== alvo.id ? u : acao.tipo === "papel" ? { ...u, role: acao.role } : { ...u, disabled: acao.disabled }
+  );
+  if (!next.some((u) => u.role === "admin" && !u.disabled)) throw new Error("É preciso manter pelo menos um admin ativo.");
+}
 
-            <div className="text-xs text-slate-500">
-              Permissões: novos usuários entram como <b>Somente visualizar</b>. Admin pode liberar edição.
-            </div>
-          </form>
-        </div>
-      </div>
-    );
+async function adminListarUsuarios(): Promise<AdminUsuario[]> {
+  if (!supabase) return [];
+  const { data, error } = await supabase.rpc("admin_listar_usuarios");
+  if (error) {
+    if (error.code === "PGRST202") {
+      throw new Error("Função admin_listar_usuarios não existe no banco. Rode o supabase_schema.sql atualizado.");
+    }
+    throw new Error(error.message);
   }
+  return ((data as any[]) ?? []).map((r) => ({
+    id: String(r.id),
+    email: r.email == null ? null : String(r.email),
+    role: (r.role as Role) ?? "viewer",
+    disabled: Boolean(r.disabled),
+    unidades: Array.isArray(r.unidades) ? r.unidades.map(String) : [],
+    last_sign_in_at: r.last_sign_in_at ?? null,
+    created_at: r.created_at ?? null,
+  }));
+}
 
-  const emailDisplay = String(session.user?.email || "");
-  const roleDisplay = profile?.role ?? "viewer";
+// "" = todas as unidades (visão consolidada, só admin)
+const UNIDADE_STORAGE_KEY = "asa.unidade";
 
-  const totalEstoque = estoque.length;
-  const totalBenef = beneficiarios.length;
-  const totalEventos = eventos.length;
+// configuracoes: um contador de cestas montadas por unidade (gravado por registrar_montagem_cesta)
+function contadorCestasKey(unidadeId: string) {
+  return `assembled_baskets:${unidadeId}`;
+}
+const UNIDADES_STORAGE_KEY = "asa.unidades";
 
-  return (
-    <div className="min-h-screen bg-slate-50">
-      <header className="bg-white border-b border-slate-200">
-        <div className="max-w-7xl mx-auto px-4 py-3 flex items-center justify-between">
-          <div className="flex items-center gap-3">
-            <img
-              src="/asa-logo.jpg"
-              alt="ASA"
-              className="h-9 w-9 rounded-lg object-contain"
-              onError={(e) => (((e.currentTarget as HTMLImageElement).style.display = "none"))}
-            />
-            <div>
-              <div className="text-lg font-bold text-slate-900">ASA</div>
-              <div className="text-xs text-slate-600">
-                {emailDisplay} • <Badge>{isAdmin ? "admin" : roleDisplay}</Badge>{" "}
-                {!canEdit ? <Badge>somente leitura</Badge> : null}
-              </div>
-            </div>
-          </div>
+/**
+ * Unidades visíveis ao usuário (RLS: as dele; admin vê todas). Sem a tabela, retorna null e o app segue sem
+ * filtro; [] com a tabela = conta ainda não vinculada a nenhuma unidade.
+ */
+async function fetchUnidades(): Promise<Unidade[] | null> {
+  if (!supabase) return null;
+  const { data, error } = await supabase.from("unidades").select("id,nome").order("nome");
+  if (error) {
+    return ehErroDeRede(error) ? (JSON.parse(localStorage.getItem(UNIDADES_STORAGE_KEY) ?? "[]") as Unidade[]) : null;
+  }
+  const us = ((data as any[]) ?? []).map((r) => ({ id: String(r.id), nome: String(r.nome ?? r.id) }));
+  localStorage.setItem(UNIDADES_STORAGE_KEY, JSON.stringify(us));
+  return us;
+}
 
-          <div className="flex items-center gap-2">
-            <button
-              onClick={loadAll}
-              className="inline-flex items-center gap-2 rounded-lg border border-slate-200 bg-white font-semibold px-3 py-2 hover:bg-slate-50"
-              title="Recarregar dados"
-            >
-              {dataLoading ? <Loader2 className="animate-spin" size={18} /> : <Settings size={18} />}
-              Atualizar
-            </button>
+async function adminDefinirUnidades(userId: string, unidades: string[]) {
+  if (!supabase) throw new Error("Supabase não configurado.");
+  const { error } = await supabase.rpc("admin_definir_unidades", { p_user: userId, p_unidades: unidades });
+  if (error) throw new Error(error.message);
+}
 
-            <button
-              onClick={logout}
-              className="inline-flex items-center gap-2 rounded-lg bg-slate-900 text-white font-semibold px-4 py-2"
-            >
-              <LogOut size={18} />
-              Sair
-            </button>
-          </div>
-        </div>
-      </header>
+async function adminExecutar(acao: AdminAcao) {
+  if (!supabase) throw new Error("Supabase não configurado.");
+  const { error } =
+    acao.tipo === "papel"
+      ? await supabase.rpc("admin_definir_papel", { p_user: acao.userId, p_role: acao.role })
+      : await supabase.rpc("admin_definir_bloqueio", { p_user: acao.userId, p_disabled: acao.disabled });
+  if (error) throw new Error(error.message);
+}
 
-      <main className="max-w-7xl mx-auto px-4 py-6 grid grid-cols-1 lg:grid-cols-[260px_1fr] gap-6">
-        <aside className="bg-white border border-slate-200 rounded-2xl p-3 h-fit">
-          <div className="px-2 pb-3 flex items-center gap-2">
-            <img
-              src="/asa-logo.jpg"
-              alt="ASA"
-              className="h-9 w-9 rounded-lg object-contain"
-              onError={(e) => (((e.currentTarget as HTMLImageElement).style.display = "none"))}
-            />
-            <div>
-              <div className="font-bold text-slate-900 leading-tight">Sistema ASA</div>
-              <div className="text-xs text-slate-500 leading-tight">Menu</div>
-            </div>
-          </div>
+const CATEGORIA_LABEL: Record<string, string> = {
+  alimento_perecivel: "Alimento (Perecível)",
+  alimento_nao_perecivel: "Alimento (Não perecível)",
+  higiene: "Higiene",
+  roupa_masculina: "Vestimenta (Masculino)",
+  roupa_feminina: "Vestimenta (Feminino)",
+  roupa_infantil: "Vestimenta (Infantil)",
+  movel: "Móveis",
+  outros: "Outros",
+};
 
-          <div className="space-y-2">
-            <SidebarButton
-              active={view === "dashboard"}
-              icon={<LayoutDashboard size={18} />}
-              label="Visão Geral"
-              onClick={() => setView("dashboard")}
-            />
-            <SidebarButton
-              active={view === "estoque"}
-              icon={<Package size={18} />}
-              label="Estoque"
-              onClick={() => setView("estoque")}
-            />
-            <SidebarButton
-              active={view === "eventos"}
-              icon={<CalendarDays size={18} />}
-              label="Eventos"
-              onClick={() => setView("eventos")}
-            />
-            <SidebarButton
-              active={view === "beneficiarios"}
-              icon={<Users size={18} />}
-              label="Beneficiários"
-              onClick={() => setView("beneficiarios")}
-            />
-            <SidebarButton
-              active={view === "cestas"}
-              icon={<Boxes size={18} />}
-              label="Cestas"
-              onClick={() => setView("cestas")}
-            />
+// ---------- Unidades de medida ----------
+const UNIDADES_MEDIDA = ["kg", "g", "L", "mL", "unidade", "pacote", "fardo"] as const;
+type UnidadeMedida = (typeof UNIDADES_MEDIDA)[number];
+
+// Embalagens: precisam do conteúdo informado no item para converter
+const UNIDADES_EMBALAGEM: UnidadeMedida[] = ["pacote", "fardo"];
+
+// Grandeza e fator para a menor unidade da grandeza (g, mL, unidade)
+const MEDIDA_BASE: Record<UnidadeMedida, { grandeza: string; fator: number }> = {
+  kg: { grandeza: "massa", fator: 1000 },
+  g: { grandeza: "massa", fator: 1 },
+  L: { grandeza: "volume", fator: 1000 },
+  mL: { grandeza: "volume", fator: 1 },
+  unidade: { grandeza: "contagem", fator: 1 },
+  pacote: { grandeza: "pacote", fator: 1 },
+  fardo: { grandeza: "fardo", fator: 1 },
+};
 
-            <SidebarButton
-              active={view === "relatorios"}
-              icon={<FileDown size={18} />}
-              label="Relatórios"
-              onClick={() => setView("relatorios")}
-            />
-            {isAdmin ? (
-              <SidebarButton
-                active={view === "usuarios"}
-                icon={<Settings size={18} />}
-                label="Usuários (info)"
-                onClick={() => setView("usuarios")}
-              />
-            ) : null}
-          </div>
-        </aside>
+const SINONIMOS_UNIDADE: Record<string, UnidadeMedida> = {
+  kg: "kg",
+  kgs: "kg",
+  quilo: "kg",
+  quilos: "kg",
+  kilo: "kg",
+  g: "g",
+  gr: "g",
+  grama: "g",
+  gramas: "g",
+  l: "L",
+  lt: "L",
+  litro: "L",
+  litros: "L",
+  ml: "mL",
+  un: "unidade",
+  und: "unidade",
+  unid: "unidade",
+  unidade: "unidade",
+  unidades: "unidade",
+  pct: "pacote",
+  pacote: "pacote",
+  pacotes: "pacote",
+  fardo: "fardo",
+  fardos: "fardo",
+};
 
-        <section className="space-y-4">
-          {dataErr ? (
-            <div className="rounded-xl border border-red-200 bg-red-50 px-4 py-3 text-red-900">
-              <div className="font-bold flex items-center gap-2">
-                <AlertTriangle size={18} /> Erro
-              </div>
-              <div className="text-sm mt-1">{dataErr}</div>
-              <div className="text-xs mt-2 text-red-800">
-                Dica: isso geralmente é RLS bloqueando, tabela/view não existe, ou variáveis do Supabase erradas.
-              </div>
-            </div>
-          ) : null}
+/** Unidade canônica para um texto livre ("Quilos" -> kg), ou null se não reconhecer. */
+function normalizarUnidade(txt?: string | null): UnidadeMedida | null {
+  return SINONIMOS_UNIDADE[String(txt ?? "").trim().toLowerCase()] ?? null;
+}
 
-          {view === "dashboard" && (
-            <Card title="Dashboard">
-              <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
-                <div className="rounded-xl border border-slate-200 p-4">
-                  <div className="text-xs text-slate-600">Itens em estoque</div>
-                  <div className="text-2xl font-bold text-slate-900">{totalEstoque}</div>
-                </div>
-                <div className="rounded-xl border border-slate-200 p-4">
-                  <div className="text-xs text-slate-600">Beneficiários</div>
-                  <div className="text-2xl font-bold text-slate-900">{totalBenef}</div>
-                </div>
-                <div className="rounded-xl border border-slate-200 p-4">
-                  <div className="text-xs text-slate-600">Eventos</div>
-                  <div className="text-2xl font-bold text-slate-900">{totalEventos}</div>
-                </div>
-              </div>
+function medidaDoItem(item: EstoqueItem, u: UnidadeMedida) {
+  const conteudo = normalizarUnidade(item.conteudo_unidade);
+  if (UNIDADES_EMBALAGEM.includes(u) && Number(item.conteudo_qtd ?? 0) > 0 && conteudo && !UNIDADES_EMBALAGEM.includes(conteudo)) {
+    const base = MEDIDA_BASE[conteudo];
+    return { grandeza: base.grandeza, fator: base.fator * Number(item.conteudo_qtd) };
+  }
+  return MEDIDA_BASE[u];
+}
 
-              {(alertValidade.length > 0 || alertMinimo.length > 0) ? (
-                <div className="mt-4 grid grid-cols-1 lg:grid-cols-2 gap-3">
-                  <div className="rounded-xl border border-red-200 bg-red-50 p-4">
-                    <div className="font-bold text-red-900">⚠️ Próximos do vencimento (7 dias)</div>
-                    {alertValidade.length === 0 ? (
-                      <div className="text-sm text-red-800 mt-2">Nenhum.</div>
-                    ) : (
-                      <ul className="mt-2 text-sm text-red-800 space-y-1">
-                        {alertValidade.slice(0, 8).map((a) => (
-                          <li key={a.id}>
-                            <b>{a.nome}</b> • {prettyCat(a.categoria)} • vence em <b>{a.validade}</b> ({a.dias_para_vencer} dias)
-                          </li>
-                        ))}
-                      </ul>
-                    )}
-                  </div>
+/**
+ * Quantas unidades do estoque equivalem a 1 `unidade` da cesta (ex.: fardo de
+ * 10 kg e cesta em kg -> 0,1). null quando não há conversão possível.
+ */
+function fatorConversao(item: EstoqueItem, unidade: string): number | null {
+  const u = normalizarUnidade(unidade);
+  const e = normalizarUnidade(item.unidade);
+  if (!u || !e) return unidade.trim().toLowerCase() === String(item.unidade ?? "").trim().toLowerCase() ? 1 : null;
+  if (u === e) return 1;
+  const me = medidaDoItem(item, e);
+  const mu = MEDIDA_BASE[u];
+  return me.grandeza === mu.grandeza ? mu.fator / me.fator : null;
+}
 
-                  <div className="rounded-xl border border-amber-200 bg-amber-50 p-4">
-                    <div className="font-bold text-amber-900">📉 Abaixo do mínimo</div>
-                    {alertMinimo.length === 0 ? (
-                      <div className="text-sm text-amber-900 mt-2">Nenhum.</div>
-                    ) : (
-                      <ul className="mt-2 text-sm text-amber-900 space-y-1">
-                        {alertMinimo.slice(0, 8).map((a) => (
-                          <li key={a.id}>
-                            <b>{a.nome}</b> • {prettyCat(a.categoria)} • qtd {a.quantidade} / mín {a.minimo} (faltam {a.falta_para_minimo})
-                          </li>
-                        ))}
-                      </ul>
-                    )}
-                  </div>
-                </div>
-              ) : null}
-            </Card>
-          )}
+function unidadesCompativeis(item: EstoqueItem): string[] {
+  const us = UNIDADES_MEDIDA.filter((u) => fatorConversao(item, u) != null);
+  return us.length > 0 ? [...us] : [item.unidade];
+}
 
-          {view === "estoque" && (
-            <Card
-              title="Estoque"
-              right={
-                <div className="flex items-center gap-2">
-                  {!canEdit ? <Badge>somente leitura</Badge> : null}
-                  {canEdit ? (
-                    <button
-                      onClick={openNewItem}
-                      className="inline-flex items-center gap-2 rounded-lg bg-slate-900 text-white font-semibold px-3 py-2"
-                    >
-                      <Plus size={18} /> Criar item
-                    </button>
-                  ) : null}
-                </div>
-              }
-            >
-              <div className="text-sm text-slate-600 mb-3">
-                Categorias: alimentos (perecível / não perecível), vestimenta (masc / fem / infantil), higiene, móveis, outros.
-              </div>
+// Evita 0.30000000000000004 nas baixas convertidas
+const arredondarQtd = (n: number) => Math.round(n * 1e6) / 1e6;
 
-              <div className="overflow-auto border border-slate-200 rounded-xl">
-                <table className="min-w-[900px] w-full text-sm">
-                  <thead className="bg-slate-100">
-                    <tr className="text-left">
-                      <th className="p-2">Item</th>
-                      <th className="p-2">Categoria</th>
-                      <th className="p-2">Qtd</th>
-                      <th className="p-2">Validade</th>
-                      <th className="p-2">Mín</th>
-                      <th className="p-2">Status</th>
-                      <th className="p-2">Obs.</th>
-                      <th className="p-2 w-[140px]">Ações</th>
-                    </tr>
-                  </thead>
-                  <tbody>
-                    {estoque.length === 0 ? (
-                      <tr>
-                        <td className="p-3 text-slate-600" colSpan={8}>
-                          Nenhum item no estoque ainda. Clique em <b>Criar item</b>.
-                        </td>
-                      </tr>
-                    ) : (
-                      estoque.map((it) => (
-                        <tr key={it.id} className="border-t">
-                          <td className="p-2 font-medium text-slate-900">{it.nome ?? "-"}</td>
-                          <td className="p-2">{prettyCat(it.categoria)}</td>
-                          <td className="p-2">
-                            {Number(it.quantidade ?? 0)} {it.unidade ?? "unidade"}
-                          </td>
-                          <td className="p-2">{it.validade ?? "-"}</td>
-                          <td className="p-2">{it.minimo_alerta ?? 0}</td>
-                          <td className="p-2">{it.status ?? "disponivel"}</td>
-                          <td className="p-2">{it.observacoes ? it.observacoes.slice(0, 40) : "-"}</td>
-                          <td className="p-2">
-                            <div className="flex items-center gap-2">
-                              <button
-                                className={cn(
-                                  "inline-flex items-center gap-1 rounded-lg border px-2 py-1",
-                                  canEdit ? "border-slate-200 hover:bg-slate-50" : "border-slate-100 text-slate-300 cursor-not-allowed"
-                                )}
-                                onClick={() => (canEdit ? openEditItem(it) : null)}
-                                disabled={!canEdit}
-                                title="Editar"
-                              >
-                                <Pencil size={16} /> Editar
-                              </button>
-                              <button
-                                className={cn(
-                                  "inline-flex items-center gap-1 rounded-lg border px-2 py-1",
-                                  canEdit ? "border-red-200 text-red-700 hover:bg-red-50" : "border-slate-100 text-slate-300 cursor-not-allowed"
-                                )}
-                                onClick={() => (canEdit ? deleteItem(it.id) : null)}
-                                disabled={!canEdit}
-                                title="Excluir"
-                              >
-                                <Trash2 size={16} /> Excluir
-                              </button>
-                            </div>
-                          </td>
-                        </tr>
-                      ))
-                    )}
-                  </tbody>
-                </table>
-              </div>
+/**
+ * Converte itens de cesta para a unidade do estoque (o que o banco baixa).
+ * Lança erro listando os itens sem conversão possível.
+ */
+function paraUnidadeDoEstoque(items: BasketConfigItem[], invById: Map<string, EstoqueItem>): BasketConfigItem[] {
+  const erros: string[] = [];
+  const out = items.map((it) => {
+    const inv = invById.get(it.estoque_id);
+    if (!inv) return it;
+    const fator = fatorConversao(inv, it.unidade);
+    if (fator == null) {
+      erros.push(`${it.nome} (${it.unidade} → ${inv.unidade})`);
+      return it;
+    }
+    return { ...it, quantidade: arredondarQtd(Number(it.quantidade ?? 0) * fator), unidade: inv.unidade };
+  });
+  if (erros.length > 0) throw new Error("Sem conversão de unidade para: " + erros.join(", "));
+  return out;
+}
 
-              {itemModalOpen ? (
-                <div className="fixed inset-0 bg-black/40 flex items-center justify-center p-4 z-50">
-                  <div className="w-full max-w-2xl bg-white rounded-2xl border border-slate-200 shadow-lg">
-                    <div className="px-4 py-3 border-b border-slate-200 flex items-center justify-between">
-                      <div className="font-bold text-slate-900">
-                        {editingItem ? "Editar item" : "Criar item"}
-                      </div>
-                      <button
-                        className="text-slate-600 hover:text-slate-900 px-2 py-1"
-                        onClick={() => setItemModalOpen(false)}
-                      >
-                        Fechar
-                      </button>
-                    </div>
+function prettyCat(c?: string | null) {
+  if (!c) return "-";
+  return CATEGORIA_LABEL[c] ?? c;
+}
 
-                    <div className="p-4 grid grid-cols-1 md:grid-cols-2 gap-3">
-                      <div>
-                        <label className="block text-sm font-medium text-slate-700">Nome</label>
-                        <input
-                          className="mt-1 w-full rounded-lg border border-slate-300 px-3 py-2"
-                          value={formItem.nome}
-                          onChange={(e) => setFormItem((p: any) => ({ ...p, nome: e.target.value }))}
-                        />
-                      </div>
+export default function App() {
+  const [session, setSession] = useState<Session | null>(null);
+  const [booting, setBooting] = useState(true);
 
-                      <div>
-                        <label className="block text-sm font-medium text-slate-700">Categoria</label>
-                        <select
-                          className="mt-1 w-full rounded-lg border border-slate-300 px-3 py-2"
-                          value={formItem.categoria}
-                          onChange={(e) => setFormItem((p: any) => ({ ...p, categoria: e.target.value }))}
-                        >
-                          <option value="alimento_perecivel">Alimento (Perecível)</option>
-                          <option value="alimento_nao_perecivel">Alimento (Não perecível)</option>
-                          <option value="higiene">Higiene</option>
-                          <option value="roupa_masculina">Vestimenta (Masculino)</option>
-                          <option value="roupa_feminina">Vestimenta (Feminino)</option>
+  const [authTab, setAuthTab] = useState<"login" | "signup">("login");
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+
+  const [authBusy, setAuthBusy] = useState(false);
+  const [authError, setAuthError] = useState<string | null>(null);
+
+  const [profile, setProfile] = useState<Profile | null>(null);
+
+  const [unidades, setUnidades] = useState<Unidade[]>([]);
+  const [unidadesProntas, setUnidadesProntas] = useState(false);
+  // conta sem vínculo com unidade: o banco não mostra nada até um admin vincular
+  const [semUnidade, setSemUnidade] = useState(false);
+  const [unidadeAtiva, setUnidadeAtiva] = useState<string>(() => localStorage.getItem(UNIDADE_STORAGE_KEY) ?? "");
+
+  // visão de todas as unidades: só leitura, porque cada registro novo precisa de uma unidade
+  const consolidado = unidades.length > 0 && !unidadeAtiva;
+
+  const canEdit = useMemo(() => {
+    if (!session || consolidado || semUnidade) return false;
+    const role = profile?.role ?? "viewer";
+    return role === "editor" || role === "admin";
+  }, [profile, session, consolidado, semUnidade]);
+
+  const isAdmin = useMemo(() => {
+    if (!session) return false;
+    return profile?.role === "admin";
+  }, [profile, session]);
+
+  const [view, setView] = useState<ViewKey>("dashboard");
+
+  // ---------- Data ----------
+  const [beneficiarios, setBeneficiarios] = useState<Beneficiario[]>([]);
+  const [estoque, setEstoque] = useState<EstoqueItem[]>([]);
+  const [eventos, setEventos] = useState<Evento[]>([]);
+  const [alertValidade, setAlertValidade] = useState<AlertValidade[]>([]);
+  const [alertMinimo, setAlertMinimo] = useState<AlertMinimo[]>([]);
+  const [basketTemplates, setBasketTemplates] = useState<BasketTemplate[]>([]);
+  const [assembledBaskets, setAssembledBaskets] = useState<number>(0);
+  const [regrasElegibilidade, setRegrasElegibilidade] = useState<RegrasElegibilidade>(REGRAS_PADRAO);
+
+  const [dataErr, setDataErr] = useState<string | null>(null);
+  const [dataLoading, setDataLoading] = useState(false);
+
+  // ---------- Offline ----------
+  const [online, setOnline] = useState(() => navigator.onLine);
+  const [cacheDe, setCacheDe] = useState<string | null>(null); // dados na tela vêm da cópia local salva nessa data
+  const [cargaOk, setCargaOk] = useState(0);
+  const [pendentes, setPendentes] = useState(0);
+  const [conflitos, setConflitos] = useState<ConflitoOffline[]>([]);
+  const [syncing, setSyncing] = useState(false);
+
+  // ---------- Estoque modal ----------
+  const [itemModalOpen, setItemModalOpen] = useState(false);
+  const [editingItem, setEditingItem] = useState<EstoqueItem | null>(null);
+
+  // ---------- Beneficiário modal (criar) ----------
+  const [benefModalOpen, setBenefModalOpen] = useState(false);
+  const [importOpen, setImportOpen] = useState(false);
+  const [assinaturaOpen, setAssinaturaOpen] = useState(false);
+  const [formBenef, setFormBenef] = useState<{ name: string; familySize: number; phone: string; address: string; notes: string }>(
+    { name: "", familySize: 1, phone: "", address: "", notes: "" }
+  );
+
+  const benefDuplicados = useMemo(
+    () => (benefModalOpen && formBenef.name.trim() ? encontrarDuplicados(formBenef, beneficiarios) : []),
+    [benefModalOpen, formBenef, beneficiarios]
+  );
+
+  // ---------- Beneficiário (detalhe / edição) ----------
+  const [benefDetailId, setBenefDetailId] = useState<string | null>(null);
+  const [showArchived, setShowArchived] = useState(false);
+
+  // ---------- Evento (página do dia de distribuição) ----------
+  const [eventoDetailId, setEventoDetailId] = useState<string | null>(null);
+
+  // ---------- Evento modal (criar) ----------
+  const [eventModalOpen, setEventModalOpen] = useState(false);
+  const [formEvento, setFormEvento] = useState<{ title: string; date: string; description: string; status: EventoStatus }>(
+    { title: "", date: new Date().toISOString().slice(0, 10), description: "", status: "planejado" }
+  );
+  const [editingEvento, setEditingEvento] = useState<Evento | null>(null);
+  const [rescheduleEvento, setRescheduleEvento] = useState<Evento | null>(null);
+  const [rescheduleDate, setRescheduleDate] = useState("");
+  const [eventosLayout, setEventosLayout] = useState<"lista" | "calendario">("lista");
+
+  const emptyItem = useMemo(
+    () => ({
+      nome: "",
+      categoria: "alimento_nao_perecivel",
+      quantidade: 0,
+      unidade: "unidade",
+      validade: "",
+      status_conservacao: "",
+      codigo_barras: "",
+      minimo_alerta: 0,
+      data_entrada: "",
+      status: "disponivel",
+      observacoes: "",
+      motivo_ajuste: "",
+      conteudo_qtd: "",
+      conteudo_unidade: "kg",
+    }),
+    []
+  );
+
+  const [formItem, setFormItem] = useState<any>(emptyItem);
+
+  // ---------- Movimentação / histórico de estoque ----------
+  const [movItem, setMovItem] = useState<EstoqueItem | null>(null);
+  const [formMov, setFormMov] = useState<{ tipo: MovimentoTipo; quantidade: number; motivo: string; validade: string }>(
+    { tipo: "entrada", quantidade: 1, motivo: "", validade: "" }
+  );
+  const [movLotes, setMovLotes] = useState<EstoqueLote[]>([]);
+  const [scannerOpen, setScannerOpen] = useState(false);
+  const [reabrirScanner, setReabrirScanner] = useState(false); // recebimento em sequência: volta ao scanner após salvar
+  const [historyItem, setHistoryItem] = useState<EstoqueItem | null>(null);
+
+  // ---------- boot/auth ----------
+  useEffect(() => {
+    if (!supabase) {
+      setBooting(false);
+      return;
+    }
+
+    supabase.auth.getSession().then(({ data }) => {
+      definirUsuarioOffline(data.session?.user.id ?? null);
+      setSession(data.session ?? null);
+      setBooting(false);
+    });
+
+    const { data: listener } = supabase.auth.onAuthStateChange((_evt, s) => {
+      definirUsuarioOffline(s?.user.id ?? null);
+      setSession(s);
+    });
+
+    return () => listener.subscription.unsubscribe();
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      if (!supabase || !session) {
+        setProfile(null);
+        return;
+      }
+      const p = await fetchMyProfile();
+      if (!cancelled) setProfile(p);
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [session]);
+
+  const doLogin = async (e: FormEvent) => {
+    e.preventDefault();
+    setAuthError(null);
+
+    if (!supabase) {
+      setAuthError("Supabase não configurado. Defina VITE_SUPABASE_URL e VITE_SUPABASE_ANON_KEY no Netlify.");
+      return;
+    }
+
+    setAuthBusy(true);
+    const { error } = await supabase.auth.signInWithPassword({ email, password });
+    setAuthBusy(false);
+
+    if (error) setAuthError(error.message);
+  };
+
+  const doSignup = async (e: FormEvent) => {
+    e.preventDefault();
+    setAuthError(null);
+
+    // validações básicas no front
+    if ((password || "").length < 8) {
+      setAuthError("A senha precisa ter pelo menos 8 caracteres.");
+      return;
+    }
+    if (password !== confirmPassword) {
+      setAuthError("As senhas não conferem.");
+      return;
+    }
+
+    if (!supabase) {
+      setAuthError("Supabase não configurado. Defina VITE_SUPABASE_URL e VITE_SUPABASE_ANON_KEY no Netlify.");
+      return;
+    }
+
+    setAuthBusy(true);
+    const { data, error } = await supabase.auth.signUp({ email, password });
+    setAuthBusy(false);
+
+    if (error) {
+      setAuthError(error.message);
+      return;
+    }
+
+    // (opcional, mas ajuda bastante) tenta garantir o profile para novos usuários
+    // Se você já tem trigger no banco (handle_new_user), isso só reforça.
+    const u = data?.user;
+    if (u?.id) {
+      await supabase
+        .from("profiles")
+        .upsert([{ id: u.id, email: u.email ?? null, role: "viewer" }], { onConflict: "id" });
+    }
+
+    setPassword("");
+    setConfirmPassword("");
+    setAuthTab("login");
+    setAuthError(
+      "Conta criada! Se o Supabase exigir confirmação por e-mail, confirme e depois faça login."
+    );
+  };
+
+  const logout = async () => {
+    if (
+      pendentes > 0 &&
+      !confirm(
+        `Há ${pendentes} alteração(ões) ainda não enviada(s). Elas ficam guardadas neste aparelho e só são enviadas quando você entrar de novo. Sair mesmo assim?`
+      )
+    ) {
+      return;
+    }
+    await idbLimparCopias().catch(() => undefined);
+    if (supabase) await supabase.auth.signOut();
+  };
+
+  // ---------- Load all data ----------
+  const loadAll = async () => {
+    if (!supabase) return;
+    setDataErr(null);
+    setDataLoading(true);
+
+    try {
+      // Escopo: unidade ativa (sem unidade = todas as visíveis pela RLS)
+      let bq = supabase.from("beneficiarios").select("*");
+      let eq = supabase.from("eventos_entrega").select("*");
+      let sq = supabase
+        .from("estoque")
+        .select(unidades.length
+          ? "id,nome,categoria,quantidade,unidade,validade,status_conservacao,codigo_barras,minimo_alerta,data_entrada,status,observacoes,unidade_id,created_at"
+          : "id,nome,categoria,quantidade,unidade,validade,status_conservacao,codigo_barras,minimo_alerta,data_entrada,status,observacoes,created_at");
+      if (unidadeAtiva) {
+        bq = bq.eq("unidade_id", unidadeAtiva);
+        eq = eq.eq("unidade_id", unidadeAtiva);
+        sq = sq.eq("unidade_id", unidadeAtiva);
+      }
+
+      // Beneficiários
+      const b = await bq.order("created_at", { ascending: false });
+      if (b.error) throw b.error;
+
+      // Eventos
+      const e = await eq.order("date", { ascending: true });
+      if (e.error) throw e.error;
+
+      // Estoque
+      const s = await sq.order("created_at", { ascending: false });
+      if (s.error) throw s.error;
+      const idsEstoque = new Set(((s.data as any[]) ?? []).map((r) => String(r.id)));
+
+      // Alertas (views)
+      const av = await supabase.from("alertas_validade").select("*").order("dias_para_vencer", { ascending: true });
+      const am = await supabase.from("alertas_minimo").select("*").order("falta_para_minimo", { ascending: false });
+
+      // views podem falhar se não existirem ainda
+      setAlertValidade((av.data as any[])?.filter((r) => idsEstoque.has(String(r.id))).map((r) => ({
+        id: String(r.id),
+        lote_id: r.lote_id == null ? null : String(r.lote_id),
+        nome: String(r.nome),
+        categoria: String(r.categoria),
+        validade: String(r.validade),
+        quantidade: r.quantidade == null ? null : Number(r.quantidade),
+        dias_para_vencer: Number(r.dias_para_vencer),
+      })) ?? []);
+      setAlertMinimo((am.data as any[])?.filter((r) => idsEstoque.has(String(r.id))).map((r) => ({
+        id: String(r.id),
+        nome: String(r.nome),
+        categoria: String(r.categoria),
+        quantidade: Number(r.quantidade ?? 0),
+        minimo: Number(r.minimo ?? 0),
+        falta_para_minimo: Number(r.falta_para_minimo ?? 0),
+      })) ?? []);
+
+
+// Configurações (cestas + contadores por unidade, "assembled_baskets:<unidade>")
+const cfg = await supabase
+  .from("configuracoes")
+  .select("key,value")
+  .or("key.in.(basket_config,assembled_baskets,eligibility_rules),key.like.assembled_baskets:*");
+
+// Modelos de cesta; se a tabela ainda não existir, usa o basket_config antigo como modelo único
+let tq = supabase.from("cestas_modelos").select("id,name,items,assembled_count,base_familia,familia_min,familia_max");
+if (unidadeAtiva) tq = tq.eq("unidade_id", unidadeAtiva);
+const tpl = await tq.order("name");
+if (!tpl.error && tpl.data) {
+  setBasketTemplates((tpl.data as any[]).map((r) => ({
+    id: String(r.id),
+    name: String(r.name ?? ""),
+    items: parseBasketItems(r.items),
+    assembled_count: Number(r.assembled_count ?? 0),
+    base_familia: Number(r.base_familia ?? 4),
+    familia_min: r.familia_min == null ? null : Number(r.familia_min),
+    familia_max: r.familia_max == null ? null : Number(r.familia_max),
+  })));
+}
+
+if (!cfg.error && cfg.data) {
+  const basketRow = (cfg.data as any[]).find((r) => r.key === "basket_config");
+  if (tpl.error && basketRow?.value) {
+    const v = basketRow.value as any;
+    if (v && typeof v === "object") {
+      setBasketTemplates([{
+        ...newTemplate(),
+        id: "basket_config",
+        name: String(v.name ?? "Cesta Básica Padrão"),
+        items: parseBasketItems(v.items),
+        legado: true,
+      }]);
+    }
+  }
+
+  const rulesRow = (cfg.data as any[]).find((r) => r.key === "eligibility_rules");
+  setRegrasElegibilidade(parseRegras(rulesRow?.value));
+
+  // unidade ativa: o contador dela; visão consolidada (ou banco sem unidades): a soma
+  const chave = unidadeAtiva ? contadorCestasKey(unidadeAtiva) : null;
+  const total = (cfg.data as any[])
+    .filter((r) => (chave ? r.key === chave : r.key === "assembled_baskets" || String(r.key).startsWith("assembled_baskets:")))
+    .reduce((acc, r) => {
+      const num = typeof r.value === "number" ? r.value : Number(r.value ?? 0);
+      return acc + (Number.isFinite(num) ? num : 0);
+    }, 0);
+  setAssembledBaskets(total);
+}
+
+      setBeneficiarios(((b.data as any[]) ?? []).map((r) => ({
+        ...r,
+        familySize: Number(r.familySize ?? 1),
+        history: normalizeHistory(r.history),
+        status: (r.status as BenefStatus) ?? "ativo",
+        archived_at: r.archived_at ?? null,
+      })) as Beneficiario[]);
+      setEventos(((e.data as any[]) ?? []).map((r) => ({
+        ...r,
+        modelo_id: r.modelo_id ?? null,
+        cestas_consumidas: Number(r.cestas_consumidas ?? 0),
+        cestas_previstas: r.cestas_previstas == null ? null : Number(r.cestas_previstas),
+        status: (r.status as EventoStatus) ?? "planejado",
+        cancel_reason: r.cancel_reason ?? null,
+        reagendado_de: r.reagendado_de ?? null,
+        revisao: Number(r.revisao ?? 0),
+        updated_at: r.updated_at ?? null,
+      })) as Evento[]);
+      setEstoque((s.data as any[])?.map((r) => ({
+        ...r,
+        quantidade: Number(r.quantidade ?? 0),
+        minimo_alerta: r.minimo_alerta == null ? null : Number(r.minimo_alerta),
+        conteudo_qtd: r.conteudo_qtd == null ? null : Number(r.conteudo_qtd),
+      })) as EstoqueItem[]);
+      setCacheDe(null);
+      setCargaOk(Date.now());
+    } catch (err: any) {
+      // sem conexão: mostra a última cópia salva desta unidade
+      const cache = ehErroDeRede(err) ? await idbLer<CacheOffline>(cacheKey).catch(() => null) : null;
+      if (cache) {
+        setBeneficiarios(cache.beneficiarios);
+        setEstoque(cache.estoque);
+        setEventos(cache.eventos);
+        setBasketTemplates(cache.templates);
+        setRegrasElegibilidade(cache.regras);
+        setAssembledBaskets(cache.assembledBaskets);
+        setCacheDe(cache.salvo_em);
+      } else {
+        setDataErr(err?.message ?? String(err));
+      }
+    } finally {
+      setDataLoading(false);
+    }
+  };
+
+  const cacheKey = `cache:${unidadeAtiva || "todas"}`;
+
+  useEffect(() => {
+    if (!cargaOk) return;
+    const cache: CacheOffline = {
+      salvo_em: new Date().toISOString(),
+      beneficiarios,
+      estoque,
+      eventos,
+      templates: basketTemplates,
+      regras: regrasElegibilidade,
+      assembledBaskets,
+    };
+    idbGravar(cacheKey, cache).catch(() => undefined);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [cargaOk]);
+
+  const atualizarFila = async () => {
+    try {
+      const [f, c] = await Promise.all([lerFila(), lerConflitos()]);
+      setPendentes(f.length);
+      setConflitos(c);
+    } catch {
+      // IndexedDB indisponível (ex.: navegação privada): segue só online
+    }
+  };
+
+  const sincronizar = async () => {
+    if (syncing || !navigator.onLine) return;
+    setSyncing(true);
+    try {
+      const r = await sincronizarFila();
+      if (r.enviados > 0) await loadAll();
+    } catch (err: any) {
+      setDataErr(err?.message ?? String(err));
+    } finally {
+      setSyncing(false);
+      await atualizarFila();
+    }
+  };
+
+  // listeners registrados uma vez; o ref aponta sempre para a versão atual
+  const sincronizarRef = useRef(sincronizar);
+  sincronizarRef.current = sincronizar;
+
+  useEffect(() => {
+    if (!session) return;
+    const onFila = () => atualizarFila();
+    const onOnline = () => {
+      setOnline(true);
+      sincronizarRef.current();
+    };
+    const onOffline = () => setOnline(false);
+    window.addEventListener(FILA_EVENTO, onFila);
+    window.addEventListener("online", onOnline);
+    window.addEventListener("offline", onOffline);
+    atualizarFila().then(() => {
+      if (navigator.onLine) sincronizarRef.current();
+    });
+    return () => {
+      window.removeEventListener(FILA_EVENTO, onFila);
+      window.removeEventListener("online", onOnline);
+      window.removeEventListener("offline", onOffline);
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [session]);
+
+  const descartarConflito = async (id: string) => {
+    await gravarConflitos(conflitos.filter((c) => c.op.id !== id)).catch(() => undefined);
+  };
+
+  useEffect(() => {
+    if (!session || !profile) return;
+    let cancelled = false;
+    fetchUnidades().then((res) => {
+      if (cancelled) return;
+      const us = res ?? [];
+      setUnidades(us);
+      setSemUnidade(res != null && us.length === 0 && profile?.role !== "admin");
+      setUnidadesProntas(true);
+      // mantém a escolha salva se ainda for válida; "todas" só para admin
+      setUnidadeAtiva((atual) => {
+        if (us.length === 0) return "";
+        if (us.some((u) => u.id === atual)) return atual;
+        if (!atual && profile?.role === "admin") return "";
+        return us[0].id;
+      });
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [session, profile]);
+
+  useEffect(() => {
+    localStorage.setItem(UNIDADE_STORAGE_KEY, unidadeAtiva);
+  }, [unidadeAtiva]);
+
+  useEffect(() => {
+    if (!supabase || !session || !unidadesProntas) return;
+    loadAll();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [session, unidadeAtiva, unidades, unidadesProntas]);
+
+  // registros novos nascem na unidade ativa
+  const comUnidade = <T extends object>(payload: T) => (unidadeAtiva ? { ...payload, unidade_id: unidadeAtiva } : payload);
+
+  // ---------- Estoque CRUD ----------
+  const openNewItem = () => {
+    setEditingItem(null);
+    setFormItem({ ...emptyItem });
+    setItemModalOpen(true);
+    setReabrirScanner(false);
+  };
+
+  // Código lido: item conhecido abre a entrada rápida; desconhecido abre o cadastro já com o código
+  const onCodigoLido = (codigo: string) => {
+    setScannerOpen(false);
+    const it = estoque.find((i) => String(i.codigo_barras ?? "").trim() === codigo);
+    if (it) {
+      openMovimento(it);
+    } else {
+      openNewItem();
+      setFormItem((p: any) => ({ ...p, codigo_barras: codigo }));
+    }
+    setReabrirScanner(true);
+  };
+
+  const openEditItem = (it: EstoqueItem) => {
+    setEditingItem(it);
+    setFormItem({
+      nome: it.nome ?? "",
+      categoria: it.categoria ?? "outros",
+      quantidade: it.quantidade ?? 0,
+      unidade: normalizarUnidade(it.unidade) ?? it.unidade ?? "unidade",
+      validade: it.validade ?? "",
+      status_conservacao: it.status_conservacao ?? "",
+      codigo_barras: it.codigo_barras ?? "",
+      minimo_alerta: it.minimo_alerta ?? 0,
+      data_entrada: it.data_entrada ?? "",
+      status: it.status ?? "disponivel",
+      observacoes: it.observacoes ?? "",
+      motivo_ajuste: "",
+      conteudo_qtd: it.conteudo_qtd ?? "",
+      conteudo_unidade: normalizarUnidade(it.conteudo_unidade) ?? "kg",
+    });
+    setItemModalOpen(true);
+  };
+
+  const saveItem = async () => {
+    if (!supabase) return;
+    setDataErr(null);
+
+    if (!canEdit) {
+      setDataErr("Você não tem permissão para editar.");
+      return;
+    }
+
+    const payload: any = {
+      nome: String(formItem.nome || "").trim(),
+      categoria: String(formItem.categoria || "outros"),
+      quantidade: Number(formItem.quantidade || 0),
+      unidade: String(formItem.unidade || "unidade"),
+      validade: formItem.validade ? String(formItem.validade) : null,
+      status_conservacao: formItem.status_conservacao ? String(formItem.status_conservacao) : null,
+      codigo_barras: formItem.codigo_barras ? String(formItem.codigo_barras) : null,
+      minimo_alerta: formItem.minimo_alerta === "" ? 0 : Number(formItem.minimo_alerta || 0),
+      data_entrada: formItem.data_entrada ? String(formItem.data_entrada) : null,
+      status: String(formItem.status || "disponivel"),
+      observacoes: formItem.observacoes ? String(formItem.observacoes) : null,
+    };
+
+    if (!payload.nome) {
+      setDataErr("Informe o nome do item.");
+      return;
+    }
+
+    const unidade = normalizarUnidade(payload.unidade);
+    if (!unidade) {
+      setDataErr(`Unidade "${payload.unidade}" não reconhecida. Use: ${UNIDADES_MEDIDA.join(", ")}.`);
+      return;
+    }
+    payload.unidade = unidade;
+    payload.conteudo_qtd = null;
+    payload.conteudo_unidade = null;
+    if (UNIDADES_EMBALAGEM.includes(unidade) && String(formItem.conteudo_qtd ?? "") !== "") {
+      const conteudo = Number(formItem.conteudo_qtd);
+      if (!(conteudo > 0)) {
+        setDataErr(`Informe quanto vem em 1 ${unidade} (maior que zero).`);
+        return;
+      }
+      payload.conteudo_qtd = conteudo;
+      payload.conteudo_unidade = normalizarUnidade(formItem.conteudo_unidade) ?? "kg";
+    }
+
+    // A quantidade nunca é sobrescrita direto: a diferença vira movimento no livro
+    const { quantidade, ...fields } = payload;
+    const delta = quantidade - Number(editingItem?.quantidade ?? 0);
+    const motivo = String(formItem.motivo_ajuste || "").trim();
+    if (editingItem?.id && delta !== 0 && !motivo) {
+      setDataErr("Informe o motivo do ajuste de quantidade.");
+      return;
+    }
+
+    setDataLoading(true);
+    try {
+      if (editingItem?.id) {
+        const { error } = await supabase.from("estoque").update(fields).eq("id", editingItem.id);
+        if (error) throw error;
+        if (delta !== 0) await movimentarEstoque(editingItem.id, "ajuste", delta, motivo);
+      } else {
+        const { data, error } = await supabase
+          .from("estoque")
+          .insert(comUnidade({ ...fields, quantidade: 0 }))
+          .select("id")
+          .single();
+        if (error) throw error;
+        if (quantidade !== 0) {
+          await movimentarEstoque(
+            String(data.id),
+            quantidade > 0 ? "entrada" : "ajuste",
+            quantidade,
+            "Cadastro do item",
+            fields.validade
+          );
+        }
+      }
+      setItemModalOpen(false);
+      if (reabrirScanner) setScannerOpen(true);
+      await loadAll();
+    } catch (err: any) {
+      setDataErr(err?.message ?? String(err));
+    } finally {
+      setDataLoading(false);
+    }
+  };
+
+  const deleteItem = async (id: string) => {
+    if (!supabase) return;
+    setDataErr(null);
+
+    if (!canEdit) {
+      setDataErr("Você não tem permissão para editar.");
+      return;
+    }
+
+    if (!confirm("Excluir este item do estoque?")) return;
+
+    setDataLoading(true);
+    try {
+      const { error } = await supabase.from("estoque").delete().eq("id", id);
+      if (error) throw error;
+      await loadAll();
+    } catch (err: any) {
+      setDataErr(err?.message ?? String(err));
+    } finally {
+      setDataLoading(false);
+    }
+  };
+
+  const openMovimento = (it: EstoqueItem) => {
+    setReabrirScanner(false);
+    setMovItem(it);
+    setFormMov({ tipo: "entrada", quantidade: 1, motivo: "", validade: "" });
+    setMovLotes([]);
+    fetchLotes(it.id)
+      .then(setMovLotes)
+      .catch(() => setMovLotes([]));
+  };
+
+  const saveMovimento = async () => {
+    if (!supabase || !movItem) return;
+    setDataErr(null);
+
+    if (!canEdit) {
+      setDataErr("Você não tem permissão para editar.");
+      return;
+    }
+
+    const qtd = Number(formMov.quantidade || 0);
+    if (!qtd) {
+      setDataErr("Informe a quantidade movimentada.");
+      return;
+    }
+    const sinal = MOVIMENTO_SINAL[formMov.tipo];
+    // "ajuste" usa o sinal digitado; os demais tipos forçam o sinal correto
+    const delta = sinal === 0 ? qtd : sinal * Math.abs(qtd);
+    const motivo = formMov.motivo.trim();
+    if ((formMov.tipo === "ajuste" || formMov.tipo === "perda") && !motivo) {
+      setDataErr("Informe o motivo para ajustes e perdas.");
+      return;
+    }
+
+    setDataLoading(true);
+    try {
+      const r = await enviarOuEnfileirar({
+        tipo: "rpc",
+        fn: "movimentar_estoque",
+        args: {
+          p_estoque_id: movItem.id,
+          p_tipo: formMov.tipo,
+          p_delta: delta,
+          p_motivo: motivo || null,
+          p_validade: (delta > 0 && formMov.validade) || null,
+        },
+        descricao: `${MOVIMENTO_LABEL[formMov.tipo]}: ${delta > 0 ? "+" : ""}${delta} ${movItem.unidade} de ${movItem.nome ?? "item"}`,
+      });
+      setMovItem(null);
+      if (reabrirScanner) setScannerOpen(true);
+      if (r === "fila") {
+        const id = movItem.id;
+        setEstoque((prev) => prev.map((i) => (i.id === id ? { ...i, quantidade: Number(i.quantidade ?? 0) + delta } : i)));
+      } else {
+        await loadAll();
+      }
+    } catch (err: any) {
+      setDataErr(err?.message ?? String(err));
+    } finally {
+      setDataLoading(false);
+    }
+  };
+
+  // ---------- Beneficiários (criar) ----------
+  const openNewBenef = () => {
+    setFormBenef({ name: "", familySize: 1, phone: "", address: "", notes: "" });
+    setBenefModalOpen(true);
+  };
+
+  const saveBenef = async () => {
+    if (!supabase) return;
+    setDataErr(null);
+
+    if (!canEdit) {
+      setDataErr("Você não tem permissão para editar.");
+      return;
+    }
+
+    const name = String(formBenef.name || "").trim();
+    if (!name) {
+      setDataErr("Informe o nome do beneficiário.");
+      return;
+    }
+
+    const payload: any = {
+      id: genTextId(),
+      name,
+      familySize: Math.max(1, Number(formBenef.familySize || 1)),
+      address: String(formBenef.address || ""),
+      phone: String(formBenef.phone || ""),
+      lastBasketDate: null,
+      notes: formBenef.notes ? String(formBenef.notes) : null,
+      history: [],
+      status: "ativo",
+    };
+
+    if (benefDuplicados.length > 0) {
+      const lista = benefDuplicados
+        .slice(0, 5)
+        .map((m) => `• ${m.beneficiario.name} (${m.motivos.join(", ")})`)
+        .join("\n");
+      if (!confirm(`Possível cadastro duplicado:\n${lista}\n\nSalvar mesmo assim?`)) return;
+    }
+
+    setDataLoading(true);
+    try {
+      const r = await enviarOuEnfileirar({
+        tipo: "insert",
+        tabela: "beneficiarios",
+        payload: comUnidade(payload),
+        descricao: `Cadastro de ${name}`,
+      });
+      setBenefModalOpen(false);
+      if (r === "fila") {
+        setBeneficiarios((prev) => [{ ...payload, archived_at: null, created_at: new Date().toISOString() }, ...prev]);
+      } else {
+        await loadAll();
+      }
+    } catch (err: any) {
+      setDataErr(err?.message ?? String(err));
+    } finally {
+      setDataLoading(false);
+    }
+  };
+
+  // ---------- Eventos (criar) ----------
+  const openNewEvento = () => {
+    setEditingEvento(null);
+    setFormEvento({ title: "", date: todayISO(), description: "", status: "planejado" });
+    setEventModalOpen(true);
+  };
+
+  const openEditEvento = (ev: Evento) => {
+    setEditingEvento(ev);
+    setFormEvento({ title: ev.title, date: ev.date, description: ev.description ?? "", status: ev.status });
+    setEventModalOpen(true);
+  };
+
+  const cancelEvento = async (ev: Evento) => {
+    if (!supabase) return;
+    setDataErr(null);
+
+    if (!canEdit) {
+      setDataErr("Você não tem permissão para editar.");
+      return;
+    }
+
+    const reason = (prompt(`Motivo do cancelamento de "${ev.title}":`) ?? "").trim();
+    if (!reason) return;
+
+    setDataLoading(true);
+    try {
+      const { error } = await supabase
+        .from("eventos_entrega")
+        .update({ status: "cancelado", cancel_reason: reason })
+        .eq("id", ev.id);
+      if (error) throw error;
+      await loadAll();
+    } catch (err: any) {
+      setDataErr(err?.message ?? String(err));
+    } finally {
+      setDataLoading(false);
+    }
+  };
+
+  const openReschedule = (ev: Evento) => {
+    setRescheduleEvento(ev);
+    setRescheduleDate(ev.date);
+  };
+
+  const exportEventoICS = (ev: Evento) => {
+    downloadTextFile(`asa-${slugify(ev.title)}-${ev.date}.ics`, eventosToICS([ev]), "text/calendar;charset=utf-8");
+  };
+
+  const exportProximosICS = () => {
+    const proximos = eventos.filter((ev) => ev.date >= todayISO() && ev.status !== "cancelado");
+    if (proximos.length === 0) {
+      setDataErr("Nenhum evento futuro para exportar.");
+      return;
+    }
+    downloadTextFile(`asa-eventos-${todayISO()}.ics`, eventosToICS(proximos), "text/calendar;charset=utf-8");
+  };
+
+  // Arrastar no calendário
+  const dropReschedule = async (ev: Evento, date: string) => {
+    setDataErr(null);
+    if (!canEdit || ev.date === date) return;
+
+    setDataLoading(true);
+    try {
+      await reagendarEvento(ev, date);
+      await loadAll();
+    } catch (err: any) {
+      setDataErr(err?.message ?? String(err));
+    } finally {
+      setDataLoading(false);
+    }
+  };
+
+  const saveReschedule = async () => {
+    if (!rescheduleEvento) return;
+    setDataErr(null);
+
+    if (!canEdit) {
+      setDataErr("Você não tem permissão para editar.");
+      return;
+    }
+
+    setDataLoading(true);
+    try {
+      await reagendarEvento(rescheduleEvento, rescheduleDate);
+      setRescheduleEvento(null);
+      await loadAll();
+    } catch (err: any) {
+      setDataErr(err?.message ?? String(err));
+    } finally {
+      setDataLoading(false);
+    }
+  };
+
+  const saveEvento = async () => {
+    if (!supabase) return;
+    setDataErr(null);
+
+    if (!canEdit) {
+      setDataErr("Você não tem permissão para editar.");
+      return;
+    }
+
+    const title = String(formEvento.title || "").trim();
+    const date = String(formEvento.date || "").trim();
+    if (!title) {
+      setDataErr("Informe o título do evento.");
+      return;
+    }
+    if (!date) {
+      setDataErr("Informe a data do evento.");
+      return;
+    }
+
+    const payload: any = {
+      title,
+      date,
+      description: formEvento.description ? String(formEvento.description) : null,
+      status: formEvento.status,
+    };
+    if (editingEvento && editingEvento.date !== date) {
+      payload.reagendado_de = editingEvento.reagendado_de ?? editingEvento.date;
+    }
+    if (formEvento.status !== "cancelado") payload.cancel_reason = null;
+    if (formEvento.status === "cancelado" && editingEvento?.status !== "cancelado") {
+      const reason = (prompt("Motivo do cancelamento:") ?? "").trim();
+      if (!reason) return;
+      payload.cancel_reason = reason;
+    }
+
+    setDataLoading(true);
+    try {
+      if (editingEvento?.id) {
+        const { error } = await supabase.from("eventos_entrega").update(payload).eq("id", editingEvento.id);
+        if (error) throw error;
+      } else {
+        const { error } = await supabase.from("eventos_entrega").insert(comUnidade({ ...payload, id: genTextId() }));
+        if (error) throw error;
+      }
+      setEventModalOpen(false);
+      await loadAll();
+    } catch (err: any) {
+      setDataErr(err?.message ?? String(err));
+    } finally {
+      setDataLoading(false);
+    }
+  };
+
+  // ---------- UI ----------
+  if (booting) {
+    return (
+      <div className="h-screen flex items-center justify-center">
+        <Loader2 className="animate-spin" size={48} />
+      </div>
+    );
+  }
+
+  if (!supabase) {
+    return (
+      <div className="min-h-screen bg-slate-100 flex items-center justify-center p-6">
+        <div className="w-full max-w-lg bg-white rounded-2xl shadow p-6 border border-slate-200">
+          <div className="text-xl font-bold text-slate-900">Sistema ASA</div>
+          <div className="mt-2 text-slate-700">Falta configurar as variáveis do Supabase no Netlify:</div>
+          <div className="mt-3 text-sm bg-slate-50 border border-slate-200 rounded-xl p-3">
+            <div>
+              <b>VITE_SUPABASE_URL</b>
+            </div>
+            <div>
+              <b>VITE_SUPABASE_ANON_KEY</b>
+            </div>
+            <div className="mt-2 text-slate-600">Depois disso, faça um novo deploy.</div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!session) {
+    return (
+      <div className="min-h-screen bg-slate-100 flex items-center justify-center p-6">
+        <div className="w-full max-w-md bg-white rounded-2xl shadow p-6 border border-slate-200">
+          <div className="flex items-center gap-3">
+            <img
+              src="/asa-logo.jpg"
+              alt="ASA"
+              className="h-10 w-10 rounded-lg object-contain"
+              onError={(e) => (((e.currentTarget as HTMLImageElement).style.display = "none"))}
+            />
+            <div>
+              <div className="text-xl font-bold text-slate-900">Sistema ASA</div>
+              <div className="text-sm text-slate-600">Acesso ao painel</div>
+            </div>
+          </div>
+
+          <div className="mt-5 flex gap-2">
+            <button
+              type="button"
+              onClick={() => {
+                setAuthTab("login");
+                setAuthError(null);
+                setConfirmPassword("");
+              }}
+              className={cn(
+                "flex-1 rounded-lg border px-3 py-2 font-semibold",
+                authTab === "login" ? "bg-slate-900 text-white border-slate-900" : "bg-white border-slate-200"
+              )}
+            >
+              Login
+            </button>
+            <button
+              type="button"
+              onClick={() => {
+                setAuthTab("signup");
+                setAuthError(null);
+              }}
+              className={cn(
+                "flex-1 rounded-lg border px-3 py-2 font-semibold",
+                authTab === "signup" ? "bg-slate-900 text-white border-slate-900" : "bg-white border-slate-200"
+              )}
+            >
+              Criar conta
+            </button>
+          </div>
+
+          <form onSubmit={authTab === "login" ? doLogin : doSignup} className="mt-5 space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-slate-700">E-mail</label>
+              <input
+                type="email"
+                className="mt-1 w-full rounded-lg border border-slate-300 px-3 py-2"
+                value={email}
+                onChange={(ev) => setEmail(ev.target.value)}
+                required
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-slate-700">Senha</label>
+              <input
+                type="password"
+                className="mt-1 w-full rounded-lg border border-slate-300 px-3 py-2"
+                value={password}
+                onChange={(ev) => setPassword(ev.target.value)}
+                required
+              />
+              <div className="text-xs text-slate-500 mt-1">Use uma senha forte (mín. 8 caracteres).</div>
+            </div>
+
+            {authTab === "signup" ? (
+              <div>
+                <label className="block text-sm font-medium text-slate-700">Confirmar senha</label>
+                <input
+                  type="password"
+                  className="mt-1 w-full rounded-lg border border-slate-300 px-3 py-2"
+                  value={confirmPassword}
+                  onChange={(ev) => setConfirmPassword(ev.target.value)}
+                  required
+                />
+              </div>
+            ) : null}
+
+            {authError && (
+              <div className="rounded-lg bg-amber-50 border border-amber-200 text-amber-900 px-3 py-2 text-sm">
+                {authError}
+              </div>
+            )}
+
+            <button
+              disabled={authBusy}
+              className="w-full rounded-lg bg-slate-900 text-white font-semibold py-2 disabled:opacity-60"
+            >
+              {authBusy ? "Aguarde..." : authTab === "login" ? "Entrar" : "Criar conta"}
+            </button>
+
+            <div className="text-xs text-slate-500">
+              Permissões: novos usuários entram como <b>Somente visualizar</b>. Admin pode liberar edição.
+            </div>
+          </form>
+        </div>
+      </div>
+    );
+  }
+
+  const emailDisplay = String(session.user?.email || "");
+  const roleDisplay = profile?.role ?? "viewer";
+
+  const totalEstoque = estoque.length;
+  const hoje = todayISO();
+  const totalBenef = beneficiarios.filter((b) => !b.archived_at).length;
+  const benefVisiveis = showArchived ? beneficiarios : beneficiarios.filter((b) => !b.archived_at);
+  const eventoDetail = eventoDetailId ? eventos.find((ev) => ev.id === eventoDetailId) ?? null : null;
+  const benefDetail = benefDetailId ? beneficiarios.find((b) => b.id === benefDetailId) ?? null : null;
+  const proximoEvento =
+    eventos
+      .filter((ev) => ev.status === "planejado" && ev.date >= hoje)
+      .sort((a, b) => a.date.localeCompare(b.date))[0] ?? null;
+
+  return (
+    <div className="min-h-screen bg-slate-50">
+      <header className="bg-white border-b border-slate-200">
+        <div className="max-w-7xl mx-auto px-4 py-3 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <img
+              src="/asa-logo.jpg"
+              alt="ASA"
+              className="h-9 w-9 rounded-lg object-contain"
+              onError={(e) => (((e.currentTarget as HTMLImageElement).style.display = "none"))}
+            />
+            <div>
+              <div className="text-lg font-bold text-slate-900">ASA</div>
+              <div className="text-xs text-slate-600">
+                {emailDisplay} • <Badge>{isAdmin ? "admin" : roleDisplay}</Badge>{" "}
+                {!canEdit ? <Badge>{consolidado ? "consolidado (somente leitura)" : "somente leitura"}</Badge> : null}
+              </div>
+            </div>
+          </div>
+
+          <div className="flex items-center gap-2">
+            {!online || cacheDe ? (
+              <span
+                className="rounded-lg border border-amber-200 bg-amber-50 px-3 py-2 text-sm font-semibold text-amber-900"
+                title={cacheDe ? `Dados salvos em ${new Date(cacheDe).toLocaleString("pt-BR")}` : undefined}
+              >
+                Offline{cacheDe ? ` • dados de ${new Date(cacheDe).toLocaleString("pt-BR")}` : ""}
+              </span>
+            ) : null}
+            {pendentes > 0 ? (
+              <button
+                onClick={sincronizar}
+                disabled={!online || syncing}
+                className="inline-flex items-center gap-2 rounded-lg border border-amber-300 bg-white px-3 py-2 font-semibold text-amber-900 hover:bg-amber-50 disabled:opacity-60"
+                title="Enviar o que foi registrado sem internet"
+              >
+                {syncing ? <Loader2 className="animate-spin" size={18} /> : null}
+                Sincronizar ({pendentes})
+              </button>
+            ) : null}
+            {unidades.length > 0 ? (
+              <select
+                className="rounded-lg border border-slate-200 bg-white px-3 py-2 font-semibold"
+                value={unidadeAtiva}
+                onChange={(e) => setUnidadeAtiva(e.target.value)}
+                title="Unidade"
+              >
+                {isAdmin ? <option value="">Todas as unidades</option> : null}
+                {unidades.map((u) => (
+                  <option key={u.id} value={u.id}>
+                    {u.nome}
+                  </option>
+                ))}
+              </select>
+            ) : null}
+
+            <button
+              onClick={loadAll}
+              className="inline-flex items-center gap-2 rounded-lg border border-slate-200 bg-white font-semibold px-3 py-2 hover:bg-slate-50"
+              title="Recarregar dados"
+            >
+              {dataLoading ? <Loader2 className="animate-spin" size={18} /> : <Settings size={18} />}
+              Atualizar
+            </button>
+
+            <button
+              onClick={logout}
+              className="inline-flex items-center gap-2 rounded-lg bg-slate-900 text-white font-semibold px-4 py-2"
+            >
+              <LogOut size={18} />
+              Sair
+            </button>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 py-6 grid grid-cols-1 lg:grid-cols-[260px_1fr] gap-6">
+        <aside className="bg-white border border-slate-200 rounded-2xl p-3 h-fit">
+          <div className="px-2 pb-3 flex items-center gap-2">
+            <img
+              src="/asa-logo.jpg"
+              alt="ASA"
+              className="h-9 w-9 rounded-lg object-contain"
+              onError={(e) => (((e.currentTarget as HTMLImageElement).style.display = "none"))}
+            />
+            <div>
+              <div className="font-bold text-slate-900 leading-tight">Sistema ASA</div>
+              <div className="text-xs text-slate-500 leading-tight">Menu</div>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <SidebarButton
+              active={view === "dashboard"}
+              icon={<LayoutDashboard size={18} />}
+              label="Visão Geral"
+              onClick={() => setView("dashboard")}
+            />
+            <SidebarButton
+              active={view === "estoque"}
+              icon={<Package size={18} />}
+              label="Estoque"
+              onClick={() => setView("estoque")}
+            />
+            <SidebarButton
+              active={view === "eventos"}
+              icon={<CalendarDays size={18} />}
+              label="Eventos"
+              onClick={() => setView("eventos")}
+            />
+            <SidebarButton
+              active={view === "beneficiarios"}
+              icon={<Users size={18} />}
+              label="Beneficiários"
+              onClick={() => setView("beneficiarios")}
+            />
+            <SidebarButton
+              active={view === "cestas"}
+              icon={<Boxes size={18} />}
+              label="Cestas"
+              onClick={() => setView("cestas")}
+            />
+
+            <SidebarButton
+              active={view === "doacoes"}
+              icon={<Gift size={18} />}
+              label="Doações"
+              onClick={() => setView("doacoes")}
+            />
+            <SidebarButton
+              active={view === "relatorios"}
+              icon={<FileDown size={18} />}
+              label="Relatórios"
+              onClick={() => setView("relatorios")}
+            />
+            {isAdmin ? (
+              <SidebarButton
+                active={view === "duplicados"}
+                icon={<Copy size={18} />}
+                label="Duplicados"
+                onClick={() => setView("duplicados")}
+              />
+            ) : null}
+            {isAdmin ? (
+              <SidebarButton
+                active={view === "auditoria"}
+                icon={<ScrollText size={18} />}
+                label="Auditoria"
+                onClick={() => setView("auditoria")}
+              />
+            ) : null}
+            {isAdmin ? (
+              <SidebarButton
+                active={view === "usuarios"}
+                icon={<Settings size={18} />}
+                label="Usuários"
+                onClick={() => setView("usuarios")}
+              />
+            ) : null}
+          </div>
+        </aside>
+
+        <section className="space-y-4">
+          {conflitos.length > 0 ? (
+            <div className="rounded-xl border border-red-200 bg-red-50 px-4 py-3 text-red-900">
+              <div className="font-bold flex items-center gap-2">
+                <AlertTriangle size={18} /> Registros offline recusados na sincronização
+              </div>
+              <div className="text-sm mt-1">
+                Confira cada caso, refaça no sistema se ainda fizer sentido e descarte o aviso.
+              </div>
+              <ul className="mt-2 space-y-2 text-sm">
+                {conflitos.map((c) => (
+                  <li key={c.op.id} className="flex flex-wrap items-start justify-between gap-2 rounded-lg bg-white/60 p-2">
+                    <div>
+                      <b>{c.op.descricao}</b>
+                      <div className="text-xs">
+                        feito em {new Date(c.op.criado_em).toLocaleString("pt-BR")} • {c.erro}
+                      </div>
+                    </div>
+                    <button
+                      onClick={() => descartarConflito(c.op.id)}
+                      className="rounded-lg border border-red-200 bg-white px-2 py-1 text-xs hover:bg-red-50"
+                    >
+                      Descartar
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ) : null}
+
+          {semUnidade ? (
+            <div className="rounded-xl border border-amber-200 bg-amber-50 px-4 py-3 text-amber-900">
+              <div className="font-bold flex items-center gap-2">
+                <AlertTriangle size={18} /> Conta sem unidade
+              </div>
+              <div className="text-sm mt-1">
+                Sua conta ainda não está vinculada a nenhuma unidade, por isso nenhum dado aparece. Peça a um admin para
+                marcar sua unidade em Usuários.
+              </div>
+            </div>
+          ) : null}
+
+          {dataErr ? (
+            <div className="rounded-xl border border-red-200 bg-red-50 px-4 py-3 text-red-900">
+              <div className="font-bold flex items-center gap-2">
+                <AlertTriangle size={18} /> Erro
+              </div>
+              <div className="text-sm mt-1">{dataErr}</div>
+              <div className="text-xs mt-2 text-red-800">
+                Dica: isso geralmente é RLS bloqueando, tabela/view não existe, ou variáveis do Supabase erradas.
+              </div>
+            </div>
+          ) : null}
+
+          {view === "dashboard" && (
+            <Card title="Dashboard">
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                <div className="rounded-xl border border-slate-200 p-4">
+                  <div className="text-xs text-slate-600">Itens em estoque</div>
+                  <div className="text-2xl font-bold text-slate-900">{totalEstoque}</div>
+                </div>
+                <div className="rounded-xl border border-slate-200 p-4">
+                  <div className="text-xs text-slate-600">Beneficiários</div>
+                  <div className="text-2xl font-bold text-slate-900">{totalBenef}</div>
+                </div>
+                <button
+                  className="rounded-xl border border-slate-200 p-4 text-left hover:bg-slate-50"
+                  onClick={() => {
+                    setEventoDetailId(proximoEvento?.id ?? null);
+                    setView("eventos");
+                  }}
+                >
+                  <div className="text-xs text-slate-600">Próximo evento</div>
+                  {proximoEvento ? (
+                    <>
+                      <div className="text-lg font-bold text-slate-900">{proximoEvento.title}</div>
+                      <div className="text-sm text-slate-600">{fmtDateBR(proximoEvento.date)}</div>
+                    </>
+                  ) : (
+                    <div className="text-lg font-semibold text-slate-500">Nenhum agendado</div>
+                  )}
+                </button>
+              </div>
+
+              {(alertValidade.length > 0 || alertMinimo.length > 0) ? (
+                <div className="mt-4 grid grid-cols-1 lg:grid-cols-2 gap-3">
+                  <div className="rounded-xl border border-red-200 bg-red-50 p-4">
+                    <div className="font-bold text-red-900">⚠️ Próximos do vencimento (7 dias)</div>
+                    {alertValidade.length === 0 ? (
+                      <div className="text-sm text-red-800 mt-2">Nenhum.</div>
+                    ) : (
+                      <ul className="mt-2 text-sm text-red-800 space-y-1">
+                        {alertValidade.slice(0, 8).map((a) => (
+                          <li key={a.lote_id ?? a.id}>
+                            <b>{a.nome}</b>
+                            {a.quantidade != null ? <> ({a.quantidade})</> : null} • {prettyCat(a.categoria)} • vence em{" "}
+                            <b>{fmtDateBR(a.validade)}</b> ({a.dias_para_vencer} dias)
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+
+                  <div className="rounded-xl border border-amber-200 bg-amber-50 p-4">
+                    <div className="font-bold text-amber-900">📉 Abaixo do mínimo</div>
+                    {alertMinimo.length === 0 ? (
+                      <div className="text-sm text-amber-900 mt-2">Nenhum.</div>
+                    ) : (
+                      <ul className="mt-2 text-sm text-amber-900 space-y-1">
+                        {alertMinimo.slice(0, 8).map((a) => (
+                          <li key={a.id}>
+                            <b>{a.nome}</b> • {prettyCat(a.categoria)} • qtd {a.quantidade} / mín {a.minimo} (faltam {a.falta_para_minimo})
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                </div>
+              ) : null}
+            </Card>
+          )}
+
+          {view === "estoque" && (
+            <Card
+              title="Estoque"
+              right={
+                <div className="flex items-center gap-2">
+                  {!canEdit ? <Badge>somente leitura</Badge> : null}
+                  {canEdit ? (
+                    <button
+                      onClick={() => setScannerOpen(true)}
+                      className="inline-flex items-center gap-2 rounded-lg border border-slate-200 bg-white font-semibold px-3 py-2 hover:bg-slate-50"
+                      title="Ler código de barras com a câmera"
+                    >
+                      <ScanBarcode size={18} /> Escanear
+                    </button>
+                  ) : null}
+                  {canEdit ? (
+                    <button
+                      onClick={openNewItem}
+                      className="inline-flex items-center gap-2 rounded-lg bg-slate-900 text-white font-semibold px-3 py-2"
+                    >
+                      <Plus size={18} /> Criar item
+                    </button>
+                  ) : null}
+                </div>
+              }
+            >
+              <div className="text-sm text-slate-600 mb-3">
+                Categorias: alimentos (perecível / não perecível), vestimenta (masc / fem / infantil), higiene, móveis, outros.
+              </div>
+
+              <div className="overflow-auto border border-slate-200 rounded-xl">
+                <table className="min-w-[900px] w-full text-sm">
+                  <thead className="bg-slate-100">
+                    <tr className="text-left">
+                      <th className="p-2">Item</th>
+                      <th className="p-2">Categoria</th>
+                      <th className="p-2">Qtd</th>
+                      <th className="p-2">Validade</th>
+                      <th className="p-2">Mín</th>
+                      <th className="p-2">Status</th>
+                      <th className="p-2">Obs.</th>
+                      <th className="p-2 w-[360px]">Ações</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {estoque.length === 0 ? (
+                      <tr>
+                        <td className="p-3 text-slate-600" colSpan={8}>
+                          Nenhum item no estoque ainda. Clique em <b>Criar item</b>.
+                        </td>
+                      </tr>
+                    ) : (
+                      estoque.map((it) => (
+                        <tr key={it.id} className="border-t">
+                          <td className="p-2 font-medium text-slate-900">{it.nome ?? "-"}</td>
+                          <td className="p-2">{prettyCat(it.categoria)}</td>
+                          <td className="p-2">
+                            {Number(it.quantidade ?? 0)} {it.unidade ?? "unidade"}
+                            {/* itens antigos com unidade fora da lista: não convertem até alguém editar */}
+                            {normalizarUnidade(it.unidade) ? null : (
+                              <div className="text-xs text-amber-700">unidade não reconhecida</div>
+                            )}
+                          </td>
+                          <td className="p-2">{it.validade ?? "-"}</td>
+                          <td className="p-2">{it.minimo_alerta ?? 0}</td>
+                          <td className="p-2">{it.status ?? "disponivel"}</td>
+                          <td className="p-2">{it.observacoes ? it.observacoes.slice(0, 40) : "-"}</td>
+                          <td className="p-2">
+                            <div className="flex items-center gap-2">
+                              <button
+                                className={cn(
+                                  "inline-flex items-center gap-1 rounded-lg border px-2 py-1",
+                                  canEdit ? "border-slate-200 hover:bg-slate-50" : "border-slate-100 text-slate-300 cursor-not-allowed"
+                                )}
+                                onClick={() => (canEdit ? openMovimento(it) : null)}
+                                disabled={!canEdit}
+                                title="Entrada / saída"
+                              >
+                                <ArrowLeftRight size={16} /> Movimentar
+                              </button>
+                              <button
+                                className="inline-flex items-center gap-1 rounded-lg border border-slate-200 px-2 py-1 hover:bg-slate-50"
+                                onClick={() => setHistoryItem(it)}
+                                title="Histórico de movimentações"
+                              >
+                                <History size={16} /> Histórico
+                              </button>
+                              <button
+                                className={cn(
+                                  "inline-flex items-center gap-1 rounded-lg border px-2 py-1",
+                                  canEdit ? "border-slate-200 hover:bg-slate-50" : "border-slate-100 text-slate-300 cursor-not-allowed"
+                                )}
+                                onClick={() => (canEdit ? openEditItem(it) : null)}
+                                disabled={!canEdit}
+                                title="Editar"
+                              >
+                                <Pencil size={16} /> Editar
+                              </button>
+                              <button
+                                className={cn(
+                                  "inline-flex items-center gap-1 rounded-lg border px-2 py-1",
+                                  canEdit ? "border-red-200 text-red-700 hover:bg-red-50" : "border-slate-100 text-slate-300 cursor-not-allowed"
+                                )}
+                                onClick={() => (canEdit ? deleteItem(it.id) : null)}
+                                disabled={!canEdit}
+                                title="Excluir"
+                              >
+                                <Trash2 size={16} /> Excluir
+                              </button>
+                            </div>
+                          </td>
+                        </tr>
+                      ))
+                    )}
+                  </tbody>
+                </table>
+              </div>
+
+              {itemModalOpen ? (
+                <div className="fixed inset-0 bg-black/40 flex items-center justify-center p-4 z-50">
+                  <div className="w-full max-w-2xl bg-white rounded-2xl border border-slate-200 shadow-lg">
+                    <div className="px-4 py-3 border-b border-slate-200 flex items-center justify-between">
+                      <div className="font-bold text-slate-900">
+                        {editingItem ? "Editar item" : "Criar item"}
+                      </div>
+                      <button
+                        className="text-slate-600 hover:text-slate-900 px-2 py-1"
+                        onClick={() => setItemModalOpen(false)}
+                      >
+                        Fechar
+                      </button>
+                    </div>
+
+                    <div className="p-4 grid grid-cols-1 md:grid-cols-2 gap-3">
+                      <div>
+                        <label className="block text-sm font-medium text-slate-700">Nome</label>
+                        <input
+                          className="mt-1 w-full rounded-lg border border-slate-300 px-3 py-2"
+                          value={formItem.nome}
+                          onChange={(e) => setFormItem((p: any) => ({ ...p, nome: e.target.value }))}
+                        />
+                      </div>
+
+                      <div>
+                        <label className="block text-sm font-medium text-slate-700">Categoria</label>
+                        <select
+                          className="mt-1 w-full rounded-lg border border-slate-300 px-3 py-2"
+                          value={formItem.categoria}
+                          onChange={(e) => setFormItem((p: any) => ({ ...p, categoria: e.target.value }))}
+                        >
+                          <option value="alimento_perecivel">Alimento (Perecível)</option>
+                          <option value="alimento_nao_perecivel">Alimento (Não perecível)</option>
+                          <option value="higiene">Higiene</option>
+                          <option value="roupa_masculina">Vestimenta (Masculino)</option>
+                          <option value="roupa_feminina">Vestimenta (Feminino)</option>
                           <option value="roupa_infantil">Vestimenta (Infantil)</option>
                           <option value="movel">Móveis</option>
                           <option value="outros">Outros</option>
                         </select>
                       </div>
 
-                      <div>
-                        <label className="block text-sm font-medium text-slate-700">Quantidade</label>
-                        <input
-                          type="number"
-                          className="mt-1 w-full rounded-lg border border-slate-300 px-3 py-2"
-                          value={formItem.quantidade}
-                          onChange={(e) => setFormItem((p: any) => ({ ...p, quantidade: e.target.value }))}
-                        />
-                      </div>
+                      <div>
+                        <label className="block text-sm font-medium text-slate-700">Quantidade</label>
+                        <input
+                          type="number"
+                          className="mt-1 w-full rounded-lg border border-slate-300 px-3 py-2"
+                          value={formItem.quantidade}
+                          onChange={(e) => setFormItem((p: any) => ({ ...p, quantidade: e.target.value }))}
+                        />
+                        {editingItem && Number(formItem.quantidade || 0) !== Number(editingItem.quantidade ?? 0) ? (
+                          <input
+                            className="mt-2 w-full rounded-lg border border-amber-300 bg-amber-50 px-3 py-2 text-sm"
+                            placeholder="Motivo do ajuste (obrigatório)"
+                            value={formItem.motivo_ajuste}
+                            onChange={(e) => setFormItem((p: any) => ({ ...p, motivo_ajuste: e.target.value }))}
+                          />
+                        ) : null}
+                      </div>
+
+                      <div>
+                        <label className="block text-sm font-medium text-slate-700">Unidade</label>
+                        <select
+                          className="mt-1 w-full rounded-lg border border-slate-300 px-3 py-2"
+                          value={formItem.unidade}
+                          onChange={(e) => setFormItem((p: any) => ({ ...p, unidade: e.target.value }))}
+                        >
+                          {!normalizarUnidade(formItem.unidade) ? (
+                            <option value={formItem.unidade}>{formItem.unidade} (escolha uma unidade válida)</option>
+                          ) : null}
+                          {UNIDADES_MEDIDA.map((u) => (
+                            <option key={u} value={u}>
+                              {u}
+                            </option>
+                          ))}
+                        </select>
+                        {UNIDADES_EMBALAGEM.includes(formItem.unidade) ? (
+                          <div className="mt-2 flex items-center gap-2">
+                            <span className="text-xs text-slate-600 whitespace-nowrap">1 {formItem.unidade} =</span>
+                            <input
+                              type="number"
+                              min={0}
+                              className="w-24 rounded-lg border border-slate-300 px-2 py-1 text-sm"
+                              value={formItem.conteudo_qtd}
+                              onChange={(e) => setFormItem((p: any) => ({ ...p, conteudo_qtd: e.target.value }))}
+                            />
+                            <select
+                              className="rounded-lg border border-slate-300 px-2 py-1 text-sm"
+                              value={formItem.conteudo_unidade}
+                              onChange={(e) => setFormItem((p: any) => ({ ...p, conteudo_unidade: e.target.value }))}
+                            >
+                              {UNIDADES_MEDIDA.filter((u) => !UNIDADES_EMBALAGEM.includes(u)).map((u) => (
+                                <option key={u} value={u}>
+                                  {u}
+                                </option>
+                              ))}
+                            </select>
+                          </div>
+                        ) : null}
+                      </div>
+
+                      <div>
+                        <label className="block text-sm font-medium text-slate-700">
+                          {editingItem ? "Validade (lote mais próximo)" : "Validade do lote inicial (opcional)"}
+                        </label>
+                        <input
+                          type="date"
+                          className="mt-1 w-full rounded-lg border border-slate-300 px-3 py-2 disabled:bg-slate-50"
+                          value={formItem.validade}
+                          onChange={(e) => setFormItem((p: any) => ({ ...p, validade: e.target.value }))}
+                          disabled={!!editingItem}
+                          title={editingItem ? "Cada entrada registra a validade do próprio lote (Movimentar)." : undefined}
+                        />
+                      </div>
+
+                      <div>
+                        <label className="block text-sm font-medium text-slate-700">Mínimo p/ alerta</label>
+                        <input
+                          type="number"
+                          className="mt-1 w-full rounded-lg border border-slate-300 px-3 py-2"
+                          value={formItem.minimo_alerta}
+                          onChange={(e) => setFormItem((p: any) => ({ ...p, minimo_alerta: e.target.value }))}
+                        />
+                      </div>
+
+                      <div>
+                        <label className="block text-sm font-medium text-slate-700">Código de barras</label>
+                        <input
+                          className="mt-1 w-full rounded-lg border border-slate-300 px-3 py-2"
+                          value={formItem.codigo_barras}
+                          onChange={(e) => setFormItem((p: any) => ({ ...p, codigo_barras: e.target.value }))}
+                        />
+                      </div>
+
+                      <div>
+                        <label className="block text-sm font-medium text-slate-700">Status</label>
+                        <select
+                          className="mt-1 w-full rounded-lg border border-slate-300 px-3 py-2"
+                          value={formItem.status}
+                          onChange={(e) => setFormItem((p: any) => ({ ...p, status: e.target.value }))}
+                        >
+                          <option value="disponivel">Disponível</option>
+                          <option value="reservado">Reservado</option>
+                          <option value="indisponivel">Indisponível</option>
+                        </select>
+                      </div>
+
+                      <div className="md:col-span-2">
+                        <label className="block text-sm font-medium text-slate-700">Observações</label>
+                        <textarea
+                          className="mt-1 w-full rounded-lg border border-slate-300 px-3 py-2"
+                          rows={3}
+                          value={formItem.observacoes}
+                          onChange={(e) => setFormItem((p: any) => ({ ...p, observacoes: e.target.value }))}
+                        />
+                      </div>
+                    </div>
+
+                    <div className="px-4 py-3 border-t border-slate-200 flex items-center justify-end gap-2">
+                      <button
+                        className="rounded-lg border border-slate-200 bg-white px-4 py-2 font-semibold hover:bg-slate-50"
+                        onClick={() => setItemModalOpen(false)}
+                      >
+                        Cancelar
+                      </button>
+                      <button
+                        disabled={dataLoading}
+                        className="rounded-lg bg-slate-900 text-white px-4 py-2 font-semibold disabled:opacity-60"
+                        onClick={saveItem}
+                      >
+                        {dataLoading ? "Salvando..." : "Salvar"}
+                      </button>
+                    </div>
+                  </div>
+                </div>
+              ) : null}
+
+              {movItem ? (
+                <div className="fixed inset-0 bg-black/40 flex items-center justify-center p-4 z-50">
+                  <div className="w-full max-w-lg bg-white rounded-2xl border border-slate-200 shadow-lg">
+                    <div className="px-4 py-3 border-b border-slate-200 flex items-center justify-between">
+                      <div className="font-bold text-slate-900">Movimentar: {movItem.nome ?? "-"}</div>
+                      <button
+                        className="text-slate-600 hover:text-slate-900 px-2 py-1"
+                        onClick={() => setMovItem(null)}
+                      >
+                        Fechar
+                      </button>
+                    </div>
+
+                    <div className="p-4 grid grid-cols-1 md:grid-cols-2 gap-3">
+                      <div className="md:col-span-2 text-sm text-slate-600">
+                        Saldo atual: <b>{movItem.quantidade} {movItem.unidade}</b>
+                      </div>
+
+                      <div>
+                        <label className="block text-sm font-medium text-slate-700">Tipo</label>
+                        <select
+                          className="mt-1 w-full rounded-lg border border-slate-300 px-3 py-2"
+                          value={formMov.tipo}
+                          onChange={(e) => setFormMov((p) => ({ ...p, tipo: e.target.value as MovimentoTipo }))}
+                        >
+                          {(Object.keys(MOVIMENTO_LABEL) as MovimentoTipo[])
+                            .filter((t) => t !== "transferencia") // feita pelo painel de locais
+                            .map((t) => (
+                              <option key={t} value={t}>
+                                {MOVIMENTO_LABEL[t]}
+                              </option>
+                            ))}
+                        </select>
+                      </div>
+
+                      <div>
+                        <label className="block text-sm font-medium text-slate-700">
+                          {formMov.tipo === "ajuste" ? "Quantidade (+ ou -)" : "Quantidade"}
+                        </label>
+                        <input
+                          type="number"
+                          className="mt-1 w-full rounded-lg border border-slate-300 px-3 py-2"
+                          value={formMov.quantidade}
+                          onChange={(e) => setFormMov((p) => ({ ...p, quantidade: Number(e.target.value) }))}
+                        />
+                      </div>
+
+                      {MOVIMENTO_SINAL[formMov.tipo] > 0 || (formMov.tipo === "ajuste" && formMov.quantidade > 0) ? (
+                        <div className="md:col-span-2">
+                          <label className="block text-sm font-medium text-slate-700">Validade deste lote (opcional)</label>
+                          <input
+                            type="date"
+                            className="mt-1 w-full rounded-lg border border-slate-300 px-3 py-2"
+                            value={formMov.validade}
+                            onChange={(e) => setFormMov((p) => ({ ...p, validade: e.target.value }))}
+                          />
+                        </div>
+                      ) : movLotes.length > 0 && formMov.quantidade ? (
+                        <div className="md:col-span-2 rounded-lg border border-slate-200 bg-slate-50 px-3 py-2 text-sm text-slate-700">
+                          Sai primeiro do que vence antes:
+                          <ul className="mt-1 space-y-0.5">
+                            {(() => {
+                              const plano = planoFEFO(movLotes, Math.abs(formMov.quantidade));
+                              return (
+                                <>
+                                  {plano.uso.map(({ lote, quantidade }) => (
+                                    <li key={lote.id}>
+                                      {quantidade} do lote {lote.validade ? `que vence em ${fmtDateBR(lote.validade)}` : "sem validade"}
+                                    </li>
+                                  ))}
+                                  {plano.semLote > 0 ? <li>{plano.semLote} sem lote registrado</li> : null}
+                                </>
+                              );
+                            })()}
+                          </ul>
+                        </div>
+                      ) : null}
+
+                      <div className="md:col-span-2">
+                        <label className="block text-sm font-medium text-slate-700">Motivo</label>
+                        <input
+                          className="mt-1 w-full rounded-lg border border-slate-300 px-3 py-2"
+                          value={formMov.motivo}
+                          onChange={(e) => setFormMov((p) => ({ ...p, motivo: e.target.value }))}
+                        />
+                      </div>
+                    </div>
+
+                    <div className="px-4 py-3 border-t border-slate-200 flex items-center justify-end gap-2">
+                      <button
+                        className="rounded-lg border border-slate-200 bg-white px-4 py-2 font-semibold hover:bg-slate-50"
+                        onClick={() => setMovItem(null)}
+                      >
+                        Cancelar
+                      </button>
+                      <button
+                        disabled={dataLoading}
+                        className="rounded-lg bg-slate-900 text-white px-4 py-2 font-semibold disabled:opacity-60"
+                        onClick={saveMovimento}
+                      >
+                        {dataLoading ? "Salvando..." : "Registrar"}
+                      </button>
+                    </div>
+                  </div>
+                </div>
+              ) : null}
+
+              {historyItem ? <MovimentosPanel item={historyItem} onClose={() => setHistoryItem(null)} /> : null}
+
+              {scannerOpen ? <ScannerCodigo onRead={onCodigoLido} onClose={() => setScannerOpen(false)} /> : null}
+            </Card>
+          )}
+
+          {view === "estoque" && (
+            <LocaisTransferencias
+              canEdit={canEdit}
+              estoque={estoque}
+              unidades={unidades}
+              unidadeAtiva={unidadeAtiva}
+              onReload={loadAll}
+            />
+          )}
+
+          {view === "beneficiarios" && benefDetail && (
+            <BeneficiarioDetalhe
+              key={benefDetail.id}
+              beneficiario={benefDetail}
+              canEdit={canEdit}
+              onBack={() => setBenefDetailId(null)}
+              onReload={loadAll}
+            />
+          )}
+
+          {view === "beneficiarios" && !benefDetail && (
+            <Card
+              title="Beneficiários"
+              right={
+                <div className="flex items-center gap-2">
+                  {!canEdit ? <Badge>somente leitura</Badge> : null}
+                  {canEdit ? (
+                    <button
+                      onClick={() => setImportOpen(true)}
+                      className="inline-flex items-center gap-2 rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm hover:bg-slate-50"
+                    >
+                      <Upload size={16} /> Importar CSV
+                    </button>
+                  ) : null}
+                  {canEdit ? (
+                    <button
+                      onClick={openNewBenef}
+                      className="inline-flex items-center gap-2 rounded-lg bg-slate-900 text-white font-semibold px-3 py-2"
+                    >
+                      <Plus size={18} /> Adicionar
+                    </button>
+                  ) : null}
+                </div>
+              }
+            >
+              {importOpen ? (
+                <ImportarBeneficiarios
+                  beneficiarios={beneficiarios}
+                  unidadeAtiva={unidadeAtiva}
+                  onClose={() => setImportOpen(false)}
+                  onReload={loadAll}
+                />
+              ) : null}
+              <div className="text-sm text-slate-600 mb-3 flex flex-wrap items-center justify-between gap-2">
+                <span>
+                  Cadastro de beneficiários (tabela <b>public.beneficiarios</b>). Clique no nome para ver detalhes.
+                </span>
+                <label className="inline-flex items-center gap-2">
+                  <input type="checkbox" checked={showArchived} onChange={(e) => setShowArchived(e.target.checked)} />
+                  Mostrar arquivados
+                </label>
+              </div>
+
+              <div className="overflow-auto border border-slate-200 rounded-xl">
+                <table className="min-w-[700px] w-full text-sm">
+                  <thead className="bg-slate-100">
+                    <tr className="text-left">
+                      <th className="p-2">Nome</th>
+                      <th className="p-2">Família</th>
+                      <th className="p-2">Telefone</th>
+                      <th className="p-2">Endereço</th>
+                      <th className="p-2">Última cesta</th>
+                      <th className="p-2">Entregas</th>
+                      <th className="p-2">Status</th>
+                      <th className="p-2">Elegibilidade</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {benefVisiveis.length === 0 ? (
+                      <tr>
+                        <td className="p-3 text-slate-600" colSpan={8}>
+                          Nenhum beneficiário.
+                        </td>
+                      </tr>
+                    ) : (
+                      benefVisiveis.map((b) => (
+                        <tr key={b.id} className={cn("border-t", b.archived_at ? "text-slate-400" : "")}>
+                          <td className="p-2 font-medium text-slate-900">
+                            <button className="text-left hover:underline" onClick={() => setBenefDetailId(b.id)}>
+                              {b.name}
+                            </button>
+                          </td>
+                          <td className="p-2">{b.familySize}</td>
+                          <td className="p-2">{b.phone}</td>
+                          <td className="p-2">{b.address}</td>
+                          <td className="p-2">{fmtDateBR(b.lastBasketDate)}</td>
+                          <td className="p-2">{b.history.length}</td>
+                          <td className="p-2">
+                            <Badge>{b.archived_at ? "Arquivado" : BENEF_STATUS_LABEL[b.status] ?? b.status}</Badge>
+                          </td>
+                          <td className="p-2">
+                            <ElegibilidadeBadge e={avaliarElegibilidade(b, regrasElegibilidade, hoje)} />
+                          </td>
+                        </tr>
+                      ))
+                    )}
+                  </tbody>
+                </table>
+              </div>
+
+              {benefModalOpen ? (
+                <div className="fixed inset-0 bg-black/40 flex items-center justify-center p-4 z-50">
+                  <div className="w-full max-w-2xl bg-white rounded-2xl border border-slate-200 shadow-lg">
+                    <div className="px-4 py-3 border-b border-slate-200 flex items-center justify-between">
+                      <div className="font-bold text-slate-900">Adicionar beneficiário</div>
+                      <button
+                        className="text-slate-600 hover:text-slate-900 px-2 py-1"
+                        onClick={() => setBenefModalOpen(false)}
+                      >
+                        Fechar
+                      </button>
+                    </div>
+
+                    <div className="p-4 grid grid-cols-1 md:grid-cols-2 gap-3">
+                      <div className="md:col-span-2">
+                        <label className="block text-sm font-medium text-slate-700">Nome</label>
+                        <input
+                          className="mt-1 w-full rounded-lg border border-slate-300 px-3 py-2"
+                          value={formBenef.name}
+                          onChange={(e) => setFormBenef((p) => ({ ...p, name: e.target.value }))}
+                        />
+                      </div>
+
+                      <div>
+                        <label className="block text-sm font-medium text-slate-700">Tamanho da família</label>
+                        <input
+                          type="number"
+                          min={1}
+                          step={1}
+                          className="mt-1 w-full rounded-lg border border-slate-300 px-3 py-2"
+                          value={formBenef.familySize}
+                          onChange={(e) => setFormBenef((p) => ({ ...p, familySize: Number(e.target.value) }))}
+                        />
+                      </div>
+
+                      <div>
+                        <label className="block text-sm font-medium text-slate-700">Telefone</label>
+                        <input
+                          className="mt-1 w-full rounded-lg border border-slate-300 px-3 py-2"
+                          value={formBenef.phone}
+                          onChange={(e) => setFormBenef((p) => ({ ...p, phone: e.target.value }))}
+                        />
+                      </div>
+
+                      <div className="md:col-span-2">
+                        <label className="block text-sm font-medium text-slate-700">Endereço</label>
+                        <input
+                          className="mt-1 w-full rounded-lg border border-slate-300 px-3 py-2"
+                          value={formBenef.address}
+                          onChange={(e) => setFormBenef((p) => ({ ...p, address: e.target.value }))}
+                        />
+                      </div>
+
+                      <div className="md:col-span-2">
+                        <label className="block text-sm font-medium text-slate-700">Observações (opcional)</label>
+                        <textarea
+                          className="mt-1 w-full rounded-lg border border-slate-300 px-3 py-2"
+                          rows={3}
+                          value={formBenef.notes}
+                          onChange={(e) => setFormBenef((p) => ({ ...p, notes: e.target.value }))}
+                        />
+                      </div>
+
+                      {benefDuplicados.length > 0 ? (
+                        <div className="md:col-span-2 rounded-lg border border-amber-200 bg-amber-50 px-3 py-2 text-sm text-amber-900">
+                          <div className="font-semibold">Possível duplicado:</div>
+                          <ul className="mt-1 space-y-0.5">
+                            {benefDuplicados.slice(0, 5).map((m) => (
+                              <li key={m.beneficiario.id}>
+                                <b>{m.beneficiario.name}</b> • {m.beneficiario.phone || "sem telefone"} • {m.motivos.join(", ")}
+                              </li>
+                            ))}
+                          </ul>
+                        </div>
+                      ) : null}
+                    </div>
+
+                    <div className="px-4 py-3 border-t border-slate-200 flex items-center justify-end gap-2">
+                      <button
+                        className="rounded-lg border border-slate-200 bg-white px-4 py-2 font-semibold hover:bg-slate-50"
+                        onClick={() => setBenefModalOpen(false)}
+                      >
+                        Cancelar
+                      </button>
+                      <button
+                        disabled={dataLoading}
+                        className="rounded-lg bg-slate-900 text-white px-4 py-2 font-semibold disabled:opacity-60"
+                        onClick={saveBenef}
+                      >
+                        {dataLoading ? "Salvando..." : "Salvar"}
+                      </button>
+                    </div>
+                  </div>
+                </div>
+              ) : null}
+            </Card>
+          )}
+
+          {view === "eventos" && eventoDetail && (
+            <EventoDetalhe
+              key={eventoDetail.id}
+              evento={eventoDetail}
+              beneficiarios={beneficiarios}
+              templates={basketTemplates}
+              inventory={estoque}
+              regras={regrasElegibilidade}
+              canEdit={canEdit}
+              isAdmin={isAdmin}
+              operatorEmail={session.user?.email ?? null}
+              onBack={() => setEventoDetailId(null)}
+              onReload={loadAll}
+            />
+          )}
+
+          {view === "eventos" && !eventoDetail && (
+            <Card
+              title="Eventos"
+              right={
+                <div className="flex items-center gap-2">
+                  {!canEdit ? <Badge>somente leitura</Badge> : null}
+                  <button
+                    onClick={exportProximosICS}
+                    className="inline-flex items-center gap-2 rounded-lg border border-slate-200 bg-white font-semibold px-3 py-2 hover:bg-slate-50"
+                    title="Exportar próximos eventos para Google Agenda / Outlook"
+                  >
+                    <FileDown size={18} /> Exportar .ics
+                  </button>
+                  <button
+                    onClick={() => setAssinaturaOpen((v) => !v)}
+                    className="inline-flex items-center gap-2 rounded-lg border border-slate-200 bg-white font-semibold px-3 py-2 hover:bg-slate-50"
+                    title="Link para a agenda se atualizar sozinha"
+                  >
+                    <CalendarDays size={18} /> Assinar
+                  </button>
+                  {canEdit ? (
+                    <button
+                      onClick={openNewEvento}
+                      className="inline-flex items-center gap-2 rounded-lg bg-slate-900 text-white font-semibold px-3 py-2"
+                    >
+                      <Plus size={18} /> Adicionar
+                    </button>
+                  ) : null}
+                </div>
+              }
+            >
+              {assinaturaOpen ? <AssinaturaCalendario onClose={() => setAssinaturaOpen(false)} /> : null}
+              <div className="text-sm text-slate-600 mb-3 flex flex-wrap items-center justify-between gap-2">
+                <span>
+                  Agenda de entregas (tabela <b>public.eventos_entrega</b>).
+                </span>
+                <div className="flex gap-1">
+                  {(["lista", "calendario"] as const).map((l) => (
+                    <button
+                      key={l}
+                      onClick={() => setEventosLayout(l)}
+                      className={cn(
+                        "rounded-lg border px-3 py-1 text-sm font-semibold",
+                        eventosLayout === l ? "bg-slate-900 text-white border-slate-900" : "bg-white border-slate-200"
+                      )}
+                    >
+                      {l === "lista" ? "Lista" : "Calendário"}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              {eventosLayout === "calendario" ? (
+                <EventosCalendario
+                  eventos={eventos}
+                  canEdit={canEdit}
+                  onOpen={(ev) => setEventoDetailId(ev.id)}
+                  onReschedule={dropReschedule}
+                />
+              ) : (
+                <div className="space-y-2">
+                  {eventos.length === 0 ? (
+                    <div className="text-slate-600">Nenhum evento.</div>
+                  ) : (
+                    eventos.map((ev) => (
+                      <div
+                        key={ev.id}
+                        className={cn(
+                          "border border-slate-200 rounded-xl p-3 flex flex-col gap-2 md:flex-row md:items-start md:justify-between",
+                          ev.status === "cancelado" ? "bg-slate-50" : ""
+                        )}
+                      >
+                        <div>
+                          <div className="flex items-center gap-2">
+                            <button
+                              className={cn(
+                                "font-semibold hover:underline text-left",
+                                ev.status === "cancelado" ? "text-slate-400 line-through" : "text-slate-900"
+                              )}
+                              onClick={() => setEventoDetailId(ev.id)}
+                            >
+                              {ev.title}
+                            </button>
+                            <Badge>{EVENTO_STATUS_LABEL[ev.status] ?? ev.status}</Badge>
+                          </div>
+                          <div className="text-xs text-slate-600">
+                            {fmtDateBR(ev.date)}
+                            {ev.reagendado_de ? ` • reagendado (era ${fmtDateBR(ev.reagendado_de)})` : ""}
+                            {ev.cestas_consumidas > 0 ? ` • ${ev.cestas_consumidas} cestas entregues` : ""}
+                          </div>
+                          {ev.description ? <div className="text-sm text-slate-700 mt-1">{ev.description}</div> : null}
+                          {ev.status === "cancelado" && ev.cancel_reason ? (
+                            <div className="text-sm text-red-700 mt-1">Cancelado: {ev.cancel_reason}</div>
+                          ) : null}
+                        </div>
+
+                        <div className="flex items-center gap-2">
+                          <button
+                            className="inline-flex items-center gap-1 rounded-lg border border-slate-200 px-2 py-1 text-sm hover:bg-slate-50"
+                            onClick={() => exportEventoICS(ev)}
+                            title="Exportar .ics"
+                          >
+                            <FileDown size={14} /> .ics
+                          </button>
+                          {canEdit ? (
+                            <>
+                              <button
+                                className="inline-flex items-center gap-1 rounded-lg border border-slate-200 px-2 py-1 text-sm hover:bg-slate-50"
+                                onClick={() => openEditEvento(ev)}
+                              >
+                                <Pencil size={14} /> Editar
+                              </button>
+                              {ev.status !== "cancelado" ? (
+                                <>
+                                  <button
+                                    className="inline-flex items-center gap-1 rounded-lg border border-slate-200 px-2 py-1 text-sm hover:bg-slate-50"
+                                    onClick={() => openReschedule(ev)}
+                                  >
+                                    <CalendarDays size={14} /> Reagendar
+                                  </button>
+                                  <button
+                                    className="inline-flex items-center gap-1 rounded-lg border border-red-200 px-2 py-1 text-sm text-red-700 hover:bg-red-50"
+                                    onClick={() => cancelEvento(ev)}
+                                  >
+                                    Cancelar
+                                  </button>
+                                </>
+                              ) : null}
+                            </>
+                          ) : null}
+                        </div>
+                      </div>
+                    ))
+                  )}
+                </div>
+              )}
+
+              {rescheduleEvento ? (
+                <div className="fixed inset-0 bg-black/40 flex items-center justify-center p-4 z-50">
+                  <div className="w-full max-w-md bg-white rounded-2xl border border-slate-200 shadow-lg">
+                    <div className="px-4 py-3 border-b border-slate-200 flex items-center justify-between">
+                      <div className="font-bold text-slate-900">Reagendar: {rescheduleEvento.title}</div>
+                      <button
+                        className="text-slate-600 hover:text-slate-900 px-2 py-1"
+                        onClick={() => setRescheduleEvento(null)}
+                      >
+                        Fechar
+                      </button>
+                    </div>
+
+                    <div className="p-4">
+                      <div className="text-sm text-slate-600">Data atual: {fmtDateBR(rescheduleEvento.date)}</div>
+                      <label className="mt-3 block text-sm font-medium text-slate-700">Nova data</label>
+                      <input
+                        type="date"
+                        className="mt-1 w-full rounded-lg border border-slate-300 px-3 py-2"
+                        value={rescheduleDate}
+                        onChange={(e) => setRescheduleDate(e.target.value)}
+                      />
+                    </div>
+
+                    <div className="px-4 py-3 border-t border-slate-200 flex items-center justify-end gap-2">
+                      <button
+                        className="rounded-lg border border-slate-200 bg-white px-4 py-2 font-semibold hover:bg-slate-50"
+                        onClick={() => setRescheduleEvento(null)}
+                      >
+                        Cancelar
+                      </button>
+                      <button
+                        disabled={dataLoading || !rescheduleDate || rescheduleDate === rescheduleEvento.date}
+                        className="rounded-lg bg-slate-900 text-white px-4 py-2 font-semibold disabled:opacity-60"
+                        onClick={saveReschedule}
+                      >
+                        {dataLoading ? "Salvando..." : "Reagendar"}
+                      </button>
+                    </div>
+                  </div>
+                </div>
+              ) : null}
+
+              {eventModalOpen ? (
+                <div className="fixed inset-0 bg-black/40 flex items-center justify-center p-4 z-50">
+                  <div className="w-full max-w-2xl bg-white rounded-2xl border border-slate-200 shadow-lg">
+                    <div className="px-4 py-3 border-b border-slate-200 flex items-center justify-between">
+                      <div className="font-bold text-slate-900">{editingEvento ? "Editar evento" : "Adicionar evento"}</div>
+                      <button
+                        className="text-slate-600 hover:text-slate-900 px-2 py-1"
+                        onClick={() => setEventModalOpen(false)}
+                      >
+                        Fechar
+                      </button>
+                    </div>
+
+                    <div className="p-4 grid grid-cols-1 md:grid-cols-2 gap-3">
+                      <div className="md:col-span-2">
+                        <label className="block text-sm font-medium text-slate-700">Título</label>
+                        <input
+                          className="mt-1 w-full rounded-lg border border-slate-300 px-3 py-2"
+                          value={formEvento.title}
+                          onChange={(e) => setFormEvento((p) => ({ ...p, title: e.target.value }))}
+                        />
+                      </div>
+
+                      <div>
+                        <label className="block text-sm font-medium text-slate-700">Data</label>
+                        <input
+                          type="date"
+                          className="mt-1 w-full rounded-lg border border-slate-300 px-3 py-2"
+                          value={formEvento.date}
+                          onChange={(e) => setFormEvento((p) => ({ ...p, date: e.target.value }))}
+                        />
+                      </div>
+
+                      <div>
+                        <label className="block text-sm font-medium text-slate-700">Status</label>
+                        <select
+                          className="mt-1 w-full rounded-lg border border-slate-300 px-3 py-2"
+                          value={formEvento.status}
+                          onChange={(e) => setFormEvento((p) => ({ ...p, status: e.target.value as EventoStatus }))}
+                        >
+                          {(Object.keys(EVENTO_STATUS_LABEL) as EventoStatus[]).map((st) => (
+                            <option key={st} value={st}>
+                              {EVENTO_STATUS_LABEL[st]}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+
+                      <div className="md:col-span-2">
+                        <label className="block text-sm font-medium text-slate-700">Descrição (opcional)</label>
+                        <textarea
+                          className="mt-1 w-full rounded-lg border border-slate-300 px-3 py-2"
+                          rows={3}
+                          value={formEvento.description}
+                          onChange={(e) => setFormEvento((p) => ({ ...p, description: e.target.value }))}
+                        />
+                      </div>
+                    </div>
+
+                    <div className="px-4 py-3 border-t border-slate-200 flex items-center justify-end gap-2">
+                      <button
+                        className="rounded-lg border border-slate-200 bg-white px-4 py-2 font-semibold hover:bg-slate-50"
+                        onClick={() => setEventModalOpen(false)}
+                      >
+                        Cancelar
+                      </button>
+                      <button
+                        disabled={dataLoading}
+                        className="rounded-lg bg-slate-900 text-white px-4 py-2 font-semibold disabled:opacity-60"
+                        onClick={saveEvento}
+                      >
+                        {dataLoading ? "Salvando..." : "Salvar"}
+                      </button>
+                    </div>
+                  </div>
+                </div>
+              ) : null}
+            </Card>
+          )}
+
+          {view === "cestas" && (
+            <CestasManager
+              canEdit={canEdit}
+              isAdmin={isAdmin}
+              unidadeAtiva={unidadeAtiva}
+              inventory={estoque}
+              beneficiarios={beneficiarios}
+              operatorEmail={session.user?.email ?? null}
+              templates={basketTemplates}
+              regras={regrasElegibilidade}
+              assembledBaskets={assembledBaskets}
+              setAssembledBaskets={setAssembledBaskets}
+              onReload={loadAll}
+            />
+          )}
+          {view === "cestas" && (
+            <RegrasElegibilidadeCard regras={regrasElegibilidade} isAdmin={isAdmin} onReload={loadAll} />
+          )}
+          {view === "doacoes" && (
+            <DoacoesManager
+              canEdit={canEdit}
+              estoque={estoque}
+              unidadeAtiva={unidadeAtiva}
+              unidadeNome={unidades.find((u) => u.id === unidadeAtiva)?.nome ?? null}
+              onReload={loadAll}
+            />
+          )}
+
+          {view === "doacoes" && <CampanhasPainel canEdit={canEdit} estoque={estoque} />}
+
+          {view === "relatorios" && (
+            <Relatorios
+              estoque={estoque}
+              beneficiarios={beneficiarios}
+              templates={basketTemplates}
+              unidades={consolidado ? unidades : []}
+              assembledBaskets={assembledBaskets}
+              alertasValidade={alertValidade}
+              alertasMinimo={alertMinimo}
+            />
+          )}
+
+          {view === "relatorios" && (
+            <PlanejamentoCompras
+              canEdit={canEdit}
+              eventos={eventos}
+              templates={basketTemplates}
+              estoque={estoque}
+              onReload={loadAll}
+            />
+          )}
+
+          {view === "duplicados" && isAdmin && (
+            <DuplicadosAdmin
+              beneficiarios={beneficiarios}
+              onOpen={(id) => {
+                setBenefDetailId(id);
+                setView("beneficiarios");
+              }}
+              onReload={loadAll}
+            />
+          )}
+
+          {view === "auditoria" && isAdmin && <AuditoriaAdmin />}
+
+          {view === "usuarios" && isAdmin && <UsuariosAdmin currentUserId={session.user.id} />}
+        </section>
+      </main>
+    </div>
+  );
+}
+
+
+function parseLocalDate(iso: string) {
+  // Evita bug de fuso: new Date('YYYY-MM-DD') é interpretado como UTC e pode "voltar 1 dia" no Brasil (-03).
+  // Para datas "date-only", parseia como data LOCAL.
+  if (/^\d{4}-\d{2}-\d{2}$/.test(iso)) {
+    const [y, m, d] = iso.split("-").map((n) => Number(n));
+    return new Date(y, (m || 1) - 1, d || 1);
+  }
+  return new Date(iso);
+}
+
+function fmtDateBR(iso?: string | null) {
+  if (!iso) return "-";
+  const d = parseLocalDate(String(iso));
+  if (Number.isNaN(d.getTime())) return String(iso);
+  return d.toLocaleDateString("pt-BR");
+}
+
+function downloadTextFile(filename: string, content: string, mime = "text/plain;charset=utf-8") {
+  const blob = new Blob([content], { type: mime });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  URL.revokeObjectURL(url);
+}
+
+// ---------- Doações ----------
+const DOADOR_TIPO_LABEL: Record<DoadorTipo, string> = {
+  pessoa: "Pessoa",
+  igreja: "Igreja",
+  empresa: "Empresa",
+  campanha: "Campanha",
+};
+
+function escapeHtml(v: unknown) {
+  return String(v ?? "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+async function fetchDoadores(): Promise<Doador[]> {
+  if (!supabase) return [];
+  const { data, error } = await supabase.from("doadores").select("*").order("nome");
+  if (error) throw new Error(error.message);
+  return ((data as any[]) ?? []).map((r) => ({ ...r, id: String(r.id), tipo: (r.tipo as DoadorTipo) ?? "pessoa" })) as Doador[];
+}
+
+async function fetchDoacoes(unidadeId: string): Promise<Doacao[]> {
+  if (!supabase) return [];
+  let q = supabase.from("doacoes").select("*").order("created_at", { ascending: false }).limit(300);
+  if (unidadeId) q = q.eq("unidade_id", unidadeId);
+  const { data, error } = await q;
+  if (error) throw new Error(error.message);
+  return ((data as any[]) ?? []).map((r) => ({
+    ...r,
+    id: String(r.id),
+    numero: Number(r.numero ?? 0),
+    doador_id: String(r.doador_id),
+    campanha_id: r.campanha_id ? String(r.campanha_id) : null,
+    itens: Array.isArray(r.itens) ? r.itens : [],
+  })) as Doacao[];
+}
+
+async function fetchCampanhas(): Promise<Campanha[]> {
+  if (!supabase) return [];
+  const { data, error } = await supabase.from("campanhas").select("*").order("inicio", { ascending: false });
+  if (error) throw new Error(error.message);
+  return ((data as any[]) ?? []).map((r) => ({
+    ...r,
+    id: String(r.id),
+    metas: Array.isArray(r.metas) ? r.metas : [],
+  })) as Campanha[];
+}
+
+/**
+ * Progresso somado no banco (progresso_campanha), em todas as unidades e já
+ * convertido para a unidade de cada meta.
+ */
+async function fetchProgressoCampanha(c: Campanha): Promise<CampanhaProgresso> {
+  if (!supabase) return { doacoes: 0, linhas: [], geral: 0 };
+  const { data, error } = await supabase.rpc("progresso_campanha", { p_campanha_id: c.id });
+  if (error) {
+    if (error.code === "PGRST202") {
+      throw new Error("Função progresso_campanha não existe no banco. Rode o supabase_schema.sql atualizado.");
+    }
+    throw new Error(error.message);
+  }
+  const metas: any[] = Array.isArray((data as any)?.metas) ? (data as any).metas : [];
+  const linhas = c.metas.map((meta, i) => {
+    const recebido = Number(metas[i]?.recebido ?? 0);
+    return {
+      meta,
+      recebido,
+      semConversao: Number(metas[i]?.sem_conversao ?? 0),
+      pct: meta.meta > 0 ? (recebido / meta.meta) * 100 : 0,
+    };
+  });
+  const geral = linhas.length ? linhas.reduce((acc, l) => acc + Math.min(100, l.pct), 0) / linhas.length : 0;
+  return { doacoes: Number((data as any)?.doacoes ?? 0), linhas, geral };
+}
+
+const campanhaAtiva = (c: Campanha, dia: string) => c.inicio <= dia && dia <= c.fim;
+
+/** Espelho local das checagens de registrar_doacao. Retorna a mensagem de erro ou null. */
+function validarDoacao(doadorId: string, itens: DoacaoItem[]): string | null {
+  if (!doadorId) return "Escolha o doador.";
+  if (itens.length === 0) return "Inclua ao menos um item.";
+  for (const it of itens) {
+    if (!it.estoque_id && !it.nome.trim()) return "Informe o nome do item novo.";
+    if (!(Number(it.quantidade) > 0)) return `Quantidade inválida para ${it.nome || "item"}.`;
+  }
+  return null;
+}
+
+async function registrarDoacao(args: {
+  doadorId: string;
+  campanhaId: string | null;
+  data: string;
+  itens: DoacaoItem[];
+  observacoes: string | null;
+  unidadeId: string | null;
+}): Promise<{ id: string; numero: number }> {
+  if (!supabase) throw new Error("Supabase não configurado.");
+  const { data, error } = await supabase.rpc("registrar_doacao", {
+    p_doador_id: args.doadorId,
+    p_data: args.data,
+    p_itens: args.itens,
+    p_observacoes: args.observacoes,
+    p_unidade_id: args.unidadeId,
+    p_campanha_id: args.campanhaId,
+  });
+  if (error) {
+    if (error.code === "PGRST202") {
+      throw new Error("Função registrar_doacao não existe no banco. Rode o supabase_schema.sql atualizado.");
+    }
+    throw new Error(error.message);
+  }
+  return { id: String((data as any)?.id ?? ""), numero: Number((data as any)?.numero ?? 0) };
+}
+
+/** Recibo de agradecimento em HTML (mesmo conteúdo para imprimir e para baixar). */
+function reciboDoacaoHTML(d: Doacao, doador: Doador | null, unidadeNome: string | null) {
+  const linhas = d.itens
+    .map(
+      (it) =>
+        `<tr><td>${escapeHtml(it.nome)}</td><td>${escapeHtml(prettyCat(it.categoria))}</td><td>${escapeHtml(
+          it.quantidade
+        )} ${escapeHtml(it.unidade)}</td></tr>`
+    )
+    .join("");
+  return `<!doctype html><html><head><meta charset="utf-8"/><title>Recibo de doação nº ${d.numero}</title>
+    <style>
+      body{font-family: ui-sans-serif, system-ui, -apple-system, Segoe UI, Roboto, Arial; padding:32px; color:#0f172a; max-width:720px; margin:auto;}
+      h1{font-size:20px;margin:0 0 4px;}
+      .muted{color:#475569; font-size:12px;}
+      table{width:100%; border-collapse:collapse; margin-top:16px;}
+      th,td{border:1px solid #e2e8f0; padding:8px; font-size:13px; text-align:left;}
+      th{background:#f1f5f9;}
+      .assinatura{margin-top:56px; border-top:1px solid #94a3b8; width:280px; padding-top:6px; font-size:12px;}
+    </style>
+  </head><body>
+    <h1>ASA${unidadeNome ? ` — ${escapeHtml(unidadeNome)}` : ""}</h1>
+    <div class="muted">Ação Solidária Adventista • Recibo de doação nº ${d.numero}</div>
+    <p style="margin-top:24px">
+      Recebemos de <b>${escapeHtml(doador?.nome ?? "doador")}</b>${
+        doador?.documento ? ` (${escapeHtml(doador.documento)})` : ""
+      }, em ${escapeHtml(fmtDateBR(d.data))}, a doação dos itens abaixo.
+      Agradecemos de coração: sua generosidade chega às famílias atendidas pela ASA.
+    </p>
+    <table><thead><tr><th>Item</th><th>Categoria</th><th>Quantidade</th></tr></thead><tbody>${linhas}</tbody></table>
+    ${d.observacoes ? `<p class="muted" style="margin-top:12px">Obs.: ${escapeHtml(d.observacoes)}</p>` : ""}
+    <div class="assinatura">${escapeHtml(d.registrado_por ?? "Responsável ASA")}</div>
+  </body></html>`;
+}
+
+// ---------- iCalendar (RFC 5545) ----------
+function icsEscape(v: string) {
+  return v.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+}
+
+// Linhas com no máximo 75 octetos; continuação começa com espaço (sem quebrar caracteres UTF-8)
+function icsFold(line: string) {
+  const enc = new TextEncoder();
+  const out: string[] = [];
+  let cur = "";
+  let bytes = 0;
+  for (const ch of line) {
+    const n = enc.encode(ch).length;
+    const limit = out.length === 0 ? 75 : 74; // a continuação já gasta 1 octeto com o espaço
+    if (bytes + n > limit) {
+      out.push(cur);
+      cur = "";
+      bytes = 0;
+    }
+    cur += ch;
+    bytes += n;
+  }
+  out.push(cur);
+  return out.join("\r\n ");
+}
+
+function icsUTC(d: Date) {
+  return d.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+// Mesmo formato do feed de assinatura (public.calendario_ics no banco)
+function eventosToICS(eventos: Evento[], now = new Date()) {
+  const stamp = icsUTC(now);
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//ASA//Sistema de Gestao//PT-BR",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    "X-WR-CALNAME:Entregas ASA",
+  ];
+  for (const ev of eventos) {
+    // Evento de dia inteiro: DTEND é exclusivo (dia seguinte)
+    const start = toISODateLocal(parseLocalDate(ev.date));
+    const desc = [ev.description, ev.status === "cancelado" && ev.cancel_reason ? `Cancelado: ${ev.cancel_reason}` : null]
+      .filter(Boolean)
+      .join("\n");
+    lines.push(
+      "BEGIN:VEVENT",
+      // UID estável: reimportar atualiza o mesmo evento em vez de duplicar
+      `UID:${ev.id}@asa-eventos`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;VALUE=DATE:${start.replace(/-/g, "")}`,
+      `DTEND;VALUE=DATE:${addDaysISO(start, 1).replace(/-/g, "")}`,
+      `SUMMARY:${icsEscape(ev.title)}`,
+      ...(desc ? [`DESCRIPTION:${icsEscape(desc)}`] : []),
+      `STATUS:${ev.status === "cancelado" ? "CANCELLED" : "CONFIRMED"}`,
+      // SEQUENCE maior = versão mais nova: a agenda substitui a cópia já importada
+      `SEQUENCE:${ev.revisao}`,
+      `LAST-MODIFIED:${icsUTC(new Date(ev.updated_at ?? ev.created_at))}`,
+      "TRANSP:TRANSPARENT",
+      "END:VEVENT"
+    );
+  }
+  lines.push("END:VCALENDAR");
+  return lines.map(icsFold).join("\r\n") + "\r\n";
+}
+
+// Link de assinatura: a agenda busca o feed sozinha (GET na RPC com a anon key + token pessoal)
+function AssinaturaCalendario({ onClose }: { onClose: () => void }) {
+  const [token, setToken] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [err, setErr] = useState<string | null>(null);
+  const [copiado, setCopiado] = useState(false);
+
+  const gerar = async (renovar: boolean) => {
+    if (!supabase) return;
+    setErr(null);
+    setCopiado(false);
+    setBusy(true);
+    const { data, error } = await supabase.rpc("calendario_link", { p_renovar: renovar });
+    setBusy(false);
+    if (error) {
+      setErr(
+        error.code === "PGRST202"
+          ? "Função calendario_link não existe no banco. Rode o supabase_schema.sql atualizado."
+          : error.message
+      );
+      return;
+    }
+    setToken(String(data ?? ""));
+  };
+
+  useEffect(() => {
+    gerar(false);
+  }, []);
+
+  const url = token
+    ? `${supabaseUrl}/rest/v1/rpc/calendario_ics?p_token=${encodeURIComponent(token)}&apikey=${encodeURIComponent(supabaseAnon ?? "")}`
+    : "";
+
+  const copiar = async () => {
+    try {
+      await navigator.clipboard.writeText(url);
+      setCopiado(true);
+    } catch {
+      setErr("Não foi possível copiar. Selecione o link e copie manualmente.");
+    }
+  };
+
+  return (
+    <div className="mb-3 rounded-xl border border-slate-200 bg-slate-50 p-3 text-sm space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <div className="font-semibold text-slate-900">Assinar agenda de entregas</div>
+        <button className="text-slate-600 hover:text-slate-900 px-2 py-1" onClick={onClose}>
+          Fechar
+        </button>
+      </div>
+      <div className="text-slate-600">
+        No Google Agenda: <b>Outras agendas → Do URL</b> e cole o link. A agenda se atualiza sozinha (o Google consulta
+        a cada poucas horas). O link é pessoal: quem tiver o link vê os eventos das suas unidades.
+      </div>
+      {err && <div className="rounded-lg border border-red-200 bg-red-50 px-3 py-2 text-red-800">{err}</div>}
+      {url ? (
+        <div className="flex flex-wrap items-center gap-2">
+          <input
+            readOnly
+            value={url}
+            onFocus={(e) => e.target.select()}
+            className="flex-1 min-w-[240px] rounded-lg border border-slate-300 px-3 py-2 text-xs"
+          />
+          <button
+            onClick={copiar}
+            className="inline-flex items-center gap-2 rounded-lg border border-slate-200 bg-white px-3 py-2 hover:bg-slate-50"
+          >
+            <Copy size={16} /> {copiado ? "Copiado" : "Copiar"}
+          </button>
+          <button
+            onClick={() => {
+              if (confirm("Gerar um link novo? O link atual para de funcionar.")) gerar(true);
+            }}
+            disabled={busy}
+            className="rounded-lg border border-slate-200 bg-white px-3 py-2 hover:bg-slate-50 disabled:opacity-60"
+          >
+            Gerar novo link
+          </button>
+        </div>
+      ) : busy ? (
+        <Loader2 className="animate-spin" size={16} />
+      ) : null}
+    </div>
+  );
+}
+
+function slugify(v: string) {
+  return normalizeText(v).replace(/ /g, "-").slice(0, 40) || "evento";
+}
+
+
+function BeneficiarioDetalhe({
+  beneficiario,
+  canEdit,
+  onBack,
+  onReload,
+}: {
+  beneficiario: Beneficiario;
+  canEdit: boolean;
+  onBack: () => void;
+  onReload: () => Promise<void>;
+}) {
+  const [busy, setBusy] = useState(false);
+  const [err, setErr] = useState<string | null>(null);
+  const [ok, setOk] = useState<string | null>(null);
+  const [form, setForm] = useState({
+    name: beneficiario.name,
+    familySize: beneficiario.familySize,
+    phone: beneficiario.phone ?? "",
+    address: beneficiario.address ?? "",
+    notes: beneficiario.notes ?? "",
+    status: beneficiario.status,
+  });
+
+  const timeline = useMemo(
+    () => [...beneficiario.history].sort((a, b) => b.date.localeCompare(a.date)),
+    [beneficiario.history]
+  );
+
+  const save = async () => {
+    setErr(null);
+    setOk(null);
+    if (!supabase) return;
+    if (!canEdit) {
+      setErr("Você não tem permissão para editar.");
+      return;
+    }
+
+    const name = form.name.trim();
+    if (!name) {
+      setErr("Informe o nome do beneficiário.");
+      return;
+    }
+
+    setBusy(true);
+    const { error } = await supabase
+      .from("beneficiarios")
+      .update({
+        name,
+        familySize: Math.max(1, Number(form.familySize || 1)),
+        phone: form.phone.trim(),
+        address: form.address.trim(),
+        notes: form.notes.trim() ? form.notes.trim() : null,
+        status: form.status,
+      })
+      .eq("id", beneficiario.id);
+    setBusy(false);
+
+    if (error) {
+      setErr(error.message);
+      return;
+    }
+    setOk("Alterações salvas.");
+    await onReload();
+  };
+
+  const toggleArchive = async () => {
+    setErr(null);
+    setOk(null);
+    if (!supabase) return;
+    if (!canEdit) {
+      setErr("Você não tem permissão para editar.");
+      return;
+    }
+
+    const archiving = !beneficiario.archived_at;
+    if (archiving && !confirm(`Arquivar "${beneficiario.name}"? O cadastro e o histórico são mantidos.`)) return;
+
+    setBusy(true);
+    const { error } = await supabase
+      .from("beneficiarios")
+      .update(
+        archiving
+          ? { archived_at: new Date().toISOString(), status: "inativo" }
+          : { archived_at: null, status: "ativo" }
+      )
+      .eq("id", beneficiario.id);
+    setBusy(false);
+
+    if (error) {
+      setErr(error.message);
+      return;
+    }
+    setForm((p) => ({ ...p, status: archiving ? "inativo" : "ativo" }));
+    setOk(archiving ? "Beneficiário arquivado." : "Beneficiário reativado.");
+    await onReload();
+  };
+
+  return (
+    <div className="space-y-4">
+      <Card
+        title={beneficiario.name}
+        right={
+          <div className="flex items-center gap-2">
+            {beneficiario.archived_at ? <Badge>arquivado em {fmtDateBR(beneficiario.archived_at)}</Badge> : null}
+            {!canEdit ? <Badge>somente leitura</Badge> : null}
+            <button
+              onClick={onBack}
+              className="rounded-lg border border-slate-200 bg-white px-3 py-1.5 text-sm hover:bg-slate-50"
+            >
+              Voltar
+            </button>
+          </div>
+        }
+      >
+        {err && (
+          <div className="mb-3 rounded-lg border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-800">{err}</div>
+        )}
+        {ok && (
+          <div className="mb-3 rounded-lg border border-emerald-200 bg-emerald-50 px-3 py-2 text-sm text-emerald-800">
+            {ok}
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          <div className="md:col-span-2">
+            <label className="block text-sm font-medium text-slate-700">Nome</label>
+            <input
+              className="mt-1 w-full rounded-lg border border-slate-300 px-3 py-2"
+              value={form.name}
+              onChange={(e) => setForm((p) => ({ ...p, name: e.target.value }))}
+              disabled={!canEdit || busy}
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-slate-700">Tamanho da família</label>
+            <input
+              type="number"
+              min={1}
+              step={1}
+              className="mt-1 w-full rounded-lg border border-slate-300 px-3 py-2"
+              value={form.familySize}
+              onChange={(e) => setForm((p) => ({ ...p, familySize: Number(e.target.value) }))}
+              disabled={!canEdit || busy}
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-slate-700">Telefone</label>
+            <input
+              className="mt-1 w-full rounded-lg border border-slate-300 px-3 py-2"
+              value={form.phone}
+              onChange={(e) => setForm((p) => ({ ...p, phone: e.target.value }))}
+              disabled={!canEdit || busy}
+            />
+          </div>
+
+          <div className="md:col-span-2">
+            <label className="block text-sm font-medium text-slate-700">Endereço</label>
+            <input
+              className="mt-1 w-full rounded-lg border border-slate-300 px-3 py-2"
+              value={form.address}
+              onChange={(e) => setForm((p) => ({ ...p, address: e.target.value }))}
+              disabled={!canEdit || busy}
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-slate-700">Status</label>
+            <select
+              className="mt-1 w-full rounded-lg border border-slate-300 px-3 py-2"
+              value={form.status}
+              onChange={(e) => setForm((p) => ({ ...p, status: e.target.value as BenefStatus }))}
+              disabled={!canEdit || busy}
+            >
+              {(Object.keys(BENEF_STATUS_LABEL) as BenefStatus[]).map((st) => (
+                <option key={st} value={st}>
+                  {BENEF_STATUS_LABEL[st]}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="text-sm text-slate-600 md:pt-6">
+            Cadastrado em {fmtDateBR(beneficiario.created_at)} • última cesta {fmtDateBR(beneficiario.lastBasketDate)}
+          </div>
+
+          <div className="md:col-span-2">
+            <label className="block text-sm font-medium text-slate-700">Observações</label>
+            <textarea
+              className="mt-1 w-full rounded-lg border border-slate-300 px-3 py-2"
+              rows={3}
+              value={form.notes}
+              onChange={(e) => setForm((p) => ({ ...p, notes: e.target.value }))}
+              disabled={!canEdit || busy}
+            />
+          </div>
+        </div>
+
+        {canEdit ? (
+          <div className="mt-4 flex items-center justify-end gap-2">
+            <button
+              onClick={toggleArchive}
+              disabled={busy}
+              className="rounded-lg border border-slate-200 bg-white px-4 py-2 font-semibold hover:bg-slate-50 disabled:opacity-60"
+            >
+              {beneficiario.archived_at ? "Reativar" : "Arquivar"}
+            </button>
+            <button
+              onClick={save}
+              disabled={busy}
+              className="rounded-lg bg-slate-900 text-white px-4 py-2 font-semibold disabled:opacity-60"
+            >
+              {busy ? "Salvando..." : "Salvar"}
+            </button>
+          </div>
+        ) : null}
+      </Card>
+
+      <Card title="Histórico de entregas" right={<Badge>{timeline.length} entregas</Badge>}>
+        {timeline.length === 0 ? (
+          <div className="text-slate-600">Nenhuma entrega registrada.</div>
+        ) : (
+          <ol className="relative border-l border-slate-200 ml-2 space-y-4">
+            {timeline.map((h, idx) => (
+              <li key={`${h.date}-${idx}`} className="ml-4">
+                <div className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-white bg-emerald-500" />
+                <div className="text-xs text-slate-500">
+                  {fmtDateBR(h.date)}
+                  {h.operator_email ? ` • por ${h.operator_email}` : ""}
+                </div>
+                <div className="font-semibold text-slate-900">{h.basket_name}</div>
+                {h.items.length > 0 ? (
+                  <div className="text-sm text-slate-700">
+                    {h.items.map((it) => `${it.nome} ${it.quantidade} ${it.unidade}`).join(" • ")}
+                  </div>
+                ) : null}
+                {h.note ? <div className="text-sm text-slate-600 italic">{h.note}</div> : null}
+                {h.override_reason ? (
+                  <div className="text-xs text-amber-800">Liberada fora das regras: {h.override_reason}</div>
+                ) : null}
+              </li>
+            ))}
+          </ol>
+        )}
+      </Card>
+    </div>
+  );
+}
+
+const EVENTO_STATUS_LABEL: Record<EventoStatus, string> = {
+  planejado: "Planejado",
+  realizado: "Realizado",
+  cancelado: "Cancelado",
+};
+
+// Reagendar mantém o registro e guarda a data original em reagendado_de
+async function reagendarEvento(ev: Evento, novaData: string) {
+  if (!supabase) throw new Error("Supabase não configurado.");
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(novaData)) throw new Error("Data inválida.");
+  if (ev.status === "cancelado") throw new Error("Evento cancelado não pode ser reagendado.");
+  const { error } = await supabase
+    .from("eventos_entrega")
+    .update({ date: novaData, reagendado_de: ev.reagendado_de ?? ev.date })
+    .eq("id", ev.id);
+  if (error) throw new Error(error.message);
+}
+
+const EVENTO_STATUS_COR: Record<EventoStatus, string> = {
+  planejado: "bg-sky-100 border-sky-300 text-sky-900",
+  realizado: "bg-emerald-100 border-emerald-300 text-emerald-900",
+  cancelado: "bg-slate-100 border-slate-200 text-slate-400 line-through",
+};
+
+const DIAS_SEMANA = ["Dom", "Seg", "Ter", "Qua", "Qui", "Sex", "Sáb"];
+
+function EventosCalendario({
+  eventos,
+  canEdit,
+  onOpen,
+  onReschedule,
+}: {
+  eventos: Evento[];
+  canEdit: boolean;
+  onOpen: (ev: Evento) => void;
+  onReschedule: (ev: Evento, date: string) => void;
+}) {
+  const [modo, setModo] = useState<"mes" | "semana">("mes");
+  // cursor sempre como data LOCAL (parseLocalDate) para não "voltar 1 dia" em America/Sao_Paulo
+  const [cursor, setCursor] = useState<Date>(() => parseLocalDate(todayISO()));
+  const [dragId, setDragId] = useState<string | null>(null);
+  const [dropDate, setDropDate] = useState<string | null>(null);
+
+  const hoje = todayISO();
+
+  const byDate = useMemo(() => {
+    const m = new Map<string, Evento[]>();
+    for (const ev of eventos) {
+      const k = toISODateLocal(parseLocalDate(ev.date));
+      m.set(k, [...(m.get(k) ?? []), ev]);
+    }
+    return m;
+  }, [eventos]);
+
+  const dias = useMemo(() => {
+    const start =
+      modo === "mes"
+        ? new Date(cursor.getFullYear(), cursor.getMonth(), 1)
+        : new Date(cursor.getFullYear(), cursor.getMonth(), cursor.getDate());
+    start.setDate(start.getDate() - start.getDay()); // volta ao domingo
+    const total = modo === "mes" ? 42 : 7;
+    return Array.from({ length: total }, (_, i) => {
+      const d = new Date(start.getFullYear(), start.getMonth(), start.getDate() + i);
+      return { iso: toISODateLocal(d), d };
+    });
+  }, [cursor, modo]);
+
+  const mover = (dir: -1 | 1) => {
+    setCursor((c) =>
+      modo === "mes"
+        ? new Date(c.getFullYear(), c.getMonth() + dir, 1)
+        : new Date(c.getFullYear(), c.getMonth(), c.getDate() + 7 * dir)
+    );
+  };
+
+  const titulo =
+    modo === "mes"
+      ? cursor.toLocaleDateString("pt-BR", { month: "long", year: "numeric" })
+      : `${fmtDateBR(dias[0].iso)} – ${fmtDateBR(dias[6].iso)}`;
+
+  const drop = (iso: string) => {
+    const ev = eventos.find((x) => x.id === dragId);
+    setDragId(null);
+    setDropDate(null);
+    if (ev && ev.date !== iso) onReschedule(ev, iso);
+  };
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => mover(-1)}
+            className="rounded-lg border border-slate-200 bg-white px-3 py-1 text-sm hover:bg-slate-50"
+          >
+            ‹
+          </button>
+          <button
+            onClick={() => setCursor(parseLocalDate(todayISO()))}
+            className="rounded-lg border border-slate-200 bg-white px-3 py-1 text-sm hover:bg-slate-50"
+          >
+            Hoje
+          </button>
+          <button
+            onClick={() => mover(1)}
+            className="rounded-lg border border-slate-200 bg-white px-3 py-1 text-sm hover:bg-slate-50"
+          >
+            ›
+          </button>
+          <div className="font-semibold text-slate-900 capitalize">{titulo}</div>
+        </div>
+        <div className="flex gap-1">
+          {(["mes", "semana"] as const).map((m) => (
+            <button
+              key={m}
+              onClick={() => setModo(m)}
+              className={cn(
+                "rounded-lg border px-3 py-1 text-sm",
+                modo === m ? "bg-slate-900 text-white border-slate-900" : "bg-white border-slate-200"
+              )}
+            >
+              {m === "mes" ? "Mês" : "Semana"}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-7 gap-px rounded-xl border border-slate-200 bg-slate-200 overflow-hidden">
+        {DIAS_SEMANA.map((d) => (
+          <div key={d} className="bg-slate-100 px-2 py-1 text-xs font-semibold text-slate-600">
+            {d}
+          </div>
+        ))}
+        {dias.map(({ iso, d }) => {
+          const outMonth = modo === "mes" && d.getMonth() !== cursor.getMonth();
+          const evs = byDate.get(iso) ?? [];
+          return (
+            <div
+              key={iso}
+              onDragOver={(e) => {
+                if (!canEdit || !dragId) return;
+                e.preventDefault();
+                setDropDate(iso);
+              }}
+              onDragLeave={() => setDropDate((cur) => (cur === iso ? null : cur))}
+              onDrop={(e) => {
+                e.preventDefault();
+                drop(iso);
+              }}
+              className={cn(
+                "bg-white p-1 flex flex-col gap-1",
+                modo === "mes" ? "min-h-[88px]" : "min-h-[220px]",
+                outMonth ? "bg-slate-50 text-slate-400" : "",
+                dropDate === iso ? "ring-2 ring-inset ring-sky-400" : ""
+              )}
+            >
+              <div
+                className={cn(
+                  "self-end text-xs w-6 h-6 flex items-center justify-center rounded-full",
+                  iso === hoje ? "bg-slate-900 text-white font-bold" : ""
+                )}
+              >
+                {d.getDate()}
+              </div>
+              {evs.map((ev) => (
+                <button
+                  key={ev.id}
+                  draggable={canEdit && ev.status !== "cancelado"}
+                  onDragStart={(e) => {
+                    e.dataTransfer.effectAllowed = "move";
+                    setDragId(ev.id);
+                  }}
+                  onDragEnd={() => {
+                    setDragId(null);
+                    setDropDate(null);
+                  }}
+                  onClick={() => onOpen(ev)}
+                  title={`${ev.title} • ${EVENTO_STATUS_LABEL[ev.status] ?? ev.status}`}
+                  className={cn(
+                    "truncate rounded border px-1 py-0.5 text-left text-xs",
+                    EVENTO_STATUS_COR[ev.status] ?? EVENTO_STATUS_COR.planejado,
+                    canEdit && ev.status !== "cancelado" ? "cursor-move" : ""
+                  )}
+                >
+                  {ev.title}
+                </button>
+              ))}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="mt-2 flex flex-wrap items-center gap-2 text-xs text-slate-600">
+        {(Object.keys(EVENTO_STATUS_LABEL) as EventoStatus[]).map((st) => (
+          <span key={st} className={cn("rounded border px-2 py-0.5", EVENTO_STATUS_COR[st])}>
+            {EVENTO_STATUS_LABEL[st]}
+          </span>
+        ))}
+        {canEdit ? <span>Arraste um evento para outro dia para reagendar.</span> : null}
+      </div>
+    </div>
+  );
+}
+
+const PARTICIPANTE_LABEL: Record<ParticipanteStatus, string> = {
+  convidado: "Convidado",
+  presente: "Presente",
+  ausente: "Ausente",
+  entregue: "Entregue",
+};
+
+function EventoDetalhe({
+  evento,
+  beneficiarios,
+  templates,
+  inventory,
+  regras,
+  canEdit,
+  isAdmin,
+  operatorEmail,
+  onBack,
+  onReload,
+}: {
+  evento: Evento;
+  beneficiarios: Beneficiario[];
+  templates: BasketTemplate[];
+  inventory: EstoqueItem[];
+  regras: RegrasElegibilidade;
+  canEdit: boolean;
+  isAdmin: boolean;
+  operatorEmail: string | null;
+  onBack: () => void;
+  onReload: () => Promise<void>;
+}) {
+  const [roster, setRoster] = useState<EventoParticipante[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [err, setErr] = useState<string | null>(null);
+  const [ok, setOk] = useState<string | null>(null);
+  const [filter, setFilter] = useState("");
+
+  const benefById = useMemo(() => new Map(beneficiarios.map((b) => [b.id, b] as const)), [beneficiarios]);
+  const modelo = templates.find((t) => t.id === evento.modelo_id) ?? null;
+
+  const rosterKey = `roster:${evento.id}`;
+
+  // atualiza a lista na tela e na cópia offline (usado quando a escrita foi para a fila)
+  const setRosterLocal = (fn: (prev: EventoParticipante[]) => EventoParticipante[]) => {
+    setRoster((prev) => {
+      const next = fn(prev);
+      idbGravar(rosterKey, next).catch(() => undefined);
+      return next;
+    });
+  };
+
+  const loadRoster = async () => {
+    if (!supabase) return;
+    setLoading(true);
+    const { data, error } = await supabase
+      .from("eventos_participantes")
+      .select("id,evento_id,beneficiario_id,status,updated_at")
+      .eq("evento_id", evento.id);
+    setLoading(false);
+    if (error) {
+      const cache = ehErroDeRede(error) ? await idbLer<EventoParticipante[]>(rosterKey).catch(() => null) : null;
+      if (cache) setRoster(cache);
+      else setErr(error.message);
+      return;
+    }
+    const lista = ((data as any[]) ?? []).map((r) => ({
+      id: String(r.id),
+      evento_id: String(r.evento_id),
+      beneficiario_id: String(r.beneficiario_id),
+      status: (r.status as ParticipanteStatus) ?? "convidado",
+      updated_at: r.updated_at ?? null,
+    }));
+    setRoster(lista);
+    idbGravar(rosterKey, lista).catch(() => undefined);
+  };
+
+  useEffect(() => {
+    loadRoster();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [evento.id]);
+
+  const rosterSorted = useMemo(
+    () =>
+      [...roster].sort((a, b) =>
+        String(benefById.get(a.beneficiario_id)?.name ?? "").localeCompare(String(benefById.get(b.beneficiario_id)?.name ?? ""))
+      ),
+    [roster, benefById]
+  );
+
+  const convidaveis = useMemo(() => {
+    const q = filter.trim().toLowerCase();
+    const inRoster = new Set(roster.map((r) => r.beneficiario_id));
+    return beneficiarios
+      .filter((b) => !b.archived_at && !inRoster.has(b.id))
+      .filter((b) => !q || b.name.toLowerCase().includes(q))
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .slice(0, 20);
+  }, [beneficiarios, roster, filter]);
+
+  const counts = useMemo(() => {
+    const c: Record<ParticipanteStatus, number> = { convidado: 0, presente: 0, ausente: 0, entregue: 0 };
+    for (const r of roster) c[r.status] += 1;
+    return c;
+  }, [roster]);
+
+  const setModelo = async (modeloId: string) => {
+    setErr(null);
+    setOk(null);
+    if (!supabase) return;
+    setBusy(true);
+    const { error } = await supabase
+      .from("eventos_entrega")
+      .update({ modelo_id: modeloId || null })
+      .eq("id", evento.id);
+    setBusy(false);
+    if (error) {
+      setErr(error.message);
+      return;
+    }
+    await onReload();
+  };
+
+  const invite = async (b: Beneficiario) => {
+    setErr(null);
+    setOk(null);
+    if (!supabase) return;
+    const novo: EventoParticipante = {
+      id: genTextId(),
+      evento_id: evento.id,
+      beneficiario_id: b.id,
+      status: "convidado",
+      updated_at: null,
+    };
+    setBusy(true);
+    try {
+      const r = await enviarOuEnfileirar({
+        tipo: "insert",
+        tabela: "eventos_participantes",
+        payload: { id: novo.id, evento_id: novo.evento_id, beneficiario_id: novo.beneficiario_id, status: novo.status },
+        descricao: `Convite de ${b.name} para ${evento.title}`,
+      });
+      if (r === "fila") setRosterLocal((prev) => [...prev, novo]);
+      else await loadRoster();
+    } catch (ex: any) {
+      setErr(ex?.message ?? String(ex));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const removeInvite = async (p: EventoParticipante) => {
+    setErr(null);
+    setOk(null);
+    if (!supabase) return;
+    if (p.status === "entregue") {
+      setErr("Não é possível remover quem já recebeu a cesta.");
+      return;
+    }
+    setBusy(true);
+    const { error } = await supabase.from("eventos_participantes").delete().eq("id", p.id);
+    setBusy(false);
+    if (error) {
+      setErr(error.message);
+      return;
+    }
+    await loadRoster();
+  };
+
+  const setStatus = async (p: EventoParticipante, status: "presente" | "ausente") => {
+    setErr(null);
+    setOk(null);
+    if (!supabase) return;
+    const updated_at = new Date().toISOString();
+    setBusy(true);
+    try {
+      const r = await enviarOuEnfileirar({
+        tipo: "update",
+        tabela: "eventos_participantes",
+        registroId: p.id,
+        payload: { status, updated_at },
+        antes: { status: p.status },
+        descricao: `${benefById.get(p.beneficiario_id)?.name ?? "Participante"}: ${PARTICIPANTE_LABEL[status]} (${evento.title})`,
+      });
+      if (r === "fila") setRosterLocal((prev) => prev.map((x) => (x.id === p.id ? { ...x, status, updated_at } : x)));
+      else await loadRoster();
+    } catch (ex: any) {
+      setErr(ex?.message ?? String(ex));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  // Entrega no dia: baixa a cesta do modelo do evento (escalada pela família) e marca como entregue
+  const deliver = async (p: EventoParticipante) => {
+    setErr(null);
+    setOk(null);
+    const b = benefById.get(p.beneficiario_id);
+    if (!b) return;
+    if (!modelo) {
+      setErr("Escolha o modelo de cesta do evento antes de registrar entregas.");
+      return;
+    }
+    if (modelo.legado) {
+      setErr("Modelo antigo (basket_config): rode o supabase_schema.sql atualizado para registrar entregas.");
+      return;
+    }
+    if (!familiaNaFaixa(modelo, b.familySize)) {
+      setErr(`O modelo "${modelo.name}" não atende família de ${b.familySize} pessoas.`);
+      return;
+    }
+
+    let override: string | null = null;
+    const e = avaliarElegibilidade(b, regras, todayISO());
+    if (!e.elegivel) {
+      if (!isAdmin) {
+        setErr(`${b.name} está fora das regras (${e.motivos.join("; ")}). Peça a um admin para liberar.`);
+        return;
+      }
+      override = (prompt(`${b.name} está fora das regras:\n${e.motivos.join("\n")}\n\nJustificativa para liberar:`) ?? "").trim();
+      if (!override) return;
+    }
+
+    const dia = todayISO();
+    const { entregas, totais } = prepararEntregas(modelo, [b], {
+      date: dia,
+      operatorEmail,
+      note: `Evento: ${evento.title}`,
+      overrideReason: () => override,
+    });
+
+    // pré-validação na unidade do estoque, como o banco faz
+    try {
+      const invById = new Map(inventory.map((i) => [i.id, i] as const));
+      validarMontagemLocal(inventory, paraUnidadeDoEstoque(totais, invById), 1);
+    } catch (ex: any) {
+      setErr(ex?.message ?? String(ex));
+      return;
+    }
+
+    setBusy(true);
+    let r: "enviado" | "fila";
+    try {
+      r = await enviarOuEnfileirar({
+        tipo: "rpc",
+        fn: "registrar_montagem_cesta",
+        args: montagemRpcArgs({
+          modeloId: modelo.id,
+          eventoId: evento.id,
+          qtd: 1,
+          entregas,
+          data: dia,
+        }),
+        descricao: `Entrega de cesta para ${b.name} (${evento.title})`,
+      });
+    } catch (ex: any) {
+      setErr(ex?.message ?? String(ex));
+      return;
+    } finally {
+      setBusy(false);
+    }
+
+    if (r === "fila") {
+      setRosterLocal((prev) => prev.map((x) => (x.id === p.id ? { ...x, status: "entregue" } : x)));
+      setOk(`Sem conexão: entrega para ${b.name} guardada e será enviada ao reconectar.`);
+      return;
+    }
+    setOk(`Cesta entregue para ${b.name}.`);
+    await Promise.all([loadRoster(), onReload()]);
+  };
+
+  return (
+    <div className="space-y-4">
+      <Card
+        title={evento.title}
+        right={
+          <div className="flex items-center gap-2">
+            <Badge>{fmtDateBR(evento.date)}</Badge>
+            <button
+              onClick={onBack}
+              className="rounded-lg border border-slate-200 bg-white px-3 py-1.5 text-sm hover:bg-slate-50"
+            >
+              Voltar
+            </button>
+          </div>
+        }
+      >
+        {evento.description ? <div className="text-sm text-slate-700 mb-3">{evento.description}</div> : null}
+
+        {err && (
+          <div className="mb-3 rounded-lg border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-800">{err}</div>
+        )}
+        {ok && (
+          <div className="mb-3 rounded-lg border border-emerald-200 bg-emerald-50 px-3 py-2 text-sm text-emerald-800">
+            {ok}
+          </div>
+        )}
+
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+          {(Object.keys(PARTICIPANTE_LABEL) as ParticipanteStatus[]).map((st) => (
+            <div key={st} className="rounded-xl border border-slate-200 p-3">
+              <div className="text-xs text-slate-600">{PARTICIPANTE_LABEL[st]}</div>
+              <div className="text-xl font-bold text-slate-900">{counts[st]}</div>
+            </div>
+          ))}
+          <div className="rounded-xl border border-slate-200 p-3">
+            <div className="text-xs text-slate-600">Cestas consumidas</div>
+            <div className="text-xl font-bold text-slate-900">{evento.cestas_consumidas}</div>
+          </div>
+        </div>
+
+        <div className="mt-4 max-w-md">
+          <label className="block text-sm font-medium text-slate-700">Modelo de cesta do evento</label>
+          <select
+            className="mt-1 w-full rounded-lg border border-slate-300 px-3 py-2"
+            value={evento.modelo_id ?? ""}
+            onChange={(e) => setModelo(e.target.value)}
+            disabled={!canEdit || busy}
+          >
+            <option value="">Selecione…</option>
+            {templates.map((t) => (
+              <option key={t.id} value={t.id}>
+                {t.name}
+              </option>
+            ))}
+          </select>
+        </div>
+      </Card>
+
+      <Card title="Lista de presença" right={<Badge>{roster.length} convidados</Badge>}>
+        {canEdit ? (
+          <div className="mb-4">
+            <input
+              className="w-full rounded-lg border border-slate-300 px-3 py-2"
+              placeholder="Convidar beneficiário: buscar por nome…"
+              value={filter}
+              onChange={(e) => setFilter(e.target.value)}
+              disabled={busy}
+            />
+            {filter.trim() ? (
+              <div className="mt-2 max-h-48 overflow-auto rounded-xl border border-slate-200 divide-y">
+                {convidaveis.length === 0 ? (
+                  <div className="p-2 text-sm text-slate-600">Nenhum beneficiário encontrado.</div>
+                ) : (
+                  convidaveis.map((b) => (
+                    <div key={b.id} className="flex items-center justify-between px-3 py-1.5 text-sm">
+                      <span>
+                        <b>{b.name}</b> <span className="text-xs text-slate-500">família {b.familySize}</span>
+                      </span>
+                      <button
+                        onClick={() => invite(b)}
+                        disabled={busy}
+                        className="rounded-lg border border-slate-200 bg-white px-2 py-1 text-xs hover:bg-slate-50 disabled:opacity-60"
+                      >
+                        Convidar
+                      </button>
+                    </div>
+                  ))
+                )}
+              </div>
+            ) : null}
+          </div>
+        ) : null}
+
+        <div className="overflow-auto border border-slate-200 rounded-xl">
+          <table className="min-w-[700px] w-full text-sm">
+            <thead className="bg-slate-100">
+              <tr className="text-left">
+                <th className="p-2">Beneficiário</th>
+                <th className="p-2">Família</th>
+                <th className="p-2">Elegibilidade</th>
+                <th className="p-2">Situação</th>
+                <th className="p-2">Ações</th>
+              </tr>
+            </thead>
+            <tbody>
+              {loading ? (
+                <tr>
+                  <td className="p-3 text-slate-600" colSpan={5}>
+                    Carregando…
+                  </td>
+                </tr>
+              ) : rosterSorted.length === 0 ? (
+                <tr>
+                  <td className="p-3 text-slate-600" colSpan={5}>
+                    Ninguém convidado ainda.
+                  </td>
+                </tr>
+              ) : (
+                rosterSorted.map((p) => {
+                  const b = benefById.get(p.beneficiario_id);
+                  return (
+                    <tr key={p.id} className="border-t">
+                      <td className="p-2 font-medium text-slate-900">{b?.name ?? "(removido)"}</td>
+                      <td className="p-2">{b?.familySize ?? "-"}</td>
+                      <td className="p-2">
+                        {b && p.status !== "entregue" ? (
+                          <ElegibilidadeBadge e={avaliarElegibilidade(b, regras, todayISO())} />
+                        ) : (
+                          "-"
+                        )}
+                      </td>
+                      <td className="p-2">
+                        <Badge>{PARTICIPANTE_LABEL[p.status]}</Badge>
+                      </td>
+                      <td className="p-2">
+                        {canEdit && p.status !== "entregue" ? (
+                          <div className="flex flex-wrap items-center gap-2">
+                            <button
+                              onClick={() => setStatus(p, "presente")}
+                              disabled={busy || p.status === "presente"}
+                              className="rounded-lg border border-slate-200 bg-white px-2 py-1 text-xs hover:bg-slate-50 disabled:opacity-60"
+                            >
+                              Presente
+                            </button>
+                            <button
+                              onClick={() => setStatus(p, "ausente")}
+                              disabled={busy || p.status === "ausente"}
+                              className="rounded-lg border border-slate-200 bg-white px-2 py-1 text-xs hover:bg-slate-50 disabled:opacity-60"
+                            >
+                              Ausente
+                            </button>
+                            <button
+                              onClick={() => deliver(p)}
+                              disabled={busy || !b}
+                              className="rounded-lg bg-emerald-600 px-2 py-1 text-xs font-semibold text-white disabled:opacity-60"
+                            >
+                              Entregar cesta
+                            </button>
+                            <button
+                              onClick={() => removeInvite(p)}
+                              disabled={busy}
+                              className="rounded-lg border border-red-200 bg-white px-2 py-1 text-xs text-red-700 hover:bg-red-50 disabled:opacity-60"
+                            >
+                              Remover
+                            </button>
+                          </div>
+                        ) : (
+                          <span className="text-xs text-slate-500">
+                            {p.updated_at ? new Date(p.updated_at).toLocaleString("pt-BR") : "-"}
+                          </span>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })
+              )}
+            </tbody>
+          </table>
+        </div>
+      </Card>
+    </div>
+  );
+}
+
+function UsuariosAdmin({ currentUserId }: { currentUserId: string }) {
+  const [usuarios, setUsuarios] = useState<AdminUsuario[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [err, setErr] = useState<string | null>(null);
+  const [ok, setOk] = useState<string | null>(null);
+  const [inviteEmail, setInviteEmail] = useState("");
+  const [inviteRole, setInviteRole] = useState<Role>("viewer");
+  const [inviteUnidade, setInviteUnidade] = useState(""); // conta nova entra nesta unidade
+  const [unidades, setUnidades] = useState<Unidade[]>([]);
+  const [novaUnidade, setNovaUnidade] = useState("");
+
+  const load = async () => {
+    setLoading(true);
+    try {
+      setUnidades((await fetchUnidades()) ?? []);
+      setUsuarios(await adminListarUsuarios());
+    } catch (e: any) {
+      setErr(e?.message ?? String(e));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  const run = async (acao: AdminAcao, msg: string) => {
+    setErr(null);
+    setOk(null);
+    try {
+      validarAcaoAdminLocal(usuarios, currentUserId, acao);
+    } catch (e: any) {
+      setErr(e?.message ?? String(e));
+      return;
+    }
+
+    setBusy(true);
+    try {
+      await adminExecutar(acao);
+      setOk(msg);
+      await load();
+    } catch (e: any) {
+      setErr(e?.message ?? String(e));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const toggleUnidade = async (u: AdminUsuario, unidadeId: string) => {
+    setErr(null);
+    setOk(null);
+    const next = u.unidades.includes(unidadeId)
+      ? u.unidades.filter((x) => x !== unidadeId)
+      : [...u.unidades, unidadeId];
+
+    setBusy(true);
+    try {
+      await adminDefinirUnidades(u.id, next);
+      setUsuarios((prev) => prev.map((x) => (x.id === u.id ? { ...x, unidades: next } : x)));
+    } catch (e: any) {
+      setErr(e?.message ?? String(e));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const criarUnidade = async (e: FormEvent) => {
+    e.preventDefault();
+    setErr(null);
+    setOk(null);
+    if (!supabase) return;
+
+    const nome = novaUnidade.trim();
+    if (!nome) return;
+    const id = normalizeText(nome).replace(/ /g, "-").slice(0, 40) || genTextId();
+    if (unidades.some((u) => u.id === id)) {
+      setErr("Já existe uma unidade com esse nome.");
+      return;
+    }
+
+    setBusy(true);
+    const { error } = await supabase.from("unidades").insert({ id, nome });
+    setBusy(false);
+    if (error) {
+      setErr(error.message);
+      return;
+    }
+    setNovaUnidade("");
+    setOk(`Unidade "${nome}" criada. Marque abaixo quem participa dela.`);
+    await load();
+  };
+
+  // Convite: reserva o papel para o e-mail e envia o link de acesso (o papel é aplicado no 1º login)
+  const invite = async (e: FormEvent) => {
+    e.preventDefault();
+    setErr(null);
+    setOk(null);
+    if (!supabase) return;
+
+    const email = inviteEmail.trim().toLowerCase();
+    if (!/^[^@\s]+@[^@\s]+\.[^@\s]+$/.test(email)) {
+      setErr("Informe um e-mail válido.");
+      return;
+    }
+
+    setBusy(true);
+    const { error } = await supabase.rpc("admin_convidar", {
+      p_email: email,
+      p_role: inviteRole,
+      p_unidades: inviteUnidade ? [inviteUnidade] : [],
+    });
+    if (error) {
+      setBusy(false);
+      setErr(error.message);
+      return;
+    }
+    const { error: otpErr } = await supabase.auth.signInWithOtp({
+      email,
+      options: { shouldCreateUser: true, emailRedirectTo: window.location.origin },
+    });
+    setBusy(false);
+
+    if (otpErr) {
+      setErr("Convite registrado, mas o e-mail não foi enviado: " + otpErr.message);
+      return;
+    }
+    setInviteEmail("");
+    setOk(`Convite enviado para ${email} (${ROLE_LABEL[inviteRole]}).`);
+    await load();
+  };
+
+  return (
+    <Card title="Usuários (admin)" right={<Badge>{usuarios.length} contas</Badge>}>
+      <div className="text-sm text-slate-600">
+        As alterações passam por funções no banco que conferem se você é admin — a chave anônima nunca recebe permissões
+        elevadas.
+      </div>
+
+      {err && (
+        <div className="mt-3 rounded-lg border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-800">{err}</div>
+      )}
+      {ok && (
+        <div className="mt-3 rounded-lg border border-emerald-200 bg-emerald-50 px-3 py-2 text-sm text-emerald-800">
+          {ok}
+        </div>
+      )}
+
+      <form onSubmit={invite} className="mt-4 grid grid-cols-1 gap-3 md:grid-cols-[1fr_200px_200px_auto]">
+        <div>
+          <label className="block text-sm font-medium text-slate-700">Convidar voluntário (e-mail)</label>
+          <input
+            type="email"
+            className="mt-1 w-full rounded-lg border border-slate-300 px-3 py-2"
+            value={inviteEmail}
+            onChange={(e) => setInviteEmail(e.target.value)}
+            disabled={busy}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-slate-700">Papel</label>
+          <select
+            className="mt-1 w-full rounded-lg border border-slate-300 px-3 py-2"
+            value={inviteRole}
+            onChange={(e) => setInviteRole(e.target.value as Role)}
+            disabled={busy}
+          >
+            {(Object.keys(ROLE_LABEL) as Role[]).map((r) => (
+              <option key={r} value={r}>
+                {ROLE_LABEL[r]}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-slate-700">Unidade</label>
+          <select
+            className="mt-1 w-full rounded-lg border border-slate-300 px-3 py-2"
+            value={inviteUnidade}
+            onChange={(e) => setInviteUnidade(e.target.value)}
+            disabled={busy}
+            title="Sem unidade, a conta não vê nenhum dado até ser vinculada"
+          >
+            <option value="">Nenhuma (vincular depois)</option>
+            {unidades.map((u) => (
+              <option key={u.id} value={u.id}>
+                {u.nome}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="flex items-end">
+          <button
+            disabled={busy || !inviteEmail.trim()}
+            className="rounded-lg bg-slate-900 px-4 py-2 font-semibold text-white disabled:opacity-60"
+          >
+            Convidar
+          </button>
+        </div>
+      </form>
+
+      <form onSubmit={criarUnidade} className="mt-4 flex flex-wrap items-end gap-3">
+        <div className="flex-1 min-w-[220px]">
+          <label className="block text-sm font-medium text-slate-700">Nova unidade (congregação)</label>
+          <input
+            className="mt-1 w-full rounded-lg border border-slate-300 px-3 py-2"
+            value={novaUnidade}
+            onChange={(e) => setNovaUnidade(e.target.value)}
+            disabled={busy}
+          />
+        </div>
+        <button
+          disabled={busy || !novaUnidade.trim()}
+          className="rounded-lg border border-slate-200 bg-white px-4 py-2 font-semibold hover:bg-slate-50 disabled:opacity-60"
+        >
+          Criar unidade
+        </button>
+      </form>
+
+      <div className="mt-4 overflow-auto border border-slate-200 rounded-xl">
+        <table className="min-w-[760px] w-full text-sm">
+          <thead className="bg-slate-100">
+            <tr className="text-left">
+              <th className="p-2">E-mail</th>
+              <th className="p-2">Papel</th>
+              <th className="p-2">Unidades</th>
+              <th className="p-2">Último acesso</th>
+              <th className="p-2">Situação</th>
+              <th className="p-2">Ações</th>
+            </tr>
+          </thead>
+          <tbody>
+            {loading ? (
+              <tr>
+                <td className="p-3 text-slate-600" colSpan={6}>
+                  Carregando…
+                </td>
+              </tr>
+            ) : usuarios.length === 0 ? (
+              <tr>
+                <td className="p-3 text-slate-600" colSpan={6}>
+                  Nenhum usuário.
+                </td>
+              </tr>
+            ) : (
+              usuarios.map((u) => {
+                const self = u.id === currentUserId;
+                return (
+                  <tr key={u.id} className={cn("border-t", u.disabled ? "text-slate-400" : "")}>
+                    <td className="p-2 font-medium">
+                      {u.email ?? "-"} {self ? <Badge>você</Badge> : null}
+                    </td>
+                    <td className="p-2">
+                      <select
+                        className="rounded-lg border border-slate-300 px-2 py-1"
+                        value={u.role}
+                        onChange={(e) =>
+                          run(
+                            { tipo: "papel", userId: u.id, role: e.target.value as Role },
+                            `${u.email ?? "Usuário"} agora é ${ROLE_LABEL[e.target.value as Role]}.`
+                          )
+                        }
+                        disabled={busy || self}
+                      >
+                        {(Object.keys(ROLE_LABEL) as Role[]).map((r) => (
+                          <option key={r} value={r}>
+                            {ROLE_LABEL[r]}
+                          </option>
+                        ))}
+                      </select>
+                    </td>
+                    <td className="p-2">
+                      {unidades.length === 0 ? (
+                        <span className="text-slate-400">—</span>
+                      ) : (
+                        <div className="flex flex-wrap gap-x-3 gap-y-1">
+                          {unidades.map((un) => (
+                            <label key={un.id} className="inline-flex items-center gap-1 text-xs">
+                              <input
+                                type="checkbox"
+                                checked={u.unidades.includes(un.id)}
+                                onChange={() => toggleUnidade(u, un.id)}
+                                disabled={busy}
+                              />
+                              {un.nome}
+                            </label>
+                          ))}
+                        </div>
+                      )}
+                    </td>
+                    <td className="p-2">
+                      {u.last_sign_in_at ? new Date(u.last_sign_in_at).toLocaleString("pt-BR") : "nunca"}
+                    </td>
+                    <td className="p-2">
+                      <Badge>{u.disabled ? "desativado" : "ativo"}</Badge>
+                    </td>
+                    <td className="p-2">
+                      <button
+                        onClick={() =>
+                          run(
+                            { tipo: "bloqueio", userId: u.id, disabled: !u.disabled },
+                            u.disabled ? "Conta reativada." : "Conta desativada."
+                          )
+                        }
+                        disabled={busy || self}
+                        className={cn(
+                          "rounded-lg border px-2 py-1 text-xs disabled:opacity-60",
+                          u.disabled ? "border-slate-200 hover:bg-slate-50" : "border-red-200 text-red-700 hover:bg-red-50"
+                        )}
+                      >
+                        {u.disabled ? "Reativar" : "Desativar"}
+                      </button>
+                    </td>
+                  </tr>
+                );
+              })
+            )}
+          </tbody>
+        </table>
+      </div>
+    </Card>
+  );
+}
+
+function ElegibilidadeBadge({ e }: { e: Elegibilidade }) {
+  if (e.elegivel) {
+    return (
+      <span className="inline-flex items-center rounded-full border border-emerald-200 bg-emerald-50 px-2 py-0.5 text-xs text-emerald-800">
+        Elegível agora
+      </span>
+    );
+  }
+  return (
+    <span
+      className="inline-flex items-center rounded-full border border-amber-200 bg-amber-50 px-2 py-0.5 text-xs text-amber-800"
+      title={e.motivos.join("; ")}
+    >
+      {e.proxima_data ? `Elegível em ${fmtDateBR(e.proxima_data)}` : "Não elegível"}
+    </span>
+  );
+}
+
+function RegrasElegibilidadeCard({
+  regras,
+  isAdmin,
+  onReload,
+}: {
+  regras: RegrasElegibilidade;
+  isAdmin: boolean;
+  onReload: () => Promise<void>;
+}) {
+  const [form, setForm] = useState<RegrasElegibilidade>(regras);
+  const [busy, setBusy] = useState(false);
+  const [err, setErr] = useState<string | null>(null);
+  const [ok, setOk] = useState<string | null>(null);
+
+  useEffect(() => setForm(regras), [regras]);
+
+  const save = async () => {
+    setErr(null);
+    setOk(null);
+    if (!supabase) return;
+    if (!isAdmin) {
+      setErr("Apenas admin pode alterar as regras de elegibilidade.");
+      return;
+    }
+
+    setBusy(true);
+    const { error } = await supabase
+      .from("configuracoes")
+      .upsert([{ key: "eligibility_rules", value: form }], { onConflict: "key" });
+    setBusy(false);
+
+    if (error) {
+      setErr(error.message);
+      return;
+    }
+    setOk("Regras salvas.");
+    await onReload();
+  };
+
+  return (
+    <Card title="Regras de elegibilidade" right={!isAdmin ? <Badge>somente admin altera</Badge> : null}>
+      <div className="text-sm text-slate-600">
+        Avaliadas antes de registrar uma entrega. Fora das regras, só um admin pode liberar, com justificativa.
+      </div>
+
+      {err && (
+        <div className="mt-3 rounded-lg border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-800">{err}</div>
+      )}
+      {ok && (
+        <div className="mt-3 rounded-lg border border-emerald-200 bg-emerald-50 px-3 py-2 text-sm text-emerald-800">
+          {ok}
+        </div>
+      )}
+
+      <div className="mt-4 grid grid-cols-1 gap-3 md:grid-cols-[1fr_1fr_1fr_auto]">
+        <div>
+          <label className="block text-sm font-medium text-slate-700">Intervalo mínimo (dias)</label>
+          <input
+            type="number"
+            min={0}
+            step={1}
+            className="mt-1 w-full rounded-lg border border-slate-300 px-3 py-2"
+            value={form.intervalo_min_dias}
+            onChange={(e) => setForm((p) => ({ ...p, intervalo_min_dias: Math.max(0, Number(e.target.value)) }))}
+            disabled={!isAdmin || busy}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-slate-700">Máx. cestas por mês</label>
+          <input
+            type="number"
+            min={0}
+            step={1}
+            className="mt-1 w-full rounded-lg border border-slate-300 px-3 py-2"
+            value={form.max_por_mes}
+            onChange={(e) => setForm((p) => ({ ...p, max_por_mes: Math.max(0, Number(e.target.value)) }))}
+            disabled={!isAdmin || busy}
+          />
+          <div className="text-xs text-slate-500 mt-1">0 = sem limite.</div>
+        </div>
+        <label className="flex items-center gap-2 text-sm text-slate-700 md:pt-6">
+          <input
+            type="checkbox"
+            checked={form.exigir_ativo}
+            onChange={(e) => setForm((p) => ({ ...p, exigir_ativo: e.target.checked }))}
+            disabled={!isAdmin || busy}
+          />
+          Exigir status “Ativo”
+        </label>
+        <div className="flex items-end">
+          <button
+            onClick={save}
+            disabled={!isAdmin || busy}
+            className="rounded-lg bg-slate-900 px-4 py-2 font-semibold text-white disabled:opacity-60"
+          >
+            {busy ? "Salvando..." : "Salvar regras"}
+          </button>
+        </div>
+      </div>
+    </Card>
+  );
+}
+
+function AuditoriaAdmin() {
+  const [filtro, setFiltro] = useState<AuditoriaFiltro>({
+    email: "",
+    tabela: "",
+    de: addDaysISO(todayISO(), -30),
+    ate: todayISO(),
+  });
+  const [registros, setRegistros] = useState<AuditoriaRegistro[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [err, setErr] = useState<string | null>(null);
+  const [aberto, setAberto] = useState<number | null>(null);
+
+  const buscar = async (e?: FormEvent) => {
+    e?.preventDefault();
+    setErr(null);
+    setLoading(true);
+    try {
+      setRegistros(await fetchAuditoria(filtro));
+    } catch (e: any) {
+      setErr(e?.message ?? String(e));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    buscar();
+  }, []);
+
+  return (
+    <Card title="Auditoria" right={<Badge>{registros.length} registros</Badge>}>
+      <div className="text-sm text-slate-600 mb-3">
+        Toda criação, alteração e exclusão é registrada pelo banco com o usuário, o horário e os valores antes/depois.
+      </div>
+
+      <form onSubmit={buscar} className="grid grid-cols-1 gap-3 md:grid-cols-[1fr_200px_160px_160px_auto]">
+        <div>
+          <label className="block text-sm font-medium text-slate-700">Usuário (e-mail)</label>
+          <input
+            className="mt-1 w-full rounded-lg border border-slate-300 px-3 py-2"
+            value={filtro.email}
+            onChange={(e) => setFiltro({ ...filtro, email: e.target.value })}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-slate-700">Tabela</label>
+          <select
+            className="mt-1 w-full rounded-lg border border-slate-300 px-3 py-2"
+            value={filtro.tabela}
+            onChange={(e) => setFiltro({ ...filtro, tabela: e.target.value })}
+          >
+            <option value="">Todas</option>
+            {Object.entries(AUDITORIA_TABELAS).map(([k, label]) => (
+              <option key={k} value={k}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-slate-700">De</label>
+          <input
+            type="date"
+            className="mt-1 w-full rounded-lg border border-slate-300 px-3 py-2"
+            value={filtro.de}
+            onChange={(e) => setFiltro({ ...filtro, de: e.target.value })}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-slate-700">Até</label>
+          <input
+            type="date"
+            className="mt-1 w-full rounded-lg border border-slate-300 px-3 py-2"
+            value={filtro.ate}
+            onChange={(e) => setFiltro({ ...filtro, ate: e.target.value })}
+          />
+        </div>
+        <div className="flex items-end">
+          <button
+            disabled={loading}
+            className="rounded-lg bg-slate-900 px-4 py-2 font-semibold text-white disabled:opacity-60"
+          >
+            {loading ? "Buscando…" : "Filtrar"}
+          </button>
+        </div>
+      </form>
+
+      {err && (
+        <div className="mt-3 rounded-lg border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-800">{err}</div>
+      )}
+
+      <div className="mt-4 overflow-auto border border-slate-200 rounded-xl">
+        <table className="min-w-[760px] w-full text-sm">
+          <thead className="bg-slate-100">
+            <tr className="text-left">
+              <th className="p-2">Quando</th>
+              <th className="p-2">Quem</th>
+              <th className="p-2">Ação</th>
+              <th className="p-2">Tabela</th>
+              <th className="p-2">Registro</th>
+              <th className="p-2">Campos</th>
+            </tr>
+          </thead>
+          <tbody>
+            {registros.length === 0 ? (
+              <tr>
+                <td className="p-3 text-slate-600" colSpan={6}>
+                  {loading ? "Carregando…" : "Nenhum registro no período."}
+                </td>
+              </tr>
+            ) : (
+              registros.map((r) => {
+                const diff = diffAuditoria(r.antes, r.depois);
+                const reg = r.depois ?? r.antes;
+                // tabelas das unidades, doações e estoque usam "nome"
+                const nome = reg?.name ?? reg?.title ?? reg?.nome ?? r.registro_id ?? "-";
+                return (
+                  <Fragment key={r.id}>
+                    <tr
+                      className="border-t cursor-pointer hover:bg-slate-50"
+                      onClick={() => setAberto(aberto === r.id ? null : r.id)}
+                    >
+                      <td className="p-2 whitespace-nowrap">{new Date(r.created_at).toLocaleString("pt-BR")}</td>
+                      <td className="p-2">{r.actor_email ?? "sistema"}</td>
+                      <td className="p-2">
+                        <Badge>{AUDITORIA_ACAO_LABEL[r.acao] ?? r.acao}</Badge>
+                      </td>
+                      <td className="p-2">{AUDITORIA_TABELAS[r.tabela] ?? r.tabela}</td>
+                      <td className="p-2 font-medium">{String(nome)}</td>
+                      <td className="p-2 text-slate-600">{diff.map((d) => d.campo).join(", ") || "—"}</td>
+                    </tr>
+                    {aberto === r.id ? (
+                      <tr className="bg-slate-50">
+                        <td className="p-2" colSpan={6}>
+                          <table className="w-full text-xs">
+                            <thead>
+                              <tr className="text-left text-slate-500">
+                                <th className="p-1">Campo</th>
+                                <th className="p-1">Antes</th>
+                                <th className="p-1">Depois</th>
+                              </tr>
+                            </thead>
+                            <tbody>
+                              {diff.map((d) => (
+                                <tr key={d.campo} className="border-t border-slate-200">
+                                  <td className="p-1 font-medium">{d.campo}</td>
+                                  <td className="p-1 text-red-700 break-all">{auditoriaValor(d.antes)}</td>
+                                  <td className="p-1 text-emerald-700 break-all">{auditoriaValor(d.depois)}</td>
+                                </tr>
+                              ))}
+                            </tbody>
+                          </table>
+                        </td>
+                      </tr>
+                    ) : null}
+                  </Fragment>
+                );
+              })
+            )}
+          </tbody>
+        </table>
+      </div>
+      {registros.length >= 500 ? (
+        <div className="mt-2 text-xs text-slate-500">Mostrando os 500 mais recentes — refine o filtro para ver o restante.</div>
+      ) : null}
+    </Card>
+  );
+}
+
+function DuplicadosAdmin({
+  beneficiarios,
+  onOpen,
+  onReload,
+}: {
+  beneficiarios: Beneficiario[];
+  onOpen: (id: string) => void;
+  onReload: () => Promise<void>;
+}) {
+  const [busy, setBusy] = useState(false);
+  const [err, setErr] = useState<string | null>(null);
+  const [ok, setOk] = useState<string | null>(null);
+
+  const pares = useMemo(() => paresDuplicados(beneficiarios), [beneficiarios]);
+
+  // Mantém "manter", arquiva "remover"; o banco junta históricos e presenças numa única transação
+  const merge = async (manter: Beneficiario, remover: Beneficiario) => {
+    setErr(null);
+    setOk(null);
+    if (!supabase) return;
+    if (
+      !confirm(
+        `Mesclar "${remover.name}" em "${manter.name}"?\n\nO histórico de entregas será combinado e "${remover.name}" será arquivado.`
+      )
+    )
+      return;
+
+    setBusy(true);
+    const { error } = await supabase.rpc("mesclar_beneficiarios", {
+      p_manter: manter.id,
+      p_remover: remover.id,
+    });
+    setBusy(false);
+
+    if (error) {
+      setErr(
+        error.code === "PGRST202"
+          ? "Função mesclar_beneficiarios não existe no banco. Rode o supabase_schema.sql atualizado."
+          : error.message
+      );
+      return;
+    }
+    setOk(`"${remover.name}" mesclado em "${manter.name}".`);
+    await onReload();
+  };
+
+  const Pessoa = ({ b }: { b: Beneficiario }) => (
+    <div>
+      <button className="font-semibold text-slate-900 hover:underline text-left" onClick={() => onOpen(b.id)}>
+        {b.name}
+      </button>
+      <div className="text-xs text-slate-600">
+        {b.phone || "sem telefone"} • {b.address || "sem endereço"} • família {b.familySize} • {b.history.length} entregas
+      </div>
+    </div>
+  );
+
+  return (
+    <Card title="Possíveis duplicados" right={<Badge>{pares.length} pares</Badge>}>
+      <div className="text-sm text-slate-600 mb-3">
+        Comparação por nome parecido, mesmo telefone e mesmo endereço. Ao mesclar, o cadastro escolhido fica e o outro é
+        arquivado com o histórico transferido.
+      </div>
+
+      {err && (
+        <div className="mb-3 rounded-lg border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-800">{err}</div>
+      )}
+      {ok && (
+        <div className="mb-3 rounded-lg border border-emerald-200 bg-emerald-50 px-3 py-2 text-sm text-emerald-800">
+          {ok}
+        </div>
+      )}
+
+      {pares.length === 0 ? (
+        <div className="text-slate-600">Nenhum duplicado provável.</div>
+      ) : (
+        <div className="space-y-2">
+          {pares.map(({ a, b, motivos }) => (
+            <div key={`${a.id}-${b.id}`} className="rounded-xl border border-slate-200 p-3">
+              <div className="flex flex-wrap gap-1 mb-2">
+                {motivos.map((m) => (
+                  <Badge key={m}>{m}</Badge>
+                ))}
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                <div className="space-y-2">
+                  <Pessoa b={a} />
+                  <button
+                    onClick={() => merge(a, b)}
+                    disabled={busy}
+                    className="rounded-lg border border-slate-200 bg-white px-3 py-1.5 text-sm hover:bg-slate-50 disabled:opacity-60"
+                  >
+                    Manter este
+                  </button>
+                </div>
+                <div className="space-y-2">
+                  <Pessoa b={b} />
+                  <button
+                    onClick={() => merge(b, a)}
+                    disabled={busy}
+                    className="rounded-lg border border-slate-200 bg-white px-3 py-1.5 text-sm hover:bg-slate-50 disabled:opacity-60"
+                  >
+                    Manter este
+                  </button>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </Card>
+  );
+}
+
+function ImportarBeneficiarios({
+  beneficiarios,
+  unidadeAtiva,
+  onClose,
+  onReload,
+}: {
+  beneficiarios: Beneficiario[];
+  unidadeAtiva: string | null;
+  onClose: () => void;
+  onReload: () => Promise<void>;
+}) {
+  const [linhas, setLinhas] = useState<ImportLinha[]>([]);
+  const [marcadas, setMarcadas] = useState<Set<number>>(new Set());
+  const [busy, setBusy] = useState(false);
+  const [err, setErr] = useState<string | null>(null);
+
+  const suspeitas = linhas.filter((l) => l.duplicados.length > 0 || l.repeteLinha != null).length;
+
+  const lerArquivo = async (f: File) => {
+    setErr(null);
+    try {
+      const prep = prepararImportacao(await f.text(), beneficiarios);
+      setLinhas(prep);
+      // prováveis duplicados começam desmarcados: quem importa decide um a um
+      setMarcadas(new Set(prep.filter((l) => l.duplicados.length === 0 && l.repeteLinha == null).map((l) => l.linha)));
+    } catch (ex: any) {
+      setLinhas([]);
+      setErr(ex?.message ?? String(ex));
+    }
+  };
+
+  const alternar = (linha: number) =>
+    setMarcadas((prev) => {
+      const next = new Set(prev);
+      if (next.has(linha)) next.delete(linha);
+      else next.add(linha);
+      return next;
+    });
+
+  const importar = async () => {
+    if (!supabase) return;
+    const escolhidas = linhas.filter((l) => marcadas.has(l.linha));
+    if (escolhidas.length === 0) {
+      setErr("Nenhuma linha marcada para importar.");
+      return;
+    }
+    setErr(null);
+    setBusy(true);
+    const { error } = await supabase.from("beneficiarios").insert(
+      escolhidas.map((l) => ({
+        id: genTextId(),
+        name: l.name,
+        familySize: l.familySize,
+        address: l.address,
+        phone: l.phone,
+        lastBasketDate: null,
+        notes: l.notes,
+        history: [],
+        status: "ativo",
+        ...(unidadeAtiva ? { unidade_id: unidadeAtiva } : {}),
+      }))
+    );
+    setBusy(false);
+    if (error) {
+      setErr(error.message);
+      return;
+    }
+    await onReload();
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/40 flex items-center justify-center p-4 z-50">
+      <div className="w-full max-w-4xl bg-white rounded-2xl border border-slate-200 shadow-lg">
+        <div className="px-4 py-3 border-b border-slate-200 flex items-center justify-between">
+          <div className="font-bold text-slate-900">Importar beneficiários (CSV)</div>
+          <button className="text-slate-600 hover:text-slate-900 px-2 py-1" onClick={onClose}>
+            Fechar
+          </button>
+        </div>
+
+        <div className="p-4 space-y-3">
+          <div className="text-sm text-slate-600">
+            Colunas: <b>Nome</b> (obrigatória), Família, Telefone, Endereço, Observações. Cada linha é comparada com os
+            cadastros existentes e com as linhas anteriores do arquivo; prováveis duplicados ficam desmarcados.
+          </div>
+          <input
+            type="file"
+            accept=".csv,text/csv"
+            onChange={(e) => {
+              const f = e.target.files?.[0];
+              if (f) lerArquivo(f);
+            }}
+          />
+
+          {err && <div className="rounded-lg border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-800">{err}</div>}
+
+          {linhas.length > 0 && (
+            <>
+              <div className="flex flex-wrap gap-2 text-sm">
+                <Badge>{linhas.length} linhas</Badge>
+                <Badge>{suspeitas} possíveis duplicados</Badge>
+                <Badge>{marcadas.size} marcadas</Badge>
+              </div>
+              <div className="max-h-[50vh] overflow-auto border border-slate-200 rounded-xl">
+                <table className="min-w-[700px] w-full text-sm">
+                  <thead className="bg-slate-100">
+                    <tr className="text-left">
+                      <th className="p-2"></th>
+                      <th className="p-2">Linha</th>
+                      <th className="p-2">Nome</th>
+                      <th className="p-2">Família</th>
+                      <th className="p-2">Telefone</th>
+                      <th className="p-2">Endereço</th>
+                      <th className="p-2">Possível duplicado</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {linhas.map((l) => (
+                      <tr
+                        key={l.linha}
+                        className={cn("border-t", l.duplicados.length > 0 || l.repeteLinha != null ? "bg-amber-50" : "")}
+                      >
+                        <td className="p-2">
+                          <input type="checkbox" checked={marcadas.has(l.linha)} onChange={() => alternar(l.linha)} />
+                        </td>
+                        <td className="p-2">{l.linha}</td>
+                        <td className="p-2 font-medium text-slate-900">{l.name}</td>
+                        <td className="p-2">{l.familySize}</td>
+                        <td className="p-2">{l.phone}</td>
+                        <td className="p-2">{l.address}</td>
+                        <td className="p-2 text-amber-900">
+                          {l.duplicados.slice(0, 3).map((m) => (
+                            <div key={m.beneficiario.id}>
+                              {m.beneficiario.name} ({m.motivos.join(", ")})
+                            </div>
+                          ))}
+                          {l.repeteLinha != null ? <div>repete a linha {l.repeteLinha}</div> : null}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              <div className="flex justify-end">
+                <button
+                  onClick={importar}
+                  disabled={busy || marcadas.size === 0}
+                  className="inline-flex items-center gap-2 rounded-lg bg-slate-900 text-white font-semibold px-3 py-2 disabled:opacity-60"
+                >
+                  {busy ? <Loader2 className="animate-spin" size={16} /> : <Upload size={16} />}
+                  Importar {marcadas.size}
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function LocaisTransferencias({
+  canEdit,
+  estoque,
+  unidades,
+  unidadeAtiva,
+  onReload,
+}: {
+  canEdit: boolean;
+  estoque: EstoqueItem[];
+  unidades: Unidade[];
+  unidadeAtiva: string;
+  onReload: () => Promise<void>;
+}) {
+  const [locais, setLocais] = useState<LocalEstoque[]>([]);
+  const [saldos, setSaldos] = useState<EstoqueSaldo[]>([]);
+  const [transferencias, setTransferencias] = useState<Transferencia[]>([]);
+  const [busy, setBusy] = useState(false);
+  const [err, setErr] = useState<string | null>(null);
+  const [ok, setOk] = useState<string | null>(null);
+  const [novoLocal, setNovoLocal] = useState("");
+  const [form, setForm] = useState({ estoqueId: "", origem: "", destino: "", quantidade: 1, motivo: "" });
+
+  const load = async () => {
+    try {
+      const [ls, ss, ts] = await Promise.all([
+        fetchLocais(),
+        fetchSaldos(estoque.map((i) => i.id)),
+        fetchTransferencias(),
+      ]);
+      setLocais(ls);
+      setSaldos(ss);
+      setTransferencias(ts);
+    } catch (e: any) {
+      setErr(e?.message ?? String(e));
+    }
+  };
+
+  useEffect(() => {
+    load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [estoque]);
+
+  const nomeUnidade = (id: string | null) => unidades.find((u) => u.id === id)?.nome ?? id ?? "";
+  const nomeLocal = (id: string | null) => {
+    if (!id) return "Sem local";
+    const l = locais.find((x) => x.id === id);
+    if (!l) return id;
+    return l.unidade_id && l.unidade_id !== unidadeAtiva && unidades.length > 1
+      ? `${l.nome} (${nomeUnidade(l.unidade_id)})`
+      : l.nome;
+  };
+
+  // locais da unidade ativa (na visão consolidada, todos)
+  const meusLocais = locais.filter((l) => !unidadeAtiva || l.unidade_id === unidadeAtiva);
+  const meusLocaisIds = new Set(meusLocais.map((l) => l.id));
+  const itemSel = estoque.find((i) => i.id === form.estoqueId) ?? null;
+
+  const pendentesRecebimento = transferencias.filter((t) => t.status === "pendente" && meusLocaisIds.has(t.destino_local));
+  const pendentesEnvio = transferencias.filter(
+    (t) => t.status === "pendente" && !meusLocaisIds.has(t.destino_local) && estoque.some((i) => i.id === t.estoque_id)
+  );
+
+  const run = async (fn: () => Promise<void>, msg: string) => {
+    setErr(null);
+    setOk(null);
+    setBusy(true);
+    try {
+      await fn();
+      setOk(msg);
+      await onReload();
+    } catch (e: any) {
+      setErr(e?.message ?? String(e));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const criarLocal = async (e: FormEvent) => {
+    e.preventDefault();
+    const nome = novoLocal.trim();
+    if (!supabase || !nome) return;
+    await run(async () => {
+      const { error } = await supabase!
+        .from("locais_estoque")
+        .insert({ id: genTextId(), nome, unidade_id: unidadeAtiva || null });
+      if (error) throw new Error(error.message);
+      setNovoLocal("");
+    }, `Local "${nome}" criado.`);
+  };
+
+  const enviar = async (e: FormEvent) => {
+    e.preventDefault();
+    setErr(null);
+    setOk(null);
+    if (!itemSel) {
+      setErr("Escolha o item.");
+      return;
+    }
+    const origem = form.origem || null;
+    const qtd = Number(form.quantidade || 0);
+    const erro = validarTransferencia(itemSel, saldos, origem, form.destino, qtd);
+    if (erro) {
+      setErr(erro);
+      return;
+    }
+
+    await run(async () => {
+      await rpcTransferencia("transferir_estoque", {
+        p_estoque_id: itemSel.id,
+        p_origem: origem,
+        p_destino: form.destino,
+        p_quantidade: qtd,
+        p_motivo: form.motivo.trim() || null,
+      });
+      setForm((p) => ({ ...p, quantidade: 1, motivo: "" }));
+    }, `${qtd} ${itemSel.unidade} de ${itemSel.nome ?? "item"} enviado para ${nomeLocal(form.destino)}. Aguardando recebimento.`);
+  };
+
+  return (
+    <Card title="Locais e transferências" right={<Badge>{pendentesRecebimento.length} a receber</Badge>}>
+      {err && (
+        <div className="mb-3 rounded-lg border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-800">{err}</div>
+      )}
+      {ok && (
+        <div className="mb-3 rounded-lg border border-emerald-200 bg-emerald-50 px-3 py-2 text-sm text-emerald-800">
+          {ok}
+        </div>
+      )}
+
+      {pendentesRecebimento.length > 0 && (
+        <div className="mb-4 rounded-xl border border-amber-200 bg-amber-50 p-3">
+          <div className="font-semibold text-amber-900 mb-2">Chegando para esta unidade</div>
+          <div className="space-y-2">
+            {pendentesRecebimento.map((t) => (
+              <div key={t.id} className="flex flex-wrap items-center justify-between gap-2 text-sm">
+                <div>
+                  <b>
+                    {t.quantidade} {t.item_unidade}
+                  </b>{" "}
+                  de {t.item_nome} → {nomeLocal(t.destino_local)}
+                  <div className="text-xs text-slate-600">
+                    enviado por {t.enviado_por ?? "-"} em {new Date(t.created_at).toLocaleString("pt-BR")}
+                    {t.motivo ? ` • ${t.motivo}` : ""}
+                  </div>
+                </div>
+                <button
+                  disabled={!canEdit || busy}
+                  onClick={() => run(() => rpcTransferencia("receber_transferencia", { p_id: t.id }), "Recebimento confirmado.")}
+                  className="rounded-lg bg-slate-900 px-3 py-1.5 text-white font-semibold disabled:opacity-60"
+                >
+                  Confirmar recebimento
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        <div>
+          <div className="font-semibold text-slate-900 mb-2">Saldo por local</div>
+          <div className="overflow-auto border border-slate-200 rounded-xl">
+            <table className="w-full text-sm">
+              <thead className="bg-slate-100">
+                <tr className="text-left">
+                  <th className="p-2">Item</th>
+                  {meusLocais.map((l) => (
+                    <th key={l.id} className="p-2">
+                      {nomeLocal(l.id)}
+                    </th>
+                  ))}
+                  <th className="p-2">Sem local</th>
+                </tr>
+              </thead>
+              <tbody>
+                {estoque.length === 0 ? (
+                  <tr>
+                    <td className="p-3 text-slate-600" colSpan={meusLocais.length + 2}>
+                      Nenhum item.
+                    </td>
+                  </tr>
+                ) : (
+                  estoque.map((it) => {
+                    const resto = saldoSemLocal(it, saldos);
+                    return (
+                      <tr key={it.id} className="border-t">
+                        <td className="p-2 font-medium">{it.nome ?? "-"}</td>
+                        {meusLocais.map((l) => (
+                          <td key={l.id} className="p-2">
+                            {saldos.find((s) => s.estoque_id === it.id && s.local_id === l.id)?.quantidade ?? 0}
+                          </td>
+                        ))}
+                        <td className={cn("p-2", resto < 0 ? "text-red-700 font-semibold" : "text-slate-600")}>
+                          {resto}
+                        </td>
+                      </tr>
+                    );
+                  })
+                )}
+              </tbody>
+            </table>
+          </div>
+          <div className="mt-1 text-xs text-slate-500">
+            Entradas comuns vão para o saldo “sem local”. Saídas (cestas, perdas, ajustes) saem primeiro dele e, se não
+            bastar, do local com mais saldo.
+          </div>
+
+          {canEdit ? (
+            <form onSubmit={criarLocal} className="mt-3 flex items-end gap-2">
+              <div className="flex-1">
+                <label className="block text-sm font-medium text-slate-700">Novo local</label>
+                <input
+                  className="mt-1 w-full rounded-lg border border-slate-300 px-3 py-2"
+                  placeholder="Ex.: Depósito, Igreja Central"
+                  value={novoLocal}
+                  onChange={(e) => setNovoLocal(e.target.value)}
+                />
+              </div>
+              <button
+                disabled={busy || !novoLocal.trim()}
+                className="rounded-lg border border-slate-200 bg-white px-4 py-2 font-semibold hover:bg-slate-50 disabled:opacity-60"
+              >
+                Criar
+              </button>
+            </form>
+          ) : null}
+        </div>
+
+        <div>
+          <div className="font-semibold text-slate-900 mb-2">Nova transferência</div>
+          {!canEdit ? (
+            <div className="text-sm text-slate-600">Somente editores podem transferir.</div>
+          ) : (
+            <form onSubmit={enviar} className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              <div className="md:col-span-2">
+                <label className="block text-sm font-medium text-slate-700">Item</label>
+                <select
+                  className="mt-1 w-full rounded-lg border border-slate-300 px-3 py-2"
+                  value={form.estoqueId}
+                  onChange={(e) => setForm((p) => ({ ...p, estoqueId: e.target.value }))}
+                >
+                  <option value="">Selecione…</option>
+                  {estoque.map((it) => (
+                    <option key={it.id} value={it.id}>
+                      {it.nome ?? "-"} ({it.quantidade} {it.unidade})
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700">De</label>
+                <select
+                  className="mt-1 w-full rounded-lg border border-slate-300 px-3 py-2"
+                  value={form.origem}
+                  onChange={(e) => setForm((p) => ({ ...p, origem: e.target.value }))}
+                >
+                  <option value="">Sem local{itemSel ? ` (${Math.max(0, saldoSemLocal(itemSel, saldos))})` : ""}</option>
+                  {meusLocais.map((l) => (
+                    <option key={l.id} value={l.id}>
+                      {nomeLocal(l.id)}
+                      {itemSel
+                        ? ` (${saldos.find((s) => s.estoque_id === itemSel.id && s.local_id === l.id)?.quantidade ?? 0})`
+                        : ""}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700">Para</label>
+                <select
+                  className="mt-1 w-full rounded-lg border border-slate-300 px-3 py-2"
+                  value={form.destino}
+                  onChange={(e) => setForm((p) => ({ ...p, destino: e.target.value }))}
+                >
+                  <option value="">Selecione…</option>
+                  {locais.map((l) => (
+                    <option key={l.id} value={l.id}>
+                      {nomeLocal(l.id)}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700">Quantidade</label>
+                <input
+                  type="number"
+                  min={0}
+                  className="mt-1 w-full rounded-lg border border-slate-300 px-3 py-2"
+                  value={form.quantidade}
+                  onChange={(e) => setForm((p) => ({ ...p, quantidade: Number(e.target.value) }))}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700">Motivo (opcional)</label>
+                <input
+                  className="mt-1 w-full rounded-lg border border-slate-300 px-3 py-2"
+                  value={form.motivo}
+                  onChange={(e) => setForm((p) => ({ ...p, motivo: e.target.value }))}
+                />
+              </div>
+              <div className="md:col-span-2 flex justify-end">
+                <button
+                  disabled={busy}
+                  className="inline-flex items-center gap-2 rounded-lg bg-slate-900 px-4 py-2 font-semibold text-white disabled:opacity-60"
+                >
+                  <ArrowLeftRight size={16} /> Enviar
+                </button>
+              </div>
+            </form>
+          )}
+
+          {pendentesEnvio.length > 0 && (
+            <div className="mt-4">
+              <div className="text-sm font-semibold text-slate-700 mb-1">Enviadas, aguardando recebimento</div>
+              <div className="space-y-1">
+                {pendentesEnvio.map((t) => (
+                  <div key={t.id} className="flex items-center justify-between gap-2 text-sm">
+                    <div>
+                      {t.quantidade} {t.item_unidade} de {t.item_nome} → {nomeLocal(t.destino_local)}
+                    </div>
+                    <button
+                      disabled={!canEdit || busy}
+                      onClick={() => {
+                        if (!confirm("Cancelar a transferência e devolver a quantidade à origem?")) return;
+                        run(() => rpcTransferencia("cancelar_transferencia", { p_id: t.id }), "Transferência cancelada.");
+                      }}
+                      className="rounded-lg border border-red-200 px-2 py-1 text-xs text-red-700 hover:bg-red-50 disabled:opacity-60"
+                    >
+                      Cancelar
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {transferencias.some((t) => t.status !== "pendente") && (
+        <details className="mt-4">
+          <summary className="cursor-pointer text-sm font-semibold text-slate-700">Histórico de transferências</summary>
+          <div className="mt-2 overflow-auto border border-slate-200 rounded-xl">
+            <table className="w-full text-sm">
+              <thead className="bg-slate-100">
+                <tr className="text-left">
+                  <th className="p-2">Data</th>
+                  <th className="p-2">Item</th>
+                  <th className="p-2">De → Para</th>
+                  <th className="p-2">Qtd</th>
+                  <th className="p-2">Status</th>
+                  <th className="p-2">Recebido por</th>
+                </tr>
+              </thead>
+              <tbody>
+                {transferencias
+                  .filter((t) => t.status !== "pendente")
+                  .map((t) => (
+                    <tr key={t.id} className="border-t">
+                      <td className="p-2">{new Date(t.created_at).toLocaleString("pt-BR")}</td>
+                      <td className="p-2">{t.item_nome}</td>
+                      <td className="p-2">
+                        {nomeLocal(t.origem_local)} → {nomeLocal(t.destino_local)}
+                      </td>
+                      <td className="p-2">
+                        {t.quantidade} {t.item_unidade}
+                      </td>
+                      <td className="p-2">
+                        <Badge>{TRANSFERENCIA_STATUS_LABEL[t.status]}</Badge>
+                      </td>
+                      <td className="p-2">{t.recebido_por ?? "-"}</td>
+                    </tr>
+                  ))}
+              </tbody>
+            </table>
+          </div>
+        </details>
+      )}
+    </Card>
+  );
+}
+
+function ScannerCodigo({ onRead, onClose }: { onRead: (codigo: string) => void; onClose: () => void }) {
+  const videoRef = useRef<HTMLVideoElement | null>(null);
+  const [err, setErr] = useState<string | null>(null);
+  const [manual, setManual] = useState("");
+  const [modo, setModo] = useState<"nativo" | "js" | null>(null);
+
+  useEffect(() => {
+    let parar = false;
+    let stream: MediaStream | null = null;
+    let timer: number | undefined;
+    const canvas = document.createElement("canvas");
+
+    (async () => {
+      if (!navigator.mediaDevices?.getUserMedia) {
+        setErr("Este navegador não permite acessar a câmera. Digite o código abaixo.");
+        return;
+      }
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: "environment" }, audio: false });
+      } catch {
+        setErr("Não foi possível abrir a câmera (permissão negada?). Digite o código abaixo.");
+        return;
+      }
+      if (parar || !videoRef.current) return;
+      videoRef.current.srcObject = stream;
+      await videoRef.current.play().catch(() => undefined);
+
+      const Detector = (window as any).BarcodeDetector;
+      let detector: any = null;
+      if (Detector) {
+        try {
+          const formatos: string[] = await Detector.getSupportedFormats?.() ?? [];
+          if (formatos.includes("ean_13") || formatos.includes("ean_8")) {
+            detector = new Detector({ formats: ["ean_13", "ean_8"] });
+          }
+        } catch {
+          detector = null;
+        }
+      }
+      setModo(detector ? "nativo" : "js");
+
+      const tick = async () => {
+        const video = videoRef.current;
+        if (parar || !video || video.readyState < 2) {
+          if (!parar) timer = window.setTimeout(tick, 250);
+          return;
+        }
+
+        let codigo: string | null = null;
+        if (detector) {
+          const achados = await detector.detect(video).catch(() => []);
+          codigo = achados.map((b: any) => String(b.rawValue)).find(eanValido) ?? null;
+        } else {
+          // reduz para ~640px de largura: suficiente para EAN e leve no celular
+          const escala = Math.min(1, 640 / video.videoWidth);
+          canvas.width = Math.round(video.videoWidth * escala);
+          canvas.height = Math.round(video.videoHeight * escala);
+          const ctx = canvas.getContext("2d", { willReadFrequently: true });
+          if (ctx) {
+            ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+            codigo = lerEANDaImagem(ctx.getImageData(0, 0, canvas.width, canvas.height));
+          }
+        }
+
+        if (codigo && !parar) {
+          navigator.vibrate?.(80);
+          onRead(codigo);
+          return;
+        }
+        if (!parar) timer = window.setTimeout(tick, 250);
+      };
+      tick();
+    })();
+
+    return () => {
+      parar = true;
+      if (timer) window.clearTimeout(timer);
+      stream?.getTracks().forEach((t) => t.stop());
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const enviarManual = (e: FormEvent) => {
+    e.preventDefault();
+    const codigo = manual.replace(/\D/g, "");
+    if (!codigo) return;
+    if (!eanValido(codigo) && !confirm(`"${codigo}" não parece um EAN válido. Usar mesmo assim?`)) return;
+    onRead(codigo);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/40 flex items-center justify-center p-4 z-50">
+      <div className="w-full max-w-lg bg-white rounded-2xl border border-slate-200 shadow-lg">
+        <div className="px-4 py-3 border-b border-slate-200 flex items-center justify-between">
+          <div className="font-bold text-slate-900">Escanear código de barras</div>
+          <button className="text-slate-600 hover:text-slate-900 px-2 py-1" onClick={onClose}>
+            Fechar
+          </button>
+        </div>
+
+        <div className="p-4 space-y-3">
+          {err ? (
+            <div className="rounded-lg border border-amber-200 bg-amber-50 px-3 py-2 text-sm text-amber-900">{err}</div>
+          ) : (
+            <div className="relative overflow-hidden rounded-xl bg-black">
+              <video ref={videoRef} className="w-full" muted playsInline />
+              <div className="pointer-events-none absolute inset-x-6 top-1/2 h-0.5 -translate-y-1/2 bg-red-500/80" />
+            </div>
+          )}
+          {modo ? (
+            <div className="text-xs text-slate-500">
+              Aponte a câmera para o código (EAN-13 / EAN-8). Leitor: {modo === "nativo" ? "do navegador" : "JavaScript"}.
+            </div>
+          ) : null}
+
+          <form onSubmit={enviarManual} className="flex items-end gap-2">
+            <div className="flex-1">
+              <label className="block text-sm font-medium text-slate-700">Ou digite / use leitor USB</label>
+              <input
+                inputMode="numeric"
+                className="mt-1 w-full rounded-lg border border-slate-300 px-3 py-2"
+                value={manual}
+                onChange={(e) => setManual(e.target.value)}
+                autoFocus={!!err}
+              />
+            </div>
+            <button className="rounded-lg bg-slate-900 px-4 py-2 font-semibold text-white">OK</button>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function MovimentosPanel({ item, onClose }: { item: EstoqueItem; onClose: () => void }) {
+  const [movs, setMovs] = useState<EstoqueMovimento[]>([]);
+  const [lotes, setLotes] = useState<EstoqueLote[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [err, setErr] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setErr(null);
+    Promise.all([fetchMovimentos(item.id), fetchLotes(item.id).catch(() => [] as EstoqueLote[])])
+      .then(([m, l]) => {
+        if (cancelled) return;
+        setMovs(m);
+        setLotes(l);
+      })
+      .catch((e) => {
+        if (!cancelled) setErr(e?.message ?? String(e));
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [item.id]);
+
+  const saldoLivro = saldoPorMovimentos(movs);
+  const diverge = !loading && !err && saldoLivro !== Number(item.quantidade ?? 0);
+
+  return (
+    <div className="fixed inset-0 bg-black/40 flex items-center justify-center p-4 z-50">
+      <div className="w-full max-w-3xl bg-white rounded-2xl border border-slate-200 shadow-lg">
+        <div className="px-4 py-3 border-b border-slate-200 flex items-center justify-between">
+          <div className="font-bold text-slate-900">Histórico: {item.nome ?? "-"}</div>
+          <button className="text-slate-600 hover:text-slate-900 px-2 py-1" onClick={onClose}>
+            Fechar
+          </button>
+        </div>
+
+        <div className="p-4">
+          <div className="flex flex-wrap gap-2 text-sm">
+            <Badge>
+              Saldo atual: {item.quantidade} {item.unidade}
+            </Badge>
+            <Badge>Saldo pelo histórico: {loading ? "…" : saldoLivro}</Badge>
+          </div>
+
+          {diverge ? (
+            <div className="mt-3 rounded-lg border border-amber-200 bg-amber-50 px-3 py-2 text-sm text-amber-900">
+              O saldo atual difere da soma das movimentações (itens cadastrados antes do histórico não têm entrada
+              inicial registrada).
+            </div>
+          ) : null}
+
+          {err ? (
+            <div className="mt-3 rounded-lg border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-800">{err}</div>
+          ) : null}
+
+          {lotes.length > 0 ? (
+            <div className="mt-3">
+              <div className="text-sm font-semibold text-slate-700">Lotes (ordem de saída)</div>
+              <div className="mt-1 flex flex-wrap gap-2">
+                {lotes.map((l) => {
+                  const dias = l.validade
+                    ? Math.round((parseLocalDate(l.validade).getTime() - parseLocalDate(todayISO()).getTime()) / 86400000)
+                    : null;
+                  return (
+                    <span
+                      key={l.id}
+                      className={cn(
+                        "rounded-lg border px-2 py-1 text-xs",
+                        dias != null && dias <= 7 ? "border-red-200 bg-red-50 text-red-800" : "border-slate-200 bg-slate-50"
+                      )}
+                    >
+                      <b>
+                        {l.quantidade} {item.unidade}
+                      </b>{" "}
+                      • {l.validade ? `vence ${fmtDateBR(l.validade)}` : "sem validade"} • entrou {fmtDateBR(l.data_entrada)}
+                    </span>
+                  );
+                })}
+              </div>
+            </div>
+          ) : null}
+
+          <div className="mt-3 max-h-[60vh] overflow-auto border border-slate-200 rounded-xl">
+            <table className="w-full text-sm">
+              <thead className="bg-slate-100">
+                <tr className="text-left">
+                  <th className="p-2">Data</th>
+                  <th className="p-2">Tipo</th>
+                  <th className="p-2">Qtd</th>
+                  <th className="p-2">Saldo</th>
+                  <th className="p-2">Motivo</th>
+                  <th className="p-2">Usuário</th>
+                </tr>
+              </thead>
+              <tbody>
+                {loading ? (
+                  <tr>
+                    <td className="p-3 text-slate-600" colSpan={6}>
+                      Carregando…
+                    </td>
+                  </tr>
+                ) : movs.length === 0 ? (
+                  <tr>
+                    <td className="p-3 text-slate-600" colSpan={6}>
+                      Nenhuma movimentação registrada.
+                    </td>
+                  </tr>
+                ) : (
+                  [...movs].reverse().map((m) => (
+                    <tr key={m.id} className="border-t">
+                      <td className="p-2">{new Date(m.created_at).toLocaleString("pt-BR")}</td>
+                      <td className="p-2">{MOVIMENTO_LABEL[m.tipo] ?? m.tipo}</td>
+                      <td className={cn("p-2 font-medium", m.delta < 0 ? "text-red-700" : "text-emerald-700")}>
+                        {m.delta > 0 ? `+${m.delta}` : m.delta}
+                      </td>
+                      <td className="p-2">{m.saldo_apos}</td>
+                      <td className="p-2">{m.motivo ?? "-"}</td>
+                      <td className="p-2">{m.user_email ?? "-"}</td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+type MontagemResultado = {
+  montagem_id: string | null;
+  assembled_baskets: number;
+  saldos: Array<{ estoque_id: string; quantidade: number }>;
+};
+
+/**
+ * Pré-validação no front das checagens de public.registrar_montagem_cesta
+ * (supabase_schema.sql); lança com a mesma mensagem do banco.
+ * `items` são os TOTAIS a baixar (já somados por família); `qtd` é o nº de cestas.
+ * Linhas repetidas do mesmo item são somadas antes de conferir o saldo.
+ */
+function validarMontagemLocal(inventory: EstoqueItem[], items: BasketConfigItem[], qtd: number): void {
+  if (!Number.isFinite(qtd) || qtd < 1) throw new Error("Quantidade de cestas inválida.");
+  if (items.length === 0) throw new Error("Configure pelo menos 1 item na cesta antes de registrar.");
+
+  const byId = new Map(inventory.map((it) => [it.id, it] as const));
+  const totais = somarItens([items]);
+  const falta: string[] = [];
+  for (const it of totais) {
+    const inv = byId.get(it.estoque_id);
+    const need = Number(it.quantidade ?? 0);
+    if (!inv) falta.push(`${it.nome} (item não encontrado)`);
+    else if (Number(inv.quantidade ?? 0) < need) falta.push(`${it.nome} (precisa ${need}, tem ${Number(inv.quantidade ?? 0)})`);
+  }
+  if (falta.length > 0) throw new Error("Estoque insuficiente para: " + falta.join(", "));
+}
+
+type CapacidadeItem = {
+  item: BasketConfigItem;
+  estoque: number;
+  unidadeEstoque: string;
+  porCesta: number; // na unidade do estoque; 0 = sem conversão possível
+  cestas: number; // cestas completas que este item sozinho permite
+};
+
+type Capacidade = {
+  max: number;
+  gargalo: CapacidadeItem | null;
+  itens: CapacidadeItem[];
+};
+
+/**
+ * Quantas cestas completas (quantidade base, sem acréscimo por família) o estoque
+ * atual permite, e qual item limita. Itens com quantidade 0 no modelo não limitam.
+ */
+function capacidadeCesta(items: BasketConfigItem[], invById: Map<string, EstoqueItem>): Capacidade {
+  const itens = items
+    .filter((it) => Number(it.quantidade ?? 0) > 0)
+    .map((it) => {
+      const inv = invById.get(it.estoque_id);
+      const fator = inv ? fatorConversao(inv, it.unidade) : null;
+      const estoque = Number(inv?.quantidade ?? 0);
+      const porCesta = fator == null ? 0 : arredondarQtd(Number(it.quantidade) * fator);
+      return {
+        item: it,
+        estoque,
+        unidadeEstoque: inv?.unidade ?? it.unidade,
+        porCesta,
+        cestas: porCesta > 0 ? Math.floor(arredondarQtd(estoque / porCesta)) : 0,
+      };
+    })
+    .sort((a, b) => a.cestas - b.cestas);
+  return { max: itens.length ? itens[0].cestas : 0, gargalo: itens[0] ?? null, itens };
+}
+
+/** Quanto falta de cada item para montar `meta` cestas base. */
+function faltaParaMeta(cap: Capacidade, meta: number) {
+  return cap.itens
+    .map((c) => ({ ...c, necessario: arredondarQtd(c.porCesta * meta) }))
+    .map((c) => ({ ...c, falta: Math.max(0, c.necessario - c.estoque) }))
+    .filter((c) => c.falta > 0);
+}
+
+// Baixa atômica no banco: recalcula os totais a partir do modelo salvo e do
+// tamanho de cada família, valida, decrementa todos os itens, soma o contador,
+// grava a montagem e o histórico dos beneficiários — ou falha inteira.
+type MontagemArgs = {
+  modeloId: string;
+  eventoId?: string | null;
+  qtd: number;
+  entregas: Array<{ beneficiario_id: string; entrega: EntregaRegistro }>;
+  data: string; // YYYY-MM-DD do dia da entrega; vai junto na fila offline
+};
+
+function montagemRpcArgs(args: MontagemArgs) {
+  return {
+    p_modelo_id: args.modeloId,
+    p_qtd: args.qtd,
+    p_entregas: args.entregas,
+    p_evento_id: args.eventoId ?? null,
+    p_data: args.data,
+  };
+}
+
+async function registrarMontagemCesta(args: MontagemArgs): Promise<MontagemResultado> {
+  if (!supabase) throw new Error("Supabase não configurado.");
+
+  const { data, error } = await supabase.rpc("registrar_montagem_cesta", montagemRpcArgs(args));
+
+  if (error) {
+    // PGRST202 = função não encontrada (SQL ainda não aplicado)
+    if (error.code === "PGRST202") {
+      throw new Error("Função registrar_montagem_cesta não existe no banco. Rode o supabase_schema.sql atualizado.");
+    }
+    throw new Error(error.message);
+  }
+
+  const r = (data ?? {}) as any;
+  return {
+    montagem_id: r.montagem_id == null ? null : String(r.montagem_id),
+    assembled_baskets: Number(r.assembled_baskets ?? 0),
+    saldos: Array.isArray(r.saldos)
+      ? r.saldos.map((x: any) => ({ estoque_id: String(x.estoque_id), quantidade: Number(x.quantidade ?? 0) }))
+      : [],
+  };
+}
+
+function CestasManager({
+  canEdit: podeEditar,
+  isAdmin,
+  unidadeAtiva,
+  inventory,
+  beneficiarios,
+  operatorEmail,
+  templates,
+  regras,
+  assembledBaskets,
+  setAssembledBaskets,
+  onReload,
+}:
+{
+  canEdit: boolean;
+  isAdmin: boolean;
+  unidadeAtiva: string;
+  inventory: EstoqueItem[];
+  beneficiarios: Beneficiario[];
+  operatorEmail: string | null;
+  templates: BasketTemplate[];
+  regras: RegrasElegibilidade;
+  assembledBaskets: number;
+  setAssembledBaskets: (v: number) => void;
+  onReload: () => Promise<void>;
+}) {
+  const [busy, setBusy] = useState(false);
+  const [err, setErr] = useState<string | null>(null);
+  const [ok, setOk] = useState<string | null>(null);
+
+  // Modelo em edição (rascunho local até "Salvar modelo")
+  const [selectedTemplateId, setSelectedTemplateId] = useState<string>("");
+  const [basketConfig, setBasketConfig] = useState<BasketTemplate>(() => newTemplate());
+  const isSaved = templates.some((t) => t.id === basketConfig.id);
+  // Sem a tabela cestas_modelos nada pode ser salvo nem registrado
+  const legado = !!basketConfig.legado;
+  const canEdit = podeEditar && !legado;
+
+  // Recarregar os modelos não descarta o rascunho: só troca quando o selecionado some (ou no início)
+  useEffect(() => {
+    if (templates.some((x) => x.id === selectedTemplateId)) return;
+    const t = templates[0];
+    if (t) {
+      setSelectedTemplateId(t.id);
+      setBasketConfig(t);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [templates]);
+
+  const selectTemplate = (id: string) => {
+    const t = templates.find((x) => x.id === id);
+    if (!t) return;
+    setErr(null);
+    setOk(null);
+    setSelectedTemplateId(id);
+    setBasketConfig(t);
+  };
+
+  const [newItemId, setNewItemId] = useState<string>("");
+  const [newItemQtd, setNewItemQtd] = useState<number>(1);
+  const [qtdCestas, setQtdCestas] = useState<number>(1);
+  const [metaCestas, setMetaCestas] = useState<number>(50);
+
+  // Entrega para beneficiários (opcional): 1 cesta por beneficiário selecionado
+  const [selectedBenefIds, setSelectedBenefIds] = useState<string[]>([]);
+  const [benefFilter, setBenefFilter] = useState("");
+  const [entregaNote, setEntregaNote] = useState("");
+  const [overrideReason, setOverrideReason] = useState("");
+
+  const hoje = todayISO();
+  const inelegiveis = useMemo(
+    () =>
+      beneficiarios
+        .filter((b) => selectedBenefIds.includes(b.id))
+        .map((b) => ({ b, e: avaliarElegibilidade(b, regras, hoje) }))
+        .filter((x) => !x.e.elegivel),
+    [beneficiarios, selectedBenefIds, regras, hoje]
+  );
+
+  const benefFiltered = useMemo(() => {
+    const q = benefFilter.trim().toLowerCase();
+    const sorted = beneficiarios.filter((b) => !b.archived_at).sort((a, b) => a.name.localeCompare(b.name));
+    if (!q) return sorted;
+    return sorted.filter((b) => b.name.toLowerCase().includes(q) || String(b.phone ?? "").includes(q));
+  }, [beneficiarios, benefFilter]);
+
+  const toggleBenef = (id: string) => {
+    setSelectedBenefIds((prev) => (prev.includes(id) ? prev.filter((x) => x !== id) : [...prev, id]));
+  };
+
+  const inventorySorted = useMemo(() => {
+    return [...inventory].sort((a, b) =>
+      String(a.nome ?? "").localeCompare(String(b.nome ?? ""))
+    );
+  }, [inventory]);
+
+  const invById = useMemo(() => {
+    const m = new Map<string, EstoqueItem>();
+    for (const it of inventory) m.set(it.id, it);
+    return m;
+  }, [inventory]);
+
+  // Capacidade de todos os modelos; o selecionado usa o rascunho em edição
+  const capacidades = useMemo(() => {
+    const lista = isSaved ? templates : [...templates, basketConfig];
+    return lista.map((t) => ({
+      t: t.id === basketConfig.id ? basketConfig : t,
+      cap: capacidadeCesta(t.id === basketConfig.id ? basketConfig.items : t.items, invById),
+    }));
+  }, [templates, basketConfig, isSaved, invById]);
+  const capAtual = capacidades.find((c) => c.t.id === basketConfig.id)?.cap ?? capacidadeCesta([], invById);
+  const faltas = faltaParaMeta(capAtual, Math.max(0, metaCestas));
+
+  const addItem = () => {
+    setErr(null);
+    setOk(null);
+    if (!newItemId) return;
+
+    const inv = invById.get(newItemId);
+    if (!inv) return;
+
+    const already = basketConfig.items.some((x) => x.estoque_id === newItemId);
+    if (already) {
+      setErr("Este item já está na configuração da cesta.");
+      return;
+    }
+
+    setBasketConfig({
+      ...basketConfig,
+      items: [
+        ...basketConfig.items,
+        {
+          estoque_id: inv.id,
+          nome: String(inv.nome ?? "Item"),
+          quantidade: Number(newItemQtd || 1),
+          unidade: normalizarUnidade(inv.unidade) ?? String(inv.unidade || "unidade"),
+        },
+      ],
+    });
+
+    setNewItemId("");
+    setNewItemQtd(1);
+  };
+
+  const updateItemQtd = (id: string, qtd: number) => {
+    setBasketConfig({
+      ...basketConfig,
+      items: basketConfig.items.map((it) =>
+        it.estoque_id === id ? { ...it, quantidade: Number(qtd) } : it
+      ),
+    });
+  };
+
+  const updateItemUnidade = (id: string, unidade: string) => {
+    setBasketConfig({
+      ...basketConfig,
+      items: basketConfig.items.map((it) => (it.estoque_id === id ? { ...it, unidade } : it)),
+    });
+  };
+
+  const updateItemExtra = (id: string, extra: number) => {
+    setBasketConfig({
+      ...basketConfig,
+      items: basketConfig.items.map((it) =>
+        it.estoque_id === id ? { ...it, extra_por_membro: Number(extra) } : it
+      ),
+    });
+  };
+
+  const numOrNull = (v: string) => (v === "" ? null : Math.max(1, Number(v)));
+
+  const removeItem = (id: string) => {
+    setBasketConfig({
+      ...basketConfig,
+      items: basketConfig.items.filter((it) => it.estoque_id !== id),
+    });
+  };
+
+  const saveConfig = async () => {
+    setErr(null);
+    setOk(null);
+    if (!supabase) return;
+
+    const name = basketConfig.name.trim();
+    if (!name) {
+      setErr("Informe o nome do modelo.");
+      return;
+    }
+    if (templates.some((t) => t.id !== basketConfig.id && t.name.trim().toLowerCase() === name.toLowerCase())) {
+      setErr("Já existe um modelo com este nome.");
+      return;
+    }
+    try {
+      paraUnidadeDoEstoque(basketConfig.items, invById);
+    } catch (e: any) {
+      setErr(e?.message ?? String(e));
+      return;
+    }
+
+    setBusy(true);
+    const { error } = await supabase
+      .from("cestas_modelos")
+      .upsert(
+        [
+          {
+            id: basketConfig.id,
+            name,
+            items: basketConfig.items,
+            base_familia: basketConfig.base_familia,
+            familia_min: basketConfig.familia_min,
+            familia_max: basketConfig.familia_max,
+            ...(unidadeAtiva ? { unidade_id: unidadeAtiva } : {}),
+          },
+        ],
+        { onConflict: "id" }
+      );
+    setBusy(false);
+
+    if (error) {
+      setErr(error.message);
+      return;
+    }
+    setSelectedTemplateId(basketConfig.id);
+    setOk("Modelo salvo.");
+    await onReload();
+  };
+
+  const startNewTemplate = () => {
+    setErr(null);
+    setOk(null);
+    setBasketConfig(newTemplate());
+  };
+
+  const duplicateTemplate = () => {
+    setErr(null);
+    setOk(null);
+    setBasketConfig({
+      ...basketConfig,
+      id: genTextId(),
+      assembled_count: 0,
+      name: `${basketConfig.name} (cópia)`,
+      items: basketConfig.items.map((it) => ({ ...it })),
+    });
+    setOk("Cópia criada. Ajuste e clique em Salvar modelo.");
+  };
+
+  const deleteTemplate = async () => {
+    setErr(null);
+    setOk(null);
+    if (!supabase) return;
+    if (!isSaved) {
+      startNewTemplate();
+      return;
+    }
+    if (!confirm(`Excluir o modelo "${basketConfig.name}"? O histórico de entregas não é afetado.`)) return;
+
+    setBusy(true);
+    const { error } = await supabase.from("cestas_modelos").delete().eq("id", basketConfig.id);
+    setBusy(false);
+
+    if (error) {
+      setErr(error.message);
+      return;
+    }
+    setSelectedTemplateId("");
+    setOk("Modelo excluído.");
+    await onReload();
+  };
+
+
+const resetCestas = async () => {
+  setErr(null);
+  setOk(null);
+  if (!supabase) return;
+  if (!isAdmin) {
+    setErr("Apenas admin pode zerar o contador de cestas.");
+    return;
+  }
+  if (!unidadeAtiva) {
+    setErr("Escolha uma unidade para zerar o contador dela.");
+    return;
+  }
+  if (!confirm("Zerar o contador de cestas montadas? Isso não afeta o estoque, apenas o número do relatório.")) return;
+
+  setBusy(true);
+  const { error } = await supabase
+    .from("configuracoes")
+    .upsert([{ key: contadorCestasKey(unidadeAtiva), value: 0, unidade_id: unidadeAtiva }], { onConflict: "key" });
+  setBusy(false);
+
+  if (error) {
+    setErr("Falha ao zerar contador: " + error.message);
+    return;
+  }
+
+  setAssembledBaskets(0);
+  setOk("Contador de cestas zerado.");
+  await onReload();
+};
+
+  const registerBasket = async () => {
+    setErr(null);
+    setOk(null);
+    if (!supabase) return;
+    if (!canEdit) {
+      setErr("Você está em modo somente leitura.");
+      return;
+    }
+
+    const targets = beneficiarios.filter((b) => selectedBenefIds.includes(b.id));
+    const n = targets.length > 0 ? targets.length : Math.max(1, Number(qtdCestas || 1));
+    if (basketConfig.items.length === 0) {
+      setErr("Configure pelo menos 1 item na cesta antes de registrar.");
+      return;
+    }
+    if (!isSaved) {
+      setErr("Salve o modelo antes de registrar cestas com ele.");
+      return;
+    }
 
-                      <div>
-                        <label className="block text-sm font-medium text-slate-700">Unidade</label>
-                        <input
-                          className="mt-1 w-full rounded-lg border border-slate-300 px-3 py-2"
-                          value={formItem.unidade}
-                          onChange={(e) => setFormItem((p: any) => ({ ...p, unidade: e.target.value }))}
-                        />
-                      </div>
+    // Regras de elegibilidade: só admin pode liberar, e com justificativa
+    const override = overrideReason.trim();
+    if (inelegiveis.length > 0) {
+      if (!isAdmin) {
+        setErr(
+          "Fora das regras de elegibilidade: " +
+            inelegiveis.map(({ b, e }) => `${b.name} (${e.motivos.join("; ")})`).join(", ") +
+            ". Peça a um admin para liberar."
+        );
+        return;
+      }
+      if (!override) {
+        setErr("Informe a justificativa para liberar a entrega fora das regras.");
+        return;
+      }
+    }
+    const inelegivelIds = new Set(inelegiveis.map((x) => x.b.id));
 
-                      <div>
-                        <label className="block text-sm font-medium text-slate-700">Validade (opcional)</label>
-                        <input
-                          type="date"
-                          className="mt-1 w-full rounded-lg border border-slate-300 px-3 py-2"
-                          value={formItem.validade}
-                          onChange={(e) => setFormItem((p: any) => ({ ...p, validade: e.target.value }))}
-                        />
-                      </div>
+    const foraDaFaixa = targets.filter((b) => !familiaNaFaixa(basketConfig, b.familySize));
+    if (foraDaFaixa.length > 0) {
+      setErr(
+        "Modelo não atende o tamanho da família de: " +
+          foraDaFaixa
+            .map((b) => {
+              const sug = modeloParaFamilia(templates, b.familySize);
+              return `${b.name} (${b.familySize} pessoas${sug ? `, use "${sug.name}"` : ""})`;
+            })
+            .join(", ")
+      );
+      return;
+    }
 
-                      <div>
-                        <label className="block text-sm font-medium text-slate-700">Mínimo p/ alerta</label>
-                        <input
-                          type="number"
-                          className="mt-1 w-full rounded-lg border border-slate-300 px-3 py-2"
-                          value={formItem.minimo_alerta}
-                          onChange={(e) => setFormItem((p: any) => ({ ...p, minimo_alerta: e.target.value }))}
-                        />
-                      </div>
+    // Quantidades por família (regras de escala do modelo); sem beneficiário = cesta base
+    const dia = todayISO();
+    const prep = prepararEntregas(basketConfig, targets, {
+      date: dia,
+      operatorEmail,
+      note: entregaNote.trim() ? entregaNote.trim() : null,
+      overrideReason: (b) => (inelegivelIds.has(b.id) ? override : null),
+    });
+    const entregas = prep.entregas;
+    let totais =
+      targets.length > 0
+        ? prep.totais
+        : basketConfig.items.map((it) => ({ ...it, quantidade: Number(it.quantidade ?? 0) * n }));
+
+    // Pré-validação local (mesma regra da função no banco) para feedback imediato.
+    // O banco baixa na unidade do estoque (ex.: 1 kg de um fardo de 10 kg = 0,1); aqui repete a conversão
+    try {
+      totais = paraUnidadeDoEstoque(totais, invById);
+      validarMontagemLocal(inventory, totais, n);
+    } catch (e: any) {
+      setErr(e?.message ?? String(e));
+      return;
+    }
 
-                      <div>
-                        <label className="block text-sm font-medium text-slate-700">Código de barras</label>
-                        <input
-                          className="mt-1 w-full rounded-lg border border-slate-300 px-3 py-2"
-                          value={formItem.codigo_barras}
-                          onChange={(e) => setFormItem((p: any) => ({ ...p, codigo_barras: e.target.value }))}
-                        />
-                      </div>
+    setBusy(true);
+    try {
+      const res = await registrarMontagemCesta({
+        modeloId: basketConfig.id,
+        qtd: n,
+        entregas,
+        data: dia,
+      });
+      setAssembledBaskets(res.assembled_baskets);
+    } catch (e: any) {
+      setErr(e?.message ?? String(e));
+      return;
+    } finally {
+      setBusy(false);
+    }
 
-                      <div>
-                        <label className="block text-sm font-medium text-slate-700">Status</label>
-                        <select
-                          className="mt-1 w-full rounded-lg border border-slate-300 px-3 py-2"
-                          value={formItem.status}
-                          onChange={(e) => setFormItem((p: any) => ({ ...p, status: e.target.value }))}
-                        >
-                          <option value="disponivel">Disponível</option>
-                          <option value="reservado">Reservado</option>
-                          <option value="indisponivel">Indisponível</option>
-                        </select>
-                      </div>
+    setSelectedBenefIds([]);
+    setEntregaNote("");
+    setOverrideReason("");
+    setOk(
+      targets.length > 0
+        ? `Entrega registrada para ${targets.length} beneficiário(s)! Baixa automática aplicada (${n}x).`
+        : `Cesta registrada! Baixa automática aplicada (${n}x).`
+    );
+    await onReload();
+  };
 
-                      <div className="md:col-span-2">
-                        <label className="block text-sm font-medium text-slate-700">Observações</label>
-                        <textarea
-                          className="mt-1 w-full rounded-lg border border-slate-300 px-3 py-2"
-                          rows={3}
-                          value={formItem.observacoes}
-                          onChange={(e) => setFormItem((p: any) => ({ ...p, observacoes: e.target.value }))}
-                        />
+  return (
+    <div className="space-y-4">
+      <Card title="Cestas Básicas"
+        right={
+          <div className="flex items-center gap-2">
+            <Badge>{assembledBaskets} cestas montadas</Badge>
+            {isAdmin ? (
+              <button
+                onClick={resetCestas}
+                disabled={busy}
+                className="inline-flex items-center gap-2 rounded-lg border border-slate-200 bg-white px-3 py-1.5 text-sm hover:bg-slate-50 disabled:opacity-60"
+                title="Zerar contador de cestas"
+              >
+                <Trash2 size={16} />
+                Zerar
+              </button>
+            ) : null}
+          </div>
+        }
+      >
+        <div className="text-slate-700">
+          Configure os modelos de cesta e, ao registrar uma cesta, o sistema dá baixa automática no estoque.
+        </div>
+
+        {legado ? (
+          <div className="mt-3 rounded-lg border border-amber-200 bg-amber-50 px-3 py-2 text-sm text-amber-900">
+            Este é o modelo antigo (basket_config), somente leitura. Rode o supabase_schema.sql atualizado para
+            editar modelos e registrar cestas.
+          </div>
+        ) : null}
+
+        {err && (
+          <div className="mt-3 rounded-lg border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-800">
+            {err}
+          </div>
+        )}
+        {ok && (
+          <div className="mt-3 rounded-lg border border-emerald-200 bg-emerald-50 px-3 py-2 text-sm text-emerald-800">
+            {ok}
+          </div>
+        )}
+
+        <div className="mt-4 grid grid-cols-1 gap-3 md:grid-cols-2">
+          <div>
+            <label className="block text-sm font-medium text-slate-700">Modelo</label>
+            <select
+              className="mt-1 w-full rounded-lg border border-slate-300 px-3 py-2"
+              value={isSaved ? basketConfig.id : ""}
+              onChange={(e) => selectTemplate(e.target.value)}
+              disabled={busy}
+            >
+              {!isSaved ? <option value="">(novo modelo — não salvo)</option> : null}
+              {templates.map((t) => (
+                <option key={t.id} value={t.id}>
+                  {t.name} — {t.assembled_count} montadas
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="flex flex-wrap items-end gap-2">
+            <button
+              onClick={startNewTemplate}
+              disabled={!canEdit || busy}
+              className="inline-flex items-center gap-2 rounded-lg border border-slate-200 bg-white px-3 py-2 font-semibold hover:bg-slate-50 disabled:opacity-60"
+            >
+              <Plus size={16} /> Novo
+            </button>
+            <button
+              onClick={duplicateTemplate}
+              disabled={!canEdit || busy}
+              className="inline-flex items-center gap-2 rounded-lg border border-slate-200 bg-white px-3 py-2 font-semibold hover:bg-slate-50 disabled:opacity-60"
+            >
+              <Copy size={16} /> Duplicar
+            </button>
+            <button
+              onClick={deleteTemplate}
+              disabled={!canEdit || busy}
+              className="inline-flex items-center gap-2 rounded-lg border border-red-200 bg-white px-3 py-2 font-semibold text-red-700 hover:bg-red-50 disabled:opacity-60"
+            >
+              <Trash2 size={16} /> Excluir
+            </button>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-slate-700">Nome da cesta</label>
+            <input
+              className="mt-1 w-full rounded-lg border border-slate-300 px-3 py-2"
+              value={basketConfig.name}
+              onChange={(e) => setBasketConfig({ ...basketConfig, name: e.target.value })}
+              disabled={!canEdit || busy}
+            />
+          </div>
+
+          <div className="flex items-end gap-2">
+            <button
+              onClick={saveConfig}
+              disabled={!canEdit || busy}
+              className="rounded-lg bg-slate-900 px-4 py-2 font-semibold text-white disabled:opacity-60"
+            >
+              {busy ? "Salvando..." : "Salvar modelo"}
+            </button>
+          </div>
+        </div>
+
+        <div className="mt-4 grid grid-cols-1 gap-3 md:grid-cols-3">
+          <div>
+            <label className="block text-sm font-medium text-slate-700">Família base (pessoas)</label>
+            <input
+              type="number"
+              min={1}
+              step={1}
+              className="mt-1 w-full rounded-lg border border-slate-300 px-3 py-2"
+              value={basketConfig.base_familia}
+              onChange={(e) => setBasketConfig({ ...basketConfig, base_familia: Math.max(1, Number(e.target.value)) })}
+              disabled={!canEdit || busy}
+            />
+            <div className="text-xs text-slate-500 mt-1">Acima disso, soma o “extra por membro” de cada item.</div>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-slate-700">Atende famílias de (mín.)</label>
+            <input
+              type="number"
+              min={1}
+              step={1}
+              className="mt-1 w-full rounded-lg border border-slate-300 px-3 py-2"
+              value={basketConfig.familia_min ?? ""}
+              onChange={(e) => setBasketConfig({ ...basketConfig, familia_min: numOrNull(e.target.value) })}
+              disabled={!canEdit || busy}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-slate-700">até (máx.)</label>
+            <input
+              type="number"
+              min={1}
+              step={1}
+              className="mt-1 w-full rounded-lg border border-slate-300 px-3 py-2"
+              value={basketConfig.familia_max ?? ""}
+              onChange={(e) => setBasketConfig({ ...basketConfig, familia_max: numOrNull(e.target.value) })}
+              disabled={!canEdit || busy}
+            />
+          </div>
+        </div>
+
+        <div className="mt-5 grid grid-cols-1 gap-3 md:grid-cols-[1fr_140px_120px]">
+          <div>
+            <label className="block text-sm font-medium text-slate-700">Adicionar item do estoque</label>
+            <select
+              className="mt-1 w-full rounded-lg border border-slate-300 px-3 py-2"
+              value={newItemId}
+              onChange={(e) => setNewItemId(e.target.value)}
+            >
+              <option value="">Selecione…</option>
+              {inventorySorted.map((i) => (
+                <option key={i.id} value={i.id}>
+                  {i.nome ?? "(sem nome)"} — {i.quantidade} {i.unidade}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-slate-700">Qtd / cesta</label>
+            <input
+              type="number"
+              min={0}
+              step={1}
+              className="mt-1 w-full rounded-lg border border-slate-300 px-3 py-2"
+              value={newItemQtd}
+              onChange={(e) => setNewItemQtd(Number(e.target.value))}
+            />
+          </div>
+
+          <div className="flex items-end">
+            <button
+              onClick={addItem}
+              disabled={!canEdit || busy || !newItemId}
+              className="w-full rounded-lg border border-slate-200 bg-white px-3 py-2 font-semibold hover:bg-slate-50 disabled:opacity-60"
+            >
+              Adicionar
+            </button>
+          </div>
+        </div>
+
+        <div className="mt-4">
+          {basketConfig.items.length === 0 ? (
+            <div className="text-slate-600">Nenhum item configurado ainda.</div>
+          ) : (
+            <div className="space-y-2">
+              {basketConfig.items.map((it) => {
+                const inv = invById.get(it.estoque_id);
+                const compativeis = inv ? unidadesCompativeis(inv) : [];
+                const opcoesUnidade = compativeis.includes(it.unidade) ? compativeis : [it.unidade, ...compativeis];
+                return (
+                  <div
+                    key={it.estoque_id}
+                    className="flex flex-col gap-2 rounded-xl border border-slate-200 px-3 py-2 md:flex-row md:items-center md:justify-between"
+                  >
+                    <div>
+                      <div className="font-semibold text-slate-900">{it.nome}</div>
+                      <div className="text-xs text-slate-600">
+                        Estoque: {Number(inv?.quantidade ?? 0)} {String(inv?.unidade ?? "unidade")}
                       </div>
                     </div>
 
-                    <div className="px-4 py-3 border-t border-slate-200 flex items-center justify-end gap-2">
-                      <button
-                        className="rounded-lg border border-slate-200 bg-white px-4 py-2 font-semibold hover:bg-slate-50"
-                        onClick={() => setItemModalOpen(false)}
+                    <div className="flex items-center gap-2">
+                      <input
+                        type="number"
+                        min={0}
+                        step={1}
+                        className="w-28 rounded-lg border border-slate-300 px-2 py-1"
+                        value={it.quantidade}
+                        onChange={(e) => updateItemQtd(it.estoque_id, Number(e.target.value))}
+                        disabled={!canEdit || busy}
+                      />
+                      <select
+                        className="rounded-lg border border-slate-300 px-2 py-1 text-sm"
+                        value={it.unidade}
+                        onChange={(e) => updateItemUnidade(it.estoque_id, e.target.value)}
+                        disabled={!canEdit || busy}
                       >
-                        Cancelar
-                      </button>
+                        {opcoesUnidade.map((u) => (
+                          <option key={u} value={u}>
+                            {u}
+                          </option>
+                        ))}
+                      </select>
+                      <span className="text-sm text-slate-500">+</span>
+                      <input
+                        type="number"
+                        min={0}
+                        step={0.5}
+                        className="w-20 rounded-lg border border-slate-300 px-2 py-1"
+                        title="Extra por membro acima da família base"
+                        value={it.extra_por_membro ?? 0}
+                        onChange={(e) => updateItemExtra(it.estoque_id, Number(e.target.value))}
+                        disabled={!canEdit || busy}
+                      />
+                      <span className="text-xs text-slate-500">/membro extra</span>
                       <button
-                        disabled={dataLoading}
-                        className="rounded-lg bg-slate-900 text-white px-4 py-2 font-semibold disabled:opacity-60"
-                        onClick={saveItem}
+                        onClick={() => removeItem(it.estoque_id)}
+                        className="rounded-lg border border-slate-200 bg-white px-3 py-1.5 text-sm hover:bg-slate-50 disabled:opacity-60"
+                        disabled={!canEdit || busy}
                       >
-                        {dataLoading ? "Salvando..." : "Salvar"}
+                        Remover
                       </button>
                     </div>
                   </div>
-                </div>
-              ) : null}
-            </Card>
+                );
+              })}
+            </div>
           )}
+        </div>
 
-          {view === "beneficiarios" && (
-            <Card
-              title="Beneficiários"
-              right={
-                <div className="flex items-center gap-2">
-                  {!canEdit ? <Badge>somente leitura</Badge> : null}
-                  {canEdit ? (
-                    <button
-                      onClick={openNewBenef}
-                      className="inline-flex items-center gap-2 rounded-lg bg-slate-900 text-white font-semibold px-3 py-2"
-                    >
-                      <Plus size={18} /> Adicionar
-                    </button>
+        <div className="mt-5">
+          <div className="flex items-center justify-between gap-2">
+            <label className="block text-sm font-medium text-slate-700">
+              Entregar para beneficiários (opcional)
+            </label>
+            {selectedBenefIds.length > 0 ? (
+              <button
+                onClick={() => setSelectedBenefIds([])}
+                className="text-xs text-slate-600 hover:text-slate-900"
+                disabled={busy}
+              >
+                Limpar seleção ({selectedBenefIds.length})
+              </button>
+            ) : null}
+          </div>
+          <input
+            className="mt-1 w-full rounded-lg border border-slate-300 px-3 py-2"
+            placeholder="Buscar por nome ou telefone…"
+            value={benefFilter}
+            onChange={(e) => setBenefFilter(e.target.value)}
+            disabled={!canEdit || busy}
+          />
+          <div className="mt-2 max-h-48 overflow-auto rounded-xl border border-slate-200 divide-y">
+            {benefFiltered.length === 0 ? (
+              <div className="p-2 text-sm text-slate-600">Nenhum beneficiário encontrado.</div>
+            ) : (
+              benefFiltered.map((b) => (
+                <label key={b.id} className="flex items-center gap-2 px-3 py-1.5 text-sm hover:bg-slate-50">
+                  <input
+                    type="checkbox"
+                    checked={selectedBenefIds.includes(b.id)}
+                    onChange={() => toggleBenef(b.id)}
+                    disabled={!canEdit || busy}
+                  />
+                  <span className="font-medium text-slate-900">{b.name}</span>
+                  <span className="text-xs text-slate-500">
+                    família {b.familySize} • última cesta {fmtDateBR(b.lastBasketDate)}
+                  </span>
+                  {!familiaNaFaixa(basketConfig, b.familySize) ? (
+                    <span className="text-xs text-amber-700">fora da faixa deste modelo</span>
                   ) : null}
+                  <ElegibilidadeBadge e={avaliarElegibilidade(b, regras, hoje)} />
+                </label>
+              ))
+            )}
+          </div>
+          {inelegiveis.length > 0 ? (
+            <div className="mt-2 rounded-lg border border-amber-200 bg-amber-50 px-3 py-2 text-sm text-amber-900">
+              <div className="font-semibold">Fora das regras de elegibilidade:</div>
+              <ul className="mt-1 space-y-0.5">
+                {inelegiveis.map(({ b, e }) => (
+                  <li key={b.id}>
+                    <b>{b.name}</b> — {e.motivos.join("; ")}
+                  </li>
+                ))}
+              </ul>
+              {isAdmin ? (
+                <input
+                  className="mt-2 w-full rounded-lg border border-amber-300 bg-white px-3 py-2"
+                  placeholder="Justificativa do admin para liberar (obrigatória)"
+                  value={overrideReason}
+                  onChange={(e) => setOverrideReason(e.target.value)}
+                  disabled={busy}
+                />
+              ) : (
+                <div className="mt-1 text-xs">Somente um admin pode liberar, informando uma justificativa.</div>
+              )}
+            </div>
+          ) : null}
+
+          <div className="mt-2">
+            <label className="block text-sm font-medium text-slate-700">Observação da entrega (opcional)</label>
+            <input
+              className="mt-1 w-full rounded-lg border border-slate-300 px-3 py-2"
+              value={entregaNote}
+              onChange={(e) => setEntregaNote(e.target.value)}
+              disabled={!canEdit || busy}
+            />
+          </div>
+        </div>
+
+        <div className="mt-5 flex flex-col gap-3 md:flex-row md:items-end md:justify-between">
+          <div className="w-full md:w-56">
+            <label className="block text-sm font-medium text-slate-700">Quantidade de cestas</label>
+            <input
+              type="number"
+              min={1}
+              step={1}
+              className="mt-1 w-full rounded-lg border border-slate-300 px-3 py-2"
+              value={selectedBenefIds.length > 0 ? selectedBenefIds.length : qtdCestas}
+              onChange={(e) => setQtdCestas(Number(e.target.value))}
+              disabled={!canEdit || busy || selectedBenefIds.length > 0}
+            />
+            {selectedBenefIds.length > 0 ? (
+              <div className="text-xs text-slate-500 mt-1">1 cesta por beneficiário selecionado.</div>
+            ) : null}
+          </div>
+
+          <button
+            onClick={registerBasket}
+            disabled={!canEdit || busy}
+            className="rounded-lg bg-emerald-600 px-4 py-2 font-semibold text-white disabled:opacity-60"
+          >
+            {busy ? "Processando..." : "Registrar cesta e dar baixa"}
+          </button>
+        </div>
+      </Card>
+
+      <Card title="Quantas cestas dá para montar agora">
+        <div className="overflow-auto border border-slate-200 rounded-xl">
+          <table className="min-w-[560px] w-full text-sm">
+            <thead className="bg-slate-100">
+              <tr className="text-left">
+                <th className="p-2">Modelo</th>
+                <th className="p-2">Cestas completas</th>
+                <th className="p-2">Item gargalo</th>
+              </tr>
+            </thead>
+            <tbody>
+              {capacidades.length === 0 ? (
+                <tr>
+                  <td className="p-3 text-slate-600" colSpan={3}>
+                    Nenhum modelo de cesta.
+                  </td>
+                </tr>
+              ) : (
+                capacidades.map(({ t, cap }) => (
+                  <tr
+                    key={t.id}
+                    className={cn("border-t", t.id === basketConfig.id ? "bg-slate-50" : "")}
+                  >
+                    <td className="p-2 font-medium">{t.name || "(sem nome)"}</td>
+                    <td className="p-2 font-semibold">{cap.itens.length ? cap.max : "-"}</td>
+                    <td className="p-2">
+                      {cap.gargalo ? (
+                        <span>
+                          {cap.gargalo.item.nome}{" "}
+                          <span className="text-xs text-slate-500">
+                            ({cap.gargalo.estoque} {cap.gargalo.unidadeEstoque} em estoque,{" "}
+                            {cap.gargalo.porCesta > 0
+                              ? `${cap.gargalo.porCesta} ${cap.gargalo.unidadeEstoque} por cesta`
+                              : `sem conversão de ${cap.gargalo.item.unidade}`}
+                            )
+                          </span>
+                        </span>
+                      ) : (
+                        "-"
+                      )}
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="mt-4 flex flex-wrap items-end gap-3">
+          <div className="w-40">
+            <label className="block text-sm font-medium text-slate-700">Meta de cestas</label>
+            <input
+              type="number"
+              min={0}
+              step={1}
+              className="mt-1 w-full rounded-lg border border-slate-300 px-3 py-2"
+              value={metaCestas}
+              onChange={(e) => setMetaCestas(Number(e.target.value))}
+            />
+          </div>
+          <div className="text-sm text-slate-600 pb-2">
+            Modelo: <b>{basketConfig.name || "(sem nome)"}</b> • dá para montar {capAtual.max}
+          </div>
+        </div>
+
+        <div className="mt-3">
+          {capAtual.itens.length === 0 ? (
+            <div className="text-sm text-slate-600">O modelo selecionado não tem itens.</div>
+          ) : faltas.length === 0 ? (
+            <div className="rounded-lg border border-emerald-200 bg-emerald-50 px-3 py-2 text-sm text-emerald-800">
+              O estoque atual cobre {metaCestas} cestas deste modelo.
+            </div>
+          ) : (
+            <div className="space-y-1">
+              {faltas.map((f) => (
+                <div
+                  key={f.item.estoque_id}
+                  className="flex items-center justify-between rounded-lg border border-slate-200 px-3 py-1.5 text-sm"
+                >
+                  <span>{f.item.nome}</span>
+                  <span className="text-slate-600">
+                    precisa {f.necessario}, tem {f.estoque} •{" "}
+                    <b className="text-red-700">
+                      faltam {arredondarQtd(f.falta)} {f.unidadeEstoque}
+                    </b>
+                  </span>
                 </div>
-              }
-            >
-              <div className="text-sm text-slate-600 mb-3">
-                Cadastro rápido de beneficiários (tabela <b>public.beneficiarios</b>).
-              </div>
+              ))}
+            </div>
+          )}
+          <div className="mt-2 text-xs text-slate-500">Calculado com a quantidade base de cada item, sem o extra por membro da família.</div>
+        </div>
+      </Card>
+    </div>
+  );
+}
 
-              <div className="overflow-auto border border-slate-200 rounded-xl">
-                <table className="min-w-[700px] w-full text-sm">
-                  <thead className="bg-slate-100">
-                    <tr className="text-left">
-                      <th className="p-2">Nome</th>
-                      <th className="p-2">Família</th>
-                      <th className="p-2">Telefone</th>
-                      <th className="p-2">Endereço</th>
-                    </tr>
-                  </thead>
-                  <tbody>
-                    {beneficiarios.length === 0 ? (
-                      <tr>
-                        <td className="p-3 text-slate-600" colSpan={4}>
-                          Nenhum beneficiário.
-                        </td>
-                      </tr>
-                    ) : (
-                      beneficiarios.map((b) => (
-                        <tr key={b.id} className="border-t">
-                          <td className="p-2 font-medium text-slate-900">{b.name}</td>
-                          <td className="p-2">{b.familySize}</td>
-                          <td className="p-2">{b.phone}</td>
-                          <td className="p-2">{b.address}</td>
-                        </tr>
-                      ))
-                    )}
-                  </tbody>
-                </table>
-              </div>
+type LinhaDoacao = DoacaoItem & { chave: string };
 
-              {benefModalOpen ? (
-                <div className="fixed inset-0 bg-black/40 flex items-center justify-center p-4 z-50">
-                  <div className="w-full max-w-2xl bg-white rounded-2xl border border-slate-200 shadow-lg">
-                    <div className="px-4 py-3 border-b border-slate-200 flex items-center justify-between">
-                      <div className="font-bold text-slate-900">Adicionar beneficiário</div>
-                      <button
-                        className="text-slate-600 hover:text-slate-900 px-2 py-1"
-                        onClick={() => setBenefModalOpen(false)}
-                      >
-                        Fechar
-                      </button>
-                    </div>
+const novaLinhaDoacao = (): LinhaDoacao => ({
+  chave: genTextId(),
+  estoque_id: null,
+  nome: "",
+  categoria: "alimento_nao_perecivel",
+  unidade: "unidade",
+  quantidade: 1,
+  validade: null,
+});
 
-                    <div className="p-4 grid grid-cols-1 md:grid-cols-2 gap-3">
-                      <div className="md:col-span-2">
-                        <label className="block text-sm font-medium text-slate-700">Nome</label>
-                        <input
-                          className="mt-1 w-full rounded-lg border border-slate-300 px-3 py-2"
-                          value={formBenef.name}
-                          onChange={(e) => setFormBenef((p) => ({ ...p, name: e.target.value }))}
-                        />
-                      </div>
+function DoacoesManager({
+  canEdit,
+  estoque,
+  unidadeAtiva,
+  unidadeNome,
+  onReload,
+}: {
+  canEdit: boolean;
+  estoque: EstoqueItem[];
+  unidadeAtiva: string;
+  unidadeNome: string | null;
+  onReload: () => Promise<void>;
+}) {
+  const [doadores, setDoadores] = useState<Doador[]>([]);
+  const [doacoes, setDoacoes] = useState<Doacao[]>([]);
+  const [campanhas, setCampanhas] = useState<Campanha[]>([]);
+  const [busy, setBusy] = useState(false);
+  const [err, setErr] = useState<string | null>(null);
+  const [ok, setOk] = useState<string | null>(null);
+  const [ultima, setUltima] = useState<Doacao | null>(null);
 
-                      <div>
-                        <label className="block text-sm font-medium text-slate-700">Tamanho da família</label>
-                        <input
-                          type="number"
-                          min={1}
-                          step={1}
-                          className="mt-1 w-full rounded-lg border border-slate-300 px-3 py-2"
-                          value={formBenef.familySize}
-                          onChange={(e) => setFormBenef((p) => ({ ...p, familySize: Number(e.target.value) }))}
-                        />
-                      </div>
+  const [doadorForm, setDoadorForm] = useState<{ nome: string; tipo: DoadorTipo; documento: string; telefone: string; email: string } | null>(null);
+  const [doadorId, setDoadorId] = useState("");
+  const [campanhaId, setCampanhaId] = useState("");
+  const [data, setData] = useState(todayISO());
+  const [obs, setObs] = useState("");
+  const [linhas, setLinhas] = useState<LinhaDoacao[]>([novaLinhaDoacao()]);
+  const [filtroDoador, setFiltroDoador] = useState("");
 
-                      <div>
-                        <label className="block text-sm font-medium text-slate-700">Telefone</label>
-                        <input
-                          className="mt-1 w-full rounded-lg border border-slate-300 px-3 py-2"
-                          value={formBenef.phone}
-                          onChange={(e) => setFormBenef((p) => ({ ...p, phone: e.target.value }))}
-                        />
-                      </div>
+  const load = async () => {
+    try {
+      const [ds, dc, cs] = await Promise.all([fetchDoadores(), fetchDoacoes(unidadeAtiva), fetchCampanhas()]);
+      setDoadores(ds);
+      setDoacoes(dc);
+      setCampanhas(cs);
+    } catch (e: any) {
+      setErr(e?.message ?? String(e));
+    }
+  };
+
+  useEffect(() => {
+    load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [unidadeAtiva]);
+
+  const doadorById = useMemo(() => new Map(doadores.map((d) => [d.id, d] as const)), [doadores]);
+  const campanhaById = useMemo(() => new Map(campanhas.map((c) => [c.id, c] as const)), [campanhas]);
+  const campanhasNaData = campanhas.filter((c) => campanhaAtiva(c, data));
+  // a doação só credita itens da unidade em que é registrada (sem unidade ativa, a sede)
+  const estoqueDaUnidade = estoque.filter((i) => (i.unidade_id ?? "sede") === (unidadeAtiva || "sede"));
+
+  // Quem doou o quê: totais por doador no histórico carregado
+  const porDoador = useMemo(() => {
+    const m = new Map<string, { doacoes: number; itens: number; ultima: string }>();
+    for (const d of doacoes) {
+      const cur = m.get(d.doador_id) ?? { doacoes: 0, itens: 0, ultima: "" };
+      cur.doacoes += 1;
+      cur.itens += d.itens.reduce((acc, it) => acc + Number(it.quantidade || 0), 0);
+      if (d.data > cur.ultima) cur.ultima = d.data;
+      m.set(d.doador_id, cur);
+    }
+    return [...m.entries()]
+      .map(([id, v]) => ({ doador: doadorById.get(id) ?? null, id, ...v }))
+      .sort((a, b) => b.itens - a.itens);
+  }, [doacoes, doadorById]);
+
+  const setLinha = (chave: string, patch: Partial<LinhaDoacao>) =>
+    setLinhas((prev) => prev.map((l) => (l.chave === chave ? { ...l, ...patch } : l)));
+
+  const escolherItem = (chave: string, estoqueId: string) => {
+    const it = estoque.find((i) => i.id === estoqueId);
+    setLinha(
+      chave,
+      it
+        ? {
+            estoque_id: it.id,
+            nome: it.nome ?? "",
+            categoria: it.categoria ?? "outros",
+            unidade: it.unidade ?? "unidade",
+          }
+        : { estoque_id: null, nome: "" }
+    );
+  };
+
+  const salvarDoador = async (e: FormEvent) => {
+    e.preventDefault();
+    setErr(null);
+    setOk(null);
+    if (!supabase || !doadorForm) return;
+    const nome = doadorForm.nome.trim();
+    if (!nome) {
+      setErr("Informe o nome do doador.");
+      return;
+    }
+
+    const novo = {
+      id: genTextId(),
+      nome,
+      tipo: doadorForm.tipo,
+      documento: doadorForm.documento.trim() || null,
+      telefone: doadorForm.telefone.trim() || null,
+      email: doadorForm.email.trim() || null,
+    };
+    setBusy(true);
+    const { error } = await supabase.from("doadores").insert(novo);
+    setBusy(false);
+    if (error) {
+      setErr(error.message);
+      return;
+    }
+    setDoadorForm(null);
+    setDoadorId(novo.id);
+    setOk(`Doador "${nome}" cadastrado.`);
+    await load();
+  };
+
+  const salvarDoacao = async (e: FormEvent) => {
+    e.preventDefault();
+    setErr(null);
+    setOk(null);
+    setUltima(null);
+
+    const itens: DoacaoItem[] = linhas.map(({ chave: _chave, ...it }) => ({
+      ...it,
+      nome: it.nome.trim(),
+      quantidade: Number(it.quantidade || 0),
+      validade: it.validade || null,
+    }));
+    const erro = validarDoacao(doadorId, itens);
+    if (erro) {
+      setErr(erro);
+      return;
+    }
+
+    setBusy(true);
+    try {
+      const r = await registrarDoacao({
+        doadorId,
+        campanhaId: campanhaId || null,
+        data,
+        itens,
+        observacoes: obs.trim() || null,
+        unidadeId: unidadeAtiva || null,
+      });
+      setOk(`Doação nº ${r.numero} registrada e lançada no estoque.`);
+      setLinhas([novaLinhaDoacao()]);
+      setObs("");
+      await Promise.all([load(), onReload()]);
+      setUltima({
+        id: r.id,
+        numero: r.numero,
+        doador_id: doadorId,
+        campanha_id: campanhaId || null,
+        data,
+        itens,
+        observacoes: obs.trim() || null,
+        registrado_por: null,
+        created_at: new Date().toISOString(),
+      });
+    } catch (ex: any) {
+      setErr(ex?.message ?? String(ex));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const imprimirRecibo = (d: Doacao) => {
+    // sem "noopener": com ele o window.open devolve null e não há onde escrever
+    const w = window.open("", "_blank");
+    if (!w) return;
+    w.opener = null;
+    w.document.write(reciboDoacaoHTML(d, doadorById.get(d.doador_id) ?? null, unidadeNome));
+    w.document.close();
+    w.focus();
+    w.print();
+  };
 
-                      <div className="md:col-span-2">
-                        <label className="block text-sm font-medium text-slate-700">Endereço</label>
-                        <input
-                          className="mt-1 w-full rounded-lg border border-slate-300 px-3 py-2"
-                          value={formBenef.address}
-                          onChange={(e) => setFormBenef((p) => ({ ...p, address: e.target.value }))}
-                        />
-                      </div>
+  const baixarRecibo = (d: Doacao) => {
+    const nome = slugify(doadorById.get(d.doador_id)?.nome ?? "doador");
+    downloadTextFile(
+      `recibo-doacao-${d.numero}-${nome}.html`,
+      reciboDoacaoHTML(d, doadorById.get(d.doador_id) ?? null, unidadeNome),
+      "text/html;charset=utf-8"
+    );
+  };
 
-                      <div className="md:col-span-2">
-                        <label className="block text-sm font-medium text-slate-700">Observações (opcional)</label>
-                        <textarea
-                          className="mt-1 w-full rounded-lg border border-slate-300 px-3 py-2"
-                          rows={3}
-                          value={formBenef.notes}
-                          onChange={(e) => setFormBenef((p) => ({ ...p, notes: e.target.value }))}
-                        />
-                      </div>
-                    </div>
+  const historico = filtroDoador ? doacoes.filter((d) => d.doador_id === filtroDoador) : doacoes;
 
-                    <div className="px-4 py-3 border-t border-slate-200 flex items-center justify-end gap-2">
-                      <button
-                        className="rounded-lg border border-slate-200 bg-white px-4 py-2 font-semibold hover:bg-slate-50"
-                        onClick={() => setBenefModalOpen(false)}
-                      >
-                        Cancelar
-                      </button>
-                      <button
-                        disabled={dataLoading}
-                        className="rounded-lg bg-slate-900 text-white px-4 py-2 font-semibold disabled:opacity-60"
-                        onClick={saveBenef}
-                      >
-                        {dataLoading ? "Salvando..." : "Salvar"}
-                      </button>
-                    </div>
-                  </div>
-                </div>
-              ) : null}
-            </Card>
-          )}
+  return (
+    <div className="space-y-4">
+      <Card title="Registrar doação" right={!canEdit ? <Badge>somente leitura</Badge> : null}>
+        {err && (
+          <div className="mb-3 rounded-lg border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-800">{err}</div>
+        )}
+        {ok && (
+          <div className="mb-3 flex flex-wrap items-center justify-between gap-2 rounded-lg border border-emerald-200 bg-emerald-50 px-3 py-2 text-sm text-emerald-800">
+            <span>{ok}</span>
+            {ultima ? (
+              <button
+                onClick={() => imprimirRecibo(ultima)}
+                className="inline-flex items-center gap-1 rounded-lg border border-emerald-300 bg-white px-2 py-1 text-xs"
+              >
+                <Printer size={14} /> Recibo
+              </button>
+            ) : null}
+          </div>
+        )}
 
-          {view === "eventos" && (
-            <Card
-              title="Eventos"
-              right={
-                <div className="flex items-center gap-2">
-                  {!canEdit ? <Badge>somente leitura</Badge> : null}
-                  {canEdit ? (
-                    <button
-                      onClick={openNewEvento}
-                      className="inline-flex items-center gap-2 rounded-lg bg-slate-900 text-white font-semibold px-3 py-2"
-                    >
-                      <Plus size={18} /> Adicionar
-                    </button>
-                  ) : null}
+        {!canEdit ? (
+          <div className="text-sm text-slate-600">Somente editores registram doações.</div>
+        ) : (
+          <form onSubmit={salvarDoacao} className="space-y-3">
+            <div className="grid grid-cols-1 md:grid-cols-[1fr_1fr_180px] gap-3">
+              <div>
+                <label className="block text-sm font-medium text-slate-700">Doador</label>
+                <div className="mt-1 flex gap-2">
+                  <select
+                    className="w-full rounded-lg border border-slate-300 px-3 py-2"
+                    value={doadorId}
+                    onChange={(e) => setDoadorId(e.target.value)}
+                  >
+                    <option value="">Selecione…</option>
+                    {doadores.map((d) => (
+                      <option key={d.id} value={d.id}>
+                        {d.nome} ({DOADOR_TIPO_LABEL[d.tipo]})
+                      </option>
+                    ))}
+                  </select>
+                  <button
+                    type="button"
+                    onClick={() => setDoadorForm({ nome: "", tipo: "pessoa", documento: "", telefone: "", email: "" })}
+                    className="inline-flex items-center gap-1 whitespace-nowrap rounded-lg border border-slate-200 bg-white px-3 py-2 hover:bg-slate-50"
+                  >
+                    <Plus size={16} /> Novo
+                  </button>
                 </div>
-              }
-            >
-              <div className="text-sm text-slate-600 mb-3">
-                Agenda de entregas (tabela <b>public.eventos_entrega</b>).
               </div>
-
-              <div className="space-y-2">
-                {eventos.length === 0 ? (
-                  <div className="text-slate-600">Nenhum evento.</div>
-                ) : (
-                  eventos.map((ev) => (
-                    <div key={ev.id} className="border border-slate-200 rounded-xl p-3">
-                      <div className="font-semibold text-slate-900">{ev.title}</div>
-                      <div className="text-xs text-slate-600">{ev.date}</div>
-                      {ev.description ? <div className="text-sm text-slate-700 mt-1">{ev.description}</div> : null}
-                    </div>
-                  ))
-                )}
+              <div>
+                <label className="block text-sm font-medium text-slate-700">Campanha</label>
+                <select
+                  className="mt-1 w-full rounded-lg border border-slate-300 px-3 py-2"
+                  value={campanhaId}
+                  onChange={(e) => setCampanhaId(e.target.value)}
+                >
+                  <option value="">Nenhuma</option>
+                  {campanhasNaData.map((c) => (
+                    <option key={c.id} value={c.id}>
+                      {c.nome}
+                    </option>
+                  ))}
+                </select>
               </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700">Data</label>
+                <input
+                  type="date"
+                  className="mt-1 w-full rounded-lg border border-slate-300 px-3 py-2"
+                  value={data}
+                  onChange={(e) => {
+                    setData(e.target.value);
+                    // campanha fora do período deixa de valer para a nova data
+                    const c = campanhaById.get(campanhaId);
+                    if (c && !campanhaAtiva(c, e.target.value)) setCampanhaId("");
+                  }}
+                />
+              </div>
+            </div>
 
-              {eventModalOpen ? (
-                <div className="fixed inset-0 bg-black/40 flex items-center justify-center p-4 z-50">
-                  <div className="w-full max-w-2xl bg-white rounded-2xl border border-slate-200 shadow-lg">
-                    <div className="px-4 py-3 border-b border-slate-200 flex items-center justify-between">
-                      <div className="font-bold text-slate-900">Adicionar evento</div>
-                      <button
-                        className="text-slate-600 hover:text-slate-900 px-2 py-1"
-                        onClick={() => setEventModalOpen(false)}
-                      >
-                        Fechar
-                      </button>
-                    </div>
-
-                    <div className="p-4 grid grid-cols-1 md:grid-cols-2 gap-3">
-                      <div className="md:col-span-2">
-                        <label className="block text-sm font-medium text-slate-700">Título</label>
+            <div className="overflow-auto border border-slate-200 rounded-xl">
+              <table className="min-w-[760px] w-full text-sm">
+                <thead className="bg-slate-100">
+                  <tr className="text-left">
+                    <th className="p-2">Item do estoque</th>
+                    <th className="p-2">Nome / categoria (item novo)</th>
+                    <th className="p-2 w-24">Qtd</th>
+                    <th className="p-2 w-28">Unidade</th>
+                    <th className="p-2 w-40">Validade</th>
+                    <th className="p-2 w-10"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {linhas.map((l) => (
+                    <tr key={l.chave} className="border-t align-top">
+                      <td className="p-2">
+                        <select
+                          className="w-full rounded-lg border border-slate-300 px-2 py-1"
+                          value={l.estoque_id ?? ""}
+                          onChange={(e) => escolherItem(l.chave, e.target.value)}
+                        >
+                          <option value="">+ Item novo</option>
+                          {estoqueDaUnidade.map((it) => (
+                            <option key={it.id} value={it.id}>
+                              {it.nome ?? "-"}
+                            </option>
+                          ))}
+                        </select>
+                      </td>
+                      <td className="p-2">
+                        {l.estoque_id ? (
+                          <span className="text-slate-600">{prettyCat(l.categoria)}</span>
+                        ) : (
+                          <div className="flex gap-2">
+                            <input
+                              className="w-full rounded-lg border border-slate-300 px-2 py-1"
+                              placeholder="Nome do item"
+                              value={l.nome}
+                              onChange={(e) => setLinha(l.chave, { nome: e.target.value })}
+                            />
+                            <select
+                              className="rounded-lg border border-slate-300 px-2 py-1"
+                              value={l.categoria}
+                              onChange={(e) => setLinha(l.chave, { categoria: e.target.value })}
+                            >
+                              {Object.entries(CATEGORIA_LABEL).map(([k, label]) => (
+                                <option key={k} value={k}>
+                                  {label}
+                                </option>
+                              ))}
+                            </select>
+                          </div>
+                        )}
+                      </td>
+                      <td className="p-2">
                         <input
-                          className="mt-1 w-full rounded-lg border border-slate-300 px-3 py-2"
-                          value={formEvento.title}
-                          onChange={(e) => setFormEvento((p) => ({ ...p, title: e.target.value }))}
+                          type="number"
+                          min={0}
+                          className="w-full rounded-lg border border-slate-300 px-2 py-1"
+                          value={l.quantidade}
+                          onChange={(e) => setLinha(l.chave, { quantidade: Number(e.target.value) })}
                         />
-                      </div>
-
-                      <div>
-                        <label className="block text-sm font-medium text-slate-700">Data</label>
+                      </td>
+                      <td className="p-2">
+                        {l.estoque_id ? (
+                          <span className="text-slate-600">{l.unidade}</span>
+                        ) : (
+                          <select
+                            className="w-full rounded-lg border border-slate-300 px-2 py-1"
+                            value={l.unidade}
+                            onChange={(e) => setLinha(l.chave, { unidade: e.target.value })}
+                          >
+                            {UNIDADES_MEDIDA.map((u) => (
+                              <option key={u} value={u}>
+                                {u}
+                              </option>
+                            ))}
+                          </select>
+                        )}
+                      </td>
+                      <td className="p-2">
                         <input
                           type="date"
-                          className="mt-1 w-full rounded-lg border border-slate-300 px-3 py-2"
-                          value={formEvento.date}
-                          onChange={(e) => setFormEvento((p) => ({ ...p, date: e.target.value }))}
-                        />
-                      </div>
-
-                      <div className="md:col-span-2">
-                        <label className="block text-sm font-medium text-slate-700">Descrição (opcional)</label>
-                        <textarea
-                          className="mt-1 w-full rounded-lg border border-slate-300 px-3 py-2"
-                          rows={3}
-                          value={formEvento.description}
-                          onChange={(e) => setFormEvento((p) => ({ ...p, description: e.target.value }))}
+                          className="w-full rounded-lg border border-slate-300 px-2 py-1"
+                          value={l.validade ?? ""}
+                          onChange={(e) => setLinha(l.chave, { validade: e.target.value || null })}
                         />
-                      </div>
-                    </div>
-
-                    <div className="px-4 py-3 border-t border-slate-200 flex items-center justify-end gap-2">
-                      <button
-                        className="rounded-lg border border-slate-200 bg-white px-4 py-2 font-semibold hover:bg-slate-50"
-                        onClick={() => setEventModalOpen(false)}
-                      >
-                        Cancelar
-                      </button>
-                      <button
-                        disabled={dataLoading}
-                        className="rounded-lg bg-slate-900 text-white px-4 py-2 font-semibold disabled:opacity-60"
-                        onClick={saveEvento}
-                      >
-                        {dataLoading ? "Salvando..." : "Salvar"}
-                      </button>
-                    </div>
-                  </div>
-                </div>
-              ) : null}
-            </Card>
-          )}
+                      </td>
+                      <td className="p-2">
+                        <button
+                          type="button"
+                          onClick={() => setLinhas((prev) => (prev.length > 1 ? prev.filter((x) => x.chave !== l.chave) : prev))}
+                          className="text-slate-400 hover:text-red-700"
+                          title="Remover linha"
+                        >
+                          <Trash2 size={16} />
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
 
-          {view === "cestas" && (
-            <CestasManager
-              canEdit={canEdit}
-              isAdmin={isAdmin}
-              inventory={estoque}
-              basketConfig={basketConfig}
-              setBasketConfig={setBasketConfig}
-              assembledBaskets={assembledBaskets}
-              setAssembledBaskets={setAssembledBaskets}
-              onReload={loadAll}
-            />
-          )}
-          {view === "relatorios" && (
-            <Relatorios
-              estoque={estoque}
-              beneficiarios={beneficiarios}
-              assembledBaskets={assembledBaskets}
-              alertasValidade={alertValidade}
-              alertasMinimo={alertMinimo}
-            />
-          )}
+            <div className="flex flex-wrap items-end justify-between gap-3">
+              <button
+                type="button"
+                onClick={() => setLinhas((prev) => [...prev, novaLinhaDoacao()])}
+                className="inline-flex items-center gap-1 rounded-lg border border-slate-200 bg-white px-3 py-2 hover:bg-slate-50"
+              >
+                <Plus size={16} /> Adicionar item
+              </button>
+              <div className="flex-1 min-w-[220px]">
+                <label className="block text-sm font-medium text-slate-700">Observações</label>
+                <input
+                  className="mt-1 w-full rounded-lg border border-slate-300 px-3 py-2"
+                  value={obs}
+                  onChange={(e) => setObs(e.target.value)}
+                />
+              </div>
+              <button
+                disabled={busy}
+                className="rounded-lg bg-slate-900 px-4 py-2 font-semibold text-white disabled:opacity-60"
+              >
+                {busy ? "Salvando..." : "Registrar doação"}
+              </button>
+            </div>
+          </form>
+        )}
+      </Card>
 
-          {view === "usuarios" && isAdmin && (
-            <Card title="Usuários (admin)">
-              <div className="text-sm text-slate-700">
-                Seu SQL atual permite:
-                <ul className="list-disc ml-5 mt-2 text-slate-700">
-                  <li>Usuário ler/editar apenas o próprio profile (RLS).</li>
-                  <li>O “admin” pelo email pode ser forçado no front via <b>VITE_ADMIN_EMAILS</b>.</li>
-                </ul>
+      {doadorForm ? (
+        <div className="fixed inset-0 bg-black/40 flex items-center justify-center p-4 z-50">
+          <form onSubmit={salvarDoador} className="w-full max-w-lg bg-white rounded-2xl border border-slate-200 shadow-lg">
+            <div className="px-4 py-3 border-b border-slate-200 flex items-center justify-between">
+              <div className="font-bold text-slate-900">Novo doador</div>
+              <button type="button" className="text-slate-600 hover:text-slate-900 px-2 py-1" onClick={() => setDoadorForm(null)}>
+                Fechar
+              </button>
+            </div>
+            <div className="p-4 grid grid-cols-1 md:grid-cols-2 gap-3">
+              <div className="md:col-span-2">
+                <label className="block text-sm font-medium text-slate-700">Nome</label>
+                <input
+                  className="mt-1 w-full rounded-lg border border-slate-300 px-3 py-2"
+                  value={doadorForm.nome}
+                  onChange={(e) => setDoadorForm({ ...doadorForm, nome: e.target.value })}
+                  autoFocus
+                />
               </div>
-              <div className="mt-3 text-sm text-slate-600">
-                Para um painel de admin que muda roles de outros usuários, precisa de uma Function (service role) — não dá com anon key.
+              <div>
+                <label className="block text-sm font-medium text-slate-700">Tipo</label>
+                <select
+                  className="mt-1 w-full rounded-lg border border-slate-300 px-3 py-2"
+                  value={doadorForm.tipo}
+                  onChange={(e) => setDoadorForm({ ...doadorForm, tipo: e.target.value as DoadorTipo })}
+                >
+                  {(Object.keys(DOADOR_TIPO_LABEL) as DoadorTipo[]).map((t) => (
+                    <option key={t} value={t}>
+                      {DOADOR_TIPO_LABEL[t]}
+                    </option>
+                  ))}
+                </select>
               </div>
-            </Card>
-          )}
-        </section>
-      </main>
-    </div>
-  );
-}
-
-
-function parseLocalDate(iso: string) {
-  // Evita bug de fuso: new Date('YYYY-MM-DD') é interpretado como UTC e pode "voltar 1 dia" no Brasil (-03).
-  // Para datas "date-only", parseia como data LOCAL.
-  if (/^\d{4}-\d{2}-\d{2}$/.test(iso)) {
-    const [y, m, d] = iso.split("-").map((n) => Number(n));
-    return new Date(y, (m || 1) - 1, d || 1);
-  }
-  return new Date(iso);
-}
-
-function fmtDateBR(iso?: string | null) {
-  if (!iso) return "-";
-  const d = parseLocalDate(String(iso));
-  if (Number.isNaN(d.getTime())) return String(iso);
-  return d.toLocaleDateString("pt-BR");
-}
+              <div>
+                <label className="block text-sm font-medium text-slate-700">CPF / CNPJ (opcional)</label>
+                <input
+                  className="mt-1 w-full rounded-lg border border-slate-300 px-3 py-2"
+                  value={doadorForm.documento}
+                  onChange={(e) => setDoadorForm({ ...doadorForm, documento: e.target.value })}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700">Telefone</label>
+                <input
+                  className="mt-1 w-full rounded-lg border border-slate-300 px-3 py-2"
+                  value={doadorForm.telefone}
+                  onChange={(e) => setDoadorForm({ ...doadorForm, telefone: e.target.value })}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700">E-mail</label>
+                <input
+                  type="email"
+                  className="mt-1 w-full rounded-lg border border-slate-300 px-3 py-2"
+                  value={doadorForm.email}
+                  onChange={(e) => setDoadorForm({ ...doadorForm, email: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="px-4 py-3 border-t border-slate-200 flex items-center justify-end gap-2">
+              <button
+                type="button"
+                className="rounded-lg border border-slate-200 bg-white px-4 py-2 font-semibold hover:bg-slate-50"
+                onClick={() => setDoadorForm(null)}
+              >
+                Cancelar
+              </button>
+              <button disabled={busy} className="rounded-lg bg-slate-900 text-white px-4 py-2 font-semibold disabled:opacity-60">
+                Salvar
+              </button>
+            </div>
+          </form>
+        </div>
+      ) : null}
 
-function downloadTextFile(filename: string, content: string, mime = "text/plain;charset=utf-8") {
-  const blob = new Blob([content], { type: mime });
-  const url = URL.createObjectURL(blob);
-  const a = document.createElement("a");
-  a.href = url;
-  a.download = filename;
-  document.body.appendChild(a);
-  a.click();
-  a.remove();
-  URL.revokeObjectURL(url);
+      <Card
+        title="Doações recebidas"
+        right={
+          <select
+            className="rounded-lg border border-slate-300 px-2 py-1 text-sm"
+            value={filtroDoador}
+            onChange={(e) => setFiltroDoador(e.target.value)}
+          >
+            <option value="">Todos os doadores</option>
+            {doadores.map((d) => (
+              <option key={d.id} value={d.id}>
+                {d.nome}
+              </option>
+            ))}
+          </select>
+        }
+      >
+        {porDoador.length > 0 && !filtroDoador ? (
+          <div className="mb-4 flex flex-wrap gap-2">
+            {porDoador.slice(0, 8).map((r) => (
+              <button
+                key={r.id}
+                onClick={() => setFiltroDoador(r.id)}
+                className="rounded-lg border border-slate-200 bg-slate-50 px-3 py-2 text-left text-sm hover:bg-slate-100"
+              >
+                <div className="font-semibold">{r.doador?.nome ?? "Doador removido"}</div>
+                <div className="text-xs text-slate-600">
+                  {r.doacoes} doações • {r.itens} itens • última {fmtDateBR(r.ultima)}
+                </div>
+              </button>
+            ))}
+          </div>
+        ) : null}
+
+        <div className="overflow-auto border border-slate-200 rounded-xl">
+          <table className="min-w-[760px] w-full text-sm">
+            <thead className="bg-slate-100">
+              <tr className="text-left">
+                <th className="p-2">Nº</th>
+                <th className="p-2">Data</th>
+                <th className="p-2">Doador</th>
+                <th className="p-2">Itens</th>
+                <th className="p-2 w-[200px]">Recibo</th>
+              </tr>
+            </thead>
+            <tbody>
+              {historico.length === 0 ? (
+                <tr>
+                  <td className="p-3 text-slate-600" colSpan={5}>
+                    Nenhuma doação registrada.
+                  </td>
+                </tr>
+              ) : (
+                historico.map((d) => (
+                  <tr key={d.id} className="border-t align-top">
+                    <td className="p-2 font-medium">{d.numero}</td>
+                    <td className="p-2">{fmtDateBR(d.data)}</td>
+                    <td className="p-2">
+                      {doadorById.get(d.doador_id)?.nome ?? "-"}
+                      {d.campanha_id ? (
+                        <div className="text-xs text-slate-600">{campanhaById.get(d.campanha_id)?.nome ?? "campanha"}</div>
+                      ) : null}
+                      <div className="text-xs text-slate-500">{d.registrado_por ?? ""}</div>
+                    </td>
+                    <td className="p-2">
+                      {d.itens.map((it, i) => (
+                        <div key={i}>
+                          {it.quantidade} {it.unidade} • {it.nome}
+                        </div>
+                      ))}
+                    </td>
+                    <td className="p-2">
+                      <div className="flex gap-2">
+                        <button
+                          onClick={() => imprimirRecibo(d)}
+                          className="inline-flex items-center gap-1 rounded-lg border border-slate-200 px-2 py-1 hover:bg-slate-50"
+                        >
+                          <Printer size={14} /> Imprimir
+                        </button>
+                        <button
+                          onClick={() => baixarRecibo(d)}
+                          className="inline-flex items-center gap-1 rounded-lg border border-slate-200 px-2 py-1 hover:bg-slate-50"
+                        >
+                          <FileDown size={14} /> Baixar
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </Card>
+    </div>
+  );
 }
 
+type CampanhaForm = { id: string | null; nome: string; inicio: string; fim: string; metas: CampanhaMeta[] };
 
-function CestasManager({
-  canEdit,
-  isAdmin,
-  inventory,
-  basketConfig,
-  setBasketConfig,
-  assembledBaskets,
-  setAssembledBaskets,
-  onReload,
-}:
-{
-  canEdit: boolean;
-  isAdmin: boolean;
-  inventory: EstoqueItem[];
-  basketConfig: BasketConfig;
-  setBasketConfig: (v: BasketConfig) => void;
-  assembledBaskets: number;
-  setAssembledBaskets: (v: number) => void;
-  onReload: () => Promise<void>;
-}) {
+function CampanhasPainel({ canEdit, estoque }: { canEdit: boolean; estoque: EstoqueItem[] }) {
+  const [campanhas, setCampanhas] = useState<Campanha[]>([]);
+  const [selId, setSelId] = useState("");
+  const [progresso, setProgresso] = useState<CampanhaProgresso | null>(null);
+  const [form, setForm] = useState<CampanhaForm | null>(null);
   const [busy, setBusy] = useState(false);
   const [err, setErr] = useState<string | null>(null);
-  const [ok, setOk] = useState<string | null>(null);
-
-  const [newItemId, setNewItemId] = useState<string>("");
-  const [newItemQtd, setNewItemQtd] = useState<number>(1);
-  const [qtdCestas, setQtdCestas] = useState<number>(1);
-
-  const inventorySorted = useMemo(() => {
-    return [...inventory].sort((a, b) =>
-      String(a.nome ?? "").localeCompare(String(b.nome ?? ""))
-    );
-  }, [inventory]);
-
-  const invById = useMemo(() => {
-    const m = new Map<string, EstoqueItem>();
-    for (const it of inventory) m.set(it.id, it);
-    return m;
-  }, [inventory]);
-
-  const addItem = () => {
-    setErr(null);
-    setOk(null);
-    if (!newItemId) return;
 
-    const inv = invById.get(newItemId);
-    if (!inv) return;
-
-    const already = basketConfig.items.some((x) => x.estoque_id === newItemId);
-    if (already) {
-      setErr("Este item já está na configuração da cesta.");
-      return;
+  const load = async () => {
+    try {
+      const cs = await fetchCampanhas();
+      setCampanhas(cs);
+      setSelId((cur) => (cur && cs.some((c) => c.id === cur) ? cur : cs.find((c) => campanhaAtiva(c, todayISO()))?.id ?? cs[0]?.id ?? ""));
+    } catch (e: any) {
+      setErr(e?.message ?? String(e));
     }
-
-    setBasketConfig({
-      ...basketConfig,
-      items: [
-        ...basketConfig.items,
-        {
-          estoque_id: inv.id,
-          nome: String(inv.nome ?? "Item"),
-          quantidade: Number(newItemQtd || 1),
-          unidade: String(inv.unidade || "unidade"),
-        },
-      ],
-    });
-
-    setNewItemId("");
-    setNewItemQtd(1);
-  };
-
-  const updateItemQtd = (id: string, qtd: number) => {
-    setBasketConfig({
-      ...basketConfig,
-      items: basketConfig.items.map((it) =>
-        it.estoque_id === id ? { ...it, quantidade: Number(qtd) } : it
-      ),
-    });
   };
 
-  const removeItem = (id: string) => {
-    setBasketConfig({
-      ...basketConfig,
-      items: basketConfig.items.filter((it) => it.estoque_id !== id),
-    });
-  };
-
-  const saveConfig = async () => {
-    setErr(null);
-    setOk(null);
-    if (!supabase) return;
+  useEffect(() => {
+    load();
+  }, []);
 
-    setBusy(true);
-    const { error } = await supabase
-      .from("configuracoes")
-      .upsert([{ key: "basket_config", value: basketConfig }], { onConflict: "key" });
-    setBusy(false);
+  const sel = campanhas.find((c) => c.id === selId) ?? null;
 
-    if (error) {
-      setErr(error.message);
+  useEffect(() => {
+    if (!sel) {
+      setProgresso(null);
       return;
     }
-    setOk("Configuração salva.");
-  };
-
-
-const resetCestas = async () => {
-  setErr(null);
-  setOk(null);
-  if (!supabase) return;
-  if (!isAdmin) {
-    setErr("Apenas admin pode zerar o contador de cestas.");
-    return;
-  }
-  if (!confirm("Zerar o contador de cestas montadas? Isso não afeta o estoque, apenas o número do relatório.")) return;
-
-  setBusy(true);
-  const { error } = await supabase
-    .from("configuracoes")
-    .upsert([{ key: "assembled_baskets", value: 0 }], { onConflict: "key" });
-  setBusy(false);
-
-  if (error) {
-    setErr("Falha ao zerar contador: " + error.message);
-    return;
-  }
+    fetchProgressoCampanha(sel)
+      .then(setProgresso)
+      .catch((e: any) => setErr(e?.message ?? String(e)));
+  }, [sel]);
+
+  const itensEstoque = useMemo(
+    () => [...estoque].sort((a, b) => (a.nome ?? "").localeCompare(b.nome ?? "")),
+    [estoque]
+  );
+  const estoqueById = useMemo(() => new Map(estoque.map((i) => [i.id, i] as const)), [estoque]);
 
-  setAssembledBaskets(0);
-  setOk("Contador de cestas zerado.");
-  await onReload();
-};
+  const setMeta = (idx: number, patch: Partial<CampanhaMeta>) =>
+    setForm((f) => (f ? { ...f, metas: f.metas.map((m, i) => (i === idx ? { ...m, ...patch } : m)) } : f));
 
-  const registerBasket = async () => {
+  const salvar = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!supabase || !form) return;
     setErr(null);
-    setOk(null);
-    if (!supabase) return;
-    if (!canEdit) {
-      setErr("Você está em modo somente leitura.");
+    const metas = form.metas
+      .map((m) => ({
+        estoque_id: m.estoque_id || null,
+        nome: m.nome.trim(),
+        unidade: m.unidade.trim() || "unidade",
+        meta: Number(m.meta || 0),
+      }))
+      .filter((m) => m.estoque_id || m.nome);
+    if (!form.nome.trim()) {
+      setErr("Informe o nome da campanha.");
       return;
     }
-
-    const n = Math.max(1, Number(qtdCestas || 1));
-    if (basketConfig.items.length === 0) {
-      setErr("Configure pelo menos 1 item na cesta antes de registrar.");
+    if (!form.inicio || !form.fim || form.fim < form.inicio) {
+      setErr("Período inválido.");
       return;
     }
-
-    // Validação: estoque suficiente
-    const needed: Array<{ id: string; nome: string; need: number; have: number }> = [];
-    for (const it of basketConfig.items) {
-      const inv = invById.get(it.estoque_id);
-      const have = Number(inv?.quantidade ?? 0);
-      const need = Number(it.quantidade ?? 0) * n;
-      needed.push({ id: it.estoque_id, nome: it.nome, need, have });
+    if (metas.some((m) => !m.estoque_id)) {
+      setErr("Escolha o item do estoque de cada meta.");
+      return;
     }
-    const insufficient = needed.filter((x) => x.have < x.need);
-    if (insufficient.length > 0) {
-      setErr(
-        "Estoque insuficiente para: " +
-          insufficient.map((x) => `${x.nome} (precisa ${x.need}, tem ${x.have})`).join(", ")
-      );
+    if (metas.some((m) => !(m.meta > 0))) {
+      setErr("Cada meta precisa de quantidade maior que zero.");
       return;
     }
 
+    const payload = { nome: form.nome.trim(), inicio: form.inicio, fim: form.fim, metas };
     setBusy(true);
-
-    // Baixa automática (decrementa estoque)
-    for (const it of needed) {
-      const inv = invById.get(it.id);
-      const current = Number(inv?.quantidade ?? 0);
-      const next = current - it.need;
-
-      const { error } = await supabase
-        .from("estoque")
-        .update({ quantidade: next, quantity: next })
-        .eq("id", it.id);
-
-      if (error) {
-        setBusy(false);
-        setErr("Erro ao dar baixa no item: " + it.nome + " — " + error.message);
-        return;
-      }
-    }
-
-    // Atualiza contador de cestas montadas
-    const newCount = assembledBaskets + n;
-    const { error: cfgErr } = await supabase
-      .from("configuracoes")
-      .upsert([{ key: "assembled_baskets", value: newCount }], { onConflict: "key" });
-
+    const { error } = form.id
+      ? await supabase.from("campanhas").update(payload).eq("id", form.id)
+      : await supabase.from("campanhas").insert({ id: genTextId(), ...payload });
     setBusy(false);
-
-    if (cfgErr) {
-      setErr("Baixa feita, mas falhou ao atualizar contador: " + cfgErr.message);
+    if (error) {
+      setErr(error.message);
       return;
     }
-
-    setAssembledBaskets(newCount);
-    setOk(`Cesta registrada! Baixa automática aplicada (${n}x).`);
-    await onReload();
+    setForm(null);
+    await load();
   };
 
   return (
-    <div className="space-y-4">
-      <Card title="Cestas Básicas"
-        right={
-          <div className="flex items-center gap-2">
-            <Badge>{assembledBaskets} cestas montadas</Badge>
-            {isAdmin ? (
-              <button
-                onClick={resetCestas}
-                disabled={busy}
-                className="inline-flex items-center gap-2 rounded-lg border border-slate-200 bg-white px-3 py-1.5 text-sm hover:bg-slate-50 disabled:opacity-60"
-                title="Zerar contador de cestas"
-              >
-                <Trash2 size={16} />
-                Zerar
-              </button>
-            ) : null}
-          </div>
-        }
-      >
-        <div className="text-slate-700">
-          Configure os itens da cesta e, ao registrar uma cesta, o sistema dá baixa automática no estoque.
-        </div>
-
-        {err && (
-          <div className="mt-3 rounded-lg border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-800">
-            {err}
-          </div>
-        )}
-        {ok && (
-          <div className="mt-3 rounded-lg border border-emerald-200 bg-emerald-50 px-3 py-2 text-sm text-emerald-800">
-            {ok}
-          </div>
-        )}
-
-        <div className="mt-4 grid grid-cols-1 gap-3 md:grid-cols-2">
-          <div>
-            <label className="block text-sm font-medium text-slate-700">Nome da cesta</label>
-            <input
-              className="mt-1 w-full rounded-lg border border-slate-300 px-3 py-2"
-              value={basketConfig.name}
-              onChange={(e) => setBasketConfig({ ...basketConfig, name: e.target.value })}
-            />
-          </div>
-
-          <div className="flex items-end gap-2">
-            <button
-              onClick={saveConfig}
-              disabled={!canEdit || busy}
-              className="rounded-lg bg-slate-900 px-4 py-2 font-semibold text-white disabled:opacity-60"
-            >
-              {busy ? "Salvando..." : "Salvar configuração"}
-            </button>
-          </div>
-        </div>
-
-        <div className="mt-5 grid grid-cols-1 gap-3 md:grid-cols-[1fr_140px_120px]">
-          <div>
-            <label className="block text-sm font-medium text-slate-700">Adicionar item do estoque</label>
+    <Card
+      title="Campanhas"
+      right={
+        <div className="flex items-center gap-2">
+          {campanhas.length > 0 ? (
             <select
-              className="mt-1 w-full rounded-lg border border-slate-300 px-3 py-2"
-              value={newItemId}
-              onChange={(e) => setNewItemId(e.target.value)}
+              className="rounded-lg border border-slate-300 px-2 py-1 text-sm"
+              value={selId}
+              onChange={(e) => setSelId(e.target.value)}
             >
-              <option value="">Selecione…</option>
-              {inventorySorted.map((i) => (
-                <option key={i.id} value={i.id}>
-                  {i.nome ?? "(sem nome)"} — {i.quantidade} {i.unidade}
+              {campanhas.map((c) => (
+                <option key={c.id} value={c.id}>
+                  {c.nome}
                 </option>
               ))}
             </select>
+          ) : null}
+          {canEdit ? (
+            <button
+              onClick={() =>
+                setForm({
+                  id: null,
+                  nome: "",
+                  inicio: todayISO(),
+                  fim: todayISO(),
+                  metas: [{ estoque_id: null, nome: "", unidade: "kg", meta: 0 }],
+                })
+              }
+              className="inline-flex items-center gap-1 rounded-lg bg-slate-900 px-3 py-1.5 text-sm text-white"
+            >
+              <Plus size={14} /> Nova campanha
+            </button>
+          ) : null}
+        </div>
+      }
+    >
+      {err && <div className="mb-3 rounded-lg border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-800">{err}</div>}
+
+      {!sel ? (
+        <div className="text-sm text-slate-600">Nenhuma campanha cadastrada.</div>
+      ) : (
+        <div className="space-y-3">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <div className="text-sm text-slate-700">
+              {fmtDateBR(sel.inicio)} a {fmtDateBR(sel.fim)} • {progresso?.doacoes ?? 0} doações
+              {campanhaAtiva(sel, todayISO()) ? <span className="ml-2"><Badge>em andamento</Badge></span> : null}
+            </div>
+            {canEdit ? (
+              <button
+                onClick={() => setForm({ id: sel.id, nome: sel.nome, inicio: sel.inicio, fim: sel.fim, metas: sel.metas })}
+                className="inline-flex items-center gap-1 rounded-lg border border-slate-200 px-2 py-1 text-sm hover:bg-slate-50"
+              >
+                <Pencil size={14} /> Editar
+              </button>
+            ) : null}
           </div>
 
-          <div>
-            <label className="block text-sm font-medium text-slate-700">Qtd / cesta</label>
-            <input
-              type="number"
-              min={0}
-              step={1}
-              className="mt-1 w-full rounded-lg border border-slate-300 px-3 py-2"
-              value={newItemQtd}
-              onChange={(e) => setNewItemQtd(Number(e.target.value))}
-            />
-          </div>
-
-          <div className="flex items-end">
-            <button
-              onClick={addItem}
-              disabled={!canEdit || busy || !newItemId}
-              className="w-full rounded-lg border border-slate-200 bg-white px-3 py-2 font-semibold hover:bg-slate-50 disabled:opacity-60"
-            >
-              Adicionar
-            </button>
+          <div>
+            <div className="flex items-center justify-between text-sm font-semibold text-slate-900">
+              <span className="inline-flex items-center gap-1">
+                <Target size={16} /> Geral
+              </span>
+              <span>{(progresso?.geral ?? 0).toFixed(0)}%</span>
+            </div>
+            <div className="mt-1 h-3 rounded-full bg-slate-100">
+              <div className="h-3 rounded-full bg-emerald-500" style={{ width: `${Math.min(100, progresso?.geral ?? 0)}%` }} />
+            </div>
           </div>
-        </div>
 
-        <div className="mt-4">
-          {basketConfig.items.length === 0 ? (
-            <div className="text-slate-600">Nenhum item configurado ainda.</div>
+          {progresso && progresso.linhas.length === 0 ? (
+            <div className="text-sm text-slate-600">Campanha sem metas por item.</div>
           ) : (
             <div className="space-y-2">
-              {basketConfig.items.map((it) => {
-                const inv = invById.get(it.estoque_id);
-                return (
-                  <div
-                    key={it.estoque_id}
-                    className="flex flex-col gap-2 rounded-xl border border-slate-200 px-3 py-2 md:flex-row md:items-center md:justify-between"
-                  >
-                    <div>
-                      <div className="font-semibold text-slate-900">{it.nome}</div>
-                      <div className="text-xs text-slate-600">
-                        Estoque: {Number(inv?.quantidade ?? 0)} {String(inv?.unidade ?? "unidade")}
-                      </div>
-                    </div>
-
-                    <div className="flex items-center gap-2">
-                      <input
-                        type="number"
-                        min={0}
-                        step={1}
-                        className="w-28 rounded-lg border border-slate-300 px-2 py-1"
-                        value={it.quantidade}
-                        onChange={(e) => updateItemQtd(it.estoque_id, Number(e.target.value))}
-                        disabled={!canEdit || busy}
-                      />
-                      <span className="text-sm text-slate-600">{it.unidade}</span>
-                      <button
-                        onClick={() => removeItem(it.estoque_id)}
-                        className="rounded-lg border border-slate-200 bg-white px-3 py-1.5 text-sm hover:bg-slate-50 disabled:opacity-60"
-                        disabled={!canEdit || busy}
-                      >
-                        Remover
-                      </button>
+              {progresso?.linhas.map((l, idx) => (
+                <div key={idx}>
+                  <div className="flex items-center justify-between text-sm">
+                    <span>{l.meta.nome}</span>
+                    <span className="text-slate-600">
+                      {l.recebido} / {l.meta.meta} {l.meta.unidade} • {l.pct.toFixed(0)}%
+                    </span>
+                  </div>
+                  {l.semConversao > 0 ? (
+                    <div className="text-xs text-amber-700">
+                      {l.semConversao} linha(s) de doação sem conversão para {l.meta.unidade} (não contadas)
                     </div>
+                  ) : null}
+                  <div className="mt-1 h-2 rounded-full bg-slate-100">
+                    <div
+                      className={`h-2 rounded-full ${l.pct >= 100 ? "bg-emerald-500" : "bg-amber-400"}`}
+                      style={{ width: `${Math.min(100, l.pct)}%` }}
+                    />
                   </div>
-                );
-              })}
+                </div>
+              ))}
             </div>
           )}
+          <div className="text-xs text-slate-500">
+            Conta as doações registradas com esta campanha em todas as unidades: o item da meta e o item de mesmo
+            nome nas outras unidades, convertidos para a unidade da meta.
+          </div>
         </div>
+      )}
 
-        <div className="mt-5 flex flex-col gap-3 md:flex-row md:items-end md:justify-between">
-          <div className="w-full md:w-56">
-            <label className="block text-sm font-medium text-slate-700">Quantidade de cestas</label>
-            <input
-              type="number"
-              min={1}
-              step={1}
-              className="mt-1 w-full rounded-lg border border-slate-300 px-3 py-2"
-              value={qtdCestas}
-              onChange={(e) => setQtdCestas(Number(e.target.value))}
-              disabled={!canEdit || busy}
-            />
-          </div>
+      {form ? (
+        <div className="fixed inset-0 bg-black/40 flex items-center justify-center p-4 z-50">
+          <form onSubmit={salvar} className="w-full max-w-2xl bg-white rounded-2xl border border-slate-200 shadow-lg">
+            <div className="px-4 py-3 border-b border-slate-200 flex items-center justify-between">
+              <div className="font-bold text-slate-900">{form.id ? "Editar campanha" : "Nova campanha"}</div>
+              <button type="button" className="text-slate-600 hover:text-slate-900 px-2 py-1" onClick={() => setForm(null)}>
+                Fechar
+              </button>
+            </div>
+            <div className="p-4 space-y-3">
+              <div className="grid grid-cols-1 md:grid-cols-[1fr_160px_160px] gap-3">
+                <div>
+                  <label className="block text-sm font-medium text-slate-700">Nome</label>
+                  <input
+                    className="mt-1 w-full rounded-lg border border-slate-300 px-3 py-2"
+                    placeholder="Agosto Solidário"
+                    value={form.nome}
+                    onChange={(e) => setForm({ ...form, nome: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-slate-700">Início</label>
+                  <input
+                    type="date"
+                    className="mt-1 w-full rounded-lg border border-slate-300 px-3 py-2"
+                    value={form.inicio}
+                    onChange={(e) => setForm({ ...form, inicio: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-slate-700">Fim</label>
+                  <input
+                    type="date"
+                    className="mt-1 w-full rounded-lg border border-slate-300 px-3 py-2"
+                    value={form.fim}
+                    onChange={(e) => setForm({ ...form, fim: e.target.value })}
+                  />
+                </div>
+              </div>
+
+              <div>
+                <div className="text-sm font-medium text-slate-700">Metas por item</div>
+                <div className="mt-1 space-y-2">
+                  {form.metas.map((m, idx) => {
+                    const item = m.estoque_id ? estoqueById.get(m.estoque_id) ?? null : null;
+                    return (
+                      <div key={idx} className="flex gap-2">
+                        <select
+                          className="flex-1 rounded-lg border border-slate-300 px-2 py-1"
+                          value={m.estoque_id ?? ""}
+                          onChange={(e) => {
+                            const it = estoqueById.get(e.target.value);
+                            if (it) setMeta(idx, { estoque_id: it.id, nome: it.nome ?? "", unidade: it.unidade });
+                          }}
+                        >
+                          <option value="">{m.nome ? `${m.nome} (escolha o item)` : "Escolha o item"}</option>
+                          {m.estoque_id && !item ? <option value={m.estoque_id}>{m.nome}</option> : null}
+                          {itensEstoque.map((it) => (
+                            <option key={it.id} value={it.id}>
+                              {it.nome} ({it.unidade})
+                            </option>
+                          ))}
+                        </select>
+                        <input
+                          type="number"
+                          min={0}
+                          className="w-28 rounded-lg border border-slate-300 px-2 py-1"
+                          value={m.meta}
+                          onChange={(e) => setMeta(idx, { meta: Number(e.target.value) })}
+                        />
+                        <select
+                          className="w-24 rounded-lg border border-slate-300 px-2 py-1"
+                          value={m.unidade}
+                          onChange={(e) => setMeta(idx, { unidade: e.target.value })}
+                        >
+                          {[...new Set([m.unidade, ...(item ? unidadesCompativeis(item) : UNIDADES_MEDIDA)])].map((u) => (
+                            <option key={u} value={u}>
+                              {u}
+                            </option>
+                          ))}
+                        </select>
+                        <button
+                          type="button"
+                          onClick={() => setForm({ ...form, metas: form.metas.filter((_, i) => i !== idx) })}
+                          className="text-slate-400 hover:text-red-700"
+                          title="Remover meta"
+                        >
+                          <Trash2 size={16} />
+                        </button>
+                      </div>
+                    );
+                  })}
+                </div>
+                <button
+                  type="button"
+                  onClick={() =>
+                    setForm({ ...form, metas: [...form.metas, { estoque_id: null, nome: "", unidade: "kg", meta: 0 }] })
+                  }
+                  className="mt-2 inline-flex items-center gap-1 rounded-lg border border-slate-200 bg-white px-3 py-1.5 text-sm hover:bg-slate-50"
+                >
+                  <Plus size={14} /> Adicionar meta
+                </button>
+              </div>
+            </div>
+            <div className="px-4 py-3 border-t border-slate-200 flex items-center justify-end gap-2">
+              <button
+                type="button"
+                className="rounded-lg border border-slate-200 bg-white px-4 py-2 font-semibold hover:bg-slate-50"
+                onClick={() => setForm(null)}
+              >
+                Cancelar
+              </button>
+              <button disabled={busy} className="rounded-lg bg-slate-900 text-white px-4 py-2 font-semibold disabled:opacity-60">
+                Salvar
+              </button>
+            </div>
+          </form>
+        </div>
+      ) : null}
+    </Card>
+  );
+}
+
+function PlanejamentoCompras({
+  canEdit,
+  eventos,
+  templates,
+  estoque,
+  onReload,
+}: {
+  canEdit: boolean;
+  eventos: Evento[];
+  templates: BasketTemplate[];
+  estoque: EstoqueItem[];
+  onReload: () => Promise<void>;
+}) {
+  const [dias, setDias] = useState(30);
+  const [manterMinimo, setManterMinimo] = useState(true);
+  const [convidados, setConvidados] = useState<Record<string, number>>({});
+  // ajustes feitos na tela antes de salvar (modelo e cestas por evento)
+  const [ajustes, setAjustes] = useState<Record<string, { modeloId?: string; cestas?: number }>>({});
+  const [lotes, setLotes] = useState<EstoqueLote[]>([]);
+  const [busy, setBusy] = useState(false);
+  const [err, setErr] = useState<string | null>(null);
+
+  const hoje = todayISO();
+  const limite = addDaysISO(hoje, dias);
+  const futuros = useMemo(
+    () => eventos.filter((ev) => ev.status === "planejado" && ev.date >= hoje && ev.date <= limite),
+    [eventos, hoje, limite]
+  );
+  const idsFuturos = futuros.map((ev) => ev.id).join(",");
+
+  // Sem previsão salva, a lista de convidados é a melhor estimativa de cestas
+  useEffect(() => {
+    if (!supabase || !idsFuturos) {
+      setConvidados({});
+      return;
+    }
+    supabase
+      .from("eventos_participantes")
+      .select("evento_id")
+      .in("evento_id", idsFuturos.split(","))
+      .then(({ data, error }) => {
+        if (error) {
+          setErr(error.message);
+          return;
+        }
+        const m: Record<string, number> = {};
+        for (const r of (data as any[]) ?? []) m[String(r.evento_id)] = (m[String(r.evento_id)] ?? 0) + 1;
+        setConvidados(m);
+      });
+  }, [idsFuturos]);
+
+  const planos: PlanoEvento[] = futuros.map((ev) => ({
+    evento: ev,
+    modeloId: ajustes[ev.id]?.modeloId ?? ev.modelo_id ?? templates[0]?.id ?? "",
+    cestas: ajustes[ev.id]?.cestas ?? ev.cestas_previstas ?? convidados[ev.id] ?? 0,
+  }));
+
+  const idsItens = useMemo(
+    () => [...new Set(templates.flatMap((t) => t.items.map((i) => i.estoque_id)))].sort().join(","),
+    [templates]
+  );
+  useEffect(() => {
+    fetchLotesDosItens(idsItens ? idsItens.split(",") : [])
+      .then(setLotes)
+      .catch((e: any) => setErr(e?.message ?? String(e)));
+  }, [idsItens, estoque]);
+
+  const linhas = planejarCompras(planos, templates, estoque, lotes, manterMinimo);
+  const aComprar = linhas.filter((l) => l.comprar > 0 || l.semConversao.length > 0);
+  const totalCestas = planos.reduce((acc, p) => acc + p.cestas, 0);
+
+  const ajustar = (id: string, patch: { modeloId?: string; cestas?: number }) =>
+    setAjustes((prev) => ({ ...prev, [id]: { ...prev[id], ...patch } }));
+
+  const salvarPrevisoes = async () => {
+    if (!supabase) return;
+    setErr(null);
+    setBusy(true);
+    try {
+      for (const p of planos.filter((x) => ajustes[x.evento.id])) {
+        const { error } = await supabase
+          .from("eventos_entrega")
+          .update({ cestas_previstas: p.cestas, modelo_id: p.modeloId || null })
+          .eq("id", p.evento.id);
+        if (error) throw new Error(error.message);
+      }
+      setAjustes({});
+      await onReload();
+    } catch (e: any) {
+      setErr(e?.message ?? String(e));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const downloadCSV = () => {
+    const sep = ";";
+    const esc = (v: any) => {
+      const s = String(v ?? "");
+      const out = s.replace(/"/g, '""');
+      return /[;"\n\r]/.test(out) ? `"${out}"` : out;
+    };
+    const line = (...cols: any[]) => cols.map(esc).join(sep);
+
+    const lines: string[] = [];
+    lines.push(line("Lista de compras / pedido de doação"));
+    lines.push(line("Eventos até", fmtDateBR(limite), "Cestas previstas", totalCestas));
+    lines.push(line("Gerado em", new Date().toLocaleString("pt-BR")));
+    lines.push("");
+    lines.push(line("Evento", "Data", "Modelo", "Cestas"));
+    planos.forEach((p) =>
+      lines.push(line(p.evento.title, fmtDateBR(p.evento.date), templates.find((t) => t.id === p.modeloId)?.name ?? "-", p.cestas))
+    );
+    lines.push("");
+    lines.push(line("Item", "Categoria", "Unidade", "Necessário", "Em estoque", "Vence antes do uso", "Comprar", "Sem conversão"));
+    linhas.forEach((l) =>
+      lines.push(
+        line(l.nome, prettyCat(l.categoria), l.unidade, l.necessario, l.emEstoque, l.vencendo, l.comprar, l.semConversao.join(", "))
+      )
+    );
+    const csv = "\ufeff" + lines.join("\n");
+    downloadTextFile(`lista-compras-${hoje}.csv`, csv, "text/csv;charset=utf-8");
+  };
+
+  const imprimir = () => {
+    // sem "noopener": com ele o window.open devolve null e não há onde escrever
+    const w = window.open("", "_blank");
+    if (!w) return;
+    w.opener = null;
+    const rows = aComprar
+      .map(
+        (l) =>
+          `<tr><td>${escapeHtml(l.nome)}</td><td>${escapeHtml(prettyCat(l.categoria))}</td><td>${
+            l.comprar > 0 ? `${escapeHtml(l.comprar)} ${escapeHtml(l.unidade)}` : ""
+          }${
+            l.semConversao.length > 0
+              ? ` <span class="muted">(sem conversão de ${escapeHtml(l.semConversao.join(", "))} para ${escapeHtml(l.unidade)})</span>`
+              : ""
+          }</td><td>${escapeHtml(fmtDateBR(l.primeiroEvento))}</td></tr>`
+      )
+      .join("");
+    w.document.write(`<!doctype html><html><head><meta charset="utf-8"/><title>Lista de compras ASA</title>
+      <style>
+        body{font-family: ui-sans-serif, system-ui, -apple-system, Segoe UI, Roboto, Arial; padding:24px; color:#0f172a;}
+        h1{font-size:20px;margin:0 0 8px;}
+        table{width:100%; border-collapse:collapse; margin-top:8px;}
+        th,td{border:1px solid #e2e8f0; padding:8px; font-size:12px; text-align:left;}
+        th{background:#f1f5f9;}
+        .muted{color:#475569; font-size:12px;}
+      </style>
+    </head><body>
+      <h1>Lista de compras / pedido de doação</h1>
+      <div class="muted">${planos.length} eventos até ${escapeHtml(fmtDateBR(limite))} • ${totalCestas} cestas previstas</div>
+      <table><thead><tr><th>Item</th><th>Categoria</th><th>Quantidade</th><th>Necessário até</th></tr></thead>
+      <tbody>${rows || '<tr><td colspan="4">Estoque suficiente para os eventos planejados.</td></tr>'}</tbody></table>
+    </body></html>`);
+    w.document.close();
+    w.focus();
+    w.print();
+  };
 
+  return (
+    <Card
+      title="Planejamento de compras"
+      right={
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            className="rounded-lg border border-slate-300 px-2 py-1 text-sm"
+            value={dias}
+            onChange={(e) => setDias(Number(e.target.value))}
+          >
+            {[15, 30, 60, 90].map((d) => (
+              <option key={d} value={d}>
+                Próximos {d} dias
+              </option>
+            ))}
+          </select>
           <button
-            onClick={registerBasket}
-            disabled={!canEdit || busy}
-            className="rounded-lg bg-emerald-600 px-4 py-2 font-semibold text-white disabled:opacity-60"
+            onClick={downloadCSV}
+            className="inline-flex items-center gap-1 rounded-lg border border-slate-200 bg-white px-3 py-1.5 text-sm hover:bg-slate-50"
           >
-            {busy ? "Processando..." : "Registrar cesta e dar baixa"}
+            <FileDown size={14} /> CSV
+          </button>
+          <button
+            onClick={imprimir}
+            className="inline-flex items-center gap-1 rounded-lg border border-slate-200 bg-white px-3 py-1.5 text-sm hover:bg-slate-50"
+          >
+            <Printer size={14} /> Imprimir
           </button>
         </div>
-      </Card>
-    </div>
+      }
+    >
+      {err && <div className="mb-3 rounded-lg border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-800">{err}</div>}
+
+      {planos.length === 0 ? (
+        <div className="text-sm text-slate-600">Nenhum evento planejado nos próximos {dias} dias.</div>
+      ) : (
+        <div className="space-y-4">
+          <div className="overflow-auto border border-slate-200 rounded-xl">
+            <table className="min-w-[640px] w-full text-sm">
+              <thead className="bg-slate-100">
+                <tr className="text-left">
+                  <th className="p-2">Evento</th>
+                  <th className="p-2">Data</th>
+                  <th className="p-2">Modelo de cesta</th>
+                  <th className="p-2 w-32">Cestas previstas</th>
+                </tr>
+              </thead>
+              <tbody>
+                {planos.map((p) => (
+                  <tr key={p.evento.id} className="border-t">
+                    <td className="p-2 font-medium">{p.evento.title}</td>
+                    <td className="p-2">{fmtDateBR(p.evento.date)}</td>
+                    <td className="p-2">
+                      <select
+                        className="w-full rounded-lg border border-slate-300 px-2 py-1"
+                        value={p.modeloId}
+                        onChange={(e) => ajustar(p.evento.id, { modeloId: e.target.value })}
+                      >
+                        {templates.map((t) => (
+                          <option key={t.id} value={t.id}>
+                            {t.name}
+                          </option>
+                        ))}
+                      </select>
+                    </td>
+                    <td className="p-2">
+                      <input
+                        type="number"
+                        min={0}
+                        className="w-full rounded-lg border border-slate-300 px-2 py-1"
+                        value={p.cestas}
+                        onChange={(e) => ajustar(p.evento.id, { cestas: Math.max(0, Number(e.target.value)) })}
+                      />
+                      {p.evento.cestas_previstas == null && !ajustes[p.evento.id] ? (
+                        <div className="text-xs text-slate-500">pelos convidados</div>
+                      ) : null}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <label className="inline-flex items-center gap-2 text-sm text-slate-700">
+              <input type="checkbox" checked={manterMinimo} onChange={(e) => setManterMinimo(e.target.checked)} />
+              Manter o estoque mínimo de cada item
+            </label>
+            {canEdit && Object.keys(ajustes).length > 0 ? (
+              <button
+                onClick={salvarPrevisoes}
+                disabled={busy}
+                className="rounded-lg bg-slate-900 px-3 py-1.5 text-sm font-semibold text-white disabled:opacity-60"
+              >
+                {busy ? "Salvando..." : "Salvar previsões nos eventos"}
+              </button>
+            ) : null}
+          </div>
+
+          <div className="overflow-auto border border-slate-200 rounded-xl">
+            <table className="min-w-[760px] w-full text-sm">
+              <thead className="bg-slate-100">
+                <tr className="text-left">
+                  <th className="p-2">Item</th>
+                  <th className="p-2">Necessário</th>
+                  <th className="p-2">Em estoque</th>
+                  <th className="p-2">Vence antes do uso</th>
+                  <th className="p-2">Comprar / pedir</th>
+                </tr>
+              </thead>
+              <tbody>
+                {linhas.length === 0 ? (
+                  <tr>
+                    <td className="p-3 text-slate-600" colSpan={5}>
+                      Os modelos escolhidos não têm itens.
+                    </td>
+                  </tr>
+                ) : (
+                  linhas.map((l) => (
+                    <tr key={l.estoque_id} className="border-t">
+                      <td className="p-2">
+                        <div className="font-medium">{l.nome}</div>
+                        <div className="text-xs text-slate-500">{prettyCat(l.categoria)}</div>
+                      </td>
+                      <td className="p-2">
+                        {l.necessario} {l.unidade}
+                      </td>
+                      <td className="p-2">{l.emEstoque}</td>
+                      <td className="p-2">{l.vencendo > 0 ? <span className="text-amber-700">{l.vencendo}</span> : "-"}</td>
+                      <td className="p-2 font-semibold">
+                        {l.comprar > 0 ? (
+                          <span className="text-red-700">{l.comprar}</span>
+                        ) : l.semConversao.length === 0 ? (
+                          <span className="text-emerald-700">ok</span>
+                        ) : null}
+                        {l.semConversao.length > 0 ? (
+                          <div className="text-xs font-normal text-amber-700">
+                            sem conversão de {l.semConversao.join(", ")} para {l.unidade}
+                          </div>
+                        ) : null}
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </Card>
   );
 }
 
 function Relatorios({
   estoque,
   beneficiarios,
+  templates,
+  unidades,
   assembledBaskets,
   alertasValidade,
   alertasMinimo,
 }: {
   estoque: EstoqueItem[];
   beneficiarios: Beneficiario[];
+  templates: BasketTemplate[];
+  unidades: Unidade[]; // preenchido só na visão consolidada
   assembledBaskets: number;
   alertasValidade: AlertValidade[];
   alertasMinimo: AlertMinimo[];
@@ -1982,6 +9078,23 @@ function Relatorios({
       .reduce((acc, i) => acc + Number(i.quantidade || 0), 0);
   }, [estoque]);
 
+  // Consolidado do distrito: uma linha por unidade
+  const porUnidade = useMemo(
+    () =>
+      unidades.map((u) => {
+        const bs = beneficiarios.filter((b) => b.unidade_id === u.id);
+        return {
+          unidade: u,
+          beneficiariosAtivos: bs.filter((b) => !b.archived_at && b.status === "ativo").length,
+          entregasNoPeriodo: bs.reduce((acc, b) => acc + b.history.filter((h) => inRange(h.date)).length, 0),
+          itensEstoque: estoque
+            .filter((i) => i.unidade_id === u.id)
+            .reduce((acc, i) => acc + Number(i.quantidade || 0), 0),
+        };
+      }),
+    [unidades, beneficiarios, estoque, rangeStart, rangeEnd]
+  );
+
   const printReport = () => {
     const html = document.getElementById("asa-report")?.innerHTML;
     if (!html) return;
@@ -2027,17 +9140,31 @@ function Relatorios({
     lines.push(line("Estoque atual - roupas (soma)", roupasAtual));
     lines.push("");
 
+    if (porUnidade.length > 0) {
+      lines.push(line("Por unidade", "Beneficiários ativos", "Entregas no período", "Itens em estoque"));
+      porUnidade.forEach((r) =>
+        lines.push(line(r.unidade.nome, r.beneficiariosAtivos, r.entregasNoPeriodo, r.itensEstoque))
+      );
+      lines.push("");
+    }
+
+    lines.push(line("Cestas por modelo", "Montadas"));
+    templates.forEach((t) => lines.push(line(t.name, t.assembled_count)));
+    lines.push("");
+
     lines.push(line("Estoque por categoria (atual)", "Quantidade"));
     Object.entries(sumByCategorias)
       .sort((a, b) => a[0].localeCompare(b[0]))
       .forEach(([k, v]) => lines.push(line(prettyCat(k), v)));
     lines.push("");
 
-    lines.push(line("Alertas - validade (até 7 dias)", "Validade", "Dias para vencer"));
+    lines.push(line("Alertas - validade (até 7 dias)", "Quantidade no lote", "Validade", "Dias para vencer"));
     if (alertasValidade.length === 0) {
-      lines.push(line("Nenhum", "", ""));
+      lines.push(line("Nenhum", "", "", ""));
     } else {
-      alertasValidade.forEach((a) => lines.push(line(a.nome, fmtDateBR(a.validade ?? null), a.dias_para_vencer ?? "")));
+      alertasValidade.forEach((a) =>
+        lines.push(line(a.nome, a.quantidade ?? "", fmtDateBR(a.validade ?? null), a.dias_para_vencer ?? ""))
+      );
     }
     lines.push("");
 
@@ -2113,6 +9240,54 @@ function Relatorios({
           <span className="pill">Estoque atual (roupas): <b>{roupasAtual}</b></span>
         </div>
 
+        {porUnidade.length > 0 && (
+          <>
+            <h2 className="font-semibold">Por unidade</h2>
+            <table>
+              <thead>
+                <tr>
+                  <th>Unidade</th>
+                  <th>Beneficiários ativos</th>
+                  <th>Entregas no período</th>
+                  <th>Itens em estoque</th>
+                </tr>
+              </thead>
+              <tbody>
+                {porUnidade.map((r) => (
+                  <tr key={r.unidade.id}>
+                    <td>{r.unidade.nome}</td>
+                    <td>{r.beneficiariosAtivos}</td>
+                    <td>{r.entregasNoPeriodo}</td>
+                    <td>{r.itensEstoque}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </>
+        )}
+
+        {templates.length > 0 && (
+          <>
+            <h2 className="font-semibold">Cestas por modelo</h2>
+            <table>
+              <thead>
+                <tr>
+                  <th>Modelo</th>
+                  <th>Montadas</th>
+                </tr>
+              </thead>
+              <tbody>
+                {templates.map((t) => (
+                  <tr key={t.id}>
+                    <td>{t.name}</td>
+                    <td>{t.assembled_count}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </>
+        )}
+
         <h2 className="font-semibold">Estoque por categoria (atual)</h2>
         <table>
           <thead>
@@ -2174,15 +9349,17 @@ function Relatorios({
                 <tr>
                   <th>Item</th>
                   <th>Categoria</th>
+                  <th>Qtd no lote</th>
                   <th>Validade</th>
                   <th>Dias p/ vencer</th>
                 </tr>
               </thead>
               <tbody>
                 {alertasValidade.map((a) => (
-                  <tr key={a.id}>
+                  <tr key={a.lote_id ?? a.id}>
                     <td>{a.nome}</td>
                     <td>{prettyCat(a.categoria)}</td>
+                    <td>{a.quantidade ?? "-"}</td>
                     <td>{fmtDateBR(a.validade ?? null)}</td>
                     <td>{a.dias_para_vencer}</td>
                   </tr>
@@ -0,0 +1,381 @@
+-- TESTES DE AUTORIZAÇÃO (RLS e funções do supabase_schema.sql)
+-- Rode no "SQL Editor" do Supabase depois do supabase_schema.sql (num projeto
+-- novo ou num banco em que o script já rodou antes: os dois casos devem passar).
+--
+-- Tudo roda numa transação desfeita no final (rollback): os usuários e dados
+-- de teste não ficam no banco. Cada teste que passa mostra um NOTICE "ok: ...";
+-- o primeiro que falha interrompe o script com ERROR "FALHOU: ...".
+--
+-- As chamadas são feitas como o papel "authenticated" com o JWT do usuário de
+-- teste, exatamente como a API do Supabase faz para quem usa a anon key.
+
+begin;
+
+-- ==============================================================================
+-- PREPARAÇÃO (como postgres, sem RLS)
+-- ==============================================================================
+
+-- o trigger on_auth_user_created cria os profiles (viewer)
+insert into auth.users (id, email, aud, role) values
+  ('00000000-0000-0000-0000-00000000a001', 'teste-viewer@asa.invalid', 'authenticated', 'authenticated'),
+  ('00000000-0000-0000-0000-00000000a002', 'teste-editor@asa.invalid', 'authenticated', 'authenticated'),
+  ('00000000-0000-0000-0000-00000000a003', 'teste-admin@asa.invalid', 'authenticated', 'authenticated');
+
+update public.profiles set role = 'editor' where id = '00000000-0000-0000-0000-00000000a002';
+update public.profiles set role = 'admin' where id = '00000000-0000-0000-0000-00000000a003';
+
+insert into public.unidades (id, nome) values ('teste-outra', 'Outra (teste)') on conflict (id) do nothing;
+insert into public.profiles_unidades (user_id, unidade_id) values
+  ('00000000-0000-0000-0000-00000000a001', 'sede'),
+  ('00000000-0000-0000-0000-00000000a002', 'sede')
+on conflict do nothing;
+
+insert into public.estoque (id, nome, categoria, unidade, quantidade, unidade_id) values
+  ('teste-item', 'Arroz (teste)', 'outros', 'kg', 10, 'sede'),
+  ('teste-item-outra', 'Feijão (teste)', 'outros', 'kg', 10, 'teste-outra');
+insert into public.estoque_movimentos (estoque_id, tipo, delta, saldo_apos, motivo) values
+  ('teste-item', 'entrada', 10, 10, 'teste'),
+  ('teste-item-outra', 'entrada', 10, 10, 'teste');
+insert into public.doadores (id, nome) values ('teste-doador', 'Doador (teste)');
+insert into public.cestas_modelos (id, name, items) values
+  ('teste-modelo', 'Cesta (teste)', '[{"estoque_id": "teste-item", "nome": "Arroz (teste)", "quantidade": 1, "unidade": "kg"}]');
+insert into public.montagens_cesta (basket_name, quantidade, items) values ('Cesta (teste)', 1, '[]');
+-- um beneficiário dentro das regras e um que recebeu há 3 dias (intervalo padrão: 30)
+insert into public.beneficiarios (id, name, "familySize", "lastBasketDate", unidade_id) values
+  ('teste-b-ok', 'Ana (teste)', 1, null, 'sede'),
+  ('teste-b-recente', 'Bia (teste)', 1, (current_date - 3)::text, 'sede'),
+  ('teste-b-evento', 'Cida (teste)', 1, null, 'sede'),
+  ('teste-b-offline', 'Dora (teste)', 1, null, 'sede');
+insert into public.eventos_entrega (id, title, date, unidade_id) values ('teste-ev', 'Evento (teste)', current_date::text, 'sede');
+insert into public.eventos_participantes (id, evento_id, beneficiario_id) values ('teste-part', 'teste-ev', 'teste-b-evento');
+
+-- cadastro duplicado: uma entrega repetida nos dois, os dois no mesmo evento e
+-- o duplicado sozinho em outro
+insert into public.beneficiarios (id, name, "familySize", "lastBasketDate", history, unidade_id) values
+  ('teste-b-manter', 'Eva (teste)', 1, (current_date - 40)::text,
+   jsonb_build_array(jsonb_build_object('date', (current_date - 40)::text, 'basket_name', 'Cesta (teste)')), 'sede'),
+  ('teste-b-dup', 'Eva S. (teste)', 1, (current_date - 40)::text,
+   jsonb_build_array(
+     jsonb_build_object('date', (current_date - 60)::text, 'basket_name', 'Cesta (teste)'),
+     jsonb_build_object('date', (current_date - 40)::text, 'basket_name', 'Cesta (teste)')), 'sede');
+insert into public.eventos_entrega (id, title, date, unidade_id) values
+  ('teste-ev-a', 'Evento A (teste)', (current_date - 40)::text, 'sede'),
+  ('teste-ev-b', 'Evento B (teste)', (current_date - 60)::text, 'sede');
+insert into public.eventos_participantes (id, evento_id, beneficiario_id, status) values
+  ('teste-part-manter', 'teste-ev-a', 'teste-b-manter', 'convidado'),
+  ('teste-part-dup', 'teste-ev-a', 'teste-b-dup', 'entregue'),
+  ('teste-part-dup-b', 'teste-ev-b', 'teste-b-dup', 'presente');
+
+-- Executa p_sql e exige um erro cuja mensagem contenha p_erro
+create function pg_temp.espera_erro(p_teste text, p_sql text, p_erro text)
+returns void
+language plpgsql
+as $$
+begin
+  begin
+    execute p_sql;
+  exception when others then
+    if sqlerrm ilike '%' || p_erro || '%' then
+      raise notice 'ok: %', p_teste;
+      return;
+    end if;
+    raise exception 'FALHOU: % (erro inesperado: %)', p_teste, sqlerrm;
+  end;
+  raise exception 'FALHOU: % (o comando passou)', p_teste;
+end;
+$$;
+
+-- Executa um update/delete que a RLS deve esconder: nenhuma linha afetada
+create function pg_temp.espera_nada(p_teste text, p_sql text)
+returns void
+language plpgsql
+as $$
+declare
+  n integer;
+begin
+  execute p_sql;
+  get diagnostics n = row_count;
+  if n > 0 then
+    raise exception 'FALHOU: % (% linha(s) alterada(s))', p_teste, n;
+  end if;
+  raise notice 'ok: %', p_teste;
+end;
+$$;
+
+-- ==============================================================================
+-- VIEWER: lê, mas não grava nada
+-- ==============================================================================
+set local role authenticated;
+select set_config('request.jwt.claims',
+  '{"sub": "00000000-0000-0000-0000-00000000a001", "role": "authenticated", "email": "teste-viewer@asa.invalid"}', true);
+
+do $$
+begin
+  if not exists (select 1 from public.estoque where id = 'teste-item') then
+    raise exception 'FALHOU: viewer lê o estoque da própria unidade';
+  end if;
+  raise notice 'ok: viewer lê o estoque da própria unidade';
+end;
+$$;
+
+select pg_temp.espera_erro('viewer não cadastra item',
+  $q$insert into public.estoque (id, nome, categoria, unidade, quantidade) values ('teste-x', 'x', 'outros', 'kg', 0)$q$,
+  'row-level security');
+select pg_temp.espera_nada('viewer não altera item',
+  $q$update public.estoque set nome = 'x' where id = 'teste-item'$q$);
+select pg_temp.espera_nada('viewer não exclui item',
+  $q$delete from public.estoque where id = 'teste-item'$q$);
+select pg_temp.espera_erro('viewer não cadastra beneficiário',
+  $q$insert into public.beneficiarios (id, name) values ('teste-b', 'x')$q$,
+  'row-level security');
+select pg_temp.espera_erro('viewer não cria evento',
+  $q$insert into public.eventos_entrega (id, title, date) values ('teste-ev', 'x', '2030-01-01')$q$,
+  'row-level security');
+select pg_temp.espera_erro('viewer não grava configurações',
+  $q$insert into public.configuracoes (key, value) values ('teste', '1')$q$,
+  'row-level security');
+select pg_temp.espera_erro('viewer não movimenta estoque',
+  $q$select public.movimentar_estoque('teste-item', 'entrada', 5, 'teste')$q$,
+  'Sem permissão');
+select pg_temp.espera_erro('viewer não registra cesta',
+  $q$select public.registrar_montagem_cesta('teste-modelo', 1)$q$,
+  'Sem permissão');
+select pg_temp.espera_erro('viewer não se promove',
+  $q$select public.admin_definir_papel('00000000-0000-0000-0000-00000000a001', 'admin')$q$,
+  'Apenas admin');
+
+-- ==============================================================================
+-- EDITOR: grava cadastros; quantidade e livros só pelas funções
+-- ==============================================================================
+reset role;
+set local role authenticated;
+select set_config('request.jwt.claims',
+  '{"sub": "00000000-0000-0000-0000-00000000a002", "role": "authenticated", "email": "teste-editor@asa.invalid"}', true);
+
+do $$
+declare
+  n integer;
+begin
+  update public.estoque set nome = 'Arroz tipo 1 (teste)' where id = 'teste-item';
+  get diagnostics n = row_count;
+  if n <> 1 then
+    raise exception 'FALHOU: editor altera item da própria unidade';
+  end if;
+  raise notice 'ok: editor altera item da própria unidade';
+end;
+$$;
+
+select pg_temp.espera_erro('editor não muda a quantidade direto',
+  $q$update public.estoque set quantidade = 999 where id = 'teste-item'$q$,
+  'só muda por movimentação');
+select pg_temp.espera_erro('editor não cadastra item com saldo',
+  $q$insert into public.estoque (id, nome, categoria, unidade, quantidade) values ('teste-x', 'x', 'outros', 'kg', 5)$q$,
+  'quantidade 0');
+select pg_temp.espera_nada('editor não altera item de outra unidade',
+  $q$update public.estoque set nome = 'x' where id = 'teste-item-outra'$q$);
+do $$
+begin
+  if exists (select 1 from public.estoque_movimentos where estoque_id = 'teste-item-outra') then
+    raise exception 'FALHOU: editor não vê movimentos de outra unidade';
+  end if;
+  raise notice 'ok: editor não vê movimentos de outra unidade';
+end;
+$$;
+
+select pg_temp.espera_erro('editor não movimenta item de outra unidade',
+  $q$select public.movimentar_estoque('teste-item-outra', 'entrada', 5, 'teste')$q$,
+  'não encontrado');
+select pg_temp.espera_erro('editor não lança no livro de movimentos',
+  $q$insert into public.estoque_movimentos (estoque_id, tipo, delta, saldo_apos) values ('teste-item', 'entrada', 100, 110)$q$,
+  'row-level security');
+select pg_temp.espera_nada('editor não altera o livro de movimentos',
+  $q$update public.estoque_movimentos set delta = 0 where estoque_id = 'teste-item'$q$);
+select pg_temp.espera_nada('editor não apaga o livro de movimentos',
+  $q$delete from public.estoque_movimentos where estoque_id = 'teste-item'$q$);
+select pg_temp.espera_erro('editor não grava montagem direto',
+  $q$insert into public.montagens_cesta (basket_name, quantidade, items) values ('x', 1, '[]')$q$,
+  'row-level security');
+select pg_temp.espera_nada('editor não apaga montagens',
+  $q$delete from public.montagens_cesta where basket_name = 'Cesta (teste)'$q$);
+select pg_temp.espera_erro('editor não muda regras de elegibilidade',
+  $q$insert into public.configuracoes (key, value) values ('eligibility_rules', '{"intervalo_min_dias": 0}')$q$,
+  'row-level security');
+select pg_temp.espera_erro('editor não muda papéis',
+  $q$select public.admin_definir_papel('00000000-0000-0000-0000-00000000a001', 'editor')$q$,
+  'Apenas admin');
+
+do $$
+declare
+  v_saldo numeric;
+begin
+  perform public.movimentar_estoque('teste-item', 'entrada', 5, 'teste');
+  perform public.registrar_montagem_cesta('teste-modelo', 2);
+  select quantidade into v_saldo from public.estoque where id = 'teste-item';
+  if v_saldo <> 13 then
+    raise exception 'FALHOU: editor movimenta e monta cestas pelas funções (saldo %, esperado 13)', v_saldo;
+  end if;
+  raise notice 'ok: editor movimenta e monta cestas pelas funções';
+end;
+$$;
+
+-- entrega no evento: o histórico é montado no banco (data, modelo e operador
+-- que vêm do app são ignorados) e a presença vira "entregue"
+do $$
+declare
+  v_entrega jsonb;
+  v_benef public.beneficiarios;
+begin
+  perform public.registrar_montagem_cesta('teste-modelo', 1, '[
+    {"beneficiario_id": "teste-b-evento", "entrega": {
+      "date": "2000-01-01", "basket_name": "outra", "operator_email": "outro@asa.invalid", "note": "Evento (teste)"
+    }}
+  ]', 'teste-ev');
+  select * into v_benef from public.beneficiarios where id = 'teste-b-evento';
+  v_entrega := v_benef.history -> -1;
+  if jsonb_array_length(v_benef.history) <> 1
+     or v_entrega ->> 'date' <> (timezone('America/Sao_Paulo', now()))::date::text
+     or v_benef."lastBasketDate" <> v_entrega ->> 'date'
+     or v_entrega ->> 'basket_name' <> 'Cesta (teste)'
+     or v_entrega ->> 'operator_email' <> 'teste-editor@asa.invalid'
+     or v_entrega ->> 'note' <> 'Evento (teste)'
+     or v_entrega ->> 'override_reason' is not null
+     or (v_entrega -> 'items' -> 0 ->> 'quantidade')::numeric <> 1 then
+    raise exception 'FALHOU: editor entrega a beneficiário no evento (histórico %)', v_benef.history;
+  end if;
+  if (select status from public.eventos_participantes where id = 'teste-part') <> 'entregue'
+     or (select cestas_consumidas from public.eventos_entrega where id = 'teste-ev') <> 1
+     or not exists (
+       select 1 from public.montagens_cesta where beneficiario_ids = array['teste-b-evento'] and modelo_id = 'teste-modelo'
+     ) then
+    raise exception 'FALHOU: editor entrega a beneficiário no evento (presença, evento ou montagem)';
+  end if;
+  raise notice 'ok: editor entrega a beneficiário no evento';
+end;
+$$;
+
+-- entrega feita offline e enviada depois: vale o dia informado pelo app
+select pg_temp.espera_erro('editor não registra entrega com data futura',
+  $q$select public.registrar_montagem_cesta('teste-modelo', 1, '[{"beneficiario_id": "teste-b-offline", "entrega": {}}]',
+    null, (timezone('America/Sao_Paulo', now()))::date + 1)$q$,
+  'Data da entrega inválida');
+select pg_temp.espera_erro('editor não registra entrega antiga demais',
+  $q$select public.registrar_montagem_cesta('teste-modelo', 1, '[{"beneficiario_id": "teste-b-offline", "entrega": {}}]',
+    null, (timezone('America/Sao_Paulo', now()))::date - 31)$q$,
+  'Data da entrega inválida');
+
+do $$
+declare
+  v_dia date := (timezone('America/Sao_Paulo', now()))::date - 2;
+begin
+  perform public.registrar_montagem_cesta('teste-modelo', 1, '[{"beneficiario_id": "teste-b-offline", "entrega": {}}]', null, v_dia);
+  if (select history -> -1 ->> 'date' from public.beneficiarios where id = 'teste-b-offline') <> v_dia::text then
+    raise exception 'FALHOU: entrega enviada depois fica com o dia em que aconteceu';
+  end if;
+  raise notice 'ok: entrega enviada depois fica com o dia em que aconteceu';
+end;
+$$;
+
+select pg_temp.espera_erro('editor não entrega duas vezes no mesmo mês',
+  $q$select public.registrar_montagem_cesta('teste-modelo', 1, '[{"beneficiario_id": "teste-b-evento", "entrega": {}}]')$q$,
+  'fora das regras');
+select pg_temp.espera_erro('editor não entrega a quem está fora das regras',
+  $q$select public.registrar_montagem_cesta('teste-modelo', 2, '[
+    {"beneficiario_id": "teste-b-ok", "entrega": {}},
+    {"beneficiario_id": "teste-b-recente", "entrega": {"override_reason": "família desabrigada"}}
+  ]')$q$,
+  'fora das regras');
+
+-- ==============================================================================
+-- ADMIN: regras e usuários, com as travas de segurança
+-- ==============================================================================
+reset role;
+set local role authenticated;
+select set_config('request.jwt.claims',
+  '{"sub": "00000000-0000-0000-0000-00000000a003", "role": "authenticated", "email": "teste-admin@asa.invalid"}', true);
+
+do $$
+begin
+  insert into public.configuracoes (key, value) values ('eligibility_rules', '{"intervalo_min_dias": 15}')
+  on conflict (key) do update set value = excluded.value;
+  raise notice 'ok: admin muda regras de elegibilidade';
+end;
+$$;
+
+select pg_temp.espera_erro('admin não libera fora das regras sem justificativa',
+  $q$select public.registrar_montagem_cesta('teste-modelo', 2, '[
+    {"beneficiario_id": "teste-b-ok", "entrega": {}},
+    {"beneficiario_id": "teste-b-recente", "entrega": {"override_reason": "  "}}
+  ]')$q$,
+  'justificativa');
+
+do $$
+declare
+  v_saldo numeric;
+  v_liberada jsonb;
+  v_normal jsonb;
+begin
+  perform public.registrar_montagem_cesta('teste-modelo', 2, '[
+    {"beneficiario_id": "teste-b-ok", "entrega": {"override_reason": "não precisa"}},
+    {"beneficiario_id": "teste-b-recente", "entrega": {"override_reason": "família desabrigada"}}
+  ]');
+  select quantidade into v_saldo from public.estoque where id = 'teste-item';
+  select history -> -1 into v_normal from public.beneficiarios where id = 'teste-b-ok';
+  select history -> -1 into v_liberada from public.beneficiarios where id = 'teste-b-recente';
+  if v_saldo <> 9
+     or v_liberada ->> 'override_reason' is distinct from 'família desabrigada'
+     or v_normal ->> 'override_reason' is not null then
+    raise exception 'FALHOU: admin libera fora das regras com justificativa (saldo %, entregas % / %)', v_saldo, v_normal, v_liberada;
+  end if;
+  raise notice 'ok: admin libera fora das regras com justificativa';
+end;
+$$;
+
+-- o admin vê todas as unidades, mas a doação só credita itens da unidade dela
+select pg_temp.espera_erro('doação não credita item de outra unidade',
+  $q$select public.registrar_doacao('teste-doador', current_date,
+    '[{"estoque_id": "teste-item-outra", "nome": "Feijão (teste)", "quantidade": 3}]', null, 'sede')$q$,
+  'nesta unidade');
+do $$
+declare
+  v_saldo numeric;
+begin
+  perform public.registrar_doacao('teste-doador', current_date,
+    '[{"estoque_id": "teste-item", "nome": "Arroz (teste)", "quantidade": 3}]', null, 'sede');
+  select quantidade into v_saldo from public.estoque where id = 'teste-item';
+  if v_saldo <> 12 then
+    raise exception 'FALHOU: doação credita item da própria unidade (saldo %, esperado 12)', v_saldo;
+  end if;
+  raise notice 'ok: doação credita item da própria unidade';
+end;
+$$;
+
+-- a mesclagem junta no banco os históricos e as presenças dos dois cadastros
+do $$
+declare
+  v_history jsonb;
+  v_status text[];
+begin
+  perform public.mesclar_beneficiarios('teste-b-manter', 'teste-b-dup');
+  select history into v_history from public.beneficiarios where id = 'teste-b-manter';
+  select array_agg(evento_id || ':' || status order by evento_id) into v_status
+    from public.eventos_participantes where beneficiario_id in ('teste-b-manter', 'teste-b-dup');
+  if jsonb_array_length(v_history) <> 2
+     or v_history -> 0 ->> 'date' <> (current_date - 60)::text
+     or v_status is distinct from array['teste-ev-a:entregue', 'teste-ev-b:presente']
+     or exists (select 1 from public.eventos_participantes where beneficiario_id = 'teste-b-dup')
+     or not exists (select 1 from public.beneficiarios where id = 'teste-b-dup' and merged_into = 'teste-b-manter') then
+    raise exception 'FALHOU: mesclagem junta históricos e presenças (histórico %, presenças %)', v_history, v_status;
+  end if;
+  raise notice 'ok: mesclagem junta históricos e presenças';
+end;
+$$;
+
+select pg_temp.espera_erro('admin não muda o próprio papel',
+  $q$select public.admin_definir_papel('00000000-0000-0000-0000-00000000a003', 'viewer')$q$,
+  'próprio acesso');
+select pg_temp.espera_erro('convite não muda o próprio papel',
+  $q$select public.admin_convidar('teste-admin@asa.invalid', 'viewer')$q$,
+  'próprio acesso');
+
+reset role;
+rollback;
@@ -1,21 +1,21 @@
 -- RODE ESTE SCRIPT NO "SQL EDITOR" DO SEU PAINEL SUPABASE
 
 -- ==============================================================================
--- 1. LIMPEZA (Cuidado: Isso apaga dados existentes se você rodar novamente)
+-- 1. LIMPEZA
 -- ==============================================================================
 
--- Remove tabelas com nomes novos (para reset)
-DROP TABLE IF EXISTS public.beneficiarios;
-DROP TABLE IF EXISTS public.estoque;
-DROP TABLE IF EXISTS public.eventos_entrega;
-DROP TABLE IF EXISTS public.configuracoes;
+-- O script pode ser rodado de novo a cada atualização: as tabelas e os dados
+-- ficam (create ... if not exists / add column if not exists), as funções,
+-- políticas e triggers são recriadas. Só as views saem, porque mudam de colunas.
+DROP VIEW IF EXISTS public.estoque_divergencias;
+DROP VIEW IF EXISTS public.alertas_validade;
 
 -- ==============================================================================
 -- 2. CRIAÇÃO DAS TABELAS
 -- ==============================================================================
 
 -- Tabela de Beneficiários
-create table public.beneficiarios (
+create table if not exists public.beneficiarios (
   "id" text primary key,
   "name" text not null,
   "familySize" integer default 1,
@@ -27,19 +27,25 @@ create table public.beneficiarios (
   "created_at" timestamp with time zone default timezone('utc'::text, now())
 );
 
--- Tabela de Estoque
-create table public.estoque (
-  "id" text primary key,
-  "name" text not null,
-  "quantity" numeric default 0,
-  "unit" text not null,
-  "category" text not null,
-  "minThreshold" numeric default 10,
+-- Tabela de Estoque (colunas que o app usa; quantidade só muda pelas funções da seção 5)
+create table if not exists public.estoque (
+  "id" text primary key default gen_random_uuid()::text,
+  "nome" text not null,
+  "categoria" text not null default 'outros',
+  "quantidade" numeric not null default 0,
+  "unidade" text not null default 'unidade',
+  "validade" date,
+  "status_conservacao" text,
+  "codigo_barras" text,
+  "minimo_alerta" numeric default 0,
+  "data_entrada" date default current_date,
+  "status" text not null default 'disponivel',
+  "observacoes" text,
   "created_at" timestamp with time zone default timezone('utc'::text, now())
 );
 
 -- Tabela de Eventos
-create table public.eventos_entrega (
+create table if not exists public.eventos_entrega (
   "id" text primary key,
   "title" text not null,
   "date" text not null,
@@ -47,8 +53,44 @@ create table public.eventos_entrega (
   "created_at" timestamp with time zone default timezone('utc'::text, now())
 );
 
+-- Bancos criados pela primeira versão deste script (estoque com name, quantity,
+-- unit, category): ganham as colunas do app. Os dados antigos ficam como estão.
+alter table public.estoque add column if not exists "nome" text;
+alter table public.estoque add column if not exists "categoria" text not null default 'outros';
+alter table public.estoque add column if not exists "quantidade" numeric not null default 0;
+alter table public.estoque add column if not exists "unidade" text not null default 'unidade';
+alter table public.estoque add column if not exists "validade" date;
+alter table public.estoque add column if not exists "status_conservacao" text;
+alter table public.estoque add column if not exists "codigo_barras" text;
+alter table public.estoque add column if not exists "minimo_alerta" numeric default 0;
+alter table public.estoque add column if not exists "data_entrada" date default current_date;
+alter table public.estoque add column if not exists "status" text not null default 'disponivel';
+alter table public.estoque add column if not exists "observacoes" text;
+
+do $$
+begin
+  if exists (
+    select 1 from information_schema.columns
+     where table_schema = 'public' and table_name = 'estoque' and column_name = 'name'
+  ) then
+    -- o app não preenche mais as colunas antigas
+    alter table public.estoque alter column "name" drop not null;
+    alter table public.estoque alter column "unit" drop not null;
+    alter table public.estoque alter column "category" drop not null;
+    -- cópia única, na primeira vez que o script roda sobre o banco antigo
+    update public.estoque
+       set nome = "name",
+           quantidade = coalesce("quantity", 0),
+           unidade = coalesce("unit", 'unidade'),
+           categoria = coalesce("category", 'outros'),
+           minimo_alerta = "minThreshold"
+     where nome is null;
+  end if;
+end;
+$$;
+
 -- Tabela de Configurações
-create table public.configuracoes (
+create table if not exists public.configuracoes (
   "key" text primary key,
   "value" jsonb not null,
   "updated_at" timestamp with time zone default timezone('utc'::text, now())
@@ -63,7 +105,2461 @@ alter table public.eventos_entrega enable row level security;
 alter table public.configuracoes enable row level security;
 
 -- Políticas públicas (Permitir tudo para testes/protótipo)
+drop policy if exists "Permitir acesso total" on public.beneficiarios;
 create policy "Permitir acesso total" on public.beneficiarios for all using (true);
+drop policy if exists "Permitir acesso total" on public.estoque;
 create policy "Permitir acesso total" on public.estoque for all using (true);
+drop policy if exists "Permitir acesso total" on public.eventos_entrega;
 create policy "Permitir acesso total" on public.eventos_entrega for all using (true);
-create policy "Permitir acesso total" on public.configuracoes for all using (true);
\ No newline at end of file
+drop policy if exists "Permitir acesso total" on public.configuracoes;
+create policy "Permitir acesso total" on public.configuracoes for all using (true);
+
+-- ==============================================================================
+-- 4. MONTAGEM DE CESTAS (baixa atômica via RPC)
+-- ==============================================================================
+-- O app chama supabase.rpc('registrar_montagem_cesta', ...). Tudo roda numa
+-- única transação: se faltar qualquer item, nada é alterado.
+-- Os totais a baixar são recalculados no banco a partir do modelo (p_modelo_id)
+-- e do tamanho de cada família; p_qtd é o número de cestas;
+-- p_entregas = [{beneficiario_id, entrega}] (da entrega valem só note e
+-- override_reason). Cada linha é convertida para a unidade do estoque
+-- (fator_conversao, seção 21) e as linhas do mesmo item são somadas antes de
+-- conferir o saldo.
+-- p_data é o dia da entrega no app: uma entrega feita offline e enviada depois
+-- entra no histórico (e nas regras) com o dia em que aconteceu. Não aceita dia
+-- futuro nem mais de 30 dias atrás; sem p_data vale o dia de hoje.
+
+create table if not exists public.montagens_cesta (
+  "id" uuid primary key default gen_random_uuid(),
+  "basket_name" text not null,
+  "quantidade" integer not null,
+  "items" jsonb not null,
+  "beneficiario_ids" text[] default '{}',
+  "modelo_id" text,
+  "operator_email" text,
+  "created_at" timestamp with time zone default timezone('utc'::text, now())
+);
+
+alter table public.montagens_cesta enable row level security;
+drop policy if exists "Permitir acesso total" on public.montagens_cesta;
+create policy "Permitir acesso total" on public.montagens_cesta for all using (true);
+
+-- Versões anteriores: totais prontos do app (p_basket_name, p_items) e sem p_data
+drop function if exists public.registrar_montagem_cesta(text, jsonb, integer, jsonb, text, text);
+drop function if exists public.registrar_montagem_cesta(text, integer, jsonb, text);
+
+create or replace function public.registrar_montagem_cesta(
+  p_modelo_id text,
+  p_qtd integer,
+  p_entregas jsonb default '[]'::jsonb,
+  p_evento_id text default null,
+  p_data date default null
+) returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_modelo record;
+  v_benef public.beneficiarios;
+  v_hoje date := (timezone('America/Sao_Paulo', now()))::date; -- data local, como no app
+  v_dia date := coalesce(p_data, v_hoje);
+  v_todos jsonb := '[]'::jsonb;
+  v_familia jsonb;
+  v_historico jsonb := '[]'::jsonb;
+  v_itens jsonb;
+  v_item jsonb;
+  v_entrega jsonb;
+  v_need numeric;
+  v_have numeric;
+  v_falta text[] := '{}';
+  v_motivos text[];
+  v_saldo jsonb;
+  v_saldos jsonb := '[]'::jsonb;
+  v_sem_conversao text[];
+  v_count numeric;
+  v_id uuid;
+begin
+  -- security definer (a quantidade só muda por aqui): as permissões são conferidas à mão
+  if not public.can_edit() then
+    raise exception 'Sem permissão para registrar cestas.';
+  end if;
+  if p_qtd is null or p_qtd < 1 then
+    raise exception 'Quantidade de cestas inválida.';
+  end if;
+  if v_dia > v_hoje or v_dia < v_hoje - 30 then
+    raise exception 'Data da entrega inválida (%): use um dia entre os últimos 30 e hoje.', to_char(v_dia, 'DD/MM/YYYY');
+  end if;
+
+  select * into v_modelo from public.cestas_modelos where id = p_modelo_id;
+  if not found or not public.tem_unidade(v_modelo.unidade_id) then
+    raise exception 'Modelo de cesta não encontrado.';
+  end if;
+  if coalesce(jsonb_array_length(v_modelo.items), 0) = 0 then
+    raise exception 'Configure pelo menos 1 item na cesta antes de registrar.';
+  end if;
+
+  -- Totais calculados aqui a partir do modelo (o app só pré-valida):
+  -- com beneficiários, 1 cesta para cada um, escalada pelo tamanho da família;
+  -- sem beneficiários, p_qtd cestas com a quantidade base.
+  if coalesce(jsonb_array_length(p_entregas), 0) > 0 then
+    if p_qtd <> jsonb_array_length(p_entregas)
+       or p_qtd <> (select count(distinct x->>'beneficiario_id') from jsonb_array_elements(p_entregas) x) then
+      raise exception 'Registre 1 cesta por beneficiário.';
+    end if;
+
+    for v_entrega in select * from jsonb_array_elements(p_entregas) loop
+      select * into v_benef from public.beneficiarios where id = v_entrega->>'beneficiario_id';
+      if not found then
+        raise exception 'Beneficiário não encontrado.';
+      end if;
+      if (v_modelo.familia_min is not null and v_benef."familySize" < v_modelo.familia_min)
+         or (v_modelo.familia_max is not null and v_benef."familySize" > v_modelo.familia_max) then
+        raise exception 'O modelo "%" não atende família de % pessoas (%).', v_modelo.name, v_benef."familySize", v_benef.name;
+      end if;
+
+      -- fora das regras: só um admin libera, e com justificativa
+      v_motivos := public.motivos_inelegibilidade(v_benef, v_dia);
+      if array_length(v_motivos, 1) > 0 then
+        if not public.is_admin() then
+          raise exception '% está fora das regras (%). Peça a um admin para liberar.', v_benef.name, array_to_string(v_motivos, '; ');
+        end if;
+        if coalesce(btrim(v_entrega->'entrega'->>'override_reason'), '') = '' then
+          raise exception 'Informe a justificativa para liberar % fora das regras.', v_benef.name;
+        end if;
+      end if;
+
+      select coalesce(jsonb_agg(jsonb_build_object(
+               'estoque_id', it->>'estoque_id',
+               'nome', it->>'nome',
+               'unidade', it->>'unidade',
+               'quantidade', coalesce((it->>'quantidade')::numeric, 0)
+                 + coalesce((it->>'extra_por_membro')::numeric, 0)
+                   * greatest(0, floor(coalesce(v_benef."familySize", 1)) - coalesce(v_modelo.base_familia, 4))
+             )), '[]'::jsonb)
+        into v_familia
+        from jsonb_array_elements(v_modelo.items) it;
+
+      v_todos := v_todos || v_familia;
+      -- do app vêm só a observação e a justificativa; o resto do registro é montado aqui
+      v_historico := v_historico || jsonb_build_array(jsonb_build_object(
+        'beneficiario_id', v_benef.id,
+        'entrega', jsonb_build_object(
+          'date', v_dia::text,
+          'basket_name', v_modelo.name,
+          'items', v_familia,
+          'operator_email', auth.jwt() ->> 'email',
+          'note', nullif(v_entrega->'entrega'->>'note', ''),
+          -- a justificativa só vale quando a entrega está de fato fora das regras
+          'override_reason', case when array_length(v_motivos, 1) > 0
+                                  then btrim(v_entrega->'entrega'->>'override_reason') end
+        )
+      ));
+    end loop;
+  else
+    select coalesce(jsonb_agg(jsonb_build_object(
+             'estoque_id', it->>'estoque_id',
+             'nome', it->>'nome',
+             'unidade', it->>'unidade',
+             'quantidade', coalesce((it->>'quantidade')::numeric, 0) * p_qtd
+           )), '[]'::jsonb)
+      into v_todos
+      from jsonb_array_elements(v_modelo.items) it;
+  end if;
+
+  -- o modelo pode pedir o item em outra unidade da mesma grandeza (seção 21)
+  select array_agg(distinct format('%s (%s → %s)', x->>'nome', x->>'unidade', e.unidade))
+    into v_sem_conversao
+    from jsonb_array_elements(v_todos) x
+    join public.estoque e on e.id::text = x->>'estoque_id'
+   where public.fator_conversao(e, x->>'unidade') is null;
+  if v_sem_conversao is not null then
+    raise exception 'Sem conversão de unidade para: %', array_to_string(v_sem_conversao, ', ');
+  end if;
+
+  -- um total por item, na unidade do estoque: duas linhas do mesmo item não
+  -- passam cada uma pela checagem (item inexistente cai em "não encontrado")
+  select jsonb_agg(jsonb_build_object('estoque_id', k, 'nome', n, 'quantidade', q, 'unidade', u) order by k)
+    into v_itens
+    from (
+      select x->>'estoque_id' as k,
+             min(x->>'nome') as n,
+             round(sum(coalesce((x->>'quantidade')::numeric, 0) * coalesce(public.fator_conversao(e, x->>'unidade'), 1)), 6) as q,
+             coalesce(min(e.unidade), min(x->>'unidade')) as u
+        from jsonb_array_elements(v_todos) x
+        left join public.estoque e on e.id::text = x->>'estoque_id'
+       group by x->>'estoque_id'
+    ) s
+   where q > 0;
+
+  if v_itens is null then
+    raise exception 'Configure pelo menos 1 item na cesta antes de registrar.';
+  end if;
+
+  if exists (
+    select 1 from public.estoque e
+     where e.id::text in (select x->>'estoque_id' from jsonb_array_elements(v_itens) x)
+       and not public.tem_unidade(e.unidade_id)
+  ) or exists (
+    select 1 from public.beneficiarios b
+     where b.id in (select x->>'beneficiario_id' from jsonb_array_elements(v_historico) x)
+       and not public.tem_unidade(b.unidade_id)
+  ) or exists (
+    select 1 from public.eventos_entrega ev where ev.id = p_evento_id and not public.tem_unidade(ev.unidade_id)
+  ) then
+    raise exception 'Itens, beneficiários ou evento de outra unidade.';
+  end if;
+
+  -- trava as linhas sempre na mesma ordem (evita deadlock entre voluntários)
+  perform 1 from public.estoque
+   where id::text in (select x->>'estoque_id' from jsonb_array_elements(v_itens) x)
+   order by id
+   for update;
+
+  for v_item in select * from jsonb_array_elements(v_itens) loop
+    v_need := coalesce((v_item->>'quantidade')::numeric, 0);
+    select quantidade into v_have from public.estoque where id::text = v_item->>'estoque_id';
+    if not found then
+      v_falta := v_falta || format('%s (item não encontrado)', v_item->>'nome');
+    elsif coalesce(v_have, 0) < v_need then
+      v_falta := v_falta || format('%s (precisa %s, tem %s)', v_item->>'nome', v_need, coalesce(v_have, 0));
+    end if;
+  end loop;
+
+  if array_length(v_falta, 1) > 0 then
+    raise exception 'Estoque insuficiente para: %', array_to_string(v_falta, ', ');
+  end if;
+
+  for v_item in select * from jsonb_array_elements(v_itens) loop
+    v_need := coalesce((v_item->>'quantidade')::numeric, 0);
+    update public.estoque
+       set quantidade = quantidade - v_need
+     where id::text = v_item->>'estoque_id'
+    returning jsonb_build_object('estoque_id', id, 'quantidade', quantidade) into v_saldo;
+    v_saldos := v_saldos || jsonb_build_array(v_saldo);
+
+    insert into public.estoque_movimentos (estoque_id, tipo, delta, saldo_apos, motivo)
+    values (v_item->>'estoque_id', 'saida_cesta', -v_need, (v_saldo->>'quantidade')::numeric,
+            format('%s x%s', v_modelo.name, p_qtd));
+  end loop;
+
+  -- contador da unidade do modelo (seção 15)
+  insert into public.configuracoes ("key", "value", "unidade_id")
+  values ('assembled_baskets:' || v_modelo.unidade_id, to_jsonb(p_qtd), v_modelo.unidade_id)
+  on conflict ("key") do update
+    set "value" = to_jsonb(coalesce((public.configuracoes."value" #>> '{}')::numeric, 0) + p_qtd),
+        "updated_at" = now()
+  returning ("value" #>> '{}')::numeric into v_count;
+
+  insert into public.montagens_cesta (basket_name, quantidade, items, beneficiario_ids, modelo_id, operator_email, unidade_id)
+  values (v_modelo.name, p_qtd, v_itens,
+          array(select x->>'beneficiario_id' from jsonb_array_elements(v_historico) x),
+          p_modelo_id, auth.jwt() ->> 'email', v_modelo.unidade_id)
+  returning id into v_id;
+
+  update public.cestas_modelos
+     set assembled_count = assembled_count + p_qtd
+   where id = p_modelo_id;
+
+  for v_entrega in select * from jsonb_array_elements(v_historico) loop
+    update public.beneficiarios
+       set history = coalesce(history, '[]'::jsonb) || jsonb_build_array(v_entrega->'entrega'),
+           -- entrega offline enviada depois de outra mais nova não volta a data
+           "lastBasketDate" = greatest(coalesce("lastBasketDate", ''), v_entrega->'entrega'->>'date')
+     where id = v_entrega->>'beneficiario_id';
+
+    if p_evento_id is not null then
+      update public.eventos_participantes
+         set status = 'entregue', updated_at = now()
+       where evento_id = p_evento_id and beneficiario_id = v_entrega->>'beneficiario_id';
+    end if;
+  end loop;
+
+  if p_evento_id is not null then
+    update public.eventos_entrega
+       set cestas_consumidas = coalesce(cestas_consumidas, 0) + p_qtd
+     where id = p_evento_id;
+  end if;
+
+  return jsonb_build_object('montagem_id', v_id, 'assembled_baskets', v_count, 'saldos', v_saldos);
+end;
+$$;
+
+grant execute on function public.registrar_montagem_cesta(text, integer, jsonb, text, date) to authenticated;
+
+
+-- ==============================================================================
+-- 5. MOVIMENTAÇÕES DE ESTOQUE (livro de entradas/saídas)
+-- ==============================================================================
+-- Toda mudança de quantidade grava uma linha aqui. O saldo de um item pode ser
+-- reconstruído somando "delta" em ordem cronológica.
+
+create table if not exists public.estoque_movimentos (
+  "id" uuid primary key default gen_random_uuid(),
+  "estoque_id" text not null,
+  "tipo" text not null check ("tipo" in ('entrada', 'doacao', 'saida_cesta', 'perda', 'ajuste')),
+  "delta" numeric not null,
+  "saldo_apos" numeric not null,
+  "motivo" text,
+  "user_email" text default (auth.jwt() ->> 'email'),
+  "created_at" timestamp with time zone default timezone('utc'::text, now())
+);
+
+create index if not exists estoque_movimentos_item_idx on public.estoque_movimentos ("estoque_id", "created_at");
+
+alter table public.estoque_movimentos enable row level security;
+drop policy if exists "Permitir acesso total" on public.estoque_movimentos;
+create policy "Permitir acesso total" on public.estoque_movimentos for all using (true);
+
+create or replace function public.movimentar_estoque(
+  p_estoque_id text,
+  p_tipo text,
+  p_delta numeric,
+  p_motivo text default null
+) returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_have numeric;
+  v_saldo numeric;
+begin
+  if not public.can_edit() then
+    raise exception 'Sem permissão para movimentar o estoque.';
+  end if;
+  if p_delta is null or p_delta = 0 then
+    raise exception 'Quantidade movimentada inválida.';
+  end if;
+  if p_tipo in ('entrada', 'doacao') and p_delta < 0 then
+    raise exception 'Entradas e doações precisam ter quantidade positiva.';
+  end if;
+  if p_tipo in ('saida_cesta', 'perda') and p_delta > 0 then
+    raise exception 'Saídas e perdas precisam ter quantidade negativa.';
+  end if;
+
+  select quantidade into v_have from public.estoque where id::text = p_estoque_id for update;
+  if not found then
+    raise exception 'Item de estoque não encontrado.';
+  end if;
+  if coalesce(v_have, 0) + p_delta < 0 then
+    raise exception 'Saldo insuficiente (tem %, movimento %).', coalesce(v_have, 0), p_delta;
+  end if;
+
+  update public.estoque
+     set quantidade = coalesce(quantidade, 0) + p_delta
+   where id::text = p_estoque_id
+  returning quantidade into v_saldo;
+
+  insert into public.estoque_movimentos (estoque_id, tipo, delta, saldo_apos, motivo)
+  values (p_estoque_id, p_tipo, p_delta, v_saldo, p_motivo);
+
+  return jsonb_build_object('estoque_id', p_estoque_id, 'quantidade', v_saldo);
+end;
+$$;
+
+grant execute on function public.movimentar_estoque(text, text, numeric, text) to authenticated;
+
+-- A quantidade só muda pelas funções security definer (movimentar_estoque,
+-- registrar_montagem_cesta, transferências), que sempre gravam no livro. Um
+-- update direto pela API roda como "authenticated" e é recusado aqui.
+create or replace function public.estoque_protege_quantidade()
+returns trigger
+language plpgsql
+as $$
+begin
+  if current_user in ('authenticated', 'anon') then
+    if tg_op = 'INSERT' and coalesce(new.quantidade, 0) <> 0 then
+      raise exception 'Cadastre o item com quantidade 0 e lance a entrada como movimentação.';
+    end if;
+    if tg_op = 'UPDATE' and new.quantidade is distinct from old.quantidade then
+      raise exception 'A quantidade só muda por movimentação (movimentar_estoque).';
+    end if;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists estoque_protege_quantidade on public.estoque;
+create trigger estoque_protege_quantidade
+  before insert or update on public.estoque
+  for each row execute function public.estoque_protege_quantidade();
+
+-- Auditoria: itens cujo saldo atual difere da soma do livro
+create or replace view public.estoque_divergencias as
+select e.id::text as estoque_id,
+       e.nome,
+       e.quantidade,
+       coalesce(sum(m.delta), 0) as saldo_livro,
+       e.quantidade - coalesce(sum(m.delta), 0) as diferenca
+  from public.estoque e
+  left join public.estoque_movimentos m on m.estoque_id = e.id::text
+ group by e.id, e.nome, e.quantidade
+having e.quantidade <> coalesce(sum(m.delta), 0);
+
+
+-- ==============================================================================
+-- 6. MODELOS DE CESTA (substitui o basket_config único)
+-- ==============================================================================
+
+create table if not exists public.cestas_modelos (
+  "id" text primary key,
+  "name" text not null unique,
+  "items" jsonb not null default '[]'::jsonb,
+  "assembled_count" integer not null default 0,
+  "created_at" timestamp with time zone default timezone('utc'::text, now())
+);
+
+alter table public.cestas_modelos enable row level security;
+drop policy if exists "Permitir acesso total" on public.cestas_modelos;
+create policy "Permitir acesso total" on public.cestas_modelos for all using (true);
+
+-- Migra a configuração antiga (configuracoes.basket_config) como primeiro modelo
+insert into public.cestas_modelos ("id", "name", "items")
+select 'padrao', coalesce("value"->>'name', 'Cesta Básica Padrão'), coalesce("value"->'items', '[]'::jsonb)
+  from public.configuracoes
+ where "key" = 'basket_config'
+on conflict do nothing;
+
+-- Versões anteriores da função, caso já tenham sido criadas
+drop function if exists public.registrar_montagem_cesta(text, jsonb, integer, text[], jsonb);
+drop function if exists public.registrar_montagem_cesta(text, jsonb, integer, text[], jsonb, text);
+drop function if exists public.registrar_montagem_cesta(text, jsonb, integer, jsonb, text);
+
+-- ==============================================================================
+-- 7. REGRAS POR TAMANHO DE FAMÍLIA
+-- ==============================================================================
+-- base_familia: pessoas cobertas pela quantidade base de cada item.
+-- items[].extra_por_membro: acréscimo por pessoa acima de base_familia.
+-- familia_min/familia_max: faixa atendida pelo modelo (ex.: família grande 6+).
+
+alter table public.cestas_modelos add column if not exists "base_familia" integer not null default 4;
+alter table public.cestas_modelos add column if not exists "familia_min" integer;
+alter table public.cestas_modelos add column if not exists "familia_max" integer;
+
+-- ==============================================================================
+-- 8. STATUS E ARQUIVAMENTO DE BENEFICIÁRIOS
+-- ==============================================================================
+-- Beneficiários não são excluídos: "archived_at" preenchido = arquivado.
+
+alter table public.beneficiarios add column if not exists "status" text not null default 'ativo'
+  check ("status" in ('ativo', 'inativo', 'suspenso'));
+alter table public.beneficiarios add column if not exists "archived_at" timestamp with time zone;
+
+-- Regras de elegibilidade (configuracoes 'eligibility_rules'), as mesmas do app
+-- (avaliarElegibilidade). registrar_montagem_cesta só aceita entrega fora delas
+-- com justificativa de um admin. Retorna os motivos; vazio = elegível.
+create or replace function public.motivos_inelegibilidade(p_benef public.beneficiarios, p_hoje date)
+returns text[]
+language plpgsql
+stable
+set search_path = public
+as $$
+declare
+  v_regras jsonb;
+  v_intervalo integer;
+  v_max integer;
+  v_ultima date;
+  v_no_mes integer;
+  v_motivos text[] := '{}';
+begin
+  select "value" into v_regras from public.configuracoes where "key" = 'eligibility_rules';
+  v_intervalo := greatest(0, coalesce((v_regras->>'intervalo_min_dias')::integer, 30));
+  v_max := greatest(0, coalesce((v_regras->>'max_por_mes')::integer, 1));
+
+  if p_benef.archived_at is not null then
+    v_motivos := v_motivos || 'cadastro arquivado'::text;
+  end if;
+  if coalesce((v_regras->>'exigir_ativo')::boolean, true) and p_benef.status <> 'ativo' then
+    v_motivos := v_motivos || format('status %s', p_benef.status);
+  end if;
+
+  select max(d) into v_ultima
+    from (
+      select (h->>'date')::date as d from jsonb_array_elements(coalesce(p_benef.history, '[]'::jsonb)) h
+      union all
+      select nullif(p_benef."lastBasketDate", '')::date
+    ) x;
+  if v_ultima is not null and v_intervalo > 0 and v_ultima + v_intervalo > p_hoje then
+    v_motivos := v_motivos || format('última cesta em %s (intervalo de %s dias)', to_char(v_ultima, 'DD/MM/YYYY'), v_intervalo);
+  end if;
+
+  if v_max > 0 then
+    select count(*) into v_no_mes
+      from jsonb_array_elements(coalesce(p_benef.history, '[]'::jsonb)) h
+     where left(h->>'date', 7) = to_char(p_hoje, 'YYYY-MM');
+    if v_no_mes >= v_max then
+      v_motivos := v_motivos || format('%s cesta(s) neste mês (máx. %s)', v_no_mes, v_max);
+    end if;
+  end if;
+
+  return v_motivos;
+end;
+$$;
+
+-- ==============================================================================
+-- 9. MESCLAGEM DE BENEFICIÁRIOS DUPLICADOS
+-- ==============================================================================
+-- Tudo numa transação e montado aqui: o histórico é a junção dos dois (sem
+-- repetir entregas idênticas, em ordem de data) e as presenças em eventos do
+-- cadastro arquivado passam para o que fica; quando os dois estão no mesmo
+-- evento, fica uma linha só, com o status mais avançado.
+
+alter table public.beneficiarios add column if not exists "merged_into" text;
+
+-- a versão antiga recebia o histórico pronto do app
+drop function if exists public.mesclar_beneficiarios(text, text, jsonb);
+create or replace function public.mesclar_beneficiarios(
+  p_manter text,
+  p_remover text
+) returns void
+language plpgsql
+as $$
+declare
+  v_manter public.beneficiarios%rowtype;
+  v_remover public.beneficiarios%rowtype;
+  v_history jsonb;
+  v_ordem text[] := array['convidado', 'ausente', 'presente', 'entregue'];
+begin
+  if p_manter = p_remover then
+    raise exception 'Escolha dois cadastros diferentes.';
+  end if;
+
+  select * into v_remover from public.beneficiarios where id = p_remover for update;
+  if not found then
+    raise exception 'Cadastro a mesclar não encontrado.';
+  end if;
+  select * into v_manter from public.beneficiarios where id = p_manter for update;
+  if not found then
+    raise exception 'Cadastro a manter não encontrado.';
+  end if;
+
+  select coalesce(jsonb_agg(u.h order by u.h ->> 'date', u.lado, u.ord), '[]'::jsonb)
+    into v_history
+    from (
+      select distinct on (t.h) t.h, t.lado, t.ord
+        from (
+          select h, 0 as lado, ord
+            from jsonb_array_elements(coalesce(v_manter.history, '[]'::jsonb)) with ordinality as e(h, ord)
+          union all
+          select h, 1, ord
+            from jsonb_array_elements(coalesce(v_remover.history, '[]'::jsonb)) with ordinality as e(h, ord)
+        ) t
+       order by t.h, t.lado, t.ord
+    ) u;
+
+  update public.beneficiarios
+     set history = v_history,
+         "lastBasketDate" = greatest("lastBasketDate", v_remover."lastBasketDate"),
+         notes = nullif(concat_ws(E'\n', notes, v_remover.notes), '')
+   where id = p_manter;
+
+  -- mesmo evento nos dois cadastros: o que fica herda o status mais avançado
+  update public.eventos_participantes m
+     set status = r.status,
+         updated_at = now()
+    from public.eventos_participantes r
+   where m.beneficiario_id = p_manter
+     and r.beneficiario_id = p_remover
+     and r.evento_id = m.evento_id
+     and array_position(v_ordem, r.status) > array_position(v_ordem, m.status);
+  delete from public.eventos_participantes r
+   where r.beneficiario_id = p_remover
+     and exists (
+       select 1 from public.eventos_participantes m
+        where m.evento_id = r.evento_id and m.beneficiario_id = p_manter
+     );
+  update public.eventos_participantes
+     set beneficiario_id = p_manter,
+         updated_at = now()
+   where beneficiario_id = p_remover;
+
+  update public.beneficiarios
+     set archived_at = now(),
+         status = 'inativo',
+         merged_into = p_manter
+   where id = p_remover;
+end;
+$$;
+
+grant execute on function public.mesclar_beneficiarios(text, text) to authenticated;
+
+-- ==============================================================================
+-- 10. LISTA DE PRESENÇA DOS EVENTOS
+-- ==============================================================================
+
+alter table public.eventos_entrega add column if not exists "modelo_id" text;
+alter table public.eventos_entrega add column if not exists "cestas_consumidas" integer not null default 0;
+
+create table if not exists public.eventos_participantes (
+  "id" text primary key,
+  "evento_id" text not null references public.eventos_entrega ("id") on delete cascade,
+  "beneficiario_id" text not null references public.beneficiarios ("id"),
+  "status" text not null default 'convidado' check ("status" in ('convidado', 'presente', 'ausente', 'entregue')),
+  "updated_at" timestamp with time zone,
+  "created_at" timestamp with time zone default timezone('utc'::text, now()),
+  unique ("evento_id", "beneficiario_id")
+);
+
+alter table public.eventos_participantes enable row level security;
+drop policy if exists "Permitir acesso total" on public.eventos_participantes;
+create policy "Permitir acesso total" on public.eventos_participantes for all using (true);
+
+-- ==============================================================================
+-- 11. STATUS, CANCELAMENTO E REAGENDAMENTO DE EVENTOS
+-- ==============================================================================
+-- Eventos cancelados não são excluídos: ficam com status 'cancelado' e o motivo.
+
+alter table public.eventos_entrega add column if not exists "status" text not null default 'planejado'
+  check ("status" in ('planejado', 'realizado', 'cancelado'));
+alter table public.eventos_entrega add column if not exists "cancel_reason" text;
+alter table public.eventos_entrega add column if not exists "reagendado_de" text;
+
+-- ==============================================================================
+-- 12. GESTÃO DE USUÁRIOS (painel admin)
+-- ==============================================================================
+-- O front usa apenas a anon key: toda alteração de papel passa por funções
+-- security definer que conferem se quem chama é admin.
+
+create table if not exists public.profiles (
+  "id" uuid primary key references auth.users ("id") on delete cascade,
+  "email" text,
+  "role" text not null default 'viewer' check ("role" in ('viewer', 'editor', 'admin')),
+  "created_at" timestamp with time zone default timezone('utc'::text, now())
+);
+
+alter table public.profiles add column if not exists "disabled" boolean not null default false;
+
+create table if not exists public.convites (
+  "email" text primary key,
+  "role" text not null default 'viewer' check ("role" in ('viewer', 'editor', 'admin')),
+  "invited_by" uuid,
+  "created_at" timestamp with time zone default timezone('utc'::text, now()),
+  "accepted_at" timestamp with time zone
+);
+
+alter table public.convites enable row level security;
+
+create or replace function public.is_admin()
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.profiles p
+    where p.id = auth.uid() and p.role = 'admin' and not p.disabled
+  );
+$$;
+
+-- a seção 15 troca as colunas de retorno: ao rodar de novo, sai a versão dela
+drop function if exists public.admin_listar_usuarios();
+
+create or replace function public.admin_listar_usuarios()
+returns table (
+  id uuid,
+  email text,
+  role text,
+  disabled boolean,
+  last_sign_in_at timestamp with time zone,
+  created_at timestamp with time zone
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if not public.is_admin() then
+    raise exception 'Apenas admin pode gerenciar usuários.';
+  end if;
+
+  return query
+    select u.id, u.email::text, coalesce(p.role, 'viewer'), coalesce(p.disabled, false), u.last_sign_in_at, u.created_at
+    from auth.users u
+    left join public.profiles p on p.id = u.id
+    order by u.email;
+end;
+$$;
+
+-- Garante que sempre sobra pelo menos um admin ativo após a alteração
+create or replace function public.admin_checar_ultimo_admin()
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not exists (select 1 from public.profiles where role = 'admin' and not disabled) then
+    raise exception 'É preciso manter pelo menos um admin ativo.';
+  end if;
+end;
+$$;
+
+create or replace function public.admin_definir_papel(p_user uuid, p_role text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not public.is_admin() then
+    raise exception 'Apenas admin pode gerenciar usuários.';
+  end if;
+  if p_user = auth.uid() then
+    raise exception 'Você não pode alterar o próprio acesso.';
+  end if;
+  if p_role not in ('viewer', 'editor', 'admin') then
+    raise exception 'Papel inválido: %', p_role;
+  end if;
+
+  insert into public.profiles (id, email, role)
+    select u.id, u.email, p_role from auth.users u where u.id = p_user
+  on conflict (id) do update set role = excluded.role;
+
+  if not found then
+    raise exception 'Usuário não encontrado.';
+  end if;
+
+  perform public.admin_checar_ultimo_admin();
+end;
+$$;
+
+create or replace function public.admin_definir_bloqueio(p_user uuid, p_disabled boolean)
+returns void
+language plpgsql
+security definer
+set search_path = public, auth
+as $$
+begin
+  if not public.is_admin() then
+    raise exception 'Apenas admin pode gerenciar usuários.';
+  end if;
+  if p_user = auth.uid() then
+    raise exception 'Você não pode alterar o próprio acesso.';
+  end if;
+
+  insert into public.profiles (id, email, disabled)
+    select u.id, u.email, p_disabled from auth.users u where u.id = p_user
+  on conflict (id) do update set disabled = excluded.disabled;
+
+  if not found then
+    raise exception 'Usuário não encontrado.';
+  end if;
+
+  -- bloqueia também o login (não só as permissões)
+  update auth.users
+    set banned_until = case when p_disabled then 'infinity'::timestamptz else null end
+    where id = p_user;
+
+  perform public.admin_checar_ultimo_admin();
+end;
+$$;
+
+create or replace function public.admin_convidar(p_email text, p_role text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user uuid;
+begin
+  if not public.is_admin() then
+    raise exception 'Apenas admin pode gerenciar usuários.';
+  end if;
+  if p_role not in ('viewer', 'editor', 'admin') then
+    raise exception 'Papel inválido: %', p_role;
+  end if;
+
+  insert into public.convites (email, role, invited_by)
+    values (lower(trim(p_email)), p_role, auth.uid())
+  on conflict (email) do update
+    set role = excluded.role, invited_by = excluded.invited_by, created_at = timezone('utc'::text, now()), accepted_at = null;
+
+  -- se a conta já existe, aplica o papel imediatamente — pelo mesmo caminho da
+  -- tela de usuários (sem alterar o próprio acesso e sem ficar sem admin ativo)
+  select p.id into v_user from public.profiles p where lower(p.email) = lower(trim(p_email));
+  if v_user is not null then
+    perform public.admin_definir_papel(v_user, p_role);
+  end if;
+end;
+$$;
+
+-- Novo usuário: cria o profile com o papel do convite (ou viewer)
+create or replace function public.handle_new_user()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_role text;
+begin
+  select c.role into v_role from public.convites c where c.email = lower(new.email);
+
+  insert into public.profiles (id, email, role)
+    values (new.id, new.email, coalesce(v_role, 'viewer'))
+  on conflict (id) do nothing;
+
+  update public.convites set accepted_at = timezone('utc'::text, now())
+    where email = lower(new.email) and accepted_at is null;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists on_auth_user_created on auth.users;
+create trigger on_auth_user_created
+  after insert on auth.users
+  for each row execute function public.handle_new_user();
+
+grant execute on function public.is_admin() to authenticated;
+grant execute on function public.admin_listar_usuarios() to authenticated;
+grant execute on function public.admin_definir_papel(uuid, text) to authenticated;
+grant execute on function public.admin_definir_bloqueio(uuid, boolean) to authenticated;
+grant execute on function public.admin_convidar(text, text) to authenticated;
+
+-- ==============================================================================
+-- 13. AUTORIZAÇÃO NO BANCO (substitui as políticas "Permitir acesso total")
+-- ==============================================================================
+-- Qualquer usuário logado lê; só editor/admin ativo grava. A checagem é feita
+-- aqui, então vale mesmo para quem chama a API do Supabase direto com a anon key.
+-- A mesclagem (seção 9) roda com as permissões de quem chama, portanto também
+-- passa por estas políticas. As funções que mexem na quantidade (seções 4 e 5)
+-- são security definer e conferem can_edit()/tem_unidade() por conta própria.
+--
+-- Primeiro admin (uma vez, aqui no SQL Editor):
+--   update public.profiles set role = 'admin' where email = 'voce@exemplo.org';
+
+create or replace function public.can_edit()
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.profiles p
+    where p.id = auth.uid() and p.role in ('editor', 'admin') and not p.disabled
+  );
+$$;
+
+grant execute on function public.can_edit() to authenticated;
+
+do $$
+declare
+  t text;
+begin
+  foreach t in array array[
+    'beneficiarios', 'estoque', 'eventos_entrega', 'configuracoes',
+    'montagens_cesta', 'estoque_movimentos', 'cestas_modelos', 'eventos_participantes'
+  ]
+  loop
+    execute format('drop policy if exists "Permitir acesso total" on public.%I', t);
+    execute format('drop policy if exists "Leitura para usuários logados" on public.%I', t);
+    execute format('drop policy if exists "Inserção por editor" on public.%I', t);
+    execute format('drop policy if exists "Alteração por editor" on public.%I', t);
+    execute format('drop policy if exists "Exclusão por editor" on public.%I', t);
+
+    execute format('create policy "Leitura para usuários logados" on public.%I for select to authenticated using (true)', t);
+    -- Livros (montagens e movimentos): só leitura pela API. Quem grava são as
+    -- funções security definer; nem editor altera ou apaga um lançamento.
+    if t in ('montagens_cesta', 'estoque_movimentos') then
+      continue;
+    end if;
+    if t <> 'configuracoes' then
+      execute format('create policy "Inserção por editor" on public.%I for insert to authenticated with check (public.can_edit())', t);
+      execute format('create policy "Alteração por editor" on public.%I for update to authenticated using (public.can_edit()) with check (public.can_edit())', t);
+      execute format('create policy "Exclusão por editor" on public.%I for delete to authenticated using (public.can_edit())', t);
+    end if;
+  end loop;
+end;
+$$;
+
+-- Configurações: editor grava contadores; as regras de elegibilidade são só do admin
+create policy "Inserção por editor" on public.configuracoes for insert to authenticated
+  with check (public.can_edit() and ("key" <> 'eligibility_rules' or public.is_admin()));
+create policy "Alteração por editor" on public.configuracoes for update to authenticated
+  using (public.can_edit() and ("key" <> 'eligibility_rules' or public.is_admin()))
+  with check (public.can_edit() and ("key" <> 'eligibility_rules' or public.is_admin()));
+create policy "Exclusão por editor" on public.configuracoes for delete to authenticated
+  using (public.is_admin());
+
+-- Profiles: cada um lê o próprio (admin lê todos) e só pode se criar como viewer.
+-- Papel e bloqueio mudam apenas pelas funções admin_* da seção 12.
+alter table public.profiles enable row level security;
+
+drop policy if exists "Ler próprio profile" on public.profiles;
+drop policy if exists "Criar próprio profile" on public.profiles;
+drop policy if exists "Atualizar próprio profile" on public.profiles;
+
+create policy "Ler próprio profile" on public.profiles for select to authenticated
+  using (id = auth.uid() or public.is_admin());
+create policy "Criar próprio profile" on public.profiles for insert to authenticated
+  with check (id = auth.uid() and role = 'viewer' and not disabled);
+
+-- Testes: supabase_policy_tests.sql (rode no SQL Editor depois deste script;
+-- cria usuários viewer/editor/admin de teste e desfaz tudo no final).
+
+-- ==============================================================================
+-- 14. AUDITORIA (quem alterou o quê e quando)
+-- ==============================================================================
+-- Preenchida por trigger: cobre tanto as telas do app quanto as funções RPC e
+-- chamadas diretas à API. Só admin lê; ninguém grava direto.
+
+create table if not exists public.auditoria (
+  "id" bigserial primary key,
+  "created_at" timestamp with time zone default timezone('utc'::text, now()),
+  "actor_id" uuid,
+  "actor_email" text,
+  "tabela" text not null,
+  "registro_id" text,
+  "acao" text not null check ("acao" in ('insert', 'update', 'delete')),
+  "antes" jsonb,
+  "depois" jsonb
+);
+
+create index if not exists auditoria_created_at_idx on public.auditoria ("created_at" desc);
+create index if not exists auditoria_tabela_idx on public.auditoria ("tabela", "created_at" desc);
+
+alter table public.auditoria enable row level security;
+drop policy if exists "Leitura por admin" on public.auditoria;
+create policy "Leitura por admin" on public.auditoria for select to authenticated using (public.is_admin());
+
+create or replace function public.auditar()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_antes jsonb := case when tg_op in ('UPDATE', 'DELETE') then to_jsonb(old) end;
+  v_depois jsonb := case when tg_op in ('INSERT', 'UPDATE') then to_jsonb(new) end;
+  v_reg jsonb := coalesce(v_depois, v_antes);
+begin
+  -- update que não mudou nada não polui o log
+  if tg_op = 'UPDATE' and v_antes = v_depois then
+    return new;
+  end if;
+
+  insert into public.auditoria (actor_id, actor_email, tabela, registro_id, acao, antes, depois)
+  values (
+    auth.uid(),
+    coalesce(auth.jwt() ->> 'email', (select email from public.profiles where id = auth.uid())),
+    tg_table_name,
+    -- tabelas de ligação (sem id) usam a chave composta, ex.: "user:unidade"
+    coalesce(v_reg ->> 'id', v_reg ->> 'key',
+             nullif(concat_ws(':', v_reg ->> 'user_id', v_reg ->> 'estoque_id', v_reg ->> 'local_id', v_reg ->> 'unidade_id'), '')),
+    lower(tg_op),
+    v_antes,
+    v_depois
+  );
+
+  return coalesce(new, old);
+end;
+$$;
+
+-- Liga a auditoria numa tabela; as seções seguintes chamam para as tabelas que criam
+create or replace function public.auditar_tabela(p_tabela text)
+returns void
+language plpgsql
+as $$
+begin
+  execute format('drop trigger if exists auditar_%1$s on public.%1$I', p_tabela);
+  execute format(
+    'create trigger auditar_%1$s after insert or update or delete on public.%1$I for each row execute function public.auditar()',
+    p_tabela
+  );
+end;
+$$;
+
+revoke execute on function public.auditar_tabela(text) from public;
+
+do $$
+declare
+  t text;
+begin
+  foreach t in array array[
+    'estoque', 'beneficiarios', 'eventos_entrega', 'eventos_participantes',
+    'configuracoes', 'cestas_modelos', 'profiles'
+  ]
+  loop
+    perform public.auditar_tabela(t);
+  end loop;
+end;
+$$;
+
+-- ==============================================================================
+-- 15. UNIDADES (várias congregações no mesmo banco)
+-- ==============================================================================
+-- Estoque, beneficiários, eventos, modelos de cesta e montagens pertencem a
+-- uma unidade. O usuário só vê e grava nas unidades às quais pertence; admin é
+-- do distrito e vê todas. Presença e movimentações seguem a unidade do evento /
+-- item. Em configuracoes, linhas sem unidade são do distrito (regras de
+-- elegibilidade: só admin grava) e o contador de cestas é um por unidade.
+--
+-- Conta nova entra nas unidades marcadas no convite; quem se cadastra sem
+-- convite não vê nada até um admin vincular a conta a uma unidade.
+
+create table if not exists public.unidades (
+  "id" text primary key,
+  "nome" text not null,
+  "created_at" timestamp with time zone default timezone('utc'::text, now())
+);
+
+create table if not exists public.profiles_unidades (
+  "user_id" uuid not null references public.profiles ("id") on delete cascade,
+  "unidade_id" text not null references public.unidades ("id") on delete cascade,
+  primary key ("user_id", "unidade_id")
+);
+
+-- Tudo o que já existe vai para a unidade "sede"
+insert into public.unidades (id, nome) values ('sede', 'Sede') on conflict (id) do nothing;
+insert into public.profiles_unidades (user_id, unidade_id)
+  select id, 'sede' from public.profiles
+on conflict do nothing;
+
+alter table public.estoque add column if not exists "unidade_id" text not null default 'sede' references public.unidades ("id");
+alter table public.beneficiarios add column if not exists "unidade_id" text not null default 'sede' references public.unidades ("id");
+alter table public.eventos_entrega add column if not exists "unidade_id" text not null default 'sede' references public.unidades ("id");
+
+create index if not exists estoque_unidade_idx on public.estoque ("unidade_id");
+create index if not exists beneficiarios_unidade_idx on public.beneficiarios ("unidade_id");
+create index if not exists eventos_entrega_unidade_idx on public.eventos_entrega ("unidade_id");
+
+alter table public.cestas_modelos add column if not exists "unidade_id" text not null default 'sede' references public.unidades ("id");
+alter table public.montagens_cesta add column if not exists "unidade_id" text not null default 'sede' references public.unidades ("id");
+alter table public.configuracoes add column if not exists "unidade_id" text references public.unidades ("id");
+
+create index if not exists cestas_modelos_unidade_idx on public.cestas_modelos ("unidade_id");
+create index if not exists montagens_cesta_unidade_idx on public.montagens_cesta ("unidade_id");
+
+-- O nome do modelo só precisa ser único dentro da unidade
+alter table public.cestas_modelos drop constraint if exists cestas_modelos_name_key;
+alter table public.cestas_modelos drop constraint if exists cestas_modelos_unidade_name_key;
+alter table public.cestas_modelos add constraint cestas_modelos_unidade_name_key unique ("unidade_id", "name");
+
+-- Contador de cestas: um por unidade ("assembled_baskets:<unidade>"); o antigo vai para a sede
+insert into public.configuracoes ("key", "value", "unidade_id")
+  select 'assembled_baskets:sede', "value", 'sede' from public.configuracoes where "key" = 'assembled_baskets'
+on conflict ("key") do nothing;
+delete from public.configuracoes where "key" = 'assembled_baskets';
+
+create or replace function public.tem_unidade(p_unidade text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select public.is_admin() or exists (
+    select 1 from public.profiles_unidades pu
+    where pu.user_id = auth.uid() and pu.unidade_id = p_unidade
+  );
+$$;
+
+grant execute on function public.tem_unidade(text) to authenticated;
+
+alter table public.unidades enable row level security;
+alter table public.profiles_unidades enable row level security;
+
+drop policy if exists "Ver próprias unidades" on public.unidades;
+drop policy if exists "Admin gerencia unidades" on public.unidades;
+drop policy if exists "Ver próprios vínculos" on public.profiles_unidades;
+
+create policy "Ver próprias unidades" on public.unidades for select to authenticated
+  using (public.tem_unidade(id));
+create policy "Admin gerencia unidades" on public.unidades for all to authenticated
+  using (public.is_admin()) with check (public.is_admin());
+create policy "Ver próprios vínculos" on public.profiles_unidades for select to authenticated
+  using (user_id = auth.uid() or public.is_admin());
+
+-- Refaz as políticas da seção 13 acrescentando a unidade
+do $$
+declare
+  t text;
+begin
+  foreach t in array array['estoque', 'beneficiarios', 'eventos_entrega', 'cestas_modelos']
+  loop
+    execute format('drop policy if exists "Leitura para usuários logados" on public.%I', t);
+    execute format('drop policy if exists "Inserção por editor" on public.%I', t);
+    execute format('drop policy if exists "Alteração por editor" on public.%I', t);
+    execute format('drop policy if exists "Exclusão por editor" on public.%I', t);
+
+    execute format('create policy "Leitura para usuários logados" on public.%I for select to authenticated using (public.tem_unidade(unidade_id))', t);
+    execute format('create policy "Inserção por editor" on public.%I for insert to authenticated with check (public.can_edit() and public.tem_unidade(unidade_id))', t);
+    execute format('create policy "Alteração por editor" on public.%I for update to authenticated using (public.can_edit() and public.tem_unidade(unidade_id)) with check (public.can_edit() and public.tem_unidade(unidade_id))', t);
+    execute format('create policy "Exclusão por editor" on public.%I for delete to authenticated using (public.can_edit() and public.tem_unidade(unidade_id))', t);
+  end loop;
+end;
+$$;
+
+-- Presença: pela unidade do evento (e o beneficiário tem de ser da mesma unidade)
+drop policy if exists "Leitura para usuários logados" on public.eventos_participantes;
+drop policy if exists "Inserção por editor" on public.eventos_participantes;
+drop policy if exists "Alteração por editor" on public.eventos_participantes;
+drop policy if exists "Exclusão por editor" on public.eventos_participantes;
+
+create policy "Leitura para usuários logados" on public.eventos_participantes for select to authenticated
+  using (exists (select 1 from public.eventos_entrega ev where ev.id = evento_id and public.tem_unidade(ev.unidade_id)));
+create policy "Inserção por editor" on public.eventos_participantes for insert to authenticated
+  with check (
+    public.can_edit()
+    and exists (select 1 from public.eventos_entrega ev where ev.id = evento_id and public.tem_unidade(ev.unidade_id))
+    and exists (select 1 from public.beneficiarios b where b.id = beneficiario_id and public.tem_unidade(b.unidade_id))
+  );
+create policy "Alteração por editor" on public.eventos_participantes for update to authenticated
+  using (public.can_edit() and exists (select 1 from public.eventos_entrega ev where ev.id = evento_id and public.tem_unidade(ev.unidade_id)))
+  with check (public.can_edit() and exists (select 1 from public.eventos_entrega ev where ev.id = evento_id and public.tem_unidade(ev.unidade_id)));
+create policy "Exclusão por editor" on public.eventos_participantes for delete to authenticated
+  using (public.can_edit() and exists (select 1 from public.eventos_entrega ev where ev.id = evento_id and public.tem_unidade(ev.unidade_id)));
+
+-- Livros (só leitura, seção 13): movimentos pela unidade do item, montagens pela própria
+drop policy if exists "Leitura para usuários logados" on public.estoque_movimentos;
+drop policy if exists "Leitura para usuários logados" on public.montagens_cesta;
+
+create policy "Leitura para usuários logados" on public.estoque_movimentos for select to authenticated
+  using (exists (select 1 from public.estoque e where e.id::text = estoque_id and public.tem_unidade(e.unidade_id)));
+create policy "Leitura para usuários logados" on public.montagens_cesta for select to authenticated
+  using (public.tem_unidade(unidade_id));
+
+-- Configurações: linha sem unidade = distrito (só admin grava); com unidade = editor da unidade
+drop policy if exists "Leitura para usuários logados" on public.configuracoes;
+drop policy if exists "Inserção por editor" on public.configuracoes;
+drop policy if exists "Alteração por editor" on public.configuracoes;
+
+create policy "Leitura para usuários logados" on public.configuracoes for select to authenticated
+  using (unidade_id is null or public.tem_unidade(unidade_id));
+create policy "Inserção por editor" on public.configuracoes for insert to authenticated
+  with check (public.is_admin() or (public.can_edit() and unidade_id is not null and public.tem_unidade(unidade_id)));
+create policy "Alteração por editor" on public.configuracoes for update to authenticated
+  using (public.is_admin() or (public.can_edit() and unidade_id is not null and public.tem_unidade(unidade_id)))
+  with check (public.is_admin() or (public.can_edit() and unidade_id is not null and public.tem_unidade(unidade_id)));
+
+-- Convites levam as unidades; a conta nova entra nelas no 1º login
+alter table public.convites add column if not exists "unidades" text[] not null default '{}';
+
+drop function if exists public.admin_convidar(text, text);
+
+create or replace function public.admin_convidar(p_email text, p_role text, p_unidades text[] default '{}')
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user uuid;
+begin
+  if not public.is_admin() then
+    raise exception 'Apenas admin pode gerenciar usuários.';
+  end if;
+  if p_role not in ('viewer', 'editor', 'admin') then
+    raise exception 'Papel inválido: %', p_role;
+  end if;
+
+  insert into public.convites (email, role, invited_by, unidades)
+    values (lower(trim(p_email)), p_role, auth.uid(), coalesce(p_unidades, '{}'))
+  on conflict (email) do update
+    set role = excluded.role, invited_by = excluded.invited_by, unidades = excluded.unidades,
+        created_at = timezone('utc'::text, now()), accepted_at = null;
+
+  -- conta já existente: papel pelo mesmo caminho da tela de usuários; unidades somam às atuais
+  select p.id into v_user from public.profiles p where lower(p.email) = lower(trim(p_email));
+  if v_user is not null then
+    perform public.admin_definir_papel(v_user, p_role);
+    insert into public.profiles_unidades (user_id, unidade_id)
+      select v_user, x from unnest(coalesce(p_unidades, '{}')) as x
+    on conflict do nothing;
+  end if;
+end;
+$$;
+
+create or replace function public.handle_new_user()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_convite public.convites%rowtype;
+begin
+  select * into v_convite from public.convites c where c.email = lower(new.email);
+
+  insert into public.profiles (id, email, role)
+    values (new.id, new.email, coalesce(v_convite.role, 'viewer'))
+  on conflict (id) do nothing;
+
+  -- sem convite (ou convite sem unidade): nenhuma unidade até um admin vincular
+  insert into public.profiles_unidades (user_id, unidade_id)
+    select new.id, x from unnest(coalesce(v_convite.unidades, '{}')) as x
+    where exists (select 1 from public.unidades u where u.id = x)
+  on conflict do nothing;
+
+  update public.convites set accepted_at = timezone('utc'::text, now())
+    where email = lower(new.email) and accepted_at is null;
+
+  return new;
+end;
+$$;
+
+grant execute on function public.admin_convidar(text, text, text[]) to authenticated;
+
+-- Painel de usuários passa a mostrar as unidades de cada um
+drop function if exists public.admin_listar_usuarios();
+
+create or replace function public.admin_listar_usuarios()
+returns table (
+  id uuid,
+  email text,
+  role text,
+  disabled boolean,
+  unidades text[],
+  last_sign_in_at timestamp with time zone,
+  created_at timestamp with time zone
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if not public.is_admin() then
+    raise exception 'Apenas admin pode gerenciar usuários.';
+  end if;
+
+  return query
+    select
+      u.id,
+      u.email::text,
+      coalesce(p.role, 'viewer'),
+      coalesce(p.disabled, false),
+      coalesce(array(select pu.unidade_id from public.profiles_unidades pu where pu.user_id = u.id order by 1), '{}'),
+      u.last_sign_in_at,
+      u.created_at
+    from auth.users u
+    left join public.profiles p on p.id = u.id
+    order by u.email;
+end;
+$$;
+
+create or replace function public.admin_definir_unidades(p_user uuid, p_unidades text[])
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not public.is_admin() then
+    raise exception 'Apenas admin pode gerenciar usuários.';
+  end if;
+
+  insert into public.profiles (id, email)
+    select u.id, u.email from auth.users u where u.id = p_user
+  on conflict (id) do nothing;
+
+  delete from public.profiles_unidades where user_id = p_user and unidade_id <> all (coalesce(p_unidades, '{}'));
+  insert into public.profiles_unidades (user_id, unidade_id)
+    select p_user, x from unnest(coalesce(p_unidades, '{}')) as x
+  on conflict do nothing;
+end;
+$$;
+
+grant execute on function public.admin_listar_usuarios() to authenticated;
+grant execute on function public.admin_definir_unidades(uuid, text[]) to authenticated;
+
+-- Auditoria (seção 14)
+select public.auditar_tabela('unidades');
+select public.auditar_tabela('profiles_unidades');
+
+-- ==============================================================================
+-- 16. LOCAIS DE ARMAZENAMENTO E TRANSFERÊNCIAS
+-- ==============================================================================
+-- estoque.quantidade continua sendo o total do item. estoque_saldos guarda quanto
+-- desse total está em cada local; o que sobra é "sem local".
+-- Transferência: ao enviar, sai da origem (movimento 'transferencia' negativo) e
+-- fica pendente; ao confirmar, o lado que recebe ganha a quantidade no local de
+-- destino (movimento positivo). Entre unidades, o item do destino é o de mesmo
+-- nome na unidade que recebe, criado se não existir.
+-- Saídas (cestas, perdas, ajustes): saem primeiro do "sem local"; se não bastar,
+-- do local com mais saldo (trigger estoque_ajusta_saldos).
+
+alter table public.estoque_movimentos drop constraint if exists estoque_movimentos_tipo_check;
+alter table public.estoque_movimentos add constraint estoque_movimentos_tipo_check
+  check ("tipo" in ('entrada', 'doacao', 'saida_cesta', 'perda', 'ajuste', 'transferencia'));
+
+create table if not exists public.locais_estoque (
+  "id" text primary key,
+  "nome" text not null,
+  "unidade_id" text references public.unidades ("id"),
+  "created_at" timestamp with time zone default timezone('utc'::text, now())
+);
+
+create table if not exists public.estoque_saldos (
+  "estoque_id" text not null,
+  "local_id" text not null references public.locais_estoque ("id") on delete cascade,
+  "quantidade" numeric not null default 0 check ("quantidade" >= 0),
+  primary key ("estoque_id", "local_id")
+);
+
+create table if not exists public.transferencias (
+  "id" uuid primary key default gen_random_uuid(),
+  "estoque_id" text not null,
+  "item_nome" text not null,
+  "item_unidade" text,
+  "origem_local" text references public.locais_estoque ("id"),
+  "destino_local" text not null references public.locais_estoque ("id"),
+  "destino_estoque_id" text,
+  "quantidade" numeric not null check ("quantidade" > 0),
+  "status" text not null default 'pendente' check ("status" in ('pendente', 'recebida', 'cancelada')),
+  "motivo" text,
+  "enviado_por" text default (auth.jwt() ->> 'email'),
+  "recebido_por" text,
+  "created_at" timestamp with time zone default timezone('utc'::text, now()),
+  "recebido_at" timestamp with time zone
+);
+
+create index if not exists transferencias_pendentes_idx on public.transferencias ("destino_local") where "status" = 'pendente';
+
+-- Lotes que saíram da origem ([{validade, quantidade}], seção 17): quem recebe
+-- (ou a origem, se cancelar) ganha lotes com as mesmas validades
+alter table public.transferencias add column if not exists "lotes" jsonb not null default '[]'::jsonb;
+
+alter table public.locais_estoque enable row level security;
+alter table public.estoque_saldos enable row level security;
+alter table public.transferencias enable row level security;
+
+drop policy if exists "Leitura para usuários logados" on public.locais_estoque;
+drop policy if exists "Editor cria locais da unidade" on public.locais_estoque;
+drop policy if exists "Leitura para usuários logados" on public.estoque_saldos;
+drop policy if exists "Ver transferências da unidade" on public.transferencias;
+
+-- nomes dos locais são visíveis a todos para permitir enviar a outra igreja
+create policy "Leitura para usuários logados" on public.locais_estoque for select to authenticated using (true);
+create policy "Editor cria locais da unidade" on public.locais_estoque for all to authenticated
+  using (public.can_edit() and public.tem_unidade(unidade_id))
+  with check (public.can_edit() and public.tem_unidade(unidade_id));
+-- saldos e transferências só mudam pelas funções abaixo
+create policy "Leitura para usuários logados" on public.estoque_saldos for select to authenticated
+  using (exists (select 1 from public.locais_estoque l where l.id = local_id and public.tem_unidade(l.unidade_id)));
+create policy "Ver transferências da unidade" on public.transferencias for select to authenticated
+  using (
+    exists (select 1 from public.estoque e where e.id::text = estoque_id)
+    or exists (select 1 from public.locais_estoque l where l.id = destino_local and public.tem_unidade(l.unidade_id))
+  );
+
+-- Lança um movimento no item e devolve o novo saldo (uso interno das transferências)
+drop function if exists public.lancar_transferencia(text, numeric, text);
+
+create or replace function public.lancar_transferencia(p_estoque_id text, p_delta numeric, p_motivo text, p_validade date default null)
+returns numeric
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_saldo numeric;
+begin
+  update public.estoque
+     set quantidade = coalesce(quantidade, 0) + p_delta
+   where id::text = p_estoque_id
+  returning quantidade into v_saldo;
+
+  if v_saldo < 0 then
+    raise exception 'Saldo insuficiente no item.';
+  end if;
+
+  insert into public.estoque_movimentos (estoque_id, tipo, delta, saldo_apos, motivo, validade)
+  values (p_estoque_id, 'transferencia', p_delta, v_saldo, p_motivo, case when p_delta > 0 then p_validade end);
+
+  return v_saldo;
+end;
+$$;
+
+revoke execute on function public.lancar_transferencia(text, numeric, text, date) from public;
+
+-- Entrada de uma transferência: um movimento por lote, para manter as validades
+create or replace function public.lancar_lotes_transferencia(p_estoque_id text, p_t public.transferencias, p_motivo text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_lote jsonb;
+begin
+  for v_lote in
+    select * from jsonb_array_elements(
+      case when jsonb_array_length(coalesce(p_t.lotes, '[]'::jsonb)) > 0 then p_t.lotes
+           -- transferências antigas, sem lotes registrados
+           else jsonb_build_array(jsonb_build_object('quantidade', p_t.quantidade)) end
+    )
+  loop
+    perform public.lancar_transferencia(p_estoque_id, (v_lote->>'quantidade')::numeric, p_motivo, (v_lote->>'validade')::date);
+  end loop;
+end;
+$$;
+
+revoke execute on function public.lancar_lotes_transferencia(text, public.transferencias, text) from public;
+
+create or replace function public.transferir_estoque(
+  p_estoque_id text,
+  p_origem text,
+  p_destino text,
+  p_quantidade numeric,
+  p_motivo text default null
+) returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_item record;
+  v_alocado numeric;
+  v_disp numeric;
+  v_destino record;
+  v_lotes jsonb;
+  v_id uuid;
+begin
+  if p_quantidade is null or p_quantidade <= 0 then
+    raise exception 'Informe uma quantidade maior que zero.';
+  end if;
+  if p_origem is not distinct from p_destino then
+    raise exception 'Origem e destino são o mesmo local.';
+  end if;
+
+  select * into v_item from public.estoque where id::text = p_estoque_id for update;
+  if not found then
+    raise exception 'Item de estoque não encontrado.';
+  end if;
+  if not (public.can_edit() and public.tem_unidade(v_item.unidade_id)) then
+    raise exception 'Você não tem permissão para transferir este item.';
+  end if;
+
+  select * into v_destino from public.locais_estoque where id = p_destino;
+  if not found then
+    raise exception 'Local de destino não encontrado.';
+  end if;
+
+  if p_origem is null then
+    select coalesce(sum(quantidade), 0) into v_alocado from public.estoque_saldos where estoque_id = p_estoque_id;
+    v_disp := coalesce(v_item.quantidade, 0) - v_alocado;
+  else
+    if not exists (select 1 from public.locais_estoque where id = p_origem and unidade_id is not distinct from v_item.unidade_id) then
+      raise exception 'O local de origem não pertence à unidade do item.';
+    end if;
+    select quantidade into v_disp from public.estoque_saldos
+      where estoque_id = p_estoque_id and local_id = p_origem for update;
+    v_disp := coalesce(v_disp, 0);
+  end if;
+
+  if p_quantidade > v_disp then
+    raise exception 'Saldo insuficiente na origem (tem %).', greatest(v_disp, 0);
+  end if;
+
+  if p_origem is not null then
+    update public.estoque_saldos set quantidade = quantidade - p_quantidade
+      where estoque_id = p_estoque_id and local_id = p_origem;
+  end if;
+
+  -- lotes que a baixa vai consumir (mesma ordem FEFO), antes de lançar a saída
+  v_lotes := public.plano_lotes(p_estoque_id, p_quantidade);
+
+  perform public.lancar_transferencia(p_estoque_id, -p_quantidade, 'Transferência para ' || v_destino.nome);
+
+  insert into public.transferencias (estoque_id, item_nome, item_unidade, origem_local, destino_local, quantidade, motivo, lotes)
+  values (p_estoque_id, coalesce(v_item.nome, ''), v_item.unidade, p_origem, p_destino, p_quantidade, p_motivo, v_lotes)
+  returning id into v_id;
+
+  return v_id;
+end;
+$$;
+
+create or replace function public.receber_transferencia(p_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_t public.transferencias%rowtype;
+  v_destino record;
+  v_item record;
+  v_tem_item boolean;
+  v_dest_item text;
+begin
+  select * into v_t from public.transferencias where id = p_id for update;
+  if not found or v_t.status <> 'pendente' then
+    raise exception 'Transferência não encontrada ou já finalizada.';
+  end if;
+
+  select * into v_destino from public.locais_estoque where id = v_t.destino_local;
+  if not (public.can_edit() and public.tem_unidade(v_destino.unidade_id)) then
+    raise exception 'Só a unidade que recebe pode confirmar.';
+  end if;
+
+  select * into v_item from public.estoque where id::text = v_t.estoque_id;
+  v_tem_item := found;
+
+  if v_tem_item and v_item.unidade_id is not distinct from v_destino.unidade_id then
+    v_dest_item := v_t.estoque_id;
+  else
+    select id::text into v_dest_item from public.estoque
+      where unidade_id is not distinct from v_destino.unidade_id
+        and lower(nome) = lower(v_t.item_nome)
+        and unidade is not distinct from v_t.item_unidade
+      order by created_at
+      limit 1;
+
+    if v_dest_item is null then
+      if not v_tem_item then
+        raise exception 'O item de origem não existe mais; cadastre "%" nesta unidade e tente de novo.', v_t.item_nome;
+      end if;
+      insert into public.estoque
+        select * from jsonb_populate_record(
+          null::public.estoque,
+          to_jsonb(v_item) || jsonb_build_object(
+            'id', gen_random_uuid(),
+            'quantidade', 0,
+            'unidade_id', v_destino.unidade_id,
+            'created_at', timezone('utc'::text, now())
+          )
+        )
+      returning id::text into v_dest_item;
+    end if;
+  end if;
+
+  perform public.lancar_lotes_transferencia(v_dest_item, v_t, 'Recebido de transferência: ' || v_t.item_nome);
+
+  insert into public.estoque_saldos (estoque_id, local_id, quantidade)
+  values (v_dest_item, v_t.destino_local, v_t.quantidade)
+  on conflict (estoque_id, local_id) do update set quantidade = estoque_saldos.quantidade + excluded.quantidade;
+
+  update public.transferencias
+     set status = 'recebida',
+         destino_estoque_id = v_dest_item,
+         recebido_por = auth.jwt() ->> 'email',
+         recebido_at = timezone('utc'::text, now())
+   where id = p_id;
+end;
+$$;
+
+create or replace function public.cancelar_transferencia(p_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_t public.transferencias%rowtype;
+  v_unidade text;
+begin
+  select * into v_t from public.transferencias where id = p_id for update;
+  if not found or v_t.status <> 'pendente' then
+    raise exception 'Transferência não encontrada ou já finalizada.';
+  end if;
+
+  select unidade_id into v_unidade from public.estoque where id::text = v_t.estoque_id;
+  if not found then
+    raise exception 'O item de origem não existe mais.';
+  end if;
+  if not (public.can_edit() and public.tem_unidade(v_unidade)) then
+    raise exception 'Só a unidade que enviou pode cancelar.';
+  end if;
+
+  perform public.lancar_lotes_transferencia(v_t.estoque_id, v_t, 'Transferência cancelada');
+
+  if v_t.origem_local is not null then
+    insert into public.estoque_saldos (estoque_id, local_id, quantidade)
+    values (v_t.estoque_id, v_t.origem_local, v_t.quantidade)
+    on conflict (estoque_id, local_id) do update set quantidade = estoque_saldos.quantidade + excluded.quantidade;
+  end if;
+
+  update public.transferencias set status = 'cancelada' where id = p_id;
+end;
+$$;
+
+-- Mantém soma dos locais <= total do item depois de qualquer saída
+create or replace function public.estoque_ajusta_saldos()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_excesso numeric;
+  v_s record;
+  v_tira numeric;
+begin
+  select coalesce(sum(quantidade), 0) - coalesce(new.quantidade, 0) into v_excesso
+    from public.estoque_saldos where estoque_id = new.id::text;
+
+  for v_s in
+    select local_id, quantidade from public.estoque_saldos
+     where estoque_id = new.id::text and quantidade > 0
+     order by quantidade desc, local_id
+     for update
+  loop
+    exit when v_excesso <= 0;
+    v_tira := least(v_s.quantidade, v_excesso);
+    update public.estoque_saldos set quantidade = quantidade - v_tira
+     where estoque_id = new.id::text and local_id = v_s.local_id;
+    v_excesso := v_excesso - v_tira;
+  end loop;
+
+  return null;
+end;
+$$;
+
+drop trigger if exists estoque_ajusta_saldos on public.estoque;
+create trigger estoque_ajusta_saldos
+  after update of quantidade on public.estoque
+  for each row when (new.quantidade < old.quantidade)
+  execute function public.estoque_ajusta_saldos();
+
+grant execute on function public.transferir_estoque(text, text, text, numeric, text) to authenticated;
+grant execute on function public.receber_transferencia(uuid) to authenticated;
+grant execute on function public.cancelar_transferencia(uuid) to authenticated;
+
+-- Auditoria (seção 14)
+select public.auditar_tabela('locais_estoque');
+select public.auditar_tabela('estoque_saldos');
+select public.auditar_tabela('transferencias');
+
+-- ==============================================================================
+-- 17. LOTES POR VALIDADE (FEFO)
+-- ==============================================================================
+-- Cada entrada vira um lote com a própria validade; toda saída consome primeiro
+-- o lote que vence antes. Os lotes são mantidos por trigger em
+-- estoque_movimentos, então movimentar_estoque, a montagem de cestas e as
+-- transferências seguem a mesma regra (o destino recebe lotes com as validades
+-- que saíram da origem). estoque.validade passa a mostrar a validade mais
+-- próxima entre os lotes com saldo.
+
+create table if not exists public.estoque_lotes (
+  "id" uuid primary key default gen_random_uuid(),
+  "estoque_id" text not null,
+  "quantidade" numeric not null default 0 check ("quantidade" >= 0),
+  "validade" date,
+  "data_entrada" date not null default current_date,
+  "created_at" timestamp with time zone default timezone('utc'::text, now())
+);
+
+create index if not exists estoque_lotes_fefo_idx on public.estoque_lotes ("estoque_id", "validade" nulls last, "data_entrada");
+
+alter table public.estoque_lotes enable row level security;
+drop policy if exists "Leitura para usuários logados" on public.estoque_lotes;
+create policy "Leitura para usuários logados" on public.estoque_lotes for select to authenticated
+  using (exists (select 1 from public.estoque e where e.id::text = estoque_id));
+
+alter table public.estoque_movimentos add column if not exists "validade" date;
+
+-- Saldo já existente vira um lote com a validade que estava no item
+insert into public.estoque_lotes (estoque_id, quantidade, validade, data_entrada)
+select e.id::text,
+       e.quantidade,
+       nullif(e.validade::text, '')::date,
+       coalesce(nullif(e.data_entrada::text, '')::date, e.created_at::date, current_date)
+  from public.estoque e
+ where coalesce(e.quantidade, 0) > 0
+   and not exists (select 1 from public.estoque_lotes l where l.estoque_id = e.id::text);
+
+create or replace function public.consumir_lotes(p_estoque_id text, p_qtd numeric)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_lote record;
+  v_resta numeric := p_qtd;
+  v_usar numeric;
+begin
+  for v_lote in
+    select id, quantidade from public.estoque_lotes
+     where estoque_id = p_estoque_id and quantidade > 0
+     order by validade nulls last, data_entrada, created_at
+     for update
+  loop
+    exit when v_resta <= 0;
+    v_usar := least(v_lote.quantidade, v_resta);
+    update public.estoque_lotes set quantidade = quantidade - v_usar where id = v_lote.id;
+    v_resta := v_resta - v_usar;
+  end loop;
+  -- o que sobrar é saldo antigo sem lote registrado; não bloqueia a saída
+end;
+$$;
+
+revoke execute on function public.consumir_lotes(text, numeric) from public;
+
+-- Quais lotes uma saída de p_qtd vai consumir, na ordem de consumir_lotes, sem
+-- alterar nada: [{validade, quantidade}]. O que não tiver lote sai sem validade.
+-- As transferências guardam isso para o destino receber as mesmas validades.
+create or replace function public.plano_lotes(p_estoque_id text, p_qtd numeric)
+returns jsonb
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_lote record;
+  v_resta numeric := p_qtd;
+  v_usar numeric;
+  v_plano jsonb := '[]'::jsonb;
+begin
+  for v_lote in
+    select validade, quantidade from public.estoque_lotes
+     where estoque_id = p_estoque_id and quantidade > 0
+     order by validade nulls last, data_entrada, created_at
+  loop
+    exit when v_resta <= 0;
+    v_usar := least(v_lote.quantidade, v_resta);
+    v_plano := v_plano || jsonb_build_array(jsonb_build_object('validade', v_lote.validade, 'quantidade', v_usar));
+    v_resta := v_resta - v_usar;
+  end loop;
+  if v_resta > 0 then
+    v_plano := v_plano || jsonb_build_array(jsonb_build_object('validade', null, 'quantidade', v_resta));
+  end if;
+  return v_plano;
+end;
+$$;
+
+revoke execute on function public.plano_lotes(text, numeric) from public;
+
+create or replace function public.movimento_atualiza_lotes()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.delta < 0 then
+    perform public.consumir_lotes(new.estoque_id, -new.delta);
+  elsif new.delta > 0 then
+    insert into public.estoque_lotes (estoque_id, quantidade, validade)
+    values (new.estoque_id, new.delta, new.validade);
+  end if;
+
+  update public.estoque
+     set validade = (
+       select min(l.validade) from public.estoque_lotes l
+        where l.estoque_id = new.estoque_id and l.quantidade > 0
+     )
+   where id::text = new.estoque_id;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists movimento_atualiza_lotes on public.estoque_movimentos;
+create trigger movimento_atualiza_lotes
+  after insert on public.estoque_movimentos
+  for each row execute function public.movimento_atualiza_lotes();
+
+-- movimentar_estoque ganha a validade do lote (entradas)
+drop function if exists public.movimentar_estoque(text, text, numeric, text);
+
+create or replace function public.movimentar_estoque(
+  p_estoque_id text,
+  p_tipo text,
+  p_delta numeric,
+  p_motivo text default null,
+  p_validade date default null
+) returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_have numeric;
+  v_saldo numeric;
+  v_unidade text;
+begin
+  if not public.can_edit() then
+    raise exception 'Sem permissão para movimentar o estoque.';
+  end if;
+  if p_delta is null or p_delta = 0 then
+    raise exception 'Quantidade movimentada inválida.';
+  end if;
+  if p_tipo in ('entrada', 'doacao') and p_delta < 0 then
+    raise exception 'Entradas e doações precisam ter quantidade positiva.';
+  end if;
+  if p_tipo in ('saida_cesta', 'perda') and p_delta > 0 then
+    raise exception 'Saídas e perdas precisam ter quantidade negativa.';
+  end if;
+  if p_tipo = 'transferencia' then
+    raise exception 'Use transferir_estoque para transferências.';
+  end if;
+
+  select quantidade, unidade_id into v_have, v_unidade from public.estoque where id::text = p_estoque_id for update;
+  if not found or not public.tem_unidade(v_unidade) then
+    raise exception 'Item de estoque não encontrado.';
+  end if;
+  if coalesce(v_have, 0) + p_delta < 0 then
+    raise exception 'Saldo insuficiente (tem %, movimento %).', coalesce(v_have, 0), p_delta;
+  end if;
+
+  update public.estoque
+     set quantidade = coalesce(quantidade, 0) + p_delta
+   where id::text = p_estoque_id
+  returning quantidade into v_saldo;
+
+  insert into public.estoque_movimentos (estoque_id, tipo, delta, saldo_apos, motivo, validade)
+  values (p_estoque_id, p_tipo, p_delta, v_saldo, p_motivo, case when p_delta > 0 then p_validade end);
+
+  return jsonb_build_object('estoque_id', p_estoque_id, 'quantidade', v_saldo);
+end;
+$$;
+
+grant execute on function public.movimentar_estoque(text, text, numeric, text, date) to authenticated;
+
+-- Alerta de validade por lote: mostra a quantidade que realmente vai vencer
+drop view if exists public.alertas_validade;
+create view public.alertas_validade with (security_invoker = true) as
+select e.id::text as id,
+       l.id as lote_id,
+       e.nome,
+       e.categoria,
+       l.validade,
+       l.quantidade,
+       (l.validade - current_date) as dias_para_vencer
+  from public.estoque_lotes l
+  join public.estoque e on e.id::text = l.estoque_id
+ where l.quantidade > 0
+   and l.validade is not null
+   and l.validade <= current_date + 7;
+
+grant select on public.alertas_validade to authenticated;
+
+-- Auditoria (seção 14)
+select public.auditar_tabela('estoque_lotes');
+
+-- ==============================================================================
+-- 18. DOAÇÕES (doadores, entrada de doações e recibos)
+-- ==============================================================================
+-- Doadores são do distrito todo (a mesma igreja ou empresa doa para várias
+-- unidades). Cada doação pertence à unidade que recebeu; seus itens ficam em
+-- jsonb para o recibo e cada linha vira um movimento 'doacao' no estoque, o que
+-- também cria o lote com a validade informada.
+
+create table if not exists public.doadores (
+  "id" text primary key,
+  "nome" text not null,
+  "tipo" text not null default 'pessoa' check ("tipo" in ('pessoa', 'igreja', 'empresa', 'campanha')),
+  "documento" text,
+  "telefone" text,
+  "email" text,
+  "observacoes" text,
+  "created_at" timestamp with time zone default timezone('utc'::text, now())
+);
+
+create table if not exists public.doacoes (
+  "id" uuid primary key default gen_random_uuid(),
+  "numero" bigserial unique,
+  "doador_id" text not null references public.doadores ("id"),
+  "data" date not null default current_date,
+  "itens" jsonb not null default '[]'::jsonb,
+  "observacoes" text,
+  "registrado_por" text default (auth.jwt() ->> 'email'),
+  "unidade_id" text not null default 'sede' references public.unidades ("id"),
+  "created_at" timestamp with time zone default timezone('utc'::text, now())
+);
+
+create index if not exists doacoes_doador_idx on public.doacoes ("doador_id", "data");
+
+alter table public.doadores enable row level security;
+alter table public.doacoes enable row level security;
+
+drop policy if exists "Leitura para usuários logados" on public.doadores;
+drop policy if exists "Inserção por editor" on public.doadores;
+drop policy if exists "Alteração por editor" on public.doadores;
+drop policy if exists "Leitura para usuários logados" on public.doacoes;
+drop policy if exists "Inserção por editor" on public.doacoes;
+
+create policy "Leitura para usuários logados" on public.doadores for select to authenticated using (true);
+create policy "Inserção por editor" on public.doadores for insert to authenticated with check (public.can_edit());
+create policy "Alteração por editor" on public.doadores for update to authenticated
+  using (public.can_edit()) with check (public.can_edit());
+create policy "Leitura para usuários logados" on public.doacoes for select to authenticated
+  using (public.tem_unidade(unidade_id));
+-- doações não são editadas nem apagadas: o recibo já foi entregue
+create policy "Inserção por editor" on public.doacoes for insert to authenticated
+  with check (public.can_edit() and public.tem_unidade(unidade_id));
+
+-- Registra a doação inteira numa transação: cria os itens novos, lança os
+-- movimentos e grava a doação com o número do recibo.
+-- p_itens: [{estoque_id, nome, categoria, unidade, quantidade, validade}]
+create or replace function public.registrar_doacao(
+  p_doador_id text,
+  p_data date,
+  p_itens jsonb,
+  p_observacoes text,
+  p_unidade_id text
+) returns jsonb
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_unidade text := coalesce(p_unidade_id, 'sede');
+  v_linha jsonb;
+  v_itens jsonb := '[]'::jsonb;
+  v_id text;
+  v_nome text;
+  v_qtd numeric;
+  v_doacao public.doacoes;
+begin
+  if not (public.can_edit() and public.tem_unidade(v_unidade)) then
+    raise exception 'Sem permissão para registrar doações.';
+  end if;
+  if not exists (select 1 from public.doadores where id = p_doador_id) then
+    raise exception 'Doador não encontrado.';
+  end if;
+  if p_itens is null or jsonb_typeof(p_itens) <> 'array' or jsonb_array_length(p_itens) = 0 then
+    raise exception 'Inclua ao menos um item na doação.';
+  end if;
+
+  for v_linha in select * from jsonb_array_elements(p_itens) loop
+    v_id := nullif(v_linha ->> 'estoque_id', '');
+    v_nome := trim(coalesce(v_linha ->> 'nome', ''));
+    v_qtd := (v_linha ->> 'quantidade')::numeric;
+    if v_qtd is null or v_qtd <= 0 then
+      raise exception 'Quantidade inválida para "%".', v_nome;
+    end if;
+
+    if v_id is null then
+      if v_nome = '' then
+        raise exception 'Informe o nome do item novo.';
+      end if;
+      insert into public.estoque (id, nome, categoria, unidade, quantidade, data_entrada, status, unidade_id)
+      values (
+        gen_random_uuid()::text,
+        v_nome,
+        coalesce(nullif(v_linha ->> 'categoria', ''), 'outros'),
+        coalesce(nullif(v_linha ->> 'unidade', ''), 'unidade'),
+        0,
+        p_data::text,
+        'disponivel',
+        v_unidade
+      )
+      returning id::text into v_id;
+    else
+      -- o item creditado tem de ser da unidade em que a doação é registrada
+      select nome into v_nome from public.estoque where id::text = v_id and unidade_id = v_unidade;
+      if not found then
+        raise exception 'Item de estoque não encontrado nesta unidade.';
+      end if;
+    end if;
+
+    perform public.movimentar_estoque(
+      v_id, 'doacao', v_qtd, 'Doação de ' || v_nome, nullif(v_linha ->> 'validade', '')::date
+    );
+    v_itens := v_itens || jsonb_build_array(v_linha || jsonb_build_object('estoque_id', v_id, 'nome', v_nome));
+  end loop;
+
+  insert into public.doacoes (doador_id, data, itens, observacoes, unidade_id)
+  values (p_doador_id, coalesce(p_data, current_date), v_itens, p_observacoes, v_unidade)
+  returning * into v_doacao;
+
+  return jsonb_build_object('id', v_doacao.id, 'numero', v_doacao.numero);
+end;
+$$;
+
+grant execute on function public.registrar_doacao(text, date, jsonb, text, text) to authenticated;
+
+-- Auditoria (seção 14)
+select public.auditar_tabela('doadores');
+select public.auditar_tabela('doacoes');
+
+-- ==============================================================================
+-- 19. CAMPANHAS DE ARRECADAÇÃO (metas por item)
+-- ==============================================================================
+-- Campanha com período e metas por item. Cada meta aponta para um item do
+-- estoque e tem a própria unidade de medida; o progresso (progresso_campanha)
+-- soma no banco as linhas das doações ligadas à campanha, que são as mesmas que
+-- entraram no estoque: não existe contagem manual.
+
+create table if not exists public.campanhas (
+  "id" text primary key,
+  "nome" text not null,
+  "inicio" date not null,
+  "fim" date not null,
+  "metas" jsonb not null default '[]'::jsonb, -- [{estoque_id, nome, unidade, meta}]
+  "created_at" timestamp with time zone default timezone('utc'::text, now()),
+  check ("fim" >= "inicio")
+);
+
+alter table public.doacoes add column if not exists "campanha_id" text references public.campanhas ("id");
+create index if not exists doacoes_campanha_idx on public.doacoes ("campanha_id") where "campanha_id" is not null;
+
+alter table public.campanhas enable row level security;
+
+drop policy if exists "Leitura para usuários logados" on public.campanhas;
+drop policy if exists "Inserção por editor" on public.campanhas;
+drop policy if exists "Alteração por editor" on public.campanhas;
+
+create policy "Leitura para usuários logados" on public.campanhas for select to authenticated using (true);
+create policy "Inserção por editor" on public.campanhas for insert to authenticated with check (public.can_edit());
+create policy "Alteração por editor" on public.campanhas for update to authenticated
+  using (public.can_edit()) with check (public.can_edit());
+
+-- registrar_doacao ganha a campanha (opcional)
+drop function if exists public.registrar_doacao(text, date, jsonb, text, text);
+create or replace function public.registrar_doacao(
+  p_doador_id text,
+  p_data date,
+  p_itens jsonb,
+  p_observacoes text,
+  p_unidade_id text,
+  p_campanha_id text default null
+) returns jsonb
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_unidade text := coalesce(p_unidade_id, 'sede');
+  v_linha jsonb;
+  v_itens jsonb := '[]'::jsonb;
+  v_id text;
+  v_nome text;
+  v_qtd numeric;
+  v_doacao public.doacoes;
+begin
+  if not (public.can_edit() and public.tem_unidade(v_unidade)) then
+    raise exception 'Sem permissão para registrar doações.';
+  end if;
+  if not exists (select 1 from public.doadores where id = p_doador_id) then
+    raise exception 'Doador não encontrado.';
+  end if;
+  if p_campanha_id is not null and not exists (
+    select 1 from public.campanhas
+     where id = p_campanha_id and coalesce(p_data, current_date) between inicio and fim
+  ) then
+    raise exception 'Campanha não encontrada ou fora do período na data da doação.';
+  end if;
+  if p_itens is null or jsonb_typeof(p_itens) <> 'array' or jsonb_array_length(p_itens) = 0 then
+    raise exception 'Inclua ao menos um item na doação.';
+  end if;
+
+  for v_linha in select * from jsonb_array_elements(p_itens) loop
+    v_id := nullif(v_linha ->> 'estoque_id', '');
+    v_nome := trim(coalesce(v_linha ->> 'nome', ''));
+    v_qtd := (v_linha ->> 'quantidade')::numeric;
+    if v_qtd is null or v_qtd <= 0 then
+      raise exception 'Quantidade inválida para "%".', v_nome;
+    end if;
+
+    if v_id is null then
+      if v_nome = '' then
+        raise exception 'Informe o nome do item novo.';
+      end if;
+      insert into public.estoque (id, nome, categoria, unidade, quantidade, data_entrada, status, unidade_id)
+      values (
+        gen_random_uuid()::text,
+        v_nome,
+        coalesce(nullif(v_linha ->> 'categoria', ''), 'outros'),
+        coalesce(nullif(v_linha ->> 'unidade', ''), 'unidade'),
+        0,
+        p_data::text,
+        'disponivel',
+        v_unidade
+      )
+      returning id::text into v_id;
+    else
+      -- o item creditado tem de ser da unidade em que a doação é registrada
+      select nome into v_nome from public.estoque where id::text = v_id and unidade_id = v_unidade;
+      if not found then
+        raise exception 'Item de estoque não encontrado nesta unidade.';
+      end if;
+    end if;
+
+    perform public.movimentar_estoque(
+      v_id, 'doacao', v_qtd, 'Doação de ' || v_nome, nullif(v_linha ->> 'validade', '')::date
+    );
+    v_itens := v_itens || jsonb_build_array(v_linha || jsonb_build_object('estoque_id', v_id, 'nome', v_nome));
+  end loop;
+
+  insert into public.doacoes (doador_id, campanha_id, data, itens, observacoes, unidade_id)
+  values (p_doador_id, p_campanha_id, coalesce(p_data, current_date), v_itens, p_observacoes, v_unidade)
+  returning * into v_doacao;
+
+  return jsonb_build_object('id', v_doacao.id, 'numero', v_doacao.numero);
+end;
+$$;
+
+grant execute on function public.registrar_doacao(text, date, jsonb, text, text, text) to authenticated;
+
+-- Progresso somado em todas as unidades (pela RLS, doacoes só mostra as da
+-- unidade de quem consulta). Contam as linhas do item da meta e do item com o
+-- mesmo nome em outras unidades, convertidas para a unidade da meta (seção 21);
+-- linhas sem conversão possível são contadas à parte. Metas antigas, sem
+-- estoque_id, comparam pelo nome.
+-- Retorna {doacoes, metas: [{recebido, sem_conversao}]} na ordem das metas.
+create or replace function public.progresso_campanha(p_campanha_id text)
+returns jsonb
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_campanha public.campanhas;
+  v_meta jsonb;
+  v_ref public.estoque;
+  v_nome text;
+  v_linha record;
+  v_fator numeric;
+  v_recebido numeric;
+  v_sem integer;
+  v_metas jsonb := '[]'::jsonb;
+begin
+  if auth.uid() is null then
+    raise exception 'Sem permissão.';
+  end if;
+
+  select * into v_campanha from public.campanhas where id = p_campanha_id;
+  if not found then
+    raise exception 'Campanha não encontrada.';
+  end if;
+
+  for v_meta in select * from jsonb_array_elements(v_campanha.metas) loop
+    select * into v_ref from public.estoque where id::text = v_meta ->> 'estoque_id';
+    v_nome := lower(trim(coalesce(v_ref.nome, v_meta ->> 'nome', '')));
+    v_recebido := 0;
+    v_sem := 0;
+
+    for v_linha in
+      select (l ->> 'quantidade')::numeric as qtd, l ->> 'unidade' as unidade, e as item
+        from public.doacoes d
+        cross join lateral jsonb_array_elements(d.itens) l
+        left join public.estoque e on e.id::text = l ->> 'estoque_id'
+       where d.campanha_id = p_campanha_id
+         and (l ->> 'estoque_id' = v_meta ->> 'estoque_id' or lower(trim(coalesce(e.nome, l ->> 'nome'))) = v_nome)
+    loop
+      if (v_linha.item).id is null then
+        -- item excluído do estoque: só conta se a unidade for a mesma
+        v_fator := case when lower(trim(coalesce(v_linha.unidade, ''))) = lower(trim(v_meta ->> 'unidade')) then 1 end;
+      else
+        v_fator := public.fator_conversao(v_linha.item, v_meta ->> 'unidade');
+      end if;
+
+      if v_fator is null or v_fator = 0 then
+        v_sem := v_sem + 1;
+      else
+        v_recebido := v_recebido + coalesce(v_linha.qtd, 0) / v_fator;
+      end if;
+    end loop;
+
+    v_metas := v_metas || jsonb_build_array(jsonb_build_object('recebido', round(v_recebido, 6), 'sem_conversao', v_sem));
+  end loop;
+
+  return jsonb_build_object(
+    'doacoes', (select count(*) from public.doacoes where campanha_id = p_campanha_id),
+    'metas', v_metas
+  );
+end;
+$$;
+
+grant execute on function public.progresso_campanha(text) to authenticated;
+
+-- Auditoria (seção 14)
+select public.auditar_tabela('campanhas');
+
+-- ==============================================================================
+-- 20. PLANEJAMENTO DE COMPRAS
+-- ==============================================================================
+-- Previsão de cestas por evento. O cálculo (modelo x cestas - estoque - lotes que
+-- vencem antes do evento) é feito no app; sem previsão salva, o app usa o número
+-- de convidados do evento.
+
+alter table public.eventos_entrega add column if not exists "cestas_previstas" integer check ("cestas_previstas" >= 0);
+
+-- ==============================================================================
+-- 21. UNIDADES DE MEDIDA
+-- ==============================================================================
+-- estoque.unidade passa a usar uma lista fixa (kg, g, L, mL, unidade, pacote,
+-- fardo). Para pacote/fardo, conteudo_qtd + conteudo_unidade dizem quanto vem em
+-- 1 (ex.: fardo de 10 kg). Os modelos de cesta podem pedir o item em outra
+-- unidade da mesma grandeza; registrar_montagem_cesta converte para a unidade
+-- do estoque com fator_conversao (o app só repete a conta para pré-validar).
+
+alter table public.estoque add column if not exists "conteudo_qtd" numeric check ("conteudo_qtd" > 0);
+alter table public.estoque add column if not exists "conteudo_unidade" text
+  check ("conteudo_unidade" in ('kg', 'g', 'L', 'mL', 'unidade'));
+
+-- Unidade canônica para um texto livre ('Quilos' -> 'kg'), ou null (espelho de
+-- normalizarUnidade no app)
+create or replace function public.unidade_canonica(p_texto text)
+returns text
+language sql
+immutable
+as $$
+  select case lower(trim(coalesce(p_texto, '')))
+    when 'kg' then 'kg' when 'kgs' then 'kg' when 'quilo' then 'kg' when 'quilos' then 'kg' when 'kilo' then 'kg'
+    when 'g' then 'g' when 'gr' then 'g' when 'grama' then 'g' when 'gramas' then 'g'
+    when 'l' then 'L' when 'lt' then 'L' when 'litro' then 'L' when 'litros' then 'L'
+    when 'ml' then 'mL'
+    when 'un' then 'unidade' when 'und' then 'unidade' when 'unid' then 'unidade'
+    when 'unidade' then 'unidade' when 'unidades' then 'unidade'
+    when 'pct' then 'pacote' when 'pacote' then 'pacote' when 'pacotes' then 'pacote'
+    when 'fardo' then 'fardo' when 'fardos' then 'fardo'
+  end
+$$;
+
+-- Quantas unidades do item equivalem a 1 p_unidade (ex.: fardo de 10 kg e
+-- p_unidade kg -> 0,1), ou null sem conversão possível (espelho de
+-- fatorConversao no app). Pacote/fardo convertem pelo conteúdo informado.
+create or replace function public.fator_conversao(p_item public.estoque, p_unidade text)
+returns numeric
+language plpgsql
+immutable
+as $$
+declare
+  v_u text := public.unidade_canonica(p_unidade);
+  v_e text := public.unidade_canonica(p_item.unidade);
+  v_conteudo text := public.unidade_canonica(p_item.conteudo_unidade);
+  v_grandeza_u text;
+  v_fator_u numeric;
+  v_grandeza_e text;
+  v_fator_e numeric;
+begin
+  if v_u is null or v_e is null then
+    return case when lower(trim(coalesce(p_unidade, ''))) = lower(trim(coalesce(p_item.unidade, ''))) then 1 end;
+  end if;
+  if v_u = v_e then
+    return 1;
+  end if;
+
+  -- grandeza e fator para a menor unidade da grandeza (g, mL, unidade)
+  v_grandeza_u := case v_u when 'kg' then 'massa' when 'g' then 'massa' when 'L' then 'volume'
+                           when 'mL' then 'volume' when 'unidade' then 'contagem' else v_u end;
+  v_fator_u := case when v_u in ('kg', 'L') then 1000 else 1 end;
+
+  if v_e in ('pacote', 'fardo') and coalesce(p_item.conteudo_qtd, 0) > 0
+     and v_conteudo is not null and v_conteudo not in ('pacote', 'fardo') then
+    v_e := v_conteudo;
+    v_fator_e := p_item.conteudo_qtd;
+  else
+    v_fator_e := 1;
+  end if;
+  v_grandeza_e := case v_e when 'kg' then 'massa' when 'g' then 'massa' when 'L' then 'volume'
+                           when 'mL' then 'volume' when 'unidade' then 'contagem' else v_e end;
+  v_fator_e := v_fator_e * case when v_e in ('kg', 'L') then 1000 else 1 end;
+
+  return case when v_grandeza_e = v_grandeza_u then v_fator_u / v_fator_e end;
+end;
+$$;
+
+-- Normaliza os textos livres mais comuns
+update public.estoque
+   set unidade = public.unidade_canonica(unidade)
+ where unidade not in ('kg', 'g', 'L', 'mL', 'unidade', 'pacote', 'fardo')
+   and public.unidade_canonica(unidade) is not null;
+
+-- Unidade fora da lista só é recusada quando a própria unidade é gravada: um
+-- CHECK (mesmo "not valid") vale em todo UPDATE e travaria as baixas de itens
+-- antigos ("caixa", "lata"...). Esses itens ficam marcados no app até alguém
+-- escolher a unidade.
+alter table public.estoque drop constraint if exists estoque_unidade_check;
+
+create or replace function public.estoque_valida_unidade()
+returns trigger
+language plpgsql
+as $$
+begin
+  if tg_op = 'INSERT' or new.unidade is distinct from old.unidade then
+    if new.unidade is null or new.unidade not in ('kg', 'g', 'L', 'mL', 'unidade', 'pacote', 'fardo') then
+      raise exception 'Unidade "%" não reconhecida. Use: kg, g, L, mL, unidade, pacote, fardo.', new.unidade;
+    end if;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists estoque_valida_unidade on public.estoque;
+create trigger estoque_valida_unidade
+  before insert or update of unidade on public.estoque
+  for each row execute function public.estoque_valida_unidade();
+
+-- ==============================================================================
+-- 22. CALENDÁRIO (.ics): REVISÕES E ASSINATURA
+-- ==============================================================================
+-- "revisao" vira o SEQUENCE e "updated_at" o LAST-MODIFIED do .ics: Google
+-- Agenda/Outlook só aplicam a mudança de um evento já importado quando o
+-- SEQUENCE sobe. Só conta mudança que aparece na agenda (data, título,
+-- descrição, status); a baixa de cestas do dia não gera revisão.
+
+alter table public.eventos_entrega add column if not exists "revisao" integer not null default 0;
+alter table public.eventos_entrega add column if not exists "updated_at" timestamp with time zone default now();
+
+create or replace function public.eventos_entrega_revisao()
+returns trigger
+language plpgsql
+as $$
+begin
+  if (new.date, new.title, new.description, new.status, new.cancel_reason)
+     is distinct from (old.date, old.title, old.description, old.status, old.cancel_reason) then
+    new.revisao := old.revisao + 1;
+    new.updated_at := now();
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists eventos_entrega_revisao on public.eventos_entrega;
+create trigger eventos_entrega_revisao before update on public.eventos_entrega
+  for each row execute function public.eventos_entrega_revisao();
+
+-- Assinatura: cada usuário tem um link secreto que o app de agenda consulta
+-- sozinho, sem login (GET em /rest/v1/rpc/calendario_ics?p_token=...).
+-- O feed traz os eventos das unidades do dono do link (admin: todas), dos
+-- últimos 90 dias em diante, inclusive cancelados para sumirem da agenda.
+-- Gerar um link novo invalida o anterior.
+create table if not exists public.calendario_assinaturas (
+  "user_id" uuid primary key references auth.users ("id") on delete cascade,
+  "token" text not null unique default replace(gen_random_uuid()::text, '-', ''),
+  "created_at" timestamp with time zone default now()
+);
+
+-- Sem políticas: a tabela só é lida/gravada pelas funções abaixo
+alter table public.calendario_assinaturas enable row level security;
+
+create or replace function public.calendario_link(p_renovar boolean default false)
+returns text
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_token text;
+begin
+  if auth.uid() is null then
+    raise exception 'Faça login para gerar o link do calendário.';
+  end if;
+
+  insert into public.calendario_assinaturas (user_id)
+  values (auth.uid())
+  on conflict (user_id) do update
+    set token = case when p_renovar then excluded.token else public.calendario_assinaturas.token end,
+        created_at = case when p_renovar then now() else public.calendario_assinaturas.created_at end
+  returning token into v_token;
+
+  return v_token;
+end;
+$$;
+
+-- O PostgREST responde com Content-Type text/calendar quando a função retorna
+-- este domínio
+do $$
+begin
+  create domain "text/calendar" as text;
+exception when duplicate_object then null;
+end;
+$$;
+
+create or replace function public.ics_texto(p text)
+returns text
+language sql
+immutable
+as $$
+  select regexp_replace(
+    replace(replace(replace(coalesce(p, ''), '\', '\\'), ';', '\;'), ',', '\,'),
+    E'\r?\n', '\\n', 'g'
+  );
+$$;
+
+-- Linha com no máximo 75 octetos; a continuação começa com espaço (igual a icsFold no app)
+create or replace function public.ics_linha(p text)
+returns text
+language plpgsql
+immutable
+as $$
+declare
+  c text;
+  v_out text := '';
+  v_cur text := '';
+  v_bytes integer := 0;
+  v_limite integer := 75;
+begin
+  foreach c in array regexp_split_to_array(p, '') loop
+    if v_bytes + octet_length(c) > v_limite then
+      v_out := v_out || v_cur || E'\r\n ';
+      v_cur := '';
+      v_bytes := 0;
+      v_limite := 74;
+    end if;
+    v_cur := v_cur || c;
+    v_bytes := v_bytes + octet_length(c);
+  end loop;
+  return v_out || v_cur || E'\r\n';
+end;
+$$;
+
+-- Mesmo formato de eventosToICS no app (UID, dia inteiro, SEQUENCE, LAST-MODIFIED)
+create or replace function public.calendario_ics(p_token text)
+returns "text/calendar"
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_user uuid;
+  v_admin boolean;
+  v_ev record;
+  v_desc text;
+  v_stamp text := to_char(now() at time zone 'utc', 'YYYYMMDD"T"HH24MISS"Z"');
+  v_ics text;
+begin
+  select a.user_id into v_user
+    from public.calendario_assinaturas a
+    join public.profiles p on p.id = a.user_id and not p.disabled
+   where a.token = p_token;
+  if v_user is null then
+    raise exception 'Link de calendário inválido.';
+  end if;
+  select exists (select 1 from public.profiles p where p.id = v_user and p.role = 'admin') into v_admin;
+
+  v_ics := public.ics_linha('BEGIN:VCALENDAR')
+        || public.ics_linha('VERSION:2.0')
+        || public.ics_linha('PRODID:-//ASA//Sistema de Gestao//PT-BR')
+        || public.ics_linha('CALSCALE:GREGORIAN')
+        || public.ics_linha('METHOD:PUBLISH')
+        || public.ics_linha('X-WR-CALNAME:Entregas ASA');
+
+  for v_ev in
+    select e.* from public.eventos_entrega e
+     where e.date >= to_char(current_date - 90, 'YYYY-MM-DD')
+       and (v_admin or exists (
+         select 1 from public.profiles_unidades pu where pu.user_id = v_user and pu.unidade_id = e.unidade_id
+       ))
+     order by e.date
+  loop
+    v_desc := concat_ws(E'\n',
+      nullif(v_ev.description, ''),
+      case when v_ev.status = 'cancelado' and coalesce(v_ev.cancel_reason, '') <> '' then 'Cancelado: ' || v_ev.cancel_reason end
+    );
+    v_ics := v_ics
+      || public.ics_linha('BEGIN:VEVENT')
+      || public.ics_linha('UID:' || v_ev.id || '@asa-eventos')
+      || public.ics_linha('DTSTAMP:' || v_stamp)
+      || public.ics_linha('DTSTART;VALUE=DATE:' || replace(v_ev.date, '-', ''))
+      || public.ics_linha('DTEND;VALUE=DATE:' || to_char(v_ev.date::date + 1, 'YYYYMMDD'))
+      || public.ics_linha('SUMMARY:' || public.ics_texto(v_ev.title))
+      || case when v_desc <> '' then public.ics_linha('DESCRIPTION:' || public.ics_texto(v_desc)) else '' end
+      || public.ics_linha('STATUS:' || case when v_ev.status = 'cancelado' then 'CANCELLED' else 'CONFIRMED' end)
+      || public.ics_linha('SEQUENCE:' || v_ev.revisao)
+      || public.ics_linha('LAST-MODIFIED:'
+           || to_char(coalesce(v_ev.updated_at, v_ev.created_at) at time zone 'utc', 'YYYYMMDD"T"HH24MISS"Z"'))
+      || public.ics_linha('TRANSP:TRANSPARENT')
+      || public.ics_linha('END:VEVENT');
+  end loop;
+
+  return v_ics || public.ics_linha('END:VCALENDAR');
+end;
+$$;
+
+grant execute on function public.calendario_link(boolean) to authenticated;
+-- anon: o app de agenda chama sem login, só com a anon key e o token
+grant execute on function public.calendario_ics(text) to anon, authenticated;